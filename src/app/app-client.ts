@@ -2,6 +2,7 @@ import * as pb from '../gen/app/v1/app_pb';
 import { type LogEntry } from '../gen/common/v1/common_pb';
 import { type RpcOptions } from '@improbable-eng/grpc-web/dist/typings/client.d';
 import { AppServiceClient } from '../gen/app/v1/app_pb_service';
+import { ViamResponseStream, streamStatusError } from '../responses';
 import { promisify } from '../utils';
 import type { StructType } from '../types';
 import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
@@ -105,7 +106,7 @@ export class AppClient {
     const response = await promisify<
       pb.GetUserIDByEmailRequest,
       pb.GetUserIDByEmailResponse
-    >(service.getUserIDByEmail.bind(service), req);
+    >(service.getUserIDByEmail.bind(service), req, {}, 'getUserIDByEmail');
     return response.getUserId();
   }
 
@@ -126,7 +127,7 @@ export class AppClient {
     const response = await promisify<
       pb.CreateOrganizationRequest,
       pb.CreateOrganizationResponse
-    >(service.createOrganization.bind(service), req);
+    >(service.createOrganization.bind(service), req, {}, 'createOrganization');
     const org = response.getOrganization();
     return org?.toObject();
   }
@@ -143,7 +144,7 @@ export class AppClient {
     const response = await promisify<
       pb.ListOrganizationsRequest,
       pb.ListOrganizationsResponse
-    >(service.listOrganizations.bind(service), req);
+    >(service.listOrganizations.bind(service), req, {}, 'listOrganizations');
     return response.toObject().organizationsList;
   }
 
@@ -163,7 +164,12 @@ export class AppClient {
     const response = await promisify<
       pb.GetOrganizationsWithAccessToLocationRequest,
       pb.GetOrganizationsWithAccessToLocationResponse
-    >(service.getOrganizationsWithAccessToLocation.bind(service), req);
+    >(
+      service.getOrganizationsWithAccessToLocation.bind(service),
+      req,
+      {},
+      'getOrganizationsWithAccessToLocation'
+    );
     return response.toObject().organizationIdentitiesList;
   }
 
@@ -183,7 +189,12 @@ export class AppClient {
     const response = await promisify<
       pb.ListOrganizationsByUserRequest,
       pb.ListOrganizationsByUserResponse
-    >(service.listOrganizationsByUser.bind(service), req);
+    >(
+      service.listOrganizationsByUser.bind(service),
+      req,
+      {},
+      'listOrganizationsByUser'
+    );
     return response.toObject().orgsList;
   }
 
@@ -203,7 +214,7 @@ export class AppClient {
     const response = await promisify<
       pb.GetOrganizationRequest,
       pb.GetOrganizationResponse
-    >(service.getOrganization.bind(service), req);
+    >(service.getOrganization.bind(service), req, {}, 'getOrganization');
     return response.getOrganization()?.toObject();
   }
 
@@ -223,7 +234,12 @@ export class AppClient {
     const response = await promisify<
       pb.GetOrganizationNamespaceAvailabilityRequest,
       pb.GetOrganizationNamespaceAvailabilityResponse
-    >(service.getOrganizationNamespaceAvailability.bind(service), req);
+    >(
+      service.getOrganizationNamespaceAvailability.bind(service),
+      req,
+      {},
+      'getOrganizationNamespaceAvailability'
+    );
     return response.getAvailable();
   }
 
@@ -263,7 +279,7 @@ export class AppClient {
     const response = await promisify<
       pb.UpdateOrganizationRequest,
       pb.UpdateOrganizationResponse
-    >(service.updateOrganization.bind(service), req);
+    >(service.updateOrganization.bind(service), req, {}, 'updateOrganization');
     return response.getOrganization()?.toObject();
   }
 
@@ -280,7 +296,7 @@ export class AppClient {
     await promisify<
       pb.DeleteOrganizationRequest,
       pb.DeleteOrganizationResponse
-    >(service.deleteOrganization.bind(service), req);
+    >(service.deleteOrganization.bind(service), req, {}, 'deleteOrganization');
   }
 
   /**
@@ -300,7 +316,12 @@ export class AppClient {
     const response = await promisify<
       pb.ListOrganizationMembersRequest,
       pb.ListOrganizationMembersResponse
-    >(service.listOrganizationMembers.bind(service), req);
+    >(
+      service.listOrganizationMembers.bind(service),
+      req,
+      {},
+      'listOrganizationMembers'
+    );
     return response.toObject();
   }
 
@@ -330,7 +351,12 @@ export class AppClient {
     const response = await promisify<
       pb.CreateOrganizationInviteRequest,
       pb.CreateOrganizationInviteResponse
-    >(service.createOrganizationInvite.bind(service), req);
+    >(
+      service.createOrganizationInvite.bind(service),
+      req,
+      {},
+      'createOrganizationInvite'
+    );
     return response.getInvite()?.toObject();
   }
 
@@ -359,7 +385,12 @@ export class AppClient {
     const response = await promisify<
       pb.UpdateOrganizationInviteAuthorizationsRequest,
       pb.UpdateOrganizationInviteAuthorizationsResponse
-    >(service.updateOrganizationInviteAuthorizations.bind(service), req);
+    >(
+      service.updateOrganizationInviteAuthorizations.bind(service),
+      req,
+      {},
+      'updateOrganizationInviteAuthorizations'
+    );
     return response.getInvite()?.toObject();
   }
 
@@ -378,7 +409,12 @@ export class AppClient {
     await promisify<
       pb.DeleteOrganizationMemberRequest,
       pb.DeleteOrganizationMemberResponse
-    >(service.deleteOrganizationMember.bind(service), req);
+    >(
+      service.deleteOrganizationMember.bind(service),
+      req,
+      {},
+      'deleteOrganizationMember'
+    );
   }
 
   /**
@@ -396,7 +432,12 @@ export class AppClient {
     await promisify<
       pb.DeleteOrganizationInviteRequest,
       pb.DeleteOrganizationInviteResponse
-    >(service.deleteOrganizationInvite.bind(service), req);
+    >(
+      service.deleteOrganizationInvite.bind(service),
+      req,
+      {},
+      'deleteOrganizationInvite'
+    );
   }
 
   /**
@@ -418,7 +459,12 @@ export class AppClient {
     const response = await promisify<
       pb.ResendOrganizationInviteRequest,
       pb.ResendOrganizationInviteResponse
-    >(service.resendOrganizationInvite.bind(service), req);
+    >(
+      service.resendOrganizationInvite.bind(service),
+      req,
+      {},
+      'resendOrganizationInvite'
+    );
     return response.getInvite()?.toObject();
   }
 
@@ -447,7 +493,7 @@ export class AppClient {
     const response = await promisify<
       pb.CreateLocationRequest,
       pb.CreateLocationResponse
-    >(service.createLocation.bind(service), req);
+    >(service.createLocation.bind(service), req, {}, 'createLocation');
     return response.getLocation()?.toObject();
   }
 
@@ -465,7 +511,7 @@ export class AppClient {
     const response = await promisify<
       pb.GetLocationRequest,
       pb.GetLocationResponse
-    >(service.getLocation.bind(service), req);
+    >(service.getLocation.bind(service), req, {}, 'getLocation');
     return response.getLocation()?.toObject();
   }
 
@@ -501,7 +547,7 @@ export class AppClient {
     const response = await promisify<
       pb.UpdateLocationRequest,
       pb.UpdateLocationResponse
-    >(service.updateLocation.bind(service), req);
+    >(service.updateLocation.bind(service), req, {}, 'updateLocation');
     return response.getLocation()?.toObject();
   }
 
@@ -517,7 +563,9 @@ export class AppClient {
 
     await promisify<pb.DeleteLocationRequest, pb.DeleteLocationResponse>(
       service.deleteLocation.bind(service),
-      req
+      req,
+      {},
+      'deleteLocation'
     );
   }
 
@@ -535,7 +583,7 @@ export class AppClient {
     const response = await promisify<
       pb.ListLocationsRequest,
       pb.ListLocationsResponse
-    >(service.listLocations.bind(service), req);
+    >(service.listLocations.bind(service), req, {}, 'listLocations');
     return response.toObject().locationsList;
   }
 
@@ -553,7 +601,9 @@ export class AppClient {
 
     await promisify<pb.ShareLocationRequest, pb.ShareLocationResponse>(
       service.shareLocation.bind(service),
-      req
+      req,
+      {},
+      'shareLocation'
     );
   }
 
@@ -571,7 +621,9 @@ export class AppClient {
 
     await promisify<pb.UnshareLocationRequest, pb.UnshareLocationResponse>(
       service.unshareLocation.bind(service),
-      req
+      req,
+      {},
+      'unshareLocation'
     );
   }
 
@@ -591,7 +643,7 @@ export class AppClient {
     const response = await promisify<
       pb.LocationAuthRequest,
       pb.LocationAuthResponse
-    >(service.locationAuth.bind(service), req);
+    >(service.locationAuth.bind(service), req, {}, 'locationAuth');
     return response.toObject().auth;
   }
 
@@ -611,7 +663,12 @@ export class AppClient {
     const response = await promisify<
       pb.CreateLocationSecretRequest,
       pb.CreateLocationSecretResponse
-    >(service.createLocationSecret.bind(service), req);
+    >(
+      service.createLocationSecret.bind(service),
+      req,
+      {},
+      'createLocationSecret'
+    );
     return response.toObject().auth;
   }
 
@@ -630,7 +687,12 @@ export class AppClient {
     await promisify<
       pb.DeleteLocationSecretRequest,
       pb.DeleteLocationSecretResponse
-    >(service.deleteLocationSecret.bind(service), req);
+    >(
+      service.deleteLocationSecret.bind(service),
+      req,
+      {},
+      'deleteLocationSecret'
+    );
   }
 
   /**
@@ -646,7 +708,9 @@ export class AppClient {
 
     const response = await promisify<pb.GetRobotRequest, pb.GetRobotResponse>(
       service.getRobot.bind(service),
-      req
+      req,
+      {},
+      'getRobot'
     );
     return response.toObject().robot;
   }
@@ -667,7 +731,12 @@ export class AppClient {
     const response = await promisify<
       pb.GetRoverRentalRobotsRequest,
       pb.GetRoverRentalRobotsResponse
-    >(service.getRoverRentalRobots.bind(service), req);
+    >(
+      service.getRoverRentalRobots.bind(service),
+      req,
+      {},
+      'getRoverRentalRobots'
+    );
     return response.toObject().robotsList;
   }
 
@@ -685,7 +754,7 @@ export class AppClient {
     const response = await promisify<
       pb.GetRobotPartsRequest,
       pb.GetRobotPartsResponse
-    >(service.getRobotParts.bind(service), req);
+    >(service.getRobotParts.bind(service), req, {}, 'getRobotParts');
     return response.toObject().partsList;
   }
 
@@ -703,7 +772,7 @@ export class AppClient {
     const response = await promisify<
       pb.GetRobotPartRequest,
       pb.GetRobotPartResponse
-    >(service.getRobotPart.bind(service), req);
+    >(service.getRobotPart.bind(service), req, {}, 'getRobotPart');
     return response.toObject();
   }
 
@@ -740,7 +809,7 @@ export class AppClient {
     const response = await promisify<
       pb.GetRobotPartLogsRequest,
       pb.GetRobotPartLogsResponse
-    >(service.getRobotPartLogs.bind(service), req);
+    >(service.getRobotPartLogs.bind(service), req, {}, 'getRobotPartLogs');
     return response.toObject();
   }
 
@@ -775,34 +844,56 @@ export class AppClient {
       }
     });
 
+    const errorOptions = { method: 'tailRobotPartLogs' };
     return new Promise<void>((resolve, reject) => {
       stream.on('status', (status) => {
         if (status.code !== 0) {
-          const error = {
-            message: status.details,
-            code: status.code,
-            metadata: status.metadata,
-          };
-          reject(error);
+          reject(streamStatusError(status, errorOptions));
         }
       });
       stream.on('end', (end) => {
-        if (end === undefined) {
-          const error = { message: 'Stream ended without a status code' };
-          reject(error);
-        } else if (end.code !== 0) {
-          const error = {
-            message: end.details,
-            code: end.code,
-            metadata: end.metadata,
-          };
-          reject(error);
+        if (end === undefined || end.code !== 0) {
+          reject(streamStatusError(end, errorOptions));
         }
         resolve();
       });
     });
   }
 
+  /**
+   * Get a stream of log entries for a specific robot part that can be consumed
+   * with `for await`. Each log entry is emitted separately.
+   *
+   * @param id The ID of the requested robot part
+   * @param filter Optional string to filter logs on
+   * @param errorsOnly Optional bool to indicate whether or not only error-level
+   *   logs should be returned. Defaults to true
+   */
+  tailRobotPartLogsStream(id: string, filter?: string, errorsOnly = true) {
+    const { service } = this;
+    const req = new pb.TailRobotPartLogsRequest();
+    req.setId(id);
+    req.setErrorsOnly(errorsOnly);
+    if (filter) {
+      req.setFilter(filter);
+    }
+
+    const stream = service.tailRobotPartLogs(req);
+    const logs = new ViamResponseStream<LogEntry.AsObject>(stream);
+    stream.on('data', (response) => {
+      for (const log of response.toObject().logsList) {
+        logs.emit('data', log);
+      }
+    });
+    stream.on('status', (status) => {
+      logs.emit('status', status);
+    });
+    stream.on('end', (end) => {
+      logs.emit('end', end);
+    });
+    return logs;
+  }
+
   /**
    * Get a list containing the history of a robot part.
    *
@@ -819,7 +910,12 @@ export class AppClient {
     const response = await promisify<
       pb.GetRobotPartHistoryRequest,
       pb.GetRobotPartHistoryResponse
-    >(service.getRobotPartHistory.bind(service), req);
+    >(
+      service.getRobotPartHistory.bind(service),
+      req,
+      {},
+      'getRobotPartHistory'
+    );
     return response.toObject().historyList;
   }
 
@@ -845,7 +941,7 @@ export class AppClient {
     const response = await promisify<
       pb.UpdateRobotPartRequest,
       pb.UpdateRobotPartResponse
-    >(service.updateRobotPart.bind(service), req);
+    >(service.updateRobotPart.bind(service), req, {}, 'updateRobotPart');
     return response.toObject().part;
   }
 
@@ -865,7 +961,7 @@ export class AppClient {
     const response = await promisify<
       pb.NewRobotPartRequest,
       pb.NewRobotPartResponse
-    >(service.newRobotPart.bind(service), req);
+    >(service.newRobotPart.bind(service), req, {}, 'newRobotPart');
     return response.getPartId();
   }
 
@@ -881,7 +977,9 @@ export class AppClient {
 
     await promisify<pb.DeleteRobotPartRequest, pb.DeleteRobotPartResponse>(
       service.deleteRobotPart.bind(service),
-      req
+      req,
+      {},
+      'deleteRobotPart'
     );
   }
 
@@ -901,7 +999,7 @@ export class AppClient {
     const response = await promisify<
       pb.GetRobotAPIKeysRequest,
       pb.GetRobotAPIKeysResponse
-    >(service.getRobotAPIKeys.bind(service), req);
+    >(service.getRobotAPIKeys.bind(service), req, {}, 'getRobotAPIKeys');
     return response.toObject().apiKeysList;
   }
 
@@ -917,7 +1015,9 @@ export class AppClient {
 
     await promisify<pb.MarkPartAsMainRequest, pb.MarkPartAsMainResponse>(
       service.markPartAsMain.bind(service),
-      req
+      req,
+      {},
+      'markPartAsMain'
     );
   }
 
@@ -934,7 +1034,7 @@ export class AppClient {
     await promisify<
       pb.MarkPartForRestartRequest,
       pb.MarkPartForRestartResponse
-    >(service.markPartForRestart.bind(service), req);
+    >(service.markPartForRestart.bind(service), req, {}, 'markPartForRestart');
   }
 
   /**
@@ -953,7 +1053,12 @@ export class AppClient {
     const response = await promisify<
       pb.CreateRobotPartSecretRequest,
       pb.CreateRobotPartSecretResponse
-    >(service.createRobotPartSecret.bind(service), req);
+    >(
+      service.createRobotPartSecret.bind(service),
+      req,
+      {},
+      'createRobotPartSecret'
+    );
     return response.toObject().part;
   }
 
@@ -972,7 +1077,12 @@ export class AppClient {
     await promisify<
       pb.DeleteRobotPartSecretRequest,
       pb.DeleteRobotPartSecretResponse
-    >(service.deleteRobotPartSecret.bind(service), req);
+    >(
+      service.deleteRobotPartSecret.bind(service),
+      req,
+      {},
+      'deleteRobotPartSecret'
+    );
   }
 
   /**
@@ -989,7 +1099,7 @@ export class AppClient {
     const response = await promisify<
       pb.ListRobotsRequest,
       pb.ListRobotsResponse
-    >(service.listRobots.bind(service), req);
+    >(service.listRobots.bind(service), req, {}, 'listRobots');
     return response.toObject().robotsList;
   }
 
@@ -1008,7 +1118,9 @@ export class AppClient {
 
     const response = await promisify<pb.NewRobotRequest, pb.NewRobotResponse>(
       service.newRobot.bind(service),
-      req
+      req,
+      {},
+      'newRobot'
     );
     return response.getId();
   }
@@ -1035,7 +1147,7 @@ export class AppClient {
     const response = await promisify<
       pb.UpdateRobotRequest,
       pb.UpdateRobotResponse
-    >(service.updateRobot.bind(service), req);
+    >(service.updateRobot.bind(service), req, {}, 'updateRobot');
     return response.toObject().robot;
   }
 
@@ -1051,7 +1163,9 @@ export class AppClient {
 
     await promisify<pb.DeleteRobotRequest, pb.DeleteRobotResponse>(
       service.deleteRobot.bind(service),
-      req
+      req,
+      {},
+      'deleteRobot'
     );
   }
 
@@ -1083,7 +1197,7 @@ export class AppClient {
     const response = await promisify<
       pb.ListFragmentsRequest,
       pb.ListFragmentsResponse
-    >(service.listFragments.bind(service), req);
+    >(service.listFragments.bind(service), req, {}, 'listFragments');
     return response.toObject().fragmentsList;
   }
 
@@ -1101,7 +1215,7 @@ export class AppClient {
     const response = await promisify<
       pb.GetFragmentRequest,
       pb.GetFragmentResponse
-    >(service.getFragment.bind(service), req);
+    >(service.getFragment.bind(service), req, {}, 'getFragment');
     return response.toObject().fragment;
   }
 
@@ -1127,7 +1241,7 @@ export class AppClient {
     const response = await promisify<
       pb.CreateFragmentRequest,
       pb.CreateFragmentResponse
-    >(service.createFragment.bind(service), req);
+    >(service.createFragment.bind(service), req, {}, 'createFragment');
     return response.toObject().fragment;
   }
 
@@ -1169,7 +1283,7 @@ export class AppClient {
     const response = await promisify<
       pb.UpdateFragmentRequest,
       pb.UpdateFragmentResponse
-    >(service.updateFragment.bind(service), req);
+    >(service.updateFragment.bind(service), req, {}, 'updateFragment');
     return response.toObject().fragment;
   }
 
@@ -1185,7 +1299,9 @@ export class AppClient {
 
     await promisify<pb.DeleteFragmentRequest, pb.DeleteFragmentResponse>(
       service.deleteFragment.bind(service),
-      req
+      req,
+      {},
+      'deleteFragment'
     );
   }
 
@@ -1220,7 +1336,9 @@ export class AppClient {
 
     await promisify<pb.AddRoleRequest, pb.AddRoleResponse>(
       service.addRole.bind(service),
-      req
+      req,
+      {},
+      'addRole'
     );
   }
 
@@ -1255,7 +1373,9 @@ export class AppClient {
 
     await promisify<pb.RemoveRoleRequest, pb.RemoveRoleResponse>(
       service.removeRole.bind(service),
-      req
+      req,
+      {},
+      'removeRole'
     );
   }
 
@@ -1273,7 +1393,9 @@ export class AppClient {
 
     await promisify<pb.ChangeRoleRequest, pb.ChangeRoleResponse>(
       service.changeRole.bind(service),
-      req
+      req,
+      {},
+      'changeRole'
     );
   }
 
@@ -1299,7 +1421,7 @@ export class AppClient {
     const response = await promisify<
       pb.ListAuthorizationsRequest,
       pb.ListAuthorizationsResponse
-    >(service.listAuthorizations.bind(service), req);
+    >(service.listAuthorizations.bind(service), req, {}, 'listAuthorizations');
     return response.toObject().authorizationsList;
   }
 
@@ -1319,7 +1441,7 @@ export class AppClient {
     const response = await promisify<
       pb.CheckPermissionsRequest,
       pb.CheckPermissionsResponse
-    >(service.checkPermissions.bind(service), req);
+    >(service.checkPermissions.bind(service), req, {}, 'checkPermissions');
     return response.toObject().authorizedPermissionsList;
   }
 
@@ -1339,7 +1461,7 @@ export class AppClient {
     const response = await promisify<
       pb.GetRegistryItemRequest,
       pb.GetRegistryItemResponse
-    >(service.getRegistryItem.bind(service), req);
+    >(service.getRegistryItem.bind(service), req, {}, 'getRegistryItem');
     return response.toObject().item;
   }
 
@@ -1364,7 +1486,7 @@ export class AppClient {
     await promisify<
       pb.CreateRegistryItemRequest,
       pb.CreateRegistryItemResponse
-    >(service.createRegistryItem.bind(service), req);
+    >(service.createRegistryItem.bind(service), req, {}, 'createRegistryItem');
   }
 
   /**
@@ -1391,7 +1513,7 @@ export class AppClient {
     await promisify<
       pb.UpdateRegistryItemRequest,
       pb.UpdateRegistryItemResponse
-    >(service.updateRegistryItem.bind(service), req);
+    >(service.updateRegistryItem.bind(service), req, {}, 'updateRegistryItem');
   }
 
   /**
@@ -1448,7 +1570,7 @@ export class AppClient {
     const response = await promisify<
       pb.ListRegistryItemsRequest,
       pb.ListRegistryItemsResponse
-    >(service.listRegistryItems.bind(service), req);
+    >(service.listRegistryItems.bind(service), req, {}, 'listRegistryItems');
     return response.toObject().itemsList;
   }
 
@@ -1465,7 +1587,7 @@ export class AppClient {
     await promisify<
       pb.DeleteRegistryItemRequest,
       pb.DeleteRegistryItemResponse
-    >(service.deleteRegistryItem.bind(service), req);
+    >(service.deleteRegistryItem.bind(service), req, {}, 'deleteRegistryItem');
   }
 
   /**
@@ -1487,7 +1609,7 @@ export class AppClient {
     const response = await promisify<
       pb.CreateModuleRequest,
       pb.CreateModuleResponse
-    >(service.createModule.bind(service), req);
+    >(service.createModule.bind(service), req, {}, 'createModule');
     return response.toObject();
   }
 
@@ -1522,7 +1644,7 @@ export class AppClient {
     const response = await promisify<
       pb.UpdateModuleRequest,
       pb.UpdateModuleResponse
-    >(service.updateModule.bind(service), req);
+    >(service.updateModule.bind(service), req, {}, 'updateModule');
     return response.getUrl();
   }
 
@@ -1539,7 +1661,9 @@ export class AppClient {
 
     const response = await promisify<pb.GetModuleRequest, pb.GetModuleResponse>(
       service.getModule.bind(service),
-      req
+      req,
+      {},
+      'getModule'
     );
     return response.toObject().module;
   }
@@ -1558,7 +1682,7 @@ export class AppClient {
     const response = await promisify<
       pb.ListModulesRequest,
       pb.ListModulesResponse
-    >(service.listModules.bind(service), req);
+    >(service.listModules.bind(service), req, {}, 'listModules');
     return response.toObject().modulesList;
   }
 
@@ -1582,7 +1706,9 @@ export class AppClient {
 
     const response = await promisify<pb.CreateKeyRequest, pb.CreateKeyResponse>(
       service.createKey.bind(service),
-      req
+      req,
+      {},
+      'createKey'
     );
     return response.toObject();
   }
@@ -1599,7 +1725,9 @@ export class AppClient {
 
     await promisify<pb.DeleteKeyRequest, pb.DeleteKeyResponse>(
       service.deleteKey.bind(service),
-      req
+      req,
+      {},
+      'deleteKey'
     );
   }
 
@@ -1618,7 +1746,9 @@ export class AppClient {
 
     const response = await promisify<pb.ListKeysRequest, pb.ListKeysResponse>(
       service.listKeys.bind(service),
-      req
+      req,
+      {},
+      'listKeys'
     );
     return response.toObject().apiKeysList;
   }
@@ -1636,7 +1766,9 @@ export class AppClient {
 
     const response = await promisify<pb.RotateKeyRequest, pb.RotateKeyResponse>(
       service.rotateKey.bind(service),
-      req
+      req,
+      {},
+      'rotateKey'
     );
     return response.toObject();
   }
@@ -1657,7 +1789,12 @@ export class AppClient {
     const response = await promisify<
       pb.CreateKeyFromExistingKeyAuthorizationsRequest,
       pb.CreateKeyFromExistingKeyAuthorizationsResponse
-    >(service.createKeyFromExistingKeyAuthorizations.bind(service), req);
+    >(
+      service.createKeyFromExistingKeyAuthorizations.bind(service),
+      req,
+      {},
+      'createKeyFromExistingKeyAuthorizations'
+    );
     return response.toObject();
   }
 }
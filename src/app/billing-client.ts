@@ -1,6 +1,7 @@
 import { type RpcOptions } from '@improbable-eng/grpc-web/dist/typings/client.d';
 import { BillingServiceClient } from '../gen/app/v1/billing_pb_service';
 import pb from '../gen/app/v1/billing_pb';
+import { mapResponseStream, streamStatusError } from '../responses';
 import { promisify } from '../utils';
 
 type GetCurrentMonthUsageResponse =
@@ -25,7 +26,12 @@ export class BillingClient {
     const response = await promisify<
       pb.GetCurrentMonthUsageRequest,
       pb.GetCurrentMonthUsageResponse
-    >(service.getCurrentMonthUsage.bind(service), req);
+    >(
+      service.getCurrentMonthUsage.bind(service),
+      req,
+      {},
+      'getCurrentMonthUsage'
+    );
 
     const result: GetCurrentMonthUsageResponse = response.toObject();
     result.start = response.getStartDate()?.toDate();
@@ -42,7 +48,12 @@ export class BillingClient {
     const response = await promisify<
       pb.GetOrgBillingInformationRequest,
       pb.GetOrgBillingInformationResponse
-    >(service.getOrgBillingInformation.bind(service), req);
+    >(
+      service.getOrgBillingInformation.bind(service),
+      req,
+      {},
+      'getOrgBillingInformation'
+    );
     return response.toObject();
   }
 
@@ -55,7 +66,7 @@ export class BillingClient {
     const response = await promisify<
       pb.GetInvoicesSummaryRequest,
       pb.GetInvoicesSummaryResponse
-    >(service.getInvoicesSummary.bind(service), req);
+    >(service.getInvoicesSummary.bind(service), req, {}, 'getInvoicesSummary');
     return response.toObject();
   }
 
@@ -74,35 +85,43 @@ export class BillingClient {
       chunks.push(chunk);
     });
 
+    const errorOptions = { method: 'getInvoicePdf' };
     return new Promise<Uint8Array>((resolve, reject) => {
       stream.on('status', (status) => {
         if (status.code !== 0) {
-          const error = {
-            message: status.details,
-            code: status.code,
-            metadata: status.metadata,
-          };
-          reject(error);
+          reject(streamStatusError(status, errorOptions));
         }
       });
 
       stream.on('end', (end) => {
-        if (end === undefined) {
-          const error = { message: 'Stream ended without a status code' };
-          reject(error);
-        } else if (end.code !== 0) {
-          const error = {
-            message: end.details,
-            code: end.code,
-            metadata: end.metadata,
-          };
-          reject(error);
+        if (end === undefined || end.code !== 0) {
+          reject(streamStatusError(end, errorOptions));
         }
         const arr = concatArrayU8(chunks);
         resolve(arr);
       });
     });
   }
+
+  /**
+   * Stream the chunks of an invoice PDF as they arrive instead of waiting for
+   * the whole file, as `getInvoicePdf` does.
+   *
+   * @param id The ID of the invoice
+   * @param orgId The ID of the organization the invoice belongs to
+   * @returns A stream of the PDF's chunks
+   */
+  getInvoicePdfStream(id: string, orgId: string) {
+    const { service } = this;
+
+    const req = new pb.GetInvoicePdfRequest();
+    req.setId(id);
+    req.setOrgId(orgId);
+
+    return mapResponseStream(service.getInvoicePdf(req), (response) =>
+      response.getChunk_asU8()
+    );
+  }
 }
 
 const concatArrayU8 = (arrays: Uint8Array[]) => {
@@ -60,7 +60,7 @@ export class DataClient {
     const response = await promisify<
       dataPb.TabularDataBySQLRequest,
       dataPb.TabularDataBySQLResponse
-    >(service.tabularDataBySQL.bind(service), req);
+    >(service.tabularDataBySQL.bind(service), req, {}, 'tabularDataBySQL');
     const dataList = response.getDataList();
     return dataList.map((struct) => struct.toJavaScript());
   }
@@ -82,7 +82,7 @@ export class DataClient {
     const response = await promisify<
       dataPb.TabularDataByMQLRequest,
       dataPb.TabularDataByMQLResponse
-    >(service.tabularDataByMQL.bind(service), req);
+    >(service.tabularDataByMQL.bind(service), req, {}, 'tabularDataByMQL');
     const dataList = response.getDataList();
     return dataList.map((struct) => struct.toJavaScript());
   }
@@ -138,7 +138,12 @@ export class DataClient {
     const response = await promisify<
       dataPb.TabularDataByFilterRequest,
       dataPb.TabularDataByFilterResponse
-    >(service.tabularDataByFilter.bind(service), req);
+    >(
+      service.tabularDataByFilter.bind(service),
+      req,
+      {},
+      'tabularDataByFilter'
+    );
     const mdListLength = response.getMetadataList().length;
 
     const dataArray: TabularData[] = [];
@@ -221,7 +226,7 @@ export class DataClient {
     const response = await promisify<
       dataPb.BinaryDataByFilterRequest,
       dataPb.BinaryDataByFilterResponse
-    >(service.binaryDataByFilter.bind(service), req);
+    >(service.binaryDataByFilter.bind(service), req, {}, 'binaryDataByFilter');
     dataArray.push(...response.getDataList().map((data) => data.toObject()));
 
     return {
@@ -257,7 +262,7 @@ export class DataClient {
     const response = await promisify<
       dataPb.BinaryDataByIDsRequest,
       dataPb.BinaryDataByIDsResponse
-    >(service.binaryDataByIDs.bind(service), req);
+    >(service.binaryDataByIDs.bind(service), req, {}, 'binaryDataByIDs');
     return response.toObject().dataList;
   }
 
@@ -281,7 +286,7 @@ export class DataClient {
     const response = await promisify<
       dataPb.DeleteTabularDataRequest,
       dataPb.DeleteTabularDataResponse
-    >(service.deleteTabularData.bind(service), req);
+    >(service.deleteTabularData.bind(service), req, {}, 'deleteTabularData');
     return response.getDeletedCount();
   }
 
@@ -306,7 +311,12 @@ export class DataClient {
     const response = await promisify<
       dataPb.DeleteBinaryDataByFilterRequest,
       dataPb.DeleteTabularDataResponse
-    >(service.deleteBinaryDataByFilter.bind(service), req);
+    >(
+      service.deleteBinaryDataByFilter.bind(service),
+      req,
+      {},
+      'deleteBinaryDataByFilter'
+    );
     return response.getDeletedCount();
   }
 
@@ -335,7 +345,12 @@ export class DataClient {
     const response = await promisify<
       dataPb.DeleteBinaryDataByIDsRequest,
       dataPb.DeleteBinaryDataByIDsResponse
-    >(service.deleteBinaryDataByIDs.bind(service), req);
+    >(
+      service.deleteBinaryDataByIDs.bind(service),
+      req,
+      {},
+      'deleteBinaryDataByIDs'
+    );
     return response.getDeletedCount();
   }
 
@@ -366,7 +381,12 @@ export class DataClient {
     await promisify<
       dataPb.AddTagsToBinaryDataByIDsRequest,
       dataPb.AddTagsToBinaryDataByIDsResponse
-    >(service.addTagsToBinaryDataByIDs.bind(service), req);
+    >(
+      service.addTagsToBinaryDataByIDs.bind(service),
+      req,
+      {},
+      'addTagsToBinaryDataByIDs'
+    );
   }
 
   /**
@@ -386,7 +406,12 @@ export class DataClient {
     await promisify<
       dataPb.AddTagsToBinaryDataByFilterRequest,
       dataPb.AddTagsToBinaryDataByFilterResponse
-    >(service.addTagsToBinaryDataByFilter.bind(service), req);
+    >(
+      service.addTagsToBinaryDataByFilter.bind(service),
+      req,
+      {},
+      'addTagsToBinaryDataByFilter'
+    );
   }
 
   /**
@@ -417,7 +442,12 @@ export class DataClient {
     const response = await promisify<
       dataPb.RemoveTagsFromBinaryDataByIDsRequest,
       dataPb.RemoveTagsFromBinaryDataByIDsResponse
-    >(service.removeTagsFromBinaryDataByIDs.bind(service), req);
+    >(
+      service.removeTagsFromBinaryDataByIDs.bind(service),
+      req,
+      {},
+      'removeTagsFromBinaryDataByIDs'
+    );
     return response.getDeletedCount();
   }
 
@@ -443,7 +473,12 @@ export class DataClient {
     const response = await promisify<
       dataPb.RemoveTagsFromBinaryDataByFilterRequest,
       dataPb.RemoveTagsFromBinaryDataByFilterResponse
-    >(service.removeTagsFromBinaryDataByFilter.bind(service), req);
+    >(
+      service.removeTagsFromBinaryDataByFilter.bind(service),
+      req,
+      {},
+      'removeTagsFromBinaryDataByFilter'
+    );
     return response.getDeletedCount();
   }
 
@@ -463,7 +498,7 @@ export class DataClient {
     const response = await promisify<
       dataPb.TagsByFilterRequest,
       dataPb.TagsByFilterResponse
-    >(service.tagsByFilter.bind(service), req);
+    >(service.tagsByFilter.bind(service), req, {}, 'tagsByFilter');
     return response.getTagsList();
   }
 
@@ -508,7 +543,12 @@ export class DataClient {
     const response = await promisify<
       dataPb.AddBoundingBoxToImageByIDRequest,
       dataPb.AddBoundingBoxToImageByIDResponse
-    >(service.addBoundingBoxToImageByID.bind(service), req);
+    >(
+      service.addBoundingBoxToImageByID.bind(service),
+      req,
+      {},
+      'addBoundingBoxToImageByID'
+    );
     return response.getBboxId();
   }
 
@@ -533,7 +573,12 @@ export class DataClient {
     await promisify<
       dataPb.RemoveBoundingBoxFromImageByIDRequest,
       dataPb.RemoveBoundingBoxFromImageByIDResponse
-    >(service.removeBoundingBoxFromImageByID.bind(service), req);
+    >(
+      service.removeBoundingBoxFromImageByID.bind(service),
+      req,
+      {},
+      'removeBoundingBoxFromImageByID'
+    );
   }
 
   /**
@@ -552,7 +597,12 @@ export class DataClient {
     const response = await promisify<
       dataPb.BoundingBoxLabelsByFilterRequest,
       dataPb.BoundingBoxLabelsByFilterResponse
-    >(service.boundingBoxLabelsByFilter.bind(service), req);
+    >(
+      service.boundingBoxLabelsByFilter.bind(service),
+      req,
+      {},
+      'boundingBoxLabelsByFilter'
+    );
     return response.getLabelsList();
   }
 
@@ -574,7 +624,12 @@ export class DataClient {
     await promisify<
       dataPb.ConfigureDatabaseUserRequest,
       dataPb.ConfigureDatabaseUserResponse
-    >(service.configureDatabaseUser.bind(service), req);
+    >(
+      service.configureDatabaseUser.bind(service),
+      req,
+      {},
+      'configureDatabaseUser'
+    );
   }
 
   /**
@@ -592,7 +647,12 @@ export class DataClient {
     const response = await promisify<
       dataPb.GetDatabaseConnectionRequest,
       dataPb.GetDatabaseConnectionResponse
-    >(service.getDatabaseConnection.bind(service), req);
+    >(
+      service.getDatabaseConnection.bind(service),
+      req,
+      {},
+      'getDatabaseConnection'
+    );
     return response.getHostname();
   }
 
@@ -622,7 +682,12 @@ export class DataClient {
     await promisify<
       dataPb.AddBinaryDataToDatasetByIDsRequest,
       dataPb.AddBinaryDataToDatasetByIDsResponse
-    >(service.addBinaryDataToDatasetByIDs.bind(service), req);
+    >(
+      service.addBinaryDataToDatasetByIDs.bind(service),
+      req,
+      {},
+      'addBinaryDataToDatasetByIDs'
+    );
   }
 
   /**
@@ -651,7 +716,12 @@ export class DataClient {
     await promisify<
       dataPb.RemoveBinaryDataFromDatasetByIDsRequest,
       dataPb.RemoveBinaryDataFromDatasetByIDsResponse
-    >(service.removeBinaryDataFromDatasetByIDs.bind(service), req);
+    >(
+      service.removeBinaryDataFromDatasetByIDs.bind(service),
+      req,
+      {},
+      'removeBinaryDataFromDatasetByIDs'
+    );
   }
 
   /**
@@ -671,7 +741,7 @@ export class DataClient {
     const response = await promisify<
       datasetPb.CreateDatasetRequest,
       datasetPb.CreateDatasetResponse
-    >(service.createDataset.bind(service), req);
+    >(service.createDataset.bind(service), req, {}, 'createDataset');
     return response.getId();
   }
 
@@ -689,7 +759,7 @@ export class DataClient {
     await promisify<
       datasetPb.DeleteDatasetRequest,
       datasetPb.DeleteDatasetResponse
-    >(service.deleteDataset.bind(service), req);
+    >(service.deleteDataset.bind(service), req, {}, 'deleteDataset');
   }
 
   /**
@@ -708,7 +778,7 @@ export class DataClient {
     await promisify<
       datasetPb.RenameDatasetRequest,
       datasetPb.RenameDatasetResponse
-    >(service.renameDataset.bind(service), req);
+    >(service.renameDataset.bind(service), req, {}, 'renameDataset');
   }
 
   /**
@@ -726,7 +796,12 @@ export class DataClient {
     const response = await promisify<
       datasetPb.ListDatasetsByOrganizationIDRequest,
       datasetPb.ListDatasetsByOrganizationIDResponse
-    >(service.listDatasetsByOrganizationID.bind(service), req);
+    >(
+      service.listDatasetsByOrganizationID.bind(service),
+      req,
+      {},
+      'listDatasetsByOrganizationID'
+    );
 
     const datasets: Dataset[] = [];
     for (const set of response.getDatasetsList()) {
@@ -752,7 +827,7 @@ export class DataClient {
     const response = await promisify<
       datasetPb.ListDatasetsByIDsRequest,
       datasetPb.ListDatasetsByIDsResponse
-    >(service.listDatasetsByIDs.bind(service), req);
+    >(service.listDatasetsByIDs.bind(service), req, {}, 'listDatasetsByIDs');
 
     const datasets: Dataset[] = [];
     for (const set of response.getDatasetsList()) {
@@ -833,7 +908,7 @@ export class DataClient {
     const response = await promisify<
       dataSyncPb.DataCaptureUploadRequest,
       dataSyncPb.DataCaptureUploadResponse
-    >(service.dataCaptureUpload.bind(service), req);
+    >(service.dataCaptureUpload.bind(service), req, {}, 'dataCaptureUpload');
     return response.getFileId();
   }
 
@@ -900,7 +975,7 @@ export class DataClient {
     const response = await promisify<
       dataSyncPb.DataCaptureUploadRequest,
       dataSyncPb.DataCaptureUploadResponse
-    >(service.dataCaptureUpload.bind(service), req);
+    >(service.dataCaptureUpload.bind(service), req, {}, 'dataCaptureUpload');
     return response.getFileId();
   }
 
@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { RobotClient } from '../robot/client';
+import { FleetClient } from './fleet-client';
+
+const fakeRobot = (machineId: string) => ({
+  machineId,
+  stopAll:
+    machineId === 'broken'
+      ? vi.fn().mockRejectedValue(new Error('stop failed'))
+      : vi.fn().mockResolvedValue(undefined),
+  getResource: vi.fn().mockImplementation((name: string) => ({
+    name,
+    getReadings: vi.fn().mockResolvedValue({ machineId }),
+  })),
+  disconnect: vi.fn().mockResolvedValue(undefined),
+});
+
+type FakeRobot = ReturnType<typeof fakeRobot>;
+
+const setup = (machineIds: string[], maxConnections?: number) => {
+  const robots = new Map<string, FakeRobot>();
+  const connect = vi.fn(async (machineId: string) => {
+    // Connecting takes a moment
+    await new Promise((resolve) => {
+      setTimeout(resolve, 0);
+    });
+    const robot = fakeRobot(machineId);
+    robots.set(machineId, robot);
+    return robot as unknown as RobotClient;
+  });
+  const fleet = new FleetClient(connect, machineIds, maxConnections);
+  return { fleet, connect, robots };
+};
+
+describe('FleetClient', () => {
+  it('reports results and failures per machine', async () => {
+    const { fleet } = setup(['a', 'broken', 'b']);
+
+    const results = await fleet.stopAll();
+
+    expect(results).toMatchObject([
+      { machineId: 'a', ok: true },
+      { machineId: 'broken', ok: false, error: new Error('stop failed') },
+      { machineId: 'b', ok: true },
+    ]);
+  });
+
+  it('gets readings from a sensor on every machine', async () => {
+    const { fleet } = setup(['a', 'b']);
+
+    await expect(fleet.getReadings('temp')).resolves.toStrictEqual([
+      { machineId: 'a', ok: true, value: { machineId: 'a' } },
+      { machineId: 'b', ok: true, value: { machineId: 'b' } },
+    ]);
+  });
+
+  it('reuses connections to a machine', async () => {
+    const { fleet, connect } = setup(['a', 'b']);
+
+    await fleet.stopAll();
+    await fleet.stopAll();
+
+    expect(connect).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps at most the max number of connections', async () => {
+    const { fleet, connect, robots } = setup(['a', 'b', 'c', 'd'], 2);
+    let running = 0;
+    let mostRunning = 0;
+
+    await fleet.runOnAll(async () => {
+      running += 1;
+      mostRunning = Math.max(mostRunning, running);
+      await new Promise((resolve) => {
+        setTimeout(resolve, 1);
+      });
+      running -= 1;
+    });
+
+    expect(mostRunning).toBe(2);
+    expect(fleet.connectionCount).toBe(2);
+    expect(connect).toHaveBeenCalledTimes(4);
+    expect(robots.get('a')?.disconnect).toHaveBeenCalled();
+  });
+
+  it('connects again after a failed connection', async () => {
+    const { fleet, connect } = setup(['a']);
+    connect.mockRejectedValueOnce(new Error('offline'));
+
+    await expect(fleet.stopAll()).resolves.toMatchObject([{ ok: false }]);
+    await expect(fleet.stopAll()).resolves.toMatchObject([{ ok: true }]);
+  });
+
+  it('disconnects from every machine when closed', async () => {
+    const { fleet, robots } = setup(['a', 'b']);
+    await fleet.stopAll();
+
+    await fleet.close();
+
+    expect(fleet.connectionCount).toBe(0);
+    for (const robot of robots.values()) {
+      expect(robot.disconnect).toHaveBeenCalled();
+    }
+  });
+});
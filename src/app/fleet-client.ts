@@ -0,0 +1,258 @@
+import type { RobotClient } from '../robot/client';
+import type { Sensor } from '../components/sensor/sensor';
+import type { Resource } from '../types';
+import type { ViamClient } from './viam-client';
+
+export interface FleetClientOptions {
+  /** The IDs of the machines in the fleet. */
+  machineIds?: string[];
+
+  /** Add every machine in this location to the fleet. */
+  locationId?: string;
+
+  /** Add every machine in every location of this organization to the fleet. */
+  organizationId?: string;
+
+  /** The most machines to stay connected to at once. Default is 8. */
+  maxConnections?: number;
+}
+
+/** The outcome of an operation on one machine in a fleet. */
+export type FleetResult<T> =
+  | { machineId: string; ok: true; value: T }
+  | { machineId: string; ok: false; error: unknown };
+
+type Connect = (machineId: string) => Promise<RobotClient>;
+
+interface PooledConnection {
+  robot: Promise<RobotClient>;
+  users: number;
+  lastUsed: number;
+}
+
+const hasReadings = (resource: Resource): resource is Sensor =>
+  typeof (resource as Partial<Sensor>).getReadings === 'function';
+
+/**
+ * Create a client that runs operations on many machines at once, connecting to
+ * each through a ViamClient.
+ *
+ * @example
+ *
+ * ```ts
+ * const fleet = await createFleetClient(viamClient, {
+ *   locationId: 'abc123',
+ * });
+ * for (const result of await fleet.getReadings('temperature')) {
+ *   if (result.ok) {
+ *     console.log(result.machineId, result.value);
+ *   }
+ * }
+ * await fleet.close();
+ * ```
+ */
+export const createFleetClient = async (
+  viamClient: ViamClient,
+  {
+    machineIds = [],
+    locationId,
+    organizationId,
+    maxConnections,
+  }: FleetClientOptions
+): Promise<FleetClient> => {
+  const { appClient } = viamClient;
+  if ((locationId ?? organizationId) !== undefined && !appClient) {
+    throw new Error('The ViamClient must be connected to list machines');
+  }
+
+  const locationIds = locationId === undefined ? [] : [locationId];
+  if (organizationId !== undefined && appClient) {
+    const locations = await appClient.listLocations(organizationId);
+    locationIds.push(...locations.map(({ id }) => id));
+  }
+
+  const ids = new Set(machineIds);
+  for (const id of locationIds) {
+    // eslint-disable-next-line no-await-in-loop
+    const robots = (await appClient?.listRobots(id)) ?? [];
+    for (const robot of robots) {
+      ids.add(robot.id);
+    }
+  }
+
+  return new FleetClient(
+    async (id) => viamClient.connectToMachine({ id }),
+    [...ids],
+    maxConnections
+  );
+};
+
+/**
+ * A client for running operations on every machine in a fleet. It keeps a
+ * bounded pool of connections, closing the least recently used idle connection
+ * to make room for another machine, and runs at most as many operations at once
+ * as it may have connections.
+ */
+export class FleetClient {
+  /** The IDs of the machines in the fleet. */
+  public readonly machineIds: readonly string[];
+
+  private readonly connect: Connect;
+  private readonly maxConnections: number;
+  private readonly connections = new Map<string, PooledConnection>();
+  private readonly waiters: (() => void)[] = [];
+
+  constructor(connect: Connect, machineIds: string[], maxConnections = 8) {
+    if (!Number.isInteger(maxConnections) || maxConnections < 1) {
+      throw new Error(
+        `Value of max connections (${maxConnections}) should be a positive integer`
+      );
+    }
+    this.connect = connect;
+    this.machineIds = machineIds;
+    this.maxConnections = maxConnections;
+  }
+
+  /** The number of machines the fleet is connected or connecting to. */
+  get connectionCount() {
+    return this.connections.size;
+  }
+
+  /**
+   * Run an operation on one machine, connecting to it if needed. The connection
+   * is kept for later operations until it is needed for another machine.
+   */
+  async withMachine<T>(
+    machineId: string,
+    operation: (robot: RobotClient) => Promise<T>
+  ): Promise<T> {
+    const robot = await this.acquire(machineId);
+    try {
+      return await operation(robot);
+    } finally {
+      this.release(machineId);
+    }
+  }
+
+  /**
+   * Run an operation on every machine in the fleet. Failures are reported per
+   * machine rather than thrown.
+   *
+   * @returns The result for each machine, in the order of `machineIds`.
+   */
+  async runOnAll<T>(
+    operation: (robot: RobotClient, machineId: string) => Promise<T>
+  ): Promise<FleetResult<T>[]> {
+    return Promise.all(
+      this.machineIds.map(async (machineId): Promise<FleetResult<T>> => {
+        try {
+          const value = await this.withMachine(machineId, async (robot) =>
+            operation(robot, machineId)
+          );
+          return { machineId, ok: true, value };
+        } catch (error) {
+          return { machineId, ok: false, error };
+        }
+      })
+    );
+  }
+
+  /** Stop every resource on every machine in the fleet. */
+  async stopAll(): Promise<FleetResult<void>[]> {
+    return this.runOnAll(async (robot) => robot.stopAll());
+  }
+
+  /**
+   * Get the readings of the sensor with a name on every machine in the fleet.
+   * Machines without a resource with that name, or whose resource has no
+   * readings, fail.
+   */
+  async getReadings(
+    sensorName: string
+  ): Promise<FleetResult<Record<string, unknown>>[]> {
+    return this.runOnAll(async (robot) => {
+      const resource = await robot.getResource(sensorName);
+      if (!hasReadings(resource)) {
+        throw new Error(`${sensorName} does not have readings`);
+      }
+      return resource.getReadings();
+    });
+  }
+
+  /** Disconnect from every machine. */
+  async close() {
+    const connections = [...this.connections.values()];
+    this.connections.clear();
+    await Promise.allSettled(
+      connections.map(async ({ robot }) => {
+        const client = await robot;
+        await client.disconnect();
+      })
+    );
+  }
+
+  private async acquire(machineId: string) {
+    let connection = this.connections.get(machineId);
+    while (!connection) {
+      if (this.connections.size < this.maxConnections || this.evictIdle()) {
+        connection = {
+          robot: this.connect(machineId),
+          users: 0,
+          lastUsed: Date.now(),
+        };
+        this.connections.set(machineId, connection);
+        break;
+      }
+      // eslint-disable-next-line no-await-in-loop
+      await new Promise<void>((resolve) => {
+        this.waiters.push(resolve);
+      });
+      connection = this.connections.get(machineId);
+    }
+
+    connection.users += 1;
+    try {
+      return await connection.robot;
+    } catch (error) {
+      // Try connecting again the next time the machine is used
+      if (this.connections.get(machineId) === connection) {
+        this.connections.delete(machineId);
+      }
+      this.waiters.shift()?.();
+      throw error;
+    }
+  }
+
+  private release(machineId: string) {
+    const connection = this.connections.get(machineId);
+    if (connection) {
+      connection.users -= 1;
+      connection.lastUsed = Date.now();
+    }
+    this.waiters.shift()?.();
+  }
+
+  /** Close the least recently used connection that is not in use. */
+  private evictIdle() {
+    let idle: [string, PooledConnection] | undefined;
+    for (const entry of this.connections) {
+      if (
+        entry[1].users === 0 &&
+        (!idle || entry[1].lastUsed < idle[1].lastUsed)
+      ) {
+        idle = entry;
+      }
+    }
+    if (!idle) {
+      return false;
+    }
+
+    const [machineId, { robot }] = idle;
+    this.connections.delete(machineId);
+    robot.then(
+      async (client) => client.disconnect(),
+      () => undefined
+    );
+    return true;
+  }
+}
@@ -37,7 +37,7 @@ export class MlTrainingClient {
     const response = await promisify<
       pb.SubmitTrainingJobRequest,
       pb.SubmitTrainingJobResponse
-    >(service.submitTrainingJob.bind(service), req);
+    >(service.submitTrainingJob.bind(service), req, {}, 'submitTrainingJob');
     return response.getId();
   }
 
@@ -62,7 +62,12 @@ export class MlTrainingClient {
     const response = await promisify<
       pb.SubmitCustomTrainingJobRequest,
       pb.SubmitCustomTrainingJobResponse
-    >(service.submitCustomTrainingJob.bind(service), req);
+    >(
+      service.submitCustomTrainingJob.bind(service),
+      req,
+      {},
+      'submitCustomTrainingJob'
+    );
     return response.getId();
   }
 
@@ -75,7 +80,7 @@ export class MlTrainingClient {
     const response = await promisify<
       pb.GetTrainingJobRequest,
       pb.GetTrainingJobResponse
-    >(service.getTrainingJob.bind(service), req);
+    >(service.getTrainingJob.bind(service), req, {}, 'getTrainingJob');
     return response.getMetadata();
   }
 
@@ -89,7 +94,7 @@ export class MlTrainingClient {
     const response = await promisify<
       pb.ListTrainingJobsRequest,
       pb.ListTrainingJobsResponse
-    >(service.listTrainingJobs.bind(service), req);
+    >(service.listTrainingJobs.bind(service), req, {}, 'listTrainingJobs');
     return response.toObject().jobsList;
   }
 
@@ -101,7 +106,9 @@ export class MlTrainingClient {
 
     await promisify<pb.CancelTrainingJobRequest, pb.CancelTrainingJobResponse>(
       service.cancelTrainingJob.bind(service),
-      req
+      req,
+      {},
+      'cancelTrainingJob'
     );
     return null;
   }
@@ -115,7 +122,12 @@ export class MlTrainingClient {
     await promisify<
       pb.DeleteCompletedTrainingJobRequest,
       pb.DeleteCompletedTrainingJobResponse
-    >(service.deleteCompletedTrainingJob.bind(service), req);
+    >(
+      service.deleteCompletedTrainingJob.bind(service),
+      req,
+      {},
+      'deleteCompletedTrainingJob'
+    );
     return null;
   }
 }
@@ -32,7 +32,12 @@ export class ProvisioningClient {
     const response = await promisify<
       pb.GetSmartMachineStatusRequest,
       pb.GetSmartMachineStatusResponse
-    >(service.getSmartMachineStatus.bind(service), request);
+    >(
+      service.getSmartMachineStatus.bind(service),
+      request,
+      {},
+      'getSmartMachineStatus'
+    );
     return response.toObject();
   }
 
@@ -54,7 +59,12 @@ export class ProvisioningClient {
     await promisify<
       pb.SetNetworkCredentialsRequest,
       pb.SetNetworkCredentialsResponse
-    >(service.setNetworkCredentials.bind(service), request);
+    >(
+      service.setNetworkCredentials.bind(service),
+      request,
+      {},
+      'setNetworkCredentials'
+    );
   }
 
   /**
@@ -73,7 +83,12 @@ export class ProvisioningClient {
     await promisify<
       pb.SetSmartMachineCredentialsRequest,
       pb.SetSmartMachineCredentialsResponse
-    >(service.setSmartMachineCredentials.bind(service), request);
+    >(
+      service.setSmartMachineCredentials.bind(service),
+      request,
+      {},
+      'setSmartMachineCredentials'
+    );
   }
 
   /**
@@ -88,7 +103,7 @@ export class ProvisioningClient {
     const response = await promisify<
       pb.GetNetworkListRequest,
       pb.GetNetworkListResponse
-    >(service.getNetworkList.bind(service), request);
+    >(service.getNetworkList.bind(service), request, {}, 'getNetworkList');
     return response.toObject().networksList;
   }
 }
@@ -53,7 +53,8 @@ describe('ViamClient', () => {
     const client = await subject();
     expect(createViamTransportFactory).toHaveBeenCalledWith(
       defaultServiceHost,
-      testCredential
+      testCredential,
+      undefined
     );
     expect(client.appClient).toBeInstanceOf(AppClient);
     expect(client.dataClient).toBeInstanceOf(DataClient);
@@ -69,7 +70,8 @@ describe('ViamClient', () => {
 
     expect(createViamTransportFactory).toHaveBeenCalledWith(
       serviceHost,
-      testCredential
+      testCredential,
+      undefined
     );
     expect(client.appClient).toBeInstanceOf(AppClient);
     expect(client.dataClient).toBeInstanceOf(DataClient);
@@ -84,7 +86,8 @@ describe('ViamClient', () => {
 
     expect(createViamTransportFactory).toHaveBeenCalledWith(
       defaultServiceHost,
-      testAccessToken
+      testAccessToken,
+      undefined
     );
     expect(client.appClient).toBeInstanceOf(AppClient);
     expect(client.dataClient).toBeInstanceOf(DataClient);
@@ -3,9 +3,11 @@ import {
   createViamTransportFactory,
   type Credential,
   type AccessToken,
+  type AccessTokenProvider,
   isCredential,
 } from './viam-transport';
 import { createRobotClient } from '../robot/dial';
+import { interceptTransportFactory, type Interceptor } from '../interceptors';
 import { DataClient } from './data-client';
 import { AppClient } from './app-client';
 import { BillingClient } from './billing-client';
@@ -15,19 +17,37 @@ import { SharedSecret } from '../gen/app/v1/app_pb';
 
 export interface ViamClientOptions {
   serviceHost?: string;
-  credential: Credential | AccessToken;
+  /**
+   * The credential to authenticate with, an access token, or a function that
+   * returns access tokens, such as from an OAuth login. Tokens from a
+   * credential or function are refreshed before they expire.
+   */
+  credential: Credential | AccessToken | AccessTokenProvider;
+  /** Interceptors to run around every call. More can be added with `use`. */
+  interceptors?: Interceptor[];
+  /**
+   * Make calls over this transport instead of browser `fetch`, such as the
+   * HTTP/2 transport of `@viamrobotics/sdk/node`.
+   */
+  httpTransportFactory?: grpc.TransportFactory;
 }
 
 /** Instantiate a connected gRPC client that interfaces with Viam app. */
 export const createViamClient = async ({
   serviceHost = 'https://app.viam.com',
   credential,
+  interceptors = [],
+  httpTransportFactory,
 }: ViamClientOptions): Promise<ViamClient> => {
   const transportFactory = await createViamTransportFactory(
     serviceHost,
-    credential
+    credential,
+    httpTransportFactory
   );
   const client = new ViamClient(transportFactory, serviceHost, credential);
+  for (const interceptor of interceptors) {
+    client.use(interceptor);
+  }
   client.connect();
   return client;
 };
@@ -41,7 +61,8 @@ interface ViamClientMachineConnectionOpts {
 export class ViamClient {
   private transportFactory: grpc.TransportFactory;
   private serviceHost: string;
-  private credential: Credential | AccessToken;
+  private credential: Credential | AccessToken | AccessTokenProvider;
+  private readonly interceptors: Interceptor[] = [];
 
   public dataClient: DataClient | undefined;
   public appClient: AppClient | undefined;
@@ -52,15 +73,37 @@ export class ViamClient {
   constructor(
     transportFactory: grpc.TransportFactory,
     serviceHost: string,
-    credential: Credential | AccessToken
+    credential: Credential | AccessToken | AccessTokenProvider
   ) {
     this.transportFactory = transportFactory;
     this.serviceHost = serviceHost;
     this.credential = credential;
   }
 
+  /**
+   * Add an interceptor that runs around every call made by the app clients,
+   * including ones created before it was added. Interceptors run in the order
+   * they were added.
+   *
+   * @returns A function that removes the interceptor.
+   */
+  public use(interceptor: Interceptor) {
+    this.interceptors.push(interceptor);
+    return () => {
+      const index = this.interceptors.indexOf(interceptor);
+      if (index !== -1) {
+        this.interceptors.splice(index, 1);
+      }
+    };
+  }
+
   public connect() {
-    const grpcOptions = { transport: this.transportFactory };
+    const grpcOptions = {
+      transport: interceptTransportFactory(
+        this.transportFactory,
+        this.interceptors
+      ),
+    };
     this.dataClient = new DataClient(this.serviceHost, grpcOptions);
     this.appClient = new AppClient(this.serviceHost, grpcOptions);
     this.mlTrainingClient = new MlTrainingClient(this.serviceHost, grpcOptions);
@@ -101,7 +144,7 @@ export class ViamClient {
     }
 
     // If credential is AccessToken, then attempt to get the robot location secret
-    let creds = this.credential;
+    let creds = await this.currentCredential();
     if (!isCredential(creds)) {
       if (locationId === undefined) {
         // If we don't have a location, try to get it from the address
@@ -135,4 +178,15 @@ export class ViamClient {
       reconnectMaxAttempts: 1,
     });
   }
+
+  /** Get the credential to dial machines with, asking a provider for a token. */
+  private async currentCredential(): Promise<Credential | AccessToken> {
+    if (typeof this.credential !== 'function') {
+      return this.credential;
+    }
+    const token = await this.credential();
+    return typeof token === 'string'
+      ? { type: 'access-token', payload: token }
+      : token;
+  }
 }
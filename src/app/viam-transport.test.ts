@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from 'vitest';
+import { grpc } from '@improbable-eng/grpc-web';
+import { StringValue } from 'google-protobuf/google/protobuf/wrappers_pb';
+import { FakeServer, FakeStatusError } from '../testing/fake-server';
+import {
+  AccessTokenSource,
+  ViamTransport,
+  accessTokenExpiry,
+} from './viam-transport';
+
+// The RPC package needs a browser to load
+vi.mock('@viamrobotics/rpc', () => ({ dialDirect: vi.fn() }));
+
+const Echo = {
+  methodName: 'Echo',
+  service: { serviceName: 'test.v1.TestService' },
+  requestStream: false,
+  responseStream: false,
+  requestType: StringValue,
+  responseType: StringValue,
+};
+
+const jwt = (claims: Record<string, unknown>) =>
+  `header.${btoa(JSON.stringify(claims)).replaceAll('=', '')}.signature`;
+
+const call = async (server: FakeServer, tokens: AccessTokenSource) =>
+  new Promise<grpc.Code>((resolve) => {
+    grpc.invoke(Echo, {
+      host: 'fake',
+      request: new StringValue(),
+      transport: (opts) =>
+        new ViamTransport(server.transportFactory, opts, tokens),
+      onEnd: (code) => resolve(code),
+    });
+  });
+
+const authorizations = (server: FakeServer) =>
+  server.requests.map(({ metadata }) => metadata.get('authorization')[0]);
+
+describe('accessTokenExpiry', () => {
+  it('reads the expiry of a JWT', () => {
+    expect(accessTokenExpiry(jwt({ exp: 1_700_000_000 }))).toBe(
+      1_700_000_000_000
+    );
+  });
+
+  it('is undefined for tokens without an expiry', () => {
+    expect(accessTokenExpiry(jwt({ sub: 'me' }))).toBeUndefined();
+    expect(accessTokenExpiry('opaque')).toBeUndefined();
+  });
+});
+
+describe('AccessTokenSource', () => {
+  it('refreshes tokens that are about to expire', async () => {
+    const soon = jwt({ exp: Date.now() / 1000 + 30 });
+    const later = jwt({ exp: Date.now() / 1000 + 3600 });
+    const fetchToken = vi.fn().mockResolvedValue(later);
+    const tokens = new AccessTokenSource(fetchToken, soon);
+
+    await expect(tokens.get()).resolves.toBe(later);
+    await expect(tokens.get()).resolves.toBe(later);
+    expect(fetchToken).toHaveBeenCalledOnce();
+  });
+
+  it('shares a refresh between calls rejected with the same token', async () => {
+    const fetchToken = vi.fn().mockResolvedValue('new');
+    const tokens = new AccessTokenSource(fetchToken, 'old');
+
+    await expect(
+      Promise.all([tokens.refresh('old'), tokens.refresh('old')])
+    ).resolves.toStrictEqual(['new', 'new']);
+    await expect(tokens.refresh('old')).resolves.toBe('new');
+    expect(fetchToken).toHaveBeenCalledOnce();
+  });
+});
+
+describe('ViamTransport', () => {
+  it('retries a rejected call once with a refreshed token', async () => {
+    const server = new FakeServer();
+    server.handle(Echo, (request, metadata) => {
+      if (metadata.get('authorization')[0] !== 'Bearer new') {
+        throw new FakeStatusError(grpc.Code.Unauthenticated, 'expired');
+      }
+      return request;
+    });
+    const tokens = new AccessTokenSource(
+      vi.fn().mockResolvedValue('new'),
+      'old'
+    );
+
+    await expect(call(server, tokens)).resolves.toBe(grpc.Code.OK);
+    expect(authorizations(server)).toStrictEqual(['Bearer old', 'Bearer new']);
+  });
+
+  it('does not retry with a token that cannot be refreshed', async () => {
+    const server = new FakeServer();
+    server.handle(Echo, () => {
+      throw new FakeStatusError(grpc.Code.Unauthenticated, 'expired');
+    });
+    const tokens = new AccessTokenSource(undefined, 'fixed');
+
+    await expect(call(server, tokens)).resolves.toBe(grpc.Code.Unauthenticated);
+    expect(authorizations(server)).toStrictEqual(['Bearer fixed']);
+  });
+
+  it('fails the call when no token can be fetched', async () => {
+    const server = new FakeServer();
+    server.handle(Echo, (request) => request);
+    const tokens = new AccessTokenSource(
+      vi.fn().mockRejectedValue(new Error('logged out'))
+    );
+
+    await expect(call(server, tokens)).resolves.not.toBe(grpc.Code.OK);
+    expect(server.requests).toHaveLength(0);
+  });
+});
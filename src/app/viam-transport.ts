@@ -3,6 +3,7 @@ import { dialDirect } from '@viamrobotics/rpc';
 
 import { AuthenticateRequest, Credentials } from '../gen/proto/rpc/v1/auth_pb';
 import { AuthServiceClient } from '../gen/proto/rpc/v1/auth_pb_service';
+import { FrameReader, grpcStatus } from '../interceptors';
 import { MetadataTransport } from '../utils';
 
 /** A credential that can be exchanged to obtain an access token */
@@ -30,58 +31,171 @@ export const isCredential = (
 };
 
 /**
- * Initialize an authenticated transport factory that can access protected
- * resources.
+ * A function that returns an access token, such as one an app gets from an
+ * OAuth login. It is called again when the token is about to expire or is
+ * rejected.
  */
-export const createViamTransportFactory = async (
-  serviceHost: string,
-  credential: Credential | AccessToken
-): Promise<grpc.TransportFactory> => {
-  if (credential.type === 'access-token') {
-    return createWithAccessToken(serviceHost, credential);
+export type AccessTokenProvider = () => Promise<AccessToken | string>;
+
+// Refresh tokens this long before they expire
+const refreshMarginMs = 60_000;
+
+/**
+ * Get when a JWT access token expires, in milliseconds since the epoch, or
+ * `undefined` if it does not say.
+ */
+export const accessTokenExpiry = (token: string) => {
+  const [, payload] = token.split('.');
+  if (!payload) {
+    return undefined;
+  }
+  try {
+    const { exp } = JSON.parse(
+      atob(payload.replaceAll('-', '+').replaceAll('_', '/'))
+    ) as { exp?: unknown };
+    return typeof exp === 'number' ? exp * 1000 : undefined;
+  } catch {
+    return undefined;
   }
-  return createWithCredential(serviceHost, credential);
 };
 
-const createWithAccessToken = async (
+/**
+ * Holds the access token that calls are made with. When it can fetch tokens, it
+ * gets a new one shortly before the current one expires, and when a call is
+ * rejected with it.
+ */
+export class AccessTokenSource {
+  private readonly fetchToken: (() => Promise<string>) | undefined;
+  private token: string | undefined;
+  private expiresAt: number | undefined;
+  private refreshing: Promise<string> | undefined;
+
+  constructor(fetchToken: (() => Promise<string>) | undefined, token?: string) {
+    this.fetchToken = fetchToken;
+    if (token !== undefined) {
+      this.setToken(token);
+    }
+  }
+
+  /** Whether a new token can be fetched when the current one is rejected. */
+  get canRefresh() {
+    return this.fetchToken !== undefined;
+  }
+
+  /** Get a token to make a call with, refreshing it if it is about to expire. */
+  async get(): Promise<string> {
+    const expiring =
+      this.expiresAt !== undefined &&
+      Date.now() >= this.expiresAt - refreshMarginMs;
+    if (this.token !== undefined && !(expiring && this.canRefresh)) {
+      return this.token;
+    }
+    return this.refresh();
+  }
+
+  /**
+   * Fetch a new token. Calls rejected with the same token share one refresh.
+   *
+   * @param rejected - The token that was rejected, if any. If the token has
+   *   already changed, the current one is returned.
+   */
+  async refresh(rejected?: string): Promise<string> {
+    if (rejected !== undefined && this.token !== rejected && this.token) {
+      return this.token;
+    }
+    if (!this.fetchToken) {
+      if (this.token === undefined) {
+        throw new Error('No access token to make calls with');
+      }
+      return this.token;
+    }
+
+    this.refreshing ??= this.fetchToken()
+      .then((token) => {
+        this.setToken(token);
+        return token;
+      })
+      .finally(() => {
+        this.refreshing = undefined;
+      });
+    return this.refreshing;
+  }
+
+  private setToken(token: string) {
+    this.token = token;
+    this.expiresAt = accessTokenExpiry(token);
+  }
+}
+
+/**
+ * Initialize an authenticated transport factory that can access protected
+ * resources. Tokens from a credential or a provider are refreshed before they
+ * expire, and unary calls rejected as unauthenticated are made once more with a
+ * new token.
+ */
+export const createViamTransportFactory = async (
   serviceHost: string,
-  accessToken: AccessToken
+  credential: Credential | AccessToken | AccessTokenProvider,
+  httpTransportFactory?: grpc.TransportFactory
 ): Promise<grpc.TransportFactory> => {
-  const transportFactory = await dialDirect(serviceHost);
+  const tokens = createAccessTokenSource(
+    serviceHost,
+    credential,
+    httpTransportFactory
+  );
+  // Fail early if the first token cannot be fetched
+  await tokens.get();
 
+  const transportFactory =
+    httpTransportFactory ?? (await dialDirect(serviceHost));
   return (opts: grpc.TransportOptions): ViamTransport =>
-    new ViamTransport(transportFactory, opts, accessToken.payload);
+    new ViamTransport(transportFactory, opts, tokens);
 };
 
-export const getAccessTokenFromCredential = async (
-  host: string,
-  credential: Credential
+const createAccessTokenSource = (
+  serviceHost: string,
+  credential: Credential | AccessToken | AccessTokenProvider,
+  httpTransportFactory: grpc.TransportFactory | undefined
 ) => {
-  if (credential.type === 'robot-secret') {
-    throw new Error(
-      `credential type cannot be 'robot-secret'. Must be either 'robot-location-secret' or 'api-key'.`
-    );
-  } else if (!credential.authEntity) {
-    throw new Error(
-      `auth entity cannot be null, undefined, or an empty value.`
-    );
+  if (typeof credential === 'function') {
+    return new AccessTokenSource(async () => {
+      const token = await credential();
+      return typeof token === 'string' ? token : token.payload;
+    });
   }
+  if (credential.type === 'access-token') {
+    return new AccessTokenSource(undefined, credential.payload);
+  }
+  return new AccessTokenSource(async () => {
+    const token = await getAccessTokenFromCredential(
+      serviceHost,
+      credential,
+      httpTransportFactory
+    );
+    return token.payload;
+  });
+};
 
-  const transportFactory = await dialDirect(host);
+/** Exchange credentials for an access token with the auth service of a host. */
+const authenticate = async (
+  host: string,
+  transportFactory: grpc.TransportFactory,
+  entity: string,
+  credentials: { type: string; payload: string }
+) => {
   const authClient = new AuthServiceClient(host, {
     transport: transportFactory,
   });
 
-  const entity = credential.authEntity;
   const creds = new Credentials();
-  creds.setType(credential.type);
-  creds.setPayload(credential.payload);
+  creds.setType(credentials.type);
+  creds.setPayload(credentials.payload);
 
   const req = new AuthenticateRequest();
   req.setEntity(entity);
   req.setCredentials(creds);
 
-  const accessToken = await new Promise<string>((resolve, reject) => {
+  return new Promise<string>((resolve, reject) => {
     authClient.authenticate(req, new grpc.Metadata(), (err, response) => {
       if (err) {
         reject(err);
@@ -90,31 +204,213 @@ export const getAccessTokenFromCredential = async (
       resolve(response?.getAccessToken().toString() ?? '');
     });
   });
-
-  return { type: 'access-token', payload: accessToken } as AccessToken;
 };
 
-const createWithCredential = async (
-  serviceHost: string,
-  credential: Credential
+/**
+ * Dial a host directly over the given transport instead of browser `fetch`,
+ * authenticating with the credentials if there are any, as `dialDirect` does.
+ */
+export const dialDirectOver = async (
+  host: string,
+  transportFactory: grpc.TransportFactory,
+  {
+    authEntity,
+    credentials,
+  }: {
+    authEntity?: string | undefined;
+    credentials?: { type: string; payload: string } | undefined;
+  } = {}
 ): Promise<grpc.TransportFactory> => {
-  const accessToken = await getAccessTokenFromCredential(
-    serviceHost,
+  if (!credentials) {
+    return transportFactory;
+  }
+  const accessToken = await authenticate(
+    host,
+    transportFactory,
+    authEntity ?? host.replace(/^.*:\/\//u, ''),
+    credentials
+  );
+  const metadata = new grpc.Metadata({
+    authorization: `Bearer ${accessToken}`,
+  });
+  return (opts) => new MetadataTransport(transportFactory, opts, metadata);
+};
+
+export const getAccessTokenFromCredential = async (
+  host: string,
+  credential: Credential,
+  transportFactory?: grpc.TransportFactory
+) => {
+  if (credential.type === 'robot-secret') {
+    throw new Error(
+      `credential type cannot be 'robot-secret'. Must be either 'robot-location-secret' or 'api-key'.`
+    );
+  } else if (!credential.authEntity) {
+    throw new Error(
+      `auth entity cannot be null, undefined, or an empty value.`
+    );
+  }
+
+  const accessToken = await authenticate(
+    host,
+    transportFactory ?? (await dialDirect(host)),
+    credential.authEntity,
     credential
   );
 
-  const transportFactory = await dialDirect(serviceHost);
-  return (opts: grpc.TransportOptions): ViamTransport =>
-    new ViamTransport(transportFactory, opts, accessToken.payload);
+  return { type: 'access-token', payload: accessToken } as AccessToken;
+};
+
+interface Response {
+  headers: grpc.Metadata | undefined;
+  status: number;
+  chunks: Uint8Array[];
+}
+
+/** Check if a call was rejected because its access token is not valid. */
+const unauthenticated = ({ headers, chunks }: Response) => {
+  let status = headers ? grpcStatus(headers) : undefined;
+  const frames = new FrameReader();
+  for (const chunk of chunks) {
+    for (const frame of frames.push(chunk)) {
+      if (frame.trailers) {
+        status = grpcStatus(
+          new grpc.Metadata(new TextDecoder().decode(frame.data))
+        );
+      }
+    }
+  }
+  return status?.code === grpc.Code.Unauthenticated;
 };
 
-export class ViamTransport extends MetadataTransport {
+/**
+ * A transport that makes calls with the access token from an
+ * {@link AccessTokenSource}. A unary call rejected as unauthenticated is made
+ * once more with a refreshed token, with its response held back until then.
+ */
+export class ViamTransport implements grpc.Transport {
+  private readonly transportFactory: grpc.TransportFactory;
+  private readonly opts: grpc.TransportOptions;
+  private readonly tokens: AccessTokenSource;
+  private readonly retryable: boolean;
+
+  private transport: grpc.Transport | undefined;
+  private metadata = new grpc.Metadata();
+  private readonly messages: Uint8Array[] = [];
+  private sendFinished = false;
+  private cancelled = false;
+
   constructor(
     transportFactory: grpc.TransportFactory,
     opts: grpc.TransportOptions,
-    accessToken: string
+    accessToken: string | AccessTokenSource
   ) {
-    const md = new grpc.Metadata({ authorization: `Bearer ${accessToken}` });
-    super(transportFactory, opts, md);
+    this.transportFactory = transportFactory;
+    this.opts = opts;
+    this.tokens =
+      typeof accessToken === 'string'
+        ? new AccessTokenSource(undefined, accessToken)
+        : accessToken;
+    const { requestStream, responseStream } = opts.methodDefinition;
+    this.retryable =
+      this.tokens.canRefresh && !requestStream && !responseStream;
+  }
+
+  public start(metadata: grpc.Metadata) {
+    this.metadata = metadata;
+    this.tokens
+      .get()
+      .then((token) => {
+        this.attempt(token, this.retryable);
+      })
+      .catch((error: unknown) => {
+        this.fail(error);
+      });
+  }
+
+  public sendMessage(msgBytes: Uint8Array) {
+    if (!this.transport || this.retryable) {
+      this.messages.push(msgBytes);
+    }
+    this.transport?.sendMessage(msgBytes);
+  }
+
+  public finishSend() {
+    this.sendFinished = true;
+    this.transport?.finishSend();
+  }
+
+  public cancel() {
+    this.cancelled = true;
+    this.transport?.cancel();
+  }
+
+  /** Make the call with a token, retrying once if it is rejected. */
+  private attempt(token: string, retry: boolean) {
+    if (this.cancelled) {
+      return;
+    }
+
+    const response: Response = { headers: undefined, status: 0, chunks: [] };
+    const opts: grpc.TransportOptions = retry
+      ? {
+          ...this.opts,
+          onHeaders: (headers, status) => {
+            response.headers = headers;
+            response.status = status;
+          },
+          onChunk: (chunk) => {
+            response.chunks.push(chunk);
+          },
+          onEnd: (err) => {
+            if (err === undefined && unauthenticated(response)) {
+              this.tokens
+                .refresh(token)
+                .then((refreshed) => {
+                  this.attempt(refreshed, false);
+                })
+                .catch(() => {
+                  this.deliver(response);
+                });
+              return;
+            }
+            this.deliver(response, err);
+          },
+        }
+      : this.opts;
+
+    this.transport = new MetadataTransport(
+      this.transportFactory,
+      opts,
+      new grpc.Metadata({ authorization: `Bearer ${token}` })
+    );
+    this.transport.start(new grpc.Metadata(this.metadata));
+    for (const message of this.messages) {
+      this.transport.sendMessage(message);
+    }
+    if (this.sendFinished) {
+      this.transport.finishSend();
+    }
+  }
+
+  private deliver({ headers, status, chunks }: Response, err?: Error) {
+    if (this.cancelled) {
+      return;
+    }
+    if (headers) {
+      this.opts.onHeaders(headers, status);
+    }
+    for (const chunk of chunks) {
+      this.opts.onChunk(chunk);
+    }
+    this.opts.onEnd(err);
+  }
+
+  private fail(error: unknown) {
+    if (!this.cancelled) {
+      this.opts.onEnd(
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
   }
 }
@@ -1,20 +1,51 @@
 import type { JointPositions } from '../../gen/component/arm/v1/arm_pb';
 
-import type { Pose, Resource, StructType } from '../../types';
+import type {
+  OperationCallOptions,
+  OperationHandle,
+} from '../../robot/operations';
+import type { CallOptions, Pose, Resource, StructType } from '../../types';
 
 export type ArmJointPositions = JointPositions.AsObject;
 
 /** Represents a physical robot arm that exists in three-dimensional space. */
 export interface Arm extends Resource {
   /** Get the position of the end of the arm expressed as a pose */
-  getEndPosition: (extra?: StructType) => Promise<Pose>;
+  getEndPosition: (
+    extra?: StructType,
+    callOptions?: CallOptions
+  ) => Promise<Pose>;
+
+  /**
+   * Start `moveToPosition` as an operation, returning a handle to await or
+   * cancel it with.
+   */
+  moveToPosition(
+    pose: Pose,
+    extra: StructType | undefined,
+    callOptions: OperationCallOptions
+  ): OperationHandle<void>;
 
   /**
    * Move the end of the arm to the pose.
    *
    * @param pose - The destination pose for the arm.
    */
-  moveToPosition: (pose: Pose, extra?: StructType) => Promise<void>;
+  moveToPosition(
+    pose: Pose,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<void>;
+
+  /**
+   * Start `moveToJointPositions` as an operation, returning a handle to await
+   * or cancel it with.
+   */
+  moveToJointPositions(
+    jointPositionsList: number[],
+    extra: StructType | undefined,
+    callOptions: OperationCallOptions
+  ): OperationHandle<void>;
 
   /**
    * Move each joint of the arm based on the angles on the joint poisitons.
@@ -22,17 +53,21 @@ export interface Arm extends Resource {
    *
    * @param jointPositionsList - List of angles (0-360) to move each joint to.
    */
-  moveToJointPositions: (
+  moveToJointPositions(
     jointPositionsList: number[],
-    extra?: StructType
-  ) => Promise<void>;
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<void>;
 
   /** Gets the current position of each joint. */
-  getJointPositions: (extra?: StructType) => Promise<ArmJointPositions>;
+  getJointPositions: (
+    extra?: StructType,
+    callOptions?: CallOptions
+  ) => Promise<ArmJointPositions>;
 
   /** Stops the motion of the arm. */
-  stop: (extra?: StructType) => Promise<void>;
+  stop: (extra?: StructType, callOptions?: CallOptions) => Promise<void>;
 
   /** Get if the arm is currently moving. */
-  isMoving: () => Promise<boolean>;
+  isMoving: (callOptions?: CallOptions) => Promise<boolean>;
 }
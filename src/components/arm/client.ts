@@ -1,8 +1,14 @@
 import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
-import type { RobotClient } from '../../robot';
+import type {
+  ActuationCallOptions,
+  OperationCallOptions,
+  OperationHandle,
+  RobotClient,
+} from '../../robot';
 import pb from '../../gen/component/arm/v1/arm_pb';
 import { ArmServiceClient } from '../../gen/component/arm/v1/arm_pb_service';
-import type { Options, Pose, StructType } from '../../types';
+import type { CallOptions, Options, Pose, StructType } from '../../types';
+import { actuate } from '../../robot/operations';
 import { doCommandFromClient, encodePose, promisify } from '../../utils';
 import type { Arm } from './arm';
 
@@ -13,11 +19,13 @@ import type { Arm } from './arm';
  */
 export class ArmClient implements Arm {
   private client: ArmServiceClient;
+  private readonly robot: RobotClient;
   private readonly name: string;
   private readonly options: Options;
 
   constructor(client: RobotClient, name: string, options: Options = {}) {
     this.client = client.createServiceClient(ArmServiceClient);
+    this.robot = client;
     this.name = name;
     this.options = options;
   }
@@ -26,7 +34,7 @@ export class ArmClient implements Arm {
     return this.client;
   }
 
-  async getEndPosition(extra = {}) {
+  async getEndPosition(extra = {}, callOptions: CallOptions = {}) {
     const armService = this.ArmService;
     const request = new pb.GetEndPositionRequest();
     request.setName(this.name);
@@ -37,7 +45,12 @@ export class ArmClient implements Arm {
     const response = await promisify<
       pb.GetEndPositionRequest,
       pb.GetEndPositionResponse
-    >(armService.getEndPosition.bind(armService), request);
+    >(
+      armService.getEndPosition.bind(armService),
+      request,
+      callOptions,
+      'getEndPosition'
+    );
 
     const result = response.getPose();
     if (!result) {
@@ -46,42 +59,95 @@ export class ArmClient implements Arm {
     return result.toObject();
   }
 
-  async moveToPosition(pose: Pose, extra = {}) {
+  moveToPosition(
+    pose: Pose,
+    extra: StructType | undefined,
+    callOptions: OperationCallOptions
+  ): OperationHandle<void>;
+
+  moveToPosition(
+    pose: Pose,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<void>;
+
+  moveToPosition(
+    pose: Pose,
+    extra = {},
+    callOptions: ActuationCallOptions = {}
+  ) {
     const armService = this.ArmService;
 
-    const request = new pb.MoveToPositionRequest();
-    request.setName(this.name);
-    request.setTo(encodePose(pose));
-    request.setExtra(Struct.fromJavaScript(extra));
-
-    this.options.requestLogger?.(request);
-
-    await promisify<pb.MoveToPositionRequest, pb.MoveToPositionResponse>(
-      armService.moveToPosition.bind(armService),
-      request
+    // Build the request in the call so that errors reject rather than throw
+    return actuate(
+      this.robot,
+      async (options) => {
+        const request = new pb.MoveToPositionRequest();
+        request.setName(this.name);
+        request.setTo(encodePose(pose));
+        request.setExtra(Struct.fromJavaScript(extra));
+
+        this.options.requestLogger?.(request);
+
+        await promisify<pb.MoveToPositionRequest, pb.MoveToPositionResponse>(
+          armService.moveToPosition.bind(armService),
+          request,
+          options,
+          'moveToPosition'
+        );
+      },
+      callOptions
     );
   }
 
-  async moveToJointPositions(jointPositionsList: number[], extra = {}) {
+  moveToJointPositions(
+    jointPositionsList: number[],
+    extra: StructType | undefined,
+    callOptions: OperationCallOptions
+  ): OperationHandle<void>;
+
+  moveToJointPositions(
+    jointPositionsList: number[],
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<void>;
+
+  moveToJointPositions(
+    jointPositionsList: number[],
+    extra = {},
+    callOptions: ActuationCallOptions = {}
+  ) {
     const armService = this.ArmService;
 
-    const newJointPositions = new pb.JointPositions();
-    newJointPositions.setValuesList(jointPositionsList);
-
-    const request = new pb.MoveToJointPositionsRequest();
-    request.setName(this.name);
-    request.setPositions(newJointPositions);
-    request.setExtra(Struct.fromJavaScript(extra));
-
-    this.options.requestLogger?.(request);
-
-    await promisify<
-      pb.MoveToJointPositionsRequest,
-      pb.MoveToJointPositionsResponse
-    >(armService.moveToJointPositions.bind(armService), request);
+    // Build the request in the call so that errors reject rather than throw
+    return actuate(
+      this.robot,
+      async (options) => {
+        const newJointPositions = new pb.JointPositions();
+        newJointPositions.setValuesList(jointPositionsList);
+
+        const request = new pb.MoveToJointPositionsRequest();
+        request.setName(this.name);
+        request.setPositions(newJointPositions);
+        request.setExtra(Struct.fromJavaScript(extra));
+
+        this.options.requestLogger?.(request);
+
+        await promisify<
+          pb.MoveToJointPositionsRequest,
+          pb.MoveToJointPositionsResponse
+        >(
+          armService.moveToJointPositions.bind(armService),
+          request,
+          options,
+          'moveToJointPositions'
+        );
+      },
+      callOptions
+    );
   }
 
-  async getJointPositions(extra = {}) {
+  async getJointPositions(extra = {}, callOptions: CallOptions = {}) {
     const armService = this.ArmService;
     const request = new pb.GetJointPositionsRequest();
     request.setName(this.name);
@@ -92,7 +158,12 @@ export class ArmClient implements Arm {
     const response = await promisify<
       pb.GetJointPositionsRequest,
       pb.GetJointPositionsResponse
-    >(armService.getJointPositions.bind(armService), request);
+    >(
+      armService.getJointPositions.bind(armService),
+      request,
+      callOptions,
+      'getJointPositions'
+    );
 
     const result = response.getPositions();
 
@@ -102,7 +173,7 @@ export class ArmClient implements Arm {
     return result.toObject();
   }
 
-  async stop(extra = {}) {
+  async stop(extra = {}, callOptions: CallOptions = {}) {
     const armService = this.ArmService;
     const request = new pb.StopRequest();
     request.setName(this.name);
@@ -112,11 +183,13 @@ export class ArmClient implements Arm {
 
     await promisify<pb.StopRequest, pb.StopResponse>(
       armService.stop.bind(armService),
-      request
+      request,
+      callOptions,
+      'stop'
     );
   }
 
-  async isMoving() {
+  async isMoving(callOptions: CallOptions = {}) {
     const armService = this.ArmService;
     const request = new pb.IsMovingRequest();
     request.setName(this.name);
@@ -125,13 +198,24 @@ export class ArmClient implements Arm {
 
     const response = await promisify<pb.IsMovingRequest, pb.IsMovingResponse>(
       armService.isMoving.bind(armService),
-      request
+      request,
+      callOptions,
+      'isMoving'
     );
     return response.getIsMoving();
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const armService = this.ArmService;
-    return doCommandFromClient(armService, this.name, command, this.options);
+    return doCommandFromClient(
+      armService,
+      this.name,
+      command,
+      this.options,
+      callOptions
+    );
   }
 }
@@ -1,4 +1,4 @@
-import type { Resource, StructType, Vector3 } from '../../types';
+import type { CallOptions, Resource, StructType, Vector3 } from '../../types';
 import pb from '../../gen/component/base/v1/base_pb';
 
 export type BaseProperties = pb.GetPropertiesResponse.AsObject;
@@ -15,7 +15,8 @@ export interface Base extends Resource {
   moveStraight(
     distanceMm: number,
     mmPerSec: number,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ): Promise<void>;
 
   /**
@@ -25,7 +26,12 @@ export interface Base extends Resource {
    * @param angleDeg - Degrees to spin.
    * @param degsPerSec - Angular speed, in degrees per second.
    */
-  spin(angleDeg: number, degsPerSec: number, extra?: StructType): Promise<void>;
+  spin(
+    angleDeg: number,
+    degsPerSec: number,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<void>;
 
   /**
    * Set the linear and angular power of a base from -1 to 1 in terms of power
@@ -37,7 +43,8 @@ export interface Base extends Resource {
   setPower(
     linear: Vector3,
     angular: Vector3,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ): Promise<void>;
 
   /**
@@ -49,15 +56,19 @@ export interface Base extends Resource {
   setVelocity(
     linear: Vector3,
     angular: Vector3,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ): Promise<void>;
 
   /** Stop a base */
-  stop(extra?: StructType): Promise<void>;
+  stop(extra?: StructType, callOptions?: CallOptions): Promise<void>;
 
   /** Return true if the base is in motion. */
-  isMoving(extra?: StructType): Promise<boolean>;
+  isMoving(callOptions?: CallOptions): Promise<boolean>;
 
   /** Return the base's properties. */
-  getProperties(extra?: StructType): Promise<BaseProperties>;
+  getProperties(
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<BaseProperties>;
 }
@@ -3,7 +3,7 @@ import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
 import type { RobotClient } from '../../robot';
 import pb from '../../gen/component/base/v1/base_pb';
 import { BaseServiceClient } from '../../gen/component/base/v1/base_pb_service';
-import type { Options, StructType, Vector3 } from '../../types';
+import type { CallOptions, Options, StructType, Vector3 } from '../../types';
 import { promisify, doCommandFromClient, encodeVector3 } from '../../utils';
 import type { Base } from './base';
 
@@ -27,7 +27,12 @@ export class BaseClient implements Base {
     return this.client;
   }
 
-  async moveStraight(distanceMm: number, mmPerSec: number, extra = {}) {
+  async moveStraight(
+    distanceMm: number,
+    mmPerSec: number,
+    extra = {},
+    callOptions: CallOptions = {}
+  ) {
     const { baseService } = this;
     const request = new pb.MoveStraightRequest();
     request.setName(this.name);
@@ -39,11 +44,18 @@ export class BaseClient implements Base {
 
     await promisify<pb.MoveStraightRequest, pb.MoveStraightResponse>(
       baseService.moveStraight.bind(baseService),
-      request
+      request,
+      callOptions,
+      'moveStraight'
     );
   }
 
-  async spin(angleDeg: number, degsPerSec: number, extra = {}) {
+  async spin(
+    angleDeg: number,
+    degsPerSec: number,
+    extra = {},
+    callOptions: CallOptions = {}
+  ) {
     const { baseService } = this;
     const request = new pb.SpinRequest();
     request.setName(this.name);
@@ -55,11 +67,18 @@ export class BaseClient implements Base {
 
     await promisify<pb.SpinRequest, pb.SpinResponse>(
       baseService.spin.bind(baseService),
-      request
+      request,
+      callOptions,
+      'spin'
     );
   }
 
-  async setPower(linear: Vector3, angular: Vector3, extra = {}) {
+  async setPower(
+    linear: Vector3,
+    angular: Vector3,
+    extra = {},
+    callOptions: CallOptions = {}
+  ) {
     const { baseService } = this;
     const request = new pb.SetPowerRequest();
     request.setName(this.name);
@@ -71,11 +90,18 @@ export class BaseClient implements Base {
 
     await promisify<pb.SetPowerRequest, pb.SetPowerResponse>(
       baseService.setPower.bind(baseService),
-      request
+      request,
+      callOptions,
+      'setPower'
     );
   }
 
-  async setVelocity(linear: Vector3, angular: Vector3, extra = {}) {
+  async setVelocity(
+    linear: Vector3,
+    angular: Vector3,
+    extra = {},
+    callOptions: CallOptions = {}
+  ) {
     const { baseService } = this;
     const request = new pb.SetVelocityRequest();
     request.setName(this.name);
@@ -87,11 +113,13 @@ export class BaseClient implements Base {
 
     await promisify<pb.SetVelocityRequest, pb.SetVelocityResponse>(
       baseService.setVelocity.bind(baseService),
-      request
+      request,
+      callOptions,
+      'setVelocity'
     );
   }
 
-  async stop(extra = {}) {
+  async stop(extra = {}, callOptions: CallOptions = {}) {
     const { baseService } = this;
     const request = new pb.StopRequest();
     request.setName(this.name);
@@ -101,11 +129,13 @@ export class BaseClient implements Base {
 
     await promisify<pb.StopRequest, pb.StopResponse>(
       baseService.stop.bind(baseService),
-      request
+      request,
+      callOptions,
+      'stop'
     );
   }
 
-  async isMoving() {
+  async isMoving(callOptions: CallOptions = {}) {
     const { baseService } = this;
     const request = new pb.IsMovingRequest();
     request.setName(this.name);
@@ -114,17 +144,28 @@ export class BaseClient implements Base {
 
     const response = await promisify<pb.IsMovingRequest, pb.IsMovingResponse>(
       baseService.isMoving.bind(baseService),
-      request
+      request,
+      callOptions,
+      'isMoving'
     );
     return response.getIsMoving();
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { baseService } = this;
-    return doCommandFromClient(baseService, this.name, command, this.options);
+    return doCommandFromClient(
+      baseService,
+      this.name,
+      command,
+      this.options,
+      callOptions
+    );
   }
 
-  async getProperties(extra = {}) {
+  async getProperties(extra = {}, callOptions: CallOptions = {}) {
     const { baseService } = this;
     const request = new pb.GetPropertiesRequest();
     request.setName(this.name);
@@ -135,7 +176,12 @@ export class BaseClient implements Base {
     const response = await promisify<
       pb.GetPropertiesRequest,
       pb.GetPropertiesResponse
-    >(baseService.getProperties.bind(baseService), request);
+    >(
+      baseService.getProperties.bind(baseService),
+      request,
+      callOptions,
+      'getProperties'
+    );
     return response.toObject();
   }
 }
@@ -1,6 +1,7 @@
 import { type Duration as PBDuration } from 'google-protobuf/google/protobuf/duration_pb';
 import pb from '../../gen/component/board/v1/board_pb';
-import type { Resource, StructType } from '../../types';
+import type { ViamResponseStream } from '../../responses';
+import type { CallOptions, Resource, StructType } from '../../types';
 
 type ValueOf<T> = T[keyof T];
 export const { PowerMode } = pb;
@@ -18,7 +19,11 @@ export type AnalogValue = pb.ReadAnalogReaderResponse.AsObject;
  * components such as analog readers, and digital interrupts.
  */
 export interface Board extends Resource {
-  getGPIO(pin: string, extra?: StructType): Promise<boolean>;
+  getGPIO(
+    pin: string,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<boolean>;
   /**
    * Set the high/low state of the given pin of a board.
    *
@@ -26,27 +31,45 @@ export interface Board extends Resource {
    * @param high - When true, set the given pin to high. When false, set the
    *   given pin to low.
    */
-  setGPIO(pin: string, high: boolean, extra?: StructType): Promise<void>;
+  setGPIO(
+    pin: string,
+    high: boolean,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<void>;
   /**
    * Get the duty cycle of the given pin of a board.
    *
    * @param pin - The pin.
    * @returns The duty cycle, which is a value from 0 to 1.
    */
-  getPWM(pin: string, extra?: StructType): Promise<number>;
+  getPWM(
+    pin: string,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<number>;
   /**
    * Set the duty cycle of the given pin of a board.
    *
    * @param pin - The pin.
    * @param dutyCyclePct - A value from 0 to 1.
    */
-  setPWM(pin: string, dutyCyclePct: number, extra?: StructType): Promise<void>;
+  setPWM(
+    pin: string,
+    dutyCyclePct: number,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<void>;
   /**
    * Get the PWM frequency of the given pin of a board.
    *
    * @param pin - The pin.
    */
-  getPWMFrequency(pin: string, extra?: StructType): Promise<number>;
+  getPWMFrequency(
+    pin: string,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<number>;
   /**
    * Set the PWM frequency of the given pin of a board.
    *
@@ -57,7 +80,8 @@ export interface Board extends Resource {
   setPWMFrequency(
     pin: string,
     frequencyHz: number,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ): Promise<void>;
   /**
    * Read the current value of an analog reader of a board.
@@ -66,7 +90,8 @@ export interface Board extends Resource {
    */
   readAnalogReader(
     analogReader: string,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ): Promise<AnalogValue>;
   /**
    * Write an analog value to a pin on the board.
@@ -74,7 +99,12 @@ export interface Board extends Resource {
    * @param pin - The pin name.
    * @param value - An integer value to write.
    */
-  writeAnalog(pin: string, value: number, extra?: StructType): Promise<void>;
+  writeAnalog(
+    pin: string,
+    value: number,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<void>;
   /**
    * Return the current value of the interrupt which is based on the type of
    * interrupt.
@@ -83,7 +113,8 @@ export interface Board extends Resource {
    */
   getDigitalInterruptValue(
     digitalInterruptName: string,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ): Promise<number>;
   /**
    * Stream digital interrupt ticks on the board.
@@ -96,6 +127,25 @@ export interface Board extends Resource {
     queue: Tick[],
     extra?: StructType
   ): Promise<void>;
+  /**
+   * Stream digital interrupt ticks on the board as they happen.
+   *
+   * @example
+   *
+   * ```ts
+   * for await (const tick of board.tickStream(['8'])) {
+   *   console.log(tick.pinName, tick.high);
+   * }
+   * ```
+   *
+   * Optional so that existing implementations of this interface still compile.
+   *
+   * @param interrupts - Names of the interrupts to stream.
+   */
+  tickStream?(
+    interrupts: string[],
+    extra?: StructType
+  ): ViamResponseStream<Tick>;
   /**
    * Set power mode of the board.
    *
@@ -107,6 +157,7 @@ export interface Board extends Resource {
     name: string,
     powerMode: PowerMode,
     duration: Duration,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ): Promise<void>;
 }
@@ -1,9 +1,11 @@
 // @vitest-environment happy-dom
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { grpc } from '@improbable-eng/grpc-web';
 import { BoardClient } from './client';
 import { type Tick, type AnalogValue } from './board';
 import { EventDispatcher } from '../../events';
+import { CancelledError } from '../../errors';
 import { type ResponseStream } from '../../gen/robot/v1/robot_pb_service';
 import { RobotClient } from '../../robot';
 vi.mock('../../robot');
@@ -135,24 +137,26 @@ describe('streamTicks tests', () => {
     const promise1 = board.streamTicks(['1', '2'], ticks);
 
     testTickStream?.emit('end', undefined);
-    expect(promise1).rejects.toStrictEqual({
+    expect(promise1).rejects.toMatchObject({
       message: 'Stream ended without a status code',
+      code: grpc.Code.Unknown,
     });
 
     const promise2 = board.streamTicks(['1', '2'], ticks);
     testTickStream?.emit('end', error);
-    expect(promise2).rejects.toStrictEqual({
-      code: 1,
+    expect(promise2).rejects.toBeInstanceOf(CancelledError);
+    expect(promise2).rejects.toMatchObject({
+      code: grpc.Code.Canceled,
       message: 'test',
-      metadata: undefined,
+      method: 'streamTicks',
     });
 
     const promise3 = board.streamTicks(['1', '2'], ticks);
     testTickStream?.emit('status', error);
-    expect(promise3).rejects.toStrictEqual({
-      code: 1,
+    expect(promise3).rejects.toBeInstanceOf(CancelledError);
+    expect(promise3).rejects.toMatchObject({
+      code: grpc.Code.Canceled,
       message: 'test',
-      metadata: undefined,
     });
   });
 });
@@ -3,9 +3,10 @@ import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
 import { Duration as PBDuration } from 'google-protobuf/google/protobuf/duration_pb';
 import { BoardServiceClient } from '../../gen/component/board/v1/board_pb_service';
 import type { RobotClient } from '../../robot';
-import type { Options, StructType } from '../../types';
+import type { CallOptions, Options, StructType } from '../../types';
 
 import pb from '../../gen/component/board/v1/board_pb';
+import { mapResponseStream, streamStatusError } from '../../responses';
 import { promisify, doCommandFromClient } from '../../utils';
 import type { Board, Duration, PowerMode, Tick } from './board';
 
@@ -29,7 +30,12 @@ export class BoardClient implements Board {
     return this.client;
   }
 
-  async setGPIO(pin: string, high: boolean, extra = {}) {
+  async setGPIO(
+    pin: string,
+    high: boolean,
+    extra = {},
+    callOptions: CallOptions = {}
+  ) {
     const { boardService } = this;
     const request = new pb.SetGPIORequest();
     request.setName(this.name);
@@ -41,11 +47,13 @@ export class BoardClient implements Board {
 
     await promisify<pb.SetGPIORequest, pb.SetGPIOResponse>(
       boardService.setGPIO.bind(boardService),
-      request
+      request,
+      callOptions,
+      'setGPIO'
     );
   }
 
-  async getGPIO(pin: string, extra = {}) {
+  async getGPIO(pin: string, extra = {}, callOptions: CallOptions = {}) {
     const { boardService } = this;
     const request = new pb.GetGPIORequest();
     request.setName(this.name);
@@ -56,12 +64,14 @@ export class BoardClient implements Board {
 
     const response = await promisify<pb.GetGPIORequest, pb.GetGPIOResponse>(
       boardService.getGPIO.bind(boardService),
-      request
+      request,
+      callOptions,
+      'getGPIO'
     );
     return response.getHigh();
   }
 
-  async getPWM(pin: string, extra = {}) {
+  async getPWM(pin: string, extra = {}, callOptions: CallOptions = {}) {
     const { boardService } = this;
     const request = new pb.PWMRequest();
     request.setName(this.name);
@@ -72,12 +82,19 @@ export class BoardClient implements Board {
 
     const response = await promisify<pb.PWMRequest, pb.PWMResponse>(
       boardService.pWM.bind(boardService),
-      request
+      request,
+      callOptions,
+      'pWM'
     );
     return response.getDutyCyclePct();
   }
 
-  async setPWM(pin: string, dutyCyle: number, extra = {}) {
+  async setPWM(
+    pin: string,
+    dutyCyle: number,
+    extra = {},
+    callOptions: CallOptions = {}
+  ) {
     const { boardService } = this;
     const request = new pb.SetPWMRequest();
     request.setName(this.name);
@@ -89,11 +106,17 @@ export class BoardClient implements Board {
 
     await promisify<pb.SetPWMRequest, pb.SetPWMResponse>(
       boardService.setPWM.bind(boardService),
-      request
+      request,
+      callOptions,
+      'setPWM'
     );
   }
 
-  async getPWMFrequency(pin: string, extra = {}) {
+  async getPWMFrequency(
+    pin: string,
+    extra = {},
+    callOptions: CallOptions = {}
+  ) {
     const { boardService } = this;
     const request = new pb.PWMFrequencyRequest();
     request.setName(this.name);
@@ -105,11 +128,21 @@ export class BoardClient implements Board {
     const response = await promisify<
       pb.PWMFrequencyRequest,
       pb.PWMFrequencyResponse
-    >(boardService.pWMFrequency.bind(boardService), request);
+    >(
+      boardService.pWMFrequency.bind(boardService),
+      request,
+      callOptions,
+      'pWMFrequency'
+    );
     return response.getFrequencyHz();
   }
 
-  async setPWMFrequency(pin: string, frequencyHz: number, extra = {}) {
+  async setPWMFrequency(
+    pin: string,
+    frequencyHz: number,
+    extra = {},
+    callOptions: CallOptions = {}
+  ) {
     const { boardService } = this;
     const request = new pb.SetPWMFrequencyRequest();
     request.setName(this.name);
@@ -121,11 +154,17 @@ export class BoardClient implements Board {
 
     await promisify<pb.SetPWMFrequencyRequest, pb.SetPWMFrequencyResponse>(
       boardService.setPWMFrequency.bind(boardService),
-      request
+      request,
+      callOptions,
+      'setPWMFrequency'
     );
   }
 
-  async readAnalogReader(analogReader: string, extra = {}) {
+  async readAnalogReader(
+    analogReader: string,
+    extra = {},
+    callOptions: CallOptions = {}
+  ) {
     const { boardService } = this;
     const request = new pb.ReadAnalogReaderRequest();
     request.setBoardName(this.name);
@@ -137,12 +176,22 @@ export class BoardClient implements Board {
     const response = await promisify<
       pb.ReadAnalogReaderRequest,
       pb.ReadAnalogReaderResponse
-    >(boardService.readAnalogReader.bind(boardService), request);
+    >(
+      boardService.readAnalogReader.bind(boardService),
+      request,
+      callOptions,
+      'readAnalogReader'
+    );
 
     return response.toObject();
   }
 
-  async writeAnalog(pin: string, value: number, extra = {}) {
+  async writeAnalog(
+    pin: string,
+    value: number,
+    extra = {},
+    callOptions: CallOptions = {}
+  ) {
     const { boardService } = this;
     const request = new pb.WriteAnalogRequest();
     request.setName(this.name);
@@ -154,11 +203,17 @@ export class BoardClient implements Board {
 
     await promisify<pb.WriteAnalogRequest, pb.WriteAnalogResponse>(
       boardService.writeAnalog.bind(boardService),
-      request
+      request,
+      callOptions,
+      'writeAnalog'
     );
   }
 
-  async getDigitalInterruptValue(digitalInteruptName: string, extra = {}) {
+  async getDigitalInterruptValue(
+    digitalInteruptName: string,
+    extra = {},
+    callOptions: CallOptions = {}
+  ) {
     const { boardService } = this;
     const request = new pb.GetDigitalInterruptValueRequest();
     request.setBoardName(this.name);
@@ -170,7 +225,12 @@ export class BoardClient implements Board {
     const response = await promisify<
       pb.GetDigitalInterruptValueRequest,
       pb.GetDigitalInterruptValueResponse
-    >(boardService.getDigitalInterruptValue.bind(boardService), request);
+    >(
+      boardService.getDigitalInterruptValue.bind(boardService),
+      request,
+      callOptions,
+      'getDigitalInterruptValue'
+    );
     return response.getValue();
   }
 
@@ -190,39 +250,44 @@ export class BoardClient implements Board {
       queue.push(tick);
     });
 
+    const errorOptions = { resourceName: this.name, method: 'streamTicks' };
     return new Promise<void>((resolve, reject) => {
       stream.on('status', (status) => {
         if (status.code !== 0) {
-          const error = {
-            message: status.details,
-            code: status.code,
-            metadata: status.metadata,
-          };
-          reject(error);
+          reject(streamStatusError(status, errorOptions));
         }
       });
       stream.on('end', (end) => {
-        if (end === undefined) {
-          const error = { message: 'Stream ended without a status code' };
-          reject(error);
-        } else if (end.code !== 0) {
-          const error = {
-            message: end.details,
-            code: end.code,
-            metadata: end.metadata,
-          };
-          reject(error);
+        if (end === undefined || end.code !== 0) {
+          reject(streamStatusError(end, errorOptions));
         }
         resolve();
       });
     });
   }
 
+  tickStream(interrupts: string[], extra = {}) {
+    const request = new pb.StreamTicksRequest();
+    request.setName(this.name);
+    request.setPinNamesList(interrupts);
+    request.setExtra(Struct.fromJavaScript(extra));
+    this.options.requestLogger?.(request);
+    return mapResponseStream(
+      this.client.streamTicks(request),
+      (response): Tick => ({
+        pinName: response.getPinName(),
+        high: response.getHigh(),
+        time: response.getTime(),
+      })
+    );
+  }
+
   async setPowerMode(
     name: string,
     powerMode: PowerMode,
     duration?: Duration,
-    extra = {}
+    extra = {},
+    callOptions: CallOptions = {}
   ) {
     const { boardService } = this;
     const request = new pb.SetPowerModeRequest();
@@ -240,12 +305,23 @@ export class BoardClient implements Board {
 
     await promisify<pb.SetPowerModeRequest, pb.SetPowerModeResponse>(
       boardService.setPowerMode.bind(boardService),
-      request
+      request,
+      callOptions,
+      'setPowerMode'
     );
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { boardService } = this;
-    return doCommandFromClient(boardService, this.name, command, this.options);
+    return doCommandFromClient(
+      boardService,
+      this.name,
+      command,
+      this.options,
+      callOptions
+    );
   }
 }
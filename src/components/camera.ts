@@ -1,2 +1,21 @@
 export type { Camera, MimeType } from './camera/camera';
 export { CameraClient } from './camera/client';
+export { CameraImage } from './camera/camera-image';
+export {
+  type CameraFrame,
+  type CameraFrameStreamOptions,
+  CameraFrameStream,
+} from './camera/frame-stream';
+export {
+  type RGBAImage,
+  type DepthImage,
+  type ViamImageHeader,
+  type DepthColormap,
+  type DepthColorizeOptions,
+  decodeViamRGBA,
+  decodeViamDepth,
+  encodeViamRGBA,
+  encodeViamDepth,
+  readViamImageHeader,
+  colorizeDepth,
+} from './camera/viam-image';
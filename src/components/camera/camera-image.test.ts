@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { CameraImage } from './camera-image';
+
+const rgba = (width: number, height: number, pixels: number[]) => {
+  const bytes = new Uint8Array(12 + pixels.length);
+  bytes.set([0x52, 0x47, 0x42, 0x41]);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(4, width);
+  view.setUint32(8, height);
+  bytes.set(pixels, 12);
+  return bytes;
+};
+
+const depth = (width: number, height: number, depths: number[]) => {
+  const bytes = new Uint8Array(24 + depths.length * 2);
+  bytes.set(new TextEncoder().encode('DEPTHMAP'));
+  const view = new DataView(bytes.buffer);
+  view.setBigUint64(8, BigInt(width));
+  view.setBigUint64(16, BigInt(height));
+  for (const [index, value] of depths.entries()) {
+    view.setUint16(24 + index * 2, value);
+  }
+  return bytes;
+};
+
+describe('CameraImage', () => {
+  it('decodes raw RGBA images', () => {
+    const image = new CameraImage(
+      'color',
+      'image/vnd.viam.rgba',
+      rgba(2, 1, [255, 0, 0, 255, 0, 0, 255, 128])
+    );
+
+    const { width, height, data } = image.toRGBA();
+    expect([width, height]).toStrictEqual([2, 1]);
+    expect([...data]).toStrictEqual([255, 0, 0, 255, 0, 0, 255, 128]);
+    expect(image.toPixels().data).toStrictEqual(data);
+  });
+
+  it('decodes depth images', () => {
+    const image = new CameraImage(
+      'depth',
+      'image/vnd.viam.dep',
+      depth(3, 1, [0, 1000, 3000])
+    );
+
+    const { width, height, data } = image.toDepth();
+    expect([width, height]).toStrictEqual([3, 1]);
+    expect([...data]).toStrictEqual([0, 1000, 3000]);
+    expect([...image.toPixels().data]).toStrictEqual([
+      0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255, 255,
+    ]);
+  });
+
+  it('does not decode compressed images', () => {
+    const image = new CameraImage('color', 'image/jpeg', new Uint8Array([1]));
+
+    expect(() => image.toRGBA()).toThrow('cannot decode pixels of image/jpeg');
+    expect(image.toBlob().type).toBe('image/jpeg');
+  });
+
+  it('rejects truncated images', () => {
+    const image = new CameraImage(
+      'color',
+      'image/vnd.viam.rgba',
+      rgba(2, 2, [0, 0, 0, 0])
+    );
+
+    expect(() => image.toRGBA()).toThrow('missing pixels');
+  });
+});
@@ -0,0 +1,102 @@
+import type { MimeType } from './camera';
+import {
+  colorizeDepth,
+  decodeViamDepth,
+  decodeViamRGBA,
+  type DepthColorizeOptions,
+  type DepthImage,
+  type RGBAImage,
+} from './viam-image';
+
+/**
+ * An image from one source of a camera, such as the color or depth sensor of an
+ * RGB-D camera.
+ */
+export class CameraImage {
+  /** The name of the source that captured the image. */
+  readonly sourceName: string;
+
+  /** The format of `data`. */
+  readonly mimeType: MimeType;
+
+  /** The encoded image. */
+  readonly data: Uint8Array;
+
+  /** When the image was captured, if the camera reported it. */
+  readonly capturedAt: Date | undefined;
+
+  constructor(
+    sourceName: string,
+    mimeType: MimeType,
+    data: Uint8Array,
+    capturedAt?: Date
+  ) {
+    this.sourceName = sourceName;
+    this.mimeType = mimeType;
+    this.data = data;
+    this.capturedAt = capturedAt;
+  }
+
+  /** Whether the image holds depths rather than colors. */
+  get isDepth() {
+    return this.mimeType === 'image/vnd.viam.dep';
+  }
+
+  /** Get the image as a Blob, e.g. to show JPEG or PNG images in an `img`. */
+  toBlob() {
+    return new Blob([this.data], { type: this.mimeType });
+  }
+
+  /** Decode the pixels of an `image/vnd.viam.rgba` image. */
+  toRGBA(): RGBAImage {
+    if (this.mimeType !== 'image/vnd.viam.rgba') {
+      throw new Error(
+        `cannot decode pixels of ${this.mimeType || 'unknown'} image`
+      );
+    }
+    return decodeViamRGBA(this.data);
+  }
+
+  /** Decode the depths, in millimeters, of an `image/vnd.viam.dep` image. */
+  toDepth(): DepthImage {
+    if (!this.isDepth) {
+      throw new Error(
+        `cannot decode depths of ${this.mimeType || 'unknown'} image`
+      );
+    }
+    return decodeViamDepth(this.data);
+  }
+
+  /**
+   * Decode the image into 4 bytes of RGBA per pixel. Depth images are shaded
+   * with `colorizeDepth`, in grayscale by default.
+   */
+  toPixels(depthOptions?: DepthColorizeOptions): RGBAImage {
+    return this.isDepth
+      ? colorizeDepth(this.toDepth(), depthOptions)
+      : this.toRGBA();
+  }
+
+  /**
+   * Decode the image into `ImageData` to draw on a canvas, as with `toPixels`.
+   * Only available where `ImageData` is, such as in browsers.
+   */
+  toImageData(depthOptions?: DepthColorizeOptions): ImageData {
+    const { width, height, data } = this.toPixels(depthOptions);
+    return new ImageData(data, width, height);
+  }
+
+  /**
+   * Decode the image into an `ImageBitmap` to draw on a canvas, as with
+   * `toPixels`. Only available where `createImageBitmap` is, such as in
+   * browsers.
+   */
+  async toImageBitmap(
+    depthOptions?: DepthColorizeOptions
+  ): Promise<ImageBitmap> {
+    if (this.isDepth || this.mimeType === 'image/vnd.viam.rgba') {
+      return createImageBitmap(this.toImageData(depthOptions));
+    }
+    return createImageBitmap(this.toBlob());
+  }
+}
@@ -2,7 +2,8 @@ import type {
   DistortionParameters,
   IntrinsicParameters,
 } from '../../gen/component/camera/v1/camera_pb';
-import type { Resource } from '../../types';
+import type { CallOptions, Resource } from '../../types';
+import type { CameraImage } from './camera-image';
 
 export interface Properties {
   /** Whether the camera supports the return of point cloud data. */
@@ -16,6 +17,7 @@ export interface Properties {
 export type MimeType =
   | ''
   | 'image/vnd.viam.rgba'
+  | 'image/vnd.viam.dep'
   | 'image/jpeg'
   | 'image/png'
   | 'pointcloud/pcd'
@@ -24,12 +26,22 @@ export type MimeType =
 /** Represents any physical hardware that can capture frames. */
 export interface Camera extends Resource {
   /**
-   * Return a frame from a camera.
+   * Return a frame from a camera. To poll frames continuously, such as over
+   * connections without video tracks, use a `CameraFrameStream`.
    *
    * @param mimeType - A specific MIME type to request. This is not necessarily
    *   the same type that will be returned.
    */
-  getImage: (mimeType?: MimeType) => Promise<Uint8Array>;
+  getImage: (
+    mimeType?: MimeType,
+    callOptions?: CallOptions
+  ) => Promise<Uint8Array>;
+
+  /**
+   * Return a frame from every source of a camera, such as the color and depth
+   * sensors of an RGB-D camera, captured at the same time.
+   */
+  getImages: (callOptions?: CallOptions) => Promise<CameraImage[]>;
 
   /**
    * Render a frame from a camera to an HTTP response.
@@ -37,11 +49,14 @@ export interface Camera extends Resource {
    * @param mimeType - A specific MIME type to request. This is not necessarily
    *   the same type that will be returned.
    */
-  renderFrame: (mimeType?: MimeType) => Promise<Blob>;
+  renderFrame: (
+    mimeType?: MimeType,
+    callOptions?: CallOptions
+  ) => Promise<Blob>;
 
-  /** Return a point cloud from a camera. */
-  getPointCloud: () => Promise<Uint8Array>;
+  /** Return a point cloud from a camera as a PCD file; see `decodePCD`. */
+  getPointCloud: (callOptions?: CallOptions) => Promise<Uint8Array>;
 
   /** Return the camera properties. */
-  getProperties: () => Promise<Properties>;
+  getProperties: (callOptions?: CallOptions) => Promise<Properties>;
 }
@@ -1,13 +1,23 @@
 import { CameraServiceClient } from '../../gen/component/camera/v1/camera_pb_service';
 import type { RobotClient } from '../../robot';
 import type { HttpBody } from '../../gen/google/api/httpbody_pb';
-import type { Options, StructType } from '../../types';
+import type { CallOptions, Options, StructType } from '../../types';
 import pb from '../../gen/component/camera/v1/camera_pb';
 import { promisify, doCommandFromClient } from '../../utils';
 import type { Camera, MimeType } from './camera';
+import { CameraImage } from './camera-image';
 
 const PointCloudPCD: MimeType = 'pointcloud/pcd';
 
+// Newer servers may answer with formats this client does not know
+const formatMimeTypes: Partial<Record<number, MimeType>> = {
+  [pb.Format.FORMAT_UNSPECIFIED]: '',
+  [pb.Format.FORMAT_RAW_RGBA]: 'image/vnd.viam.rgba',
+  [pb.Format.FORMAT_RAW_DEPTH]: 'image/vnd.viam.dep',
+  [pb.Format.FORMAT_JPEG]: 'image/jpeg',
+  [pb.Format.FORMAT_PNG]: 'image/png',
+};
+
 /**
  * A gRPC-web client for the Camera component.
  *
@@ -28,7 +38,7 @@ export class CameraClient implements Camera {
     return this.client;
   }
 
-  async getImage(mimeType: MimeType = '') {
+  async getImage(mimeType: MimeType = '', callOptions: CallOptions = {}) {
     const { cameraService } = this;
     const request = new pb.GetImageRequest();
     request.setName(this.name);
@@ -38,13 +48,46 @@ export class CameraClient implements Camera {
 
     const response = await promisify<pb.GetImageRequest, pb.GetImageResponse>(
       cameraService.getImage.bind(cameraService),
-      request
+      request,
+      callOptions,
+      'getImage'
     );
 
     return response.getImage_asU8();
   }
 
-  async renderFrame(mimeType: MimeType = '') {
+  async getImages(callOptions: CallOptions = {}) {
+    const { cameraService } = this;
+    const request = new pb.GetImagesRequest();
+    request.setName(this.name);
+
+    this.options.requestLogger?.(request);
+
+    const response = await promisify<pb.GetImagesRequest, pb.GetImagesResponse>(
+      cameraService.getImages.bind(cameraService),
+      request,
+      callOptions,
+      'getImages'
+    );
+
+    const capturedAt = response
+      .getResponseMetadata()
+      ?.getCapturedAt()
+      ?.toDate();
+    return response
+      .getImagesList()
+      .map(
+        (image) =>
+          new CameraImage(
+            image.getSourceName(),
+            formatMimeTypes[image.getFormat()] ?? '',
+            image.getImage_asU8(),
+            capturedAt
+          )
+      );
+  }
+
+  async renderFrame(mimeType: MimeType = '', callOptions: CallOptions = {}) {
     const { cameraService } = this;
     const request = new pb.RenderFrameRequest();
     request.setName(this.name);
@@ -54,13 +97,15 @@ export class CameraClient implements Camera {
 
     const response = await promisify<pb.RenderFrameRequest, HttpBody>(
       cameraService.renderFrame.bind(cameraService),
-      request
+      request,
+      callOptions,
+      'renderFrame'
     );
 
     return new Blob([response.getData_asU8()], { type: mimeType });
   }
 
-  async getPointCloud() {
+  async getPointCloud(callOptions: CallOptions = {}) {
     const { cameraService } = this;
     const request = new pb.GetPointCloudRequest();
     request.setName(this.name);
@@ -71,12 +116,17 @@ export class CameraClient implements Camera {
     const response = await promisify<
       pb.GetPointCloudRequest,
       pb.GetPointCloudResponse
-    >(cameraService.getPointCloud.bind(cameraService), request);
+    >(
+      cameraService.getPointCloud.bind(cameraService),
+      request,
+      callOptions,
+      'getPointCloud'
+    );
 
     return response.getPointCloud_asU8();
   }
 
-  async getProperties() {
+  async getProperties(callOptions: CallOptions = {}) {
     const { cameraService } = this;
     const request = new pb.GetPropertiesRequest();
     request.setName(this.name);
@@ -86,13 +136,27 @@ export class CameraClient implements Camera {
     const response = await promisify<
       pb.GetPropertiesRequest,
       pb.GetPropertiesResponse
-    >(cameraService.getProperties.bind(cameraService), request);
+    >(
+      cameraService.getProperties.bind(cameraService),
+      request,
+      callOptions,
+      'getProperties'
+    );
 
     return response.toObject();
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { cameraService } = this;
-    return doCommandFromClient(cameraService, this.name, command, this.options);
+    return doCommandFromClient(
+      cameraService,
+      this.name,
+      command,
+      this.options,
+      callOptions
+    );
   }
 }
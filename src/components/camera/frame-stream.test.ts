@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EventDispatcher, MachineConnectionEvent } from '../../events';
+import { CameraFrameStream } from './frame-stream';
+
+const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0]);
+
+const camera = (latencyMs = 0) => ({
+  getImage: vi.fn(
+    async () =>
+      new Promise<Uint8Array>((resolve) => {
+        setTimeout(() => resolve(jpeg), latencyMs);
+      })
+  ),
+});
+
+class FakeRobot extends EventDispatcher {
+  connected = true;
+
+  isConnected() {
+    return this.connected;
+  }
+
+  reconnect() {
+    this.connected = true;
+    this.emit(MachineConnectionEvent.CONNECTED, {});
+  }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('CameraFrameStream', () => {
+  it('polls at the target rate', async () => {
+    const cam = camera();
+    const frames = new CameraFrameStream(cam, { targetFps: 10 });
+
+    await vi.advanceTimersByTimeAsync(950);
+    frames.stop();
+
+    expect(cam.getImage).toHaveBeenCalledTimes(10);
+    expect(cam.getImage).toHaveBeenCalledWith(
+      'image/jpeg',
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+    expect(frames.fps).toBeCloseTo(10, 0);
+  });
+
+  it('slows down when frames take longer than the target rate allows', async () => {
+    const cam = camera(250);
+    const frames = new CameraFrameStream(cam, { targetFps: 10 });
+
+    await vi.advanceTimersByTimeAsync(900);
+    frames.stop();
+
+    expect(cam.getImage).toHaveBeenCalledTimes(4);
+    expect(frames.latencyMs).toBe(250);
+    expect(frames.fps).toBeCloseTo(4, 0);
+  });
+
+  it('yields the newest frame and drops the rest', async () => {
+    const frames = new CameraFrameStream(camera(), { targetFps: 10 });
+    const iterator = frames[Symbol.asyncIterator]();
+
+    const next = iterator.next();
+    await vi.advanceTimersByTimeAsync(0);
+    const first = await next;
+    await vi.advanceTimersByTimeAsync(350);
+    const second = await iterator.next();
+
+    expect(first.value).toMatchObject({
+      sequence: 1,
+      latencyMs: 0,
+      image: { mimeType: 'image/jpeg' },
+    });
+    expect(second.value).toMatchObject({ sequence: 4 });
+    expect(frames.droppedFrames).toBe(2);
+
+    await iterator.return?.();
+    await expect(iterator.next()).resolves.toStrictEqual({
+      value: undefined,
+      done: true,
+    });
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const cam = camera(50);
+    const frames = new CameraFrameStream(cam, {
+      signal: controller.signal,
+    });
+    const iterator = frames[Symbol.asyncIterator]();
+
+    const next = iterator.next();
+    controller.abort();
+
+    await expect(next).resolves.toStrictEqual({
+      value: undefined,
+      done: true,
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(cam.getImage).toHaveBeenCalledOnce();
+  });
+
+  it('pauses when a frame fails before the disconnection is emitted', async () => {
+    const robot = new FakeRobot();
+    const cam = {
+      getImage: vi
+        .fn()
+        .mockRejectedValueOnce(new Error('connection closed'))
+        .mockResolvedValue(jpeg),
+    };
+    const frames = new CameraFrameStream(cam, { robot });
+    const next = frames[Symbol.asyncIterator]().next();
+
+    robot.connected = false;
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(cam.getImage).toHaveBeenCalledOnce();
+
+    robot.reconnect();
+
+    await expect(next).resolves.toMatchObject({ done: false });
+    frames.stop();
+  });
+
+  it('ends with the error when a frame cannot be fetched', async () => {
+    const error = new Error('camera unplugged');
+    const frames = new CameraFrameStream({
+      getImage: vi.fn().mockRejectedValue(error),
+    });
+
+    await expect(frames[Symbol.asyncIterator]().next()).rejects.toBe(error);
+  });
+});
@@ -0,0 +1,356 @@
+import { MachineConnectionEvent } from '../../events';
+import type { RobotClient } from '../../robot/client';
+import type { CallOptions } from '../../types';
+import type { Camera, MimeType } from './camera';
+import { CameraImage } from './camera-image';
+import { readViamImageHeader } from './viam-image';
+
+/** Options for a {@link CameraFrameStream}. */
+export interface CameraFrameStreamOptions {
+  /**
+   * The MIME type to request frames in. The camera may answer with another,
+   * which frames report instead. Default is 'image/jpeg'.
+   */
+  mimeType?: MimeType;
+
+  /**
+   * Frames per second to aim for. Frames are requested one at a time, so the
+   * rate drops when frames take longer than this allows to arrive. Default is
+   * 10.
+   */
+  targetFps?: number;
+
+  /**
+   * Drop frames that have waited more than this many milliseconds for the
+   * consumer, and wait for a fresher one instead. Default is to never drop the
+   * newest frame.
+   */
+  maxFrameAgeMs?: number;
+
+  /**
+   * The robot client the camera is on. Polling is paused while it is
+   * disconnected and resumes when it connects again.
+   */
+  robot?: Pick<RobotClient, 'on' | 'off' | 'isConnected'>;
+
+  /** Stop the stream when the signal is aborted. */
+  signal?: AbortSignal;
+
+  /** Options for each `getImage` call, e.g. a `timeout`. */
+  callOptions?: Omit<CallOptions, 'signal'>;
+}
+
+/** A frame produced by a {@link CameraFrameStream}. */
+export interface CameraFrame {
+  /** The frame. Its `sourceName` is empty as `getImage` does not report it. */
+  image: CameraImage;
+
+  /** Counts up from 1 with every frame received, including dropped ones. */
+  sequence: number;
+
+  receivedAt: Date;
+
+  /** Milliseconds from requesting the frame to receiving it. */
+  latencyMs: number;
+}
+
+// How much each new measurement moves the smoothed latency and frame interval
+const smoothing = 0.2;
+
+const smooth = (previous: number | undefined, value: number) =>
+  previous === undefined ? value : previous + smoothing * (value - previous);
+
+const hasMagic = (bytes: Uint8Array, magic: number[]) =>
+  magic.every((byte, index) => bytes[index] === byte);
+
+/** Find the MIME type of a frame from its bytes, or trust the requested one. */
+const frameMimeType = (bytes: Uint8Array, requested: MimeType): MimeType => {
+  const header = readViamImageHeader(bytes);
+  if (header) {
+    return header.mimeType;
+  }
+  if (hasMagic(bytes, [0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (hasMagic(bytes, [0x89, 0x50, 0x4e, 0x47])) {
+    return 'image/png';
+  }
+  return requested;
+};
+
+/**
+ * Polls a camera with `getImage` for connections without video tracks, such as
+ * those made with `dialDirect`. Frames are requested one at a time at up to a
+ * target rate, which slows down when frames take longer to arrive. Only the
+ * newest frame is kept for the consumer, so a slow consumer skips frames rather
+ * than falling behind.
+ *
+ * The stream starts polling when created and stops when `stop` is called, its
+ * signal is aborted or a `for await` loop over it is left. It ends with the
+ * error if a frame cannot be fetched while connected.
+ *
+ * @example
+ *
+ * ```ts
+ * const frames = new CameraFrameStream(new CameraClient(robot, 'cam'), {
+ *   targetFps: 15,
+ *   robot,
+ * });
+ * await frames.renderTo(document.querySelector('canvas'));
+ * ```
+ *
+ * @alpha
+ */
+export class CameraFrameStream implements AsyncIterable<CameraFrame> {
+  private readonly camera: Pick<Camera, 'getImage'>;
+  private readonly mimeType: MimeType;
+  private readonly targetIntervalMs: number;
+  private readonly maxFrameAgeMs: number;
+  private readonly robot: CameraFrameStreamOptions['robot'];
+  private readonly callOptions: Omit<CallOptions, 'signal'>;
+  private readonly stopped = new AbortController();
+
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private inFlight = false;
+  private connected: boolean;
+  private error: Error | undefined;
+  private newest: CameraFrame | undefined;
+  private received = 0;
+  private dropped = 0;
+  private smoothedLatencyMs: number | undefined;
+  private smoothedIntervalMs: number | undefined;
+  private lastReceivedAt: number | undefined;
+  private waiting:
+    | {
+        resolve: (result: IteratorResult<CameraFrame>) => void;
+        reject: (error: Error) => void;
+      }
+    | undefined;
+
+  constructor(
+    camera: Pick<Camera, 'getImage'>,
+    {
+      mimeType = 'image/jpeg',
+      targetFps = 10,
+      maxFrameAgeMs = Number.POSITIVE_INFINITY,
+      robot,
+      signal,
+      callOptions = {},
+    }: CameraFrameStreamOptions = {}
+  ) {
+    if (targetFps <= 0) {
+      throw new Error('target FPS must be positive');
+    }
+    this.camera = camera;
+    this.mimeType = mimeType;
+    this.targetIntervalMs = 1000 / targetFps;
+    this.maxFrameAgeMs = maxFrameAgeMs;
+    this.robot = robot;
+    this.callOptions = callOptions;
+    this.connected = robot?.isConnected() ?? true;
+
+    if (signal?.aborted) {
+      this.stop();
+      return;
+    }
+    signal?.addEventListener('abort', this.stop, {
+      signal: this.stopped.signal,
+    });
+    robot?.on(MachineConnectionEvent.CONNECTED, this.resume);
+    robot?.on(MachineConnectionEvent.DISCONNECTED, this.pause);
+    void this.poll();
+  }
+
+  /** The rate frames are arriving at, once two have. */
+  get fps() {
+    return this.smoothedIntervalMs === undefined
+      ? undefined
+      : 1000 / this.smoothedIntervalMs;
+  }
+
+  /** The smoothed time frames take to arrive, once one has. */
+  get latencyMs() {
+    return this.smoothedLatencyMs;
+  }
+
+  /** The number of frames skipped because a newer one arrived or they aged. */
+  get droppedFrames() {
+    return this.dropped;
+  }
+
+  /** Stop polling. Iteration ends once the stream is stopped. */
+  readonly stop = () => {
+    if (this.stopped.signal.aborted) {
+      return;
+    }
+    this.stopped.abort();
+    clearTimeout(this.timer);
+    this.robot?.off(MachineConnectionEvent.CONNECTED, this.resume);
+    this.robot?.off(MachineConnectionEvent.DISCONNECTED, this.pause);
+    this.waiting?.resolve({ value: undefined, done: true });
+    this.waiting = undefined;
+  };
+
+  /**
+   * Draw each frame onto a canvas, resizing it to fit the frames, until the
+   * stream stops.
+   */
+  async renderTo(canvas: HTMLCanvasElement | OffscreenCanvas) {
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('cannot draw on the canvas');
+    }
+    for await (const { image } of this) {
+      const bitmap = await image.toImageBitmap();
+      if (canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+      }
+      context.drawImage(bitmap, 0, 0);
+      bitmap.close();
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<CameraFrame> {
+    return {
+      next: async () => this.next(),
+      // eslint-disable-next-line @typescript-eslint/require-await
+      return: async () => {
+        this.stop();
+        return { value: undefined, done: true };
+      },
+    };
+  }
+
+  private async next(): Promise<IteratorResult<CameraFrame>> {
+    const frame = this.takeNewest();
+    if (frame) {
+      return { value: frame, done: false };
+    }
+    if (this.error !== undefined) {
+      const { error } = this;
+      this.error = undefined;
+      throw error;
+    }
+    if (this.stopped.signal.aborted) {
+      return { value: undefined, done: true };
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private takeNewest() {
+    const frame = this.newest;
+    this.newest = undefined;
+    if (frame && Date.now() - frame.receivedAt.getTime() > this.maxFrameAgeMs) {
+      this.dropped += 1;
+      return undefined;
+    }
+    return frame;
+  }
+
+  private async poll() {
+    this.timer = undefined;
+    if (!this.isActive() || this.inFlight) {
+      return;
+    }
+
+    this.inFlight = true;
+    const started = Date.now();
+    try {
+      const data = await this.camera.getImage(this.mimeType, {
+        ...this.callOptions,
+        signal: this.stopped.signal,
+      });
+      this.receive(data, started);
+    } catch (error) {
+      // Frames fail while the robot is reconnecting, often before it emits the
+      // disconnection; pick up again once it has reconnected
+      if (this.robot?.isConnected() === false) {
+        this.pause();
+      } else if (this.isActive()) {
+        this.fail(error);
+        return;
+      }
+    } finally {
+      this.inFlight = false;
+    }
+
+    if (this.isActive()) {
+      // Wait out frames that take longer than the target rate allows, rather
+      // than requesting the next one the moment one arrives
+      const interval = Math.max(
+        this.targetIntervalMs,
+        this.smoothedLatencyMs ?? 0
+      );
+      this.timer = setTimeout(
+        () => {
+          void this.poll();
+        },
+        Math.max(0, interval - (Date.now() - started))
+      );
+    }
+  }
+
+  private receive(data: Uint8Array, started: number) {
+    if (this.stopped.signal.aborted) {
+      return;
+    }
+    const now = Date.now();
+    this.received += 1;
+    this.smoothedLatencyMs = smooth(this.smoothedLatencyMs, now - started);
+    if (this.lastReceivedAt !== undefined) {
+      this.smoothedIntervalMs = smooth(
+        this.smoothedIntervalMs,
+        now - this.lastReceivedAt
+      );
+    }
+    this.lastReceivedAt = now;
+
+    const receivedAt = new Date(now);
+    const frame = {
+      image: new CameraImage('', frameMimeType(data, this.mimeType), data),
+      sequence: this.received,
+      receivedAt,
+      latencyMs: now - started,
+    };
+    if (this.waiting) {
+      this.waiting.resolve({ value: frame, done: false });
+      this.waiting = undefined;
+      return;
+    }
+    if (this.newest) {
+      this.dropped += 1;
+    }
+    this.newest = frame;
+  }
+
+  private fail(reason: unknown) {
+    const error = reason instanceof Error ? reason : new Error(String(reason));
+    if (this.waiting) {
+      this.waiting.reject(error);
+      this.waiting = undefined;
+    } else {
+      this.error = error;
+    }
+    this.stop();
+  }
+
+  private isActive() {
+    return this.connected && !this.stopped.signal.aborted;
+  }
+
+  private readonly pause = () => {
+    this.connected = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  };
+
+  private readonly resume = () => {
+    this.connected = true;
+    if (this.timer === undefined) {
+      void this.poll();
+    }
+  };
+}
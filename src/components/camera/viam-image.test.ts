@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  colorizeDepth,
+  decodeViamDepth,
+  decodeViamRGBA,
+  encodeViamDepth,
+  encodeViamRGBA,
+  readViamImageHeader,
+} from './viam-image';
+
+describe('Viam raw images', () => {
+  it('round trips RGBA images', () => {
+    const image = {
+      width: 2,
+      height: 1,
+      data: new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 255, 128]),
+    };
+
+    const bytes = encodeViamRGBA(image);
+
+    expect(bytes).toHaveLength(20);
+    expect(readViamImageHeader(bytes)).toStrictEqual({
+      mimeType: 'image/vnd.viam.rgba',
+      width: 2,
+      height: 1,
+    });
+    expect(decodeViamRGBA(bytes)).toStrictEqual(image);
+  });
+
+  it('round trips depth images', () => {
+    const image = {
+      width: 1,
+      height: 3,
+      data: new Uint16Array([0, 1000, 65_535]),
+    };
+
+    const bytes = encodeViamDepth(image);
+
+    expect(bytes).toHaveLength(30);
+    expect(readViamImageHeader(bytes)).toStrictEqual({
+      mimeType: 'image/vnd.viam.dep',
+      width: 1,
+      height: 3,
+    });
+    expect(decodeViamDepth(bytes)).toStrictEqual(image);
+  });
+
+  it('does not read other formats', () => {
+    const png = new Uint8Array([
+      0x89, 0x50, 0x4e, 0x47, 0, 0, 0, 0, 0, 0, 0, 0,
+    ]);
+
+    expect(readViamImageHeader(png)).toBeUndefined();
+    expect(() => decodeViamRGBA(png)).toThrow(
+      'not an image/vnd.viam.rgba image'
+    );
+    expect(() =>
+      encodeViamDepth({ width: 2, height: 2, data: new Uint16Array(3) })
+    ).toThrow('2x2 image should have 4 values, not 3');
+  });
+
+  it('colorizes depths between the nearest and farthest', () => {
+    const depth = {
+      width: 3,
+      height: 1,
+      data: new Uint16Array([0, 1000, 3000]),
+    };
+
+    expect([...colorizeDepth(depth).data]).toStrictEqual([
+      0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255, 255,
+    ]);
+    expect([
+      ...colorizeDepth(depth, { near: 0, far: 2000 }).data,
+    ]).toStrictEqual([0, 0, 0, 255, 128, 128, 128, 255, 255, 255, 255, 255]);
+
+    const turbo = colorizeDepth(
+      { width: 3, height: 1, data: new Uint16Array([1000, 1500, 3000]) },
+      { colormap: 'turbo' }
+    ).data;
+    // Nearer is bluer and farther is redder
+    expect(turbo[6]).toBeGreaterThan(turbo[4] ?? 0);
+    expect(turbo[8]).toBeGreaterThan(turbo[10] ?? 0);
+  });
+});
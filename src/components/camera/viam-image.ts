@@ -0,0 +1,222 @@
+/** Pixels decoded from an `image/vnd.viam.rgba` image, 4 bytes per pixel. */
+export interface RGBAImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/** Depths decoded from an `image/vnd.viam.dep` image, in millimeters. */
+export interface DepthImage {
+  width: number;
+  height: number;
+  data: Uint16Array;
+}
+
+// "RGBA", then the width and height as 32-bit integers
+const rgbaMagic = [0x52, 0x47, 0x42, 0x41];
+const rgbaHeaderSize = 12;
+
+// "DEPTHMAP", then the width and height as 64-bit integers
+const depthMagic = [0x44, 0x45, 0x50, 0x54, 0x48, 0x4d, 0x41, 0x50];
+const depthHeaderSize = 24;
+
+/** The format and size of an image in one of Viam's raw formats. */
+export interface ViamImageHeader {
+  mimeType: 'image/vnd.viam.rgba' | 'image/vnd.viam.dep';
+  width: number;
+  height: number;
+}
+
+/**
+ * How to shade depths. 'grayscale' goes from black at the nearest depth to
+ * white at the farthest, and 'turbo' from blue to red.
+ */
+export type DepthColormap = 'grayscale' | 'turbo';
+
+export interface DepthColorizeOptions {
+  /** Default is 'grayscale'. */
+  colormap?: DepthColormap;
+  /** The depth shaded as nearest, in millimeters. Default is the nearest. */
+  near?: number;
+  /** The depth shaded as farthest, in millimeters. Default is the farthest. */
+  far?: number;
+}
+
+const hasMagic = (bytes: Uint8Array, magic: number[]) =>
+  magic.every((byte, index) => bytes[index] === byte);
+
+const view = (bytes: Uint8Array) =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+/**
+ * Read the header of an image in one of Viam's raw formats.
+ *
+ * @returns The header, or `undefined` if the image is in another format.
+ */
+export const readViamImageHeader = (
+  bytes: Uint8Array
+): ViamImageHeader | undefined => {
+  if (bytes.length >= rgbaHeaderSize && hasMagic(bytes, rgbaMagic)) {
+    const header = view(bytes);
+    return {
+      mimeType: 'image/vnd.viam.rgba',
+      width: header.getUint32(4),
+      height: header.getUint32(8),
+    };
+  }
+  if (bytes.length >= depthHeaderSize && hasMagic(bytes, depthMagic)) {
+    const header = view(bytes);
+    return {
+      mimeType: 'image/vnd.viam.dep',
+      width: Number(header.getBigUint64(8)),
+      height: Number(header.getBigUint64(16)),
+    };
+  }
+  return undefined;
+};
+
+const readHeader = (
+  bytes: Uint8Array,
+  mimeType: ViamImageHeader['mimeType'],
+  headerSize: number,
+  bytesPerPixel: number
+) => {
+  const header = readViamImageHeader(bytes);
+  if (header?.mimeType !== mimeType) {
+    throw new Error(`not an ${mimeType} image`);
+  }
+  const { width, height } = header;
+  if (bytes.length - headerSize < width * height * bytesPerPixel) {
+    throw new Error(
+      `${mimeType} image of ${width}x${height} is missing pixels`
+    );
+  }
+  return header;
+};
+
+const checkSize = (
+  { width, height }: { width: number; height: number },
+  length: number,
+  valuesPerPixel: number
+) => {
+  if (length !== width * height * valuesPerPixel) {
+    throw new Error(
+      `${width}x${height} image should have ${width * height * valuesPerPixel} values, not ${length}`
+    );
+  }
+};
+
+/** Decode an `image/vnd.viam.rgba` image. */
+export const decodeViamRGBA = (bytes: Uint8Array): RGBAImage => {
+  const { width, height } = readHeader(
+    bytes,
+    'image/vnd.viam.rgba',
+    rgbaHeaderSize,
+    4
+  );
+  const end = rgbaHeaderSize + width * height * 4;
+  return {
+    width,
+    height,
+    data: new Uint8ClampedArray(bytes.slice(rgbaHeaderSize, end).buffer),
+  };
+};
+
+/** Decode an `image/vnd.viam.dep` image. */
+export const decodeViamDepth = (bytes: Uint8Array): DepthImage => {
+  const { width, height } = readHeader(
+    bytes,
+    'image/vnd.viam.dep',
+    depthHeaderSize,
+    2
+  );
+  const pixels = view(bytes);
+  const data = new Uint16Array(width * height);
+  for (let index = 0; index < data.length; index += 1) {
+    // Depths are big-endian
+    data[index] = pixels.getUint16(depthHeaderSize + index * 2);
+  }
+  return { width, height, data };
+};
+
+/** Encode pixels as an `image/vnd.viam.rgba` image. */
+export const encodeViamRGBA = (image: RGBAImage): Uint8Array => {
+  checkSize(image, image.data.length, 4);
+  const bytes = new Uint8Array(rgbaHeaderSize + image.data.length);
+  bytes.set(rgbaMagic);
+  const header = view(bytes);
+  header.setUint32(4, image.width);
+  header.setUint32(8, image.height);
+  bytes.set(image.data, rgbaHeaderSize);
+  return bytes;
+};
+
+/** Encode depths, in millimeters, as an `image/vnd.viam.dep` image. */
+export const encodeViamDepth = (image: DepthImage): Uint8Array => {
+  checkSize(image, image.data.length, 1);
+  const bytes = new Uint8Array(depthHeaderSize + image.data.length * 2);
+  bytes.set(depthMagic);
+  const pixels = view(bytes);
+  pixels.setBigUint64(8, BigInt(image.width));
+  pixels.setBigUint64(16, BigInt(image.height));
+  for (const [index, depth] of image.data.entries()) {
+    pixels.setUint16(depthHeaderSize + index * 2, depth);
+  }
+  return bytes;
+};
+
+// A polynomial fit of the Turbo colormap, from 0 to 1
+const polynomial = (coefficients: number[], value: number) =>
+  coefficients.reduceRight((sum, coefficient) => sum * value + coefficient, 0);
+
+const turbo = (value: number) =>
+  [
+    [
+      0.135_721_38, 4.615_392_6, -42.660_322_58, 132.131_082_34,
+      -152.942_393_96, 59.286_379_43,
+    ],
+    [
+      0.091_402_61, 2.194_188_39, 4.842_966_58, -14.185_033_33, 4.277_298_57,
+      2.829_566_04,
+    ],
+    [
+      0.106_673_3, 12.641_946_08, -60.582_048_36, 110.362_767_71,
+      -89.903_109_12, 27.348_249_73,
+    ],
+  ].map((coefficients) => polynomial(coefficients, value) * 255);
+
+/**
+ * Shade depths as RGBA pixels for previews. Depths of 0, which mean there is no
+ * reading, are black.
+ */
+export const colorizeDepth = (
+  { width, height, data }: DepthImage,
+  { colormap = 'grayscale', near, far }: DepthColorizeOptions = {}
+): RGBAImage => {
+  let nearest = near ?? Number.POSITIVE_INFINITY;
+  let farthest = far ?? 0;
+  if (near === undefined || far === undefined) {
+    for (const depth of data) {
+      if (depth > 0) {
+        nearest = near ?? Math.min(nearest, depth);
+        farthest = far ?? Math.max(farthest, depth);
+      }
+    }
+  }
+  const range = Math.max(farthest - nearest, 1);
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (const [index, depth] of data.entries()) {
+    if (depth === 0) {
+      pixels.set([0, 0, 0, 255], index * 4);
+      continue;
+    }
+    const value = Math.min(Math.max((depth - nearest) / range, 0), 1);
+    const color =
+      colormap === 'turbo'
+        ? turbo(value)
+        : [value * 255, value * 255, value * 255];
+    pixels.set([...color, 255], index * 4);
+  }
+  return { width, height, data: pixels };
+};
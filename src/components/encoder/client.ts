@@ -2,7 +2,7 @@ import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
 import type { RobotClient } from '../../robot';
 import encoderApi from '../../gen/component/encoder/v1/encoder_pb';
 import { promisify, doCommandFromClient } from '../../utils';
-import type { Options, StructType } from '../../types';
+import type { CallOptions, Options, StructType } from '../../types';
 import { EncoderServiceClient } from '../../gen/component/encoder/v1/encoder_pb_service';
 import { type Encoder, EncoderPositionType } from './encoder';
 
@@ -26,7 +26,7 @@ export class EncoderClient implements Encoder {
     return this.client;
   }
 
-  async resetPosition(extra = {}) {
+  async resetPosition(extra = {}, callOptions: CallOptions = {}) {
     const { encoderService } = this;
     const request = new encoderApi.ResetPositionRequest();
     request.setName(this.name);
@@ -37,10 +37,15 @@ export class EncoderClient implements Encoder {
     await promisify<
       encoderApi.ResetPositionRequest,
       encoderApi.ResetPositionResponse
-    >(encoderService.resetPosition.bind(encoderService), request);
+    >(
+      encoderService.resetPosition.bind(encoderService),
+      request,
+      callOptions,
+      'resetPosition'
+    );
   }
 
-  async getProperties(extra = {}) {
+  async getProperties(extra = {}, callOptions: CallOptions = {}) {
     const { encoderService } = this;
     const request = new encoderApi.GetPropertiesRequest();
     request.setName(this.name);
@@ -51,13 +56,19 @@ export class EncoderClient implements Encoder {
     const response = await promisify<
       encoderApi.GetPropertiesRequest,
       encoderApi.GetPropertiesResponse
-    >(encoderService.getProperties.bind(encoderService), request);
+    >(
+      encoderService.getProperties.bind(encoderService),
+      request,
+      callOptions,
+      'getProperties'
+    );
     return response.toObject();
   }
 
   async getPosition(
     positionType: EncoderPositionType = EncoderPositionType.POSITION_TYPE_UNSPECIFIED,
-    extra = {}
+    extra = {},
+    callOptions: CallOptions = {}
   ) {
     const { encoderService } = this;
     const request = new encoderApi.GetPositionRequest();
@@ -70,17 +81,26 @@ export class EncoderClient implements Encoder {
     const response = await promisify<
       encoderApi.GetPositionRequest,
       encoderApi.GetPositionResponse
-    >(encoderService.getPosition.bind(encoderService), request);
+    >(
+      encoderService.getPosition.bind(encoderService),
+      request,
+      callOptions,
+      'getPosition'
+    );
     return [response.getValue(), response.getPositionType()] as const;
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { encoderService } = this;
     return doCommandFromClient(
       encoderService,
       this.name,
       command,
-      this.options
+      this.options,
+      callOptions
     );
   }
 }
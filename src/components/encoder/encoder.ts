@@ -1,4 +1,4 @@
-import type { Resource, StructType } from '../../types';
+import type { CallOptions, Resource, StructType } from '../../types';
 import pb from '../../gen/component/encoder/v1/encoder_pb';
 
 export type EncoderProperties = pb.GetPropertiesResponse.AsObject;
@@ -10,10 +10,13 @@ export type EncoderPositionType = ValueOf<typeof pb.PositionType>;
 /** Represents a physical encoder. */
 export interface Encoder extends Resource {
   /** Set the current position of the encoder as the new zero position. */
-  resetPosition(extra?: StructType): Promise<void>;
+  resetPosition(extra?: StructType, callOptions?: CallOptions): Promise<void>;
 
   /** Return the encoder's properties. */
-  getProperties(extra?: StructType): Promise<EncoderProperties>;
+  getProperties(
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<EncoderProperties>;
 
   /**
    * Return the current position either in relative units (ticks away from a
@@ -24,6 +27,7 @@ export interface Encoder extends Resource {
    */
   getPosition(
     positionType?: EncoderPositionType,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ): Promise<readonly [number, EncoderPositionType]>;
 }
@@ -2,7 +2,7 @@ import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
 import type { RobotClient } from '../../robot';
 import pb from '../../gen/component/gantry/v1/gantry_pb';
 import { GantryServiceClient } from '../../gen/component/gantry/v1/gantry_pb_service';
-import type { Options, StructType } from '../../types';
+import type { CallOptions, Options, StructType } from '../../types';
 import { doCommandFromClient, promisify } from '../../utils';
 import type { Gantry } from './gantry';
 
@@ -26,7 +26,7 @@ export class GantryClient implements Gantry {
     return this.client;
   }
 
-  async getPosition(extra = {}) {
+  async getPosition(extra = {}, callOptions: CallOptions = {}) {
     const gantryService = this.GantryService;
     const request = new pb.GetPositionRequest();
     request.setName(this.name);
@@ -37,7 +37,12 @@ export class GantryClient implements Gantry {
     const response = await promisify<
       pb.GetPositionRequest,
       pb.GetPositionResponse
-    >(gantryService.getPosition.bind(gantryService), request);
+    >(
+      gantryService.getPosition.bind(gantryService),
+      request,
+      callOptions,
+      'getPosition'
+    );
 
     return response.getPositionsMmList();
   }
@@ -45,7 +50,8 @@ export class GantryClient implements Gantry {
   async moveToPosition(
     positionsMm: number[],
     speedsMmPerSec: number[],
-    extra = {}
+    extra = {},
+    callOptions: CallOptions = {}
   ) {
     const gantryService = this.GantryService;
 
@@ -59,11 +65,13 @@ export class GantryClient implements Gantry {
 
     await promisify<pb.MoveToPositionRequest, pb.MoveToPositionResponse>(
       gantryService.moveToPosition.bind(gantryService),
-      request
+      request,
+      callOptions,
+      'moveToPosition'
     );
   }
 
-  async home(extra = {}) {
+  async home(extra = {}, callOptions: CallOptions = {}) {
     const gantryService = this.GantryService;
     const request = new pb.HomeRequest();
     request.setName(this.name);
@@ -73,13 +81,15 @@ export class GantryClient implements Gantry {
 
     const response = await promisify<pb.HomeRequest, pb.HomeResponse>(
       gantryService.home.bind(gantryService),
-      request
+      request,
+      callOptions,
+      'home'
     );
 
     return response.getHomed();
   }
 
-  async getLengths(extra = {}) {
+  async getLengths(extra = {}, callOptions: CallOptions = {}) {
     const gantryService = this.GantryService;
     const request = new pb.GetLengthsRequest();
     request.setName(this.name);
@@ -90,12 +100,17 @@ export class GantryClient implements Gantry {
     const response = await promisify<
       pb.GetLengthsRequest,
       pb.GetLengthsResponse
-    >(gantryService.getLengths.bind(gantryService), request);
+    >(
+      gantryService.getLengths.bind(gantryService),
+      request,
+      callOptions,
+      'getLengths'
+    );
 
     return response.getLengthsMmList();
   }
 
-  async stop(extra = {}) {
+  async stop(extra = {}, callOptions: CallOptions = {}) {
     const gantryService = this.GantryService;
     const request = new pb.StopRequest();
     request.setName(this.name);
@@ -105,11 +120,13 @@ export class GantryClient implements Gantry {
 
     await promisify<pb.StopRequest, pb.StopResponse>(
       gantryService.stop.bind(gantryService),
-      request
+      request,
+      callOptions,
+      'stop'
     );
   }
 
-  async isMoving() {
+  async isMoving(callOptions: CallOptions = {}) {
     const gantryService = this.GantryService;
     const request = new pb.IsMovingRequest();
     request.setName(this.name);
@@ -118,13 +135,24 @@ export class GantryClient implements Gantry {
 
     const response = await promisify<pb.IsMovingRequest, pb.IsMovingResponse>(
       gantryService.isMoving.bind(gantryService),
-      request
+      request,
+      callOptions,
+      'isMoving'
     );
     return response.getIsMoving();
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const gantryService = this.GantryService;
-    return doCommandFromClient(gantryService, this.name, command, this.options);
+    return doCommandFromClient(
+      gantryService,
+      this.name,
+      command,
+      this.options,
+      callOptions
+    );
   }
 }
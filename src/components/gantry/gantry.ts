@@ -1,4 +1,4 @@
-import type { Resource, StructType } from '../../types';
+import type { CallOptions, Resource, StructType } from '../../types';
 
 /** Represents a physical gantry that exists in three-dimensional space. */
 export interface Gantry extends Resource {
@@ -13,11 +13,15 @@ export interface Gantry extends Resource {
   moveToPosition: (
     positionsMm: number[],
     speedsMmPerSec: number[],
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ) => Promise<void>;
 
   /** @returns The current position of each axis. */
-  getPosition: (extra?: StructType) => Promise<number[]>;
+  getPosition: (
+    extra?: StructType,
+    callOptions?: CallOptions
+  ) => Promise<number[]>;
 
   /**
    * Runs the homing sequence to find the start and end positions of the gantry
@@ -26,14 +30,17 @@ export interface Gantry extends Resource {
    * @returns A bool representing whether the gantry has run the homing sequence
    *   successfully.
    */
-  home: (extra?: StructType) => Promise<boolean>;
+  home: (extra?: StructType, callOptions?: CallOptions) => Promise<boolean>;
 
   /** @returns The lengths of the axes of the gantry in millimeters. */
-  getLengths: (extra?: StructType) => Promise<number[]>;
+  getLengths: (
+    extra?: StructType,
+    callOptions?: CallOptions
+  ) => Promise<number[]>;
 
   /** Stops the motion of the gantry. */
-  stop: (extra?: StructType) => Promise<void>;
+  stop: (extra?: StructType, callOptions?: CallOptions) => Promise<void>;
 
   /** Get if the gantry is currently moving. */
-  isMoving: () => Promise<boolean>;
+  isMoving: (callOptions?: CallOptions) => Promise<boolean>;
 }
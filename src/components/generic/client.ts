@@ -1,6 +1,6 @@
 import type { RobotClient } from '../../robot';
 import { GenericServiceClient } from '../../gen/component/generic/v1/generic_pb_service';
-import type { Options, StructType } from '../../types';
+import type { CallOptions, Options, StructType } from '../../types';
 import { doCommandFromClient } from '../../utils';
 import type { Generic } from './generic';
 
@@ -24,13 +24,17 @@ export class GenericClient implements Generic {
     return this.client;
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { genericService } = this;
     return doCommandFromClient(
       genericService,
       this.name,
       command,
-      this.options
+      this.options,
+      callOptions
     );
   }
 }
@@ -2,7 +2,7 @@ import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
 import type { RobotClient } from '../../robot';
 import pb from '../../gen/component/gripper/v1/gripper_pb';
 import { GripperServiceClient } from '../../gen/component/gripper/v1/gripper_pb_service';
-import type { Options, StructType } from '../../types';
+import type { CallOptions, Options, StructType } from '../../types';
 import { promisify, doCommandFromClient } from '../../utils';
 import type { Gripper } from './gripper';
 
@@ -26,7 +26,7 @@ export class GripperClient implements Gripper {
     return this.client;
   }
 
-  async open(extra = {}) {
+  async open(extra = {}, callOptions: CallOptions = {}) {
     const service = this.gripperService;
 
     const request = new pb.OpenRequest();
@@ -37,11 +37,13 @@ export class GripperClient implements Gripper {
 
     await promisify<pb.OpenRequest, pb.OpenResponse>(
       service.open.bind(service),
-      request
+      request,
+      callOptions,
+      'open'
     );
   }
 
-  async grab(extra = {}) {
+  async grab(extra = {}, callOptions: CallOptions = {}) {
     const service = this.gripperService;
 
     const request = new pb.GrabRequest();
@@ -52,11 +54,13 @@ export class GripperClient implements Gripper {
 
     await promisify<pb.GrabRequest, pb.GrabResponse>(
       service.grab.bind(service),
-      request
+      request,
+      callOptions,
+      'grab'
     );
   }
 
-  async stop(extra = {}) {
+  async stop(extra = {}, callOptions: CallOptions = {}) {
     const service = this.gripperService;
 
     const request = new pb.StopRequest();
@@ -67,11 +71,13 @@ export class GripperClient implements Gripper {
 
     await promisify<pb.StopRequest, pb.StopResponse>(
       service.stop.bind(service),
-      request
+      request,
+      callOptions,
+      'stop'
     );
   }
 
-  async isMoving() {
+  async isMoving(callOptions: CallOptions = {}) {
     const service = this.gripperService;
 
     const request = new pb.IsMovingRequest();
@@ -81,14 +87,25 @@ export class GripperClient implements Gripper {
 
     const response = await promisify<pb.IsMovingRequest, pb.IsMovingResponse>(
       service.isMoving.bind(service),
-      request
+      request,
+      callOptions,
+      'isMoving'
     );
 
     return response.getIsMoving();
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const service = this.gripperService;
-    return doCommandFromClient(service, this.name, command, this.options);
+    return doCommandFromClient(
+      service,
+      this.name,
+      command,
+      this.options,
+      callOptions
+    );
   }
 }
@@ -1,16 +1,16 @@
-import type { Resource, StructType } from '../../types';
+import type { CallOptions, Resource, StructType } from '../../types';
 
 /** Represents a physical robotic gripper. */
 export interface Gripper extends Resource {
   /** Open a gripper of the underlying robot. */
-  open: (extra?: StructType) => Promise<void>;
+  open: (extra?: StructType, callOptions?: CallOptions) => Promise<void>;
 
   /** Request a gripper of the underlying robot to grab. */
-  grab: (extra?: StructType) => Promise<void>;
+  grab: (extra?: StructType, callOptions?: CallOptions) => Promise<void>;
 
   /** Stop a robot's gripper. */
-  stop: (extra?: StructType) => Promise<void>;
+  stop: (extra?: StructType, callOptions?: CallOptions) => Promise<void>;
 
   /** Report if the gripper is in motion. */
-  isMoving: () => Promise<boolean>;
+  isMoving: (callOptions?: CallOptions) => Promise<boolean>;
 }
@@ -1,7 +1,7 @@
 import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
 
 import type { RobotClient } from '../../robot';
-import type { Options, StructType } from '../../types';
+import type { CallOptions, Options, StructType } from '../../types';
 import { InputControllerServiceClient } from '../../gen/component/inputcontroller/v1/input_controller_pb_service';
 
 import { promisify, doCommandFromClient } from '../../utils';
@@ -35,7 +35,7 @@ export class InputControllerClient implements InputController {
     return this.client;
   }
 
-  async getEvents(extra = {}) {
+  async getEvents(extra = {}, callOptions: CallOptions = {}) {
     const { inputControllerService } = this;
     const request = new GetEventsRequest();
     request.setController(this.name);
@@ -45,7 +45,9 @@ export class InputControllerClient implements InputController {
 
     const response = await promisify<GetEventsRequest, GetEventsResponse>(
       inputControllerService.getEvents.bind(inputControllerService),
-      request
+      request,
+      callOptions,
+      'getEvents'
     );
 
     return response.getEventsList().map((event) => event.toObject());
@@ -53,7 +55,8 @@ export class InputControllerClient implements InputController {
 
   async triggerEvent(
     { event, time, control, value }: InputControllerEvent,
-    extra = {}
+    extra = {},
+    callOptions: CallOptions = {}
   ): Promise<void> {
     const { inputControllerService } = this;
     const request = new TriggerEventRequest();
@@ -77,17 +80,23 @@ export class InputControllerClient implements InputController {
 
     await promisify<TriggerEventRequest, TriggerEventResponse>(
       inputControllerService.triggerEvent.bind(inputControllerService),
-      request
+      request,
+      callOptions,
+      'triggerEvent'
     );
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { inputControllerService } = this;
     return doCommandFromClient(
       inputControllerService,
       this.name,
       command,
-      this.options
+      this.options,
+      callOptions
     );
   }
 }
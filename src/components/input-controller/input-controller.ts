@@ -1,4 +1,4 @@
-import type { Resource, StructType } from '../../types';
+import type { CallOptions, Resource, StructType } from '../../types';
 import pb from '../../gen/component/inputcontroller/v1/input_controller_pb';
 
 export type InputControllerEvent = pb.Event.AsObject;
@@ -9,12 +9,19 @@ export type InputControllerEvent = pb.Event.AsObject;
  */
 export interface InputController extends Resource {
   /** Returns a list of events representing the last event on each control. */
-  getEvents(extra?: StructType): Promise<InputControllerEvent[]>;
+  getEvents(
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<InputControllerEvent[]>;
 
   /**
    * TriggerEvent, where supported, injects an InputControllerEvent into an
    * input controller to (virtually) generate events like button presses or axis
    * movements
    */
-  triggerEvent(event: InputControllerEvent, extra?: StructType): Promise<void>;
+  triggerEvent(
+    event: InputControllerEvent,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<void>;
 }
@@ -1,8 +1,14 @@
 import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
-import type { RobotClient } from '../../robot';
+import type {
+  ActuationCallOptions,
+  OperationCallOptions,
+  OperationHandle,
+  RobotClient,
+} from '../../robot';
 import { MotorServiceClient } from '../../gen/component/motor/v1/motor_pb_service';
-import type { Options, StructType } from '../../types';
+import type { CallOptions, Options, StructType } from '../../types';
 import motorApi from '../../gen/component/motor/v1/motor_pb';
+import { actuate } from '../../robot/operations';
 import { promisify, doCommandFromClient } from '../../utils';
 import type { Motor } from './motor';
 
@@ -13,11 +19,13 @@ import type { Motor } from './motor';
  */
 export class MotorClient implements Motor {
   private client: MotorServiceClient;
+  private readonly robot: RobotClient;
   private readonly name: string;
   private readonly options: Options;
 
   constructor(client: RobotClient, name: string, options: Options = {}) {
     this.client = client.createServiceClient(MotorServiceClient);
+    this.robot = client;
     this.name = name;
     this.options = options;
   }
@@ -26,7 +34,7 @@ export class MotorClient implements Motor {
     return this.client;
   }
 
-  async setPower(power: number, extra = {}) {
+  async setPower(power: number, extra = {}, callOptions: CallOptions = {}) {
     const { motorService } = this;
     const request = new motorApi.SetPowerRequest();
     request.setName(this.name);
@@ -37,43 +45,103 @@ export class MotorClient implements Motor {
 
     await promisify<motorApi.SetPowerRequest, motorApi.SetPowerResponse>(
       motorService.setPower.bind(motorService),
-      request
+      request,
+      callOptions,
+      'setPower'
     );
   }
 
-  async goFor(rpm: number, revolutions: number, extra = {}) {
+  goFor(
+    rpm: number,
+    revolutions: number,
+    extra: StructType | undefined,
+    callOptions: OperationCallOptions
+  ): OperationHandle<void>;
+
+  goFor(
+    rpm: number,
+    revolutions: number,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<void>;
+
+  goFor(
+    rpm: number,
+    revolutions: number,
+    extra = {},
+    callOptions: ActuationCallOptions = {}
+  ) {
     const { motorService } = this;
-    const request = new motorApi.GoForRequest();
-    request.setName(this.name);
-    request.setRpm(rpm);
-    request.setRevolutions(revolutions);
-    request.setExtra(Struct.fromJavaScript(extra));
-
-    this.options.requestLogger?.(request);
 
-    await promisify<motorApi.GoForRequest, motorApi.GoForResponse>(
-      motorService.goFor.bind(motorService),
-      request
+    // Build the request in the call so that errors reject rather than throw
+    return actuate(
+      this.robot,
+      async (options) => {
+        const request = new motorApi.GoForRequest();
+        request.setName(this.name);
+        request.setRpm(rpm);
+        request.setRevolutions(revolutions);
+        request.setExtra(Struct.fromJavaScript(extra));
+
+        this.options.requestLogger?.(request);
+
+        await promisify<motorApi.GoForRequest, motorApi.GoForResponse>(
+          motorService.goFor.bind(motorService),
+          request,
+          options,
+          'goFor'
+        );
+      },
+      callOptions
     );
   }
 
-  async goTo(rpm: number, positionRevolutions: number, extra = {}) {
+  goTo(
+    rpm: number,
+    positionRevolutions: number,
+    extra: StructType | undefined,
+    callOptions: OperationCallOptions
+  ): OperationHandle<void>;
+
+  goTo(
+    rpm: number,
+    positionRevolutions: number,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<void>;
+
+  goTo(
+    rpm: number,
+    positionRevolutions: number,
+    extra = {},
+    callOptions: ActuationCallOptions = {}
+  ) {
     const { motorService } = this;
-    const request = new motorApi.GoToRequest();
-    request.setName(this.name);
-    request.setRpm(rpm);
-    request.setPositionRevolutions(positionRevolutions);
-    request.setExtra(Struct.fromJavaScript(extra));
 
-    this.options.requestLogger?.(request);
-
-    await promisify<motorApi.GoToRequest, motorApi.GoToResponse>(
-      motorService.goTo.bind(motorService),
-      request
+    // Build the request in the call so that errors reject rather than throw
+    return actuate(
+      this.robot,
+      async (options) => {
+        const request = new motorApi.GoToRequest();
+        request.setName(this.name);
+        request.setRpm(rpm);
+        request.setPositionRevolutions(positionRevolutions);
+        request.setExtra(Struct.fromJavaScript(extra));
+
+        this.options.requestLogger?.(request);
+
+        await promisify<motorApi.GoToRequest, motorApi.GoToResponse>(
+          motorService.goTo.bind(motorService),
+          request,
+          options,
+          'goTo'
+        );
+      },
+      callOptions
     );
   }
 
-  async setRPM(rpm: number, extra = {}) {
+  async setRPM(rpm: number, extra = {}, callOptions: CallOptions = {}) {
     const { motorService } = this;
     const request = new motorApi.SetRPMRequest();
     request.setName(this.name);
@@ -84,11 +152,17 @@ export class MotorClient implements Motor {
 
     await promisify<motorApi.SetRPMRequest, motorApi.SetRPMResponse>(
       motorService.setRPM.bind(motorService),
-      request
+      request,
+      callOptions,
+      'setRPM'
     );
   }
 
-  async resetZeroPosition(offset: number, extra = {}) {
+  async resetZeroPosition(
+    offset: number,
+    extra = {},
+    callOptions: CallOptions = {}
+  ) {
     const { motorService } = this;
     const request = new motorApi.ResetZeroPositionRequest();
     request.setName(this.name);
@@ -100,10 +174,15 @@ export class MotorClient implements Motor {
     await promisify<
       motorApi.ResetZeroPositionRequest,
       motorApi.ResetZeroPositionResponse
-    >(motorService.resetZeroPosition.bind(motorService), request);
+    >(
+      motorService.resetZeroPosition.bind(motorService),
+      request,
+      callOptions,
+      'resetZeroPosition'
+    );
   }
 
-  async stop(extra = {}) {
+  async stop(extra = {}, callOptions: CallOptions = {}) {
     const { motorService } = this;
     const request = new motorApi.StopRequest();
     request.setName(this.name);
@@ -113,11 +192,13 @@ export class MotorClient implements Motor {
 
     await promisify<motorApi.StopRequest, motorApi.StopResponse>(
       motorService.stop.bind(motorService),
-      request
+      request,
+      callOptions,
+      'stop'
     );
   }
 
-  async getProperties(extra = {}) {
+  async getProperties(extra = {}, callOptions: CallOptions = {}) {
     const { motorService } = this;
     const request = new motorApi.GetPropertiesRequest();
     request.setName(this.name);
@@ -128,11 +209,16 @@ export class MotorClient implements Motor {
     const response = await promisify<
       motorApi.GetPropertiesRequest,
       motorApi.GetPropertiesResponse
-    >(motorService.getProperties.bind(motorService), request);
+    >(
+      motorService.getProperties.bind(motorService),
+      request,
+      callOptions,
+      'getProperties'
+    );
     return { positionReporting: response.getPositionReporting() };
   }
 
-  async getPosition(extra = {}) {
+  async getPosition(extra = {}, callOptions: CallOptions = {}) {
     const { motorService } = this;
     const request = new motorApi.GetPositionRequest();
     request.setName(this.name);
@@ -143,11 +229,16 @@ export class MotorClient implements Motor {
     const response = await promisify<
       motorApi.GetPositionRequest,
       motorApi.GetPositionResponse
-    >(motorService.getPosition.bind(motorService), request);
+    >(
+      motorService.getPosition.bind(motorService),
+      request,
+      callOptions,
+      'getPosition'
+    );
     return response.getPosition();
   }
 
-  async isPowered(extra = {}) {
+  async isPowered(extra = {}, callOptions: CallOptions = {}) {
     const { motorService } = this;
     const request = new motorApi.IsPoweredRequest();
     request.setName(this.name);
@@ -158,11 +249,16 @@ export class MotorClient implements Motor {
     const response = await promisify<
       motorApi.IsPoweredRequest,
       motorApi.IsPoweredResponse
-    >(motorService.isPowered.bind(motorService), request);
+    >(
+      motorService.isPowered.bind(motorService),
+      request,
+      callOptions,
+      'isPowered'
+    );
     return [response.getIsOn(), response.getPowerPct()] as const;
   }
 
-  async isMoving() {
+  async isMoving(callOptions: CallOptions = {}) {
     const { motorService } = this;
     const request = new motorApi.IsMovingRequest();
     request.setName(this.name);
@@ -172,12 +268,26 @@ export class MotorClient implements Motor {
     const response = await promisify<
       motorApi.IsMovingRequest,
       motorApi.IsMovingResponse
-    >(motorService.isMoving.bind(motorService), request);
+    >(
+      motorService.isMoving.bind(motorService),
+      request,
+      callOptions,
+      'isMoving'
+    );
     return response.getIsMoving();
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { motorService } = this;
-    return doCommandFromClient(motorService, this.name, command, this.options);
+    return doCommandFromClient(
+      motorService,
+      this.name,
+      command,
+      this.options,
+      callOptions
+    );
   }
 }
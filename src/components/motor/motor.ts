@@ -1,4 +1,8 @@
-import type { Resource, StructType } from '../../types';
+import type {
+  OperationCallOptions,
+  OperationHandle,
+} from '../../robot/operations';
+import type { CallOptions, Resource, StructType } from '../../types';
 
 export interface Properties {
   /** Whether a motor supports position reporting. */
@@ -13,7 +17,22 @@ export interface Motor extends Resource {
    * @param power - A value between -1 and 1 where negative values indicate a
    *   backwards direction and positive values a forward direction.
    */
-  setPower(power: number, extra?: StructType): Promise<void>;
+  setPower(
+    power: number,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<void>;
+
+  /**
+   * Start `goFor` as an operation, returning a handle to await or cancel it
+   * with.
+   */
+  goFor(
+    rpm: number,
+    revolutions: number,
+    extra: StructType | undefined,
+    callOptions: OperationCallOptions
+  ): OperationHandle<void>;
 
   /**
    * Turn the motor at a specified speed for either a specified number of
@@ -26,7 +45,23 @@ export interface Motor extends Resource {
    *   indefinitely. If this value is nonzero, this will block until the number
    *   of revolutions has been completed or another operation comes in.
    */
-  goFor(rpm: number, revolutions: number, extra?: StructType): Promise<void>;
+  goFor(
+    rpm: number,
+    revolutions: number,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<void>;
+
+  /**
+   * Start `goTo` as an operation, returning a handle to await or cancel it
+   * with.
+   */
+  goTo(
+    rpm: number,
+    positionRevolutions: number,
+    extra: StructType | undefined,
+    callOptions: OperationCallOptions
+  ): OperationHandle<void>;
 
   /**
    * Move the motor to a specific position relative to its home position at a
@@ -39,7 +74,8 @@ export interface Motor extends Resource {
   goTo(
     rpm: number,
     positionRevolutions: number,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ): Promise<void>;
 
   /**
@@ -48,7 +84,11 @@ export interface Motor extends Resource {
    *
    * @param rpm - Speed in revolutions per minute.
    */
-  setRPM(rpm: number, extra?: StructType): Promise<void>;
+  setRPM(
+    rpm: number,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<void>;
 
   /**
    * Set the current position of the motor as the new zero position, offset by a
@@ -56,23 +96,33 @@ export interface Motor extends Resource {
    *
    * @param offset - Position from which to offset the current position.
    */
-  resetZeroPosition(offset: number, extra?: StructType): Promise<void>;
+  resetZeroPosition(
+    offset: number,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<void>;
 
   /** Turn the motor off. */
-  stop(extra?: StructType): Promise<void>;
+  stop(extra?: StructType, callOptions?: CallOptions): Promise<void>;
 
   /** Return the motor's properties. */
-  getProperties(extra?: StructType): Promise<Properties>;
+  getProperties(
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<Properties>;
 
   /**
    * Return the position of the motor relative to its zero position. Raise an
    * error if position reporting is not supported.
    */
-  getPosition(extra?: StructType): Promise<number>;
+  getPosition(extra?: StructType, callOptions?: CallOptions): Promise<number>;
 
   /** Return true if the motor is on. */
-  isPowered(extra?: StructType): Promise<readonly [boolean, number]>;
+  isPowered(
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<readonly [boolean, number]>;
 
   /** Return true if the motor is in motion. */
-  isMoving(): Promise<boolean>;
+  isMoving(callOptions?: CallOptions): Promise<boolean>;
 }
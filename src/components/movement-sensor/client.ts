@@ -1,7 +1,7 @@
 import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
 import type { RobotClient } from '../../robot';
 import { MovementSensorServiceClient } from '../../gen/component/movementsensor/v1/movementsensor_pb_service';
-import type { Options, StructType } from '../../types';
+import type { CallOptions, Options, StructType } from '../../types';
 import pb from '../../gen/component/movementsensor/v1/movementsensor_pb';
 import { promisify, doCommandFromClient } from '../../utils';
 import {
@@ -30,7 +30,7 @@ export class MovementSensorClient implements MovementSensor {
     return this.client;
   }
 
-  async getLinearVelocity(extra = {}) {
+  async getLinearVelocity(extra = {}, callOptions: CallOptions = {}) {
     const { movementsensorService } = this;
     const request = new pb.GetLinearVelocityRequest();
     request.setName(this.name);
@@ -43,7 +43,9 @@ export class MovementSensorClient implements MovementSensor {
       pb.GetLinearVelocityResponse
     >(
       movementsensorService.getLinearVelocity.bind(movementsensorService),
-      request
+      request,
+      callOptions,
+      'getLinearVelocity'
     );
 
     const vel = response.getLinearVelocity();
@@ -54,7 +56,7 @@ export class MovementSensorClient implements MovementSensor {
     return vel.toObject();
   }
 
-  async getAngularVelocity(extra = {}) {
+  async getAngularVelocity(extra = {}, callOptions: CallOptions = {}) {
     const { movementsensorService } = this;
     const request = new pb.GetAngularVelocityRequest();
     request.setName(this.name);
@@ -67,7 +69,9 @@ export class MovementSensorClient implements MovementSensor {
       pb.GetAngularVelocityResponse
     >(
       movementsensorService.getAngularVelocity.bind(movementsensorService),
-      request
+      request,
+      callOptions,
+      'getAngularVelocity'
     );
 
     const ang = response.getAngularVelocity();
@@ -78,7 +82,7 @@ export class MovementSensorClient implements MovementSensor {
     return ang.toObject();
   }
 
-  async getCompassHeading(extra = {}) {
+  async getCompassHeading(extra = {}, callOptions: CallOptions = {}) {
     const { movementsensorService } = this;
     const request = new pb.GetCompassHeadingRequest();
     request.setName(this.name);
@@ -91,13 +95,15 @@ export class MovementSensorClient implements MovementSensor {
       pb.GetCompassHeadingResponse
     >(
       movementsensorService.getCompassHeading.bind(movementsensorService),
-      request
+      request,
+      callOptions,
+      'getCompassHeading'
     );
 
     return response.getValue();
   }
 
-  async getOrientation(extra = {}) {
+  async getOrientation(extra = {}, callOptions: CallOptions = {}) {
     const { movementsensorService } = this;
     const request = new pb.GetOrientationRequest();
     request.setName(this.name);
@@ -110,7 +116,9 @@ export class MovementSensorClient implements MovementSensor {
       pb.GetOrientationResponse
     >(
       movementsensorService.getOrientation.bind(movementsensorService),
-      request
+      request,
+      callOptions,
+      'getOrientation'
     );
 
     const ori = response.getOrientation();
@@ -121,7 +129,7 @@ export class MovementSensorClient implements MovementSensor {
     return ori.toObject();
   }
 
-  async getPosition(extra = {}) {
+  async getPosition(extra = {}, callOptions: CallOptions = {}) {
     const { movementsensorService } = this;
     const request = new pb.GetPositionRequest();
     request.setName(this.name);
@@ -132,12 +140,17 @@ export class MovementSensorClient implements MovementSensor {
     const response = await promisify<
       pb.GetPositionRequest,
       pb.GetPositionResponse
-    >(movementsensorService.getPosition.bind(movementsensorService), request);
+    >(
+      movementsensorService.getPosition.bind(movementsensorService),
+      request,
+      callOptions,
+      'getPosition'
+    );
 
     return response.toObject();
   }
 
-  async getProperties(extra = {}) {
+  async getProperties(extra = {}, callOptions: CallOptions = {}) {
     const { movementsensorService } = this;
     const request = new pb.GetPropertiesRequest();
     request.setName(this.name);
@@ -148,12 +161,17 @@ export class MovementSensorClient implements MovementSensor {
     const response = await promisify<
       pb.GetPropertiesRequest,
       pb.GetPropertiesResponse
-    >(movementsensorService.getProperties.bind(movementsensorService), request);
+    >(
+      movementsensorService.getProperties.bind(movementsensorService),
+      request,
+      callOptions,
+      'getProperties'
+    );
 
     return response.toObject();
   }
 
-  async getAccuracy(extra = {}) {
+  async getAccuracy(extra = {}, callOptions: CallOptions = {}) {
     const { movementsensorService } = this;
     const request = new pb.GetAccuracyRequest();
     request.setName(this.name);
@@ -164,12 +182,17 @@ export class MovementSensorClient implements MovementSensor {
     const response = await promisify<
       pb.GetAccuracyRequest,
       pb.GetAccuracyResponse
-    >(movementsensorService.getAccuracy.bind(movementsensorService), request);
+    >(
+      movementsensorService.getAccuracy.bind(movementsensorService),
+      request,
+      callOptions,
+      'getAccuracy'
+    );
 
     return response.toObject();
   }
 
-  async getLinearAcceleration(extra = {}) {
+  async getLinearAcceleration(extra = {}, callOptions: CallOptions = {}) {
     const { movementsensorService } = this;
     const request = new pb.GetLinearAccelerationRequest();
     request.setName(this.name);
@@ -182,7 +205,9 @@ export class MovementSensorClient implements MovementSensor {
       pb.GetLinearAccelerationResponse
     >(
       movementsensorService.getLinearAcceleration.bind(movementsensorService),
-      request
+      request,
+      callOptions,
+      'getLinearAcceleration'
     );
 
     const acc = response.getLinearAcceleration();
@@ -193,7 +218,7 @@ export class MovementSensorClient implements MovementSensor {
     return acc.toObject();
   }
 
-  async getReadings(extra = {}) {
+  async getReadings(extra = {}, callOptions: CallOptions = {}) {
     const { movementsensorService } = this;
     const request = new GetReadingsRequest();
     request.setName(this.name);
@@ -203,7 +228,9 @@ export class MovementSensorClient implements MovementSensor {
 
     const response = await promisify<GetReadingsRequest, GetReadingsResponse>(
       movementsensorService.getReadings.bind(movementsensorService),
-      request
+      request,
+      callOptions,
+      'getReadings'
     );
 
     const result: Record<string, unknown> = {};
@@ -213,13 +240,17 @@ export class MovementSensorClient implements MovementSensor {
     return result;
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { movementsensorService } = this;
     return doCommandFromClient(
       movementsensorService,
       this.name,
       command,
-      this.options
+      this.options,
+      callOptions
     );
   }
 }
@@ -1,4 +1,10 @@
-import type { Resource, Orientation, StructType, Vector3 } from '../../types';
+import type {
+  CallOptions,
+  Resource,
+  Orientation,
+  StructType,
+  Vector3,
+} from '../../types';
 import pb from '../../gen/component/movementsensor/v1/movementsensor_pb';
 
 export type MovementSensorPosition = pb.GetPositionResponse.AsObject;
@@ -11,35 +17,62 @@ export type MovementSensorAccuracy = pb.GetAccuracyResponse.AsObject;
  */
 export interface MovementSensor extends Resource {
   /** Get linear velocity across x/y/z axes */
-  getLinearVelocity(extra?: StructType): Promise<Vector3>;
+  getLinearVelocity(
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<Vector3>;
 
   /** Get the angular velocity across x/y/z axes */
-  getAngularVelocity(extra?: StructType): Promise<Vector3>;
+  getAngularVelocity(
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<Vector3>;
 
   /**
    * Get the compass heading, which is a number from 0-359 where 0 is North, 90
    * is East, 180 is South, and 270 is West
    */
-  getCompassHeading(extra?: StructType): Promise<number>;
+  getCompassHeading(
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<number>;
 
   /**
    * Get the compass heading, which is a number from 0-359 where 0 is North, 90
    * is East, 180 is South, and 270 is West
    */
-  getOrientation(extra?: StructType): Promise<Orientation>;
+  getOrientation(
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<Orientation>;
 
   /** Get the current position latitude, longitude, and altitude */
-  getPosition(extra?: StructType): Promise<MovementSensorPosition>;
+  getPosition(
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<MovementSensorPosition>;
 
   /** Get the properties of this movement sensor */
-  getProperties(extra?: StructType): Promise<MovementSensorProperties>;
+  getProperties(
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<MovementSensorProperties>;
 
   /** Get the accuracy of various sensors */
-  getAccuracy(extra?: StructType): Promise<MovementSensorAccuracy>;
+  getAccuracy(
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<MovementSensorAccuracy>;
 
   /** Get linear acceleration across x/y/z axes */
-  getLinearAcceleration(extra?: StructType): Promise<Vector3>;
+  getLinearAcceleration(
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<Vector3>;
 
   /** Return the readings of a sensor. */
-  getReadings(extra?: StructType): Promise<Record<string, unknown>>;
+  getReadings(
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<Record<string, unknown>>;
 }
@@ -1,7 +1,7 @@
 import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
 import type { RobotClient } from '../../robot';
 import { PowerSensorServiceClient } from '../../gen/component/powersensor/v1/powersensor_pb_service';
-import type { Options, StructType } from '../../types';
+import type { CallOptions, Options, StructType } from '../../types';
 import pb from '../../gen/component/powersensor/v1/powersensor_pb';
 import { promisify, doCommandFromClient } from '../../utils';
 import {
@@ -31,7 +31,7 @@ export class PowerSensorClient implements PowerSensor {
     return this.client;
   }
 
-  async getVoltage(extra = {}) {
+  async getVoltage(extra = {}, callOptions: CallOptions = {}) {
     const { powersensorService } = this;
     const request = new pb.GetVoltageRequest();
     request.setName(this.name);
@@ -42,12 +42,17 @@ export class PowerSensorClient implements PowerSensor {
     const response = await promisify<
       pb.GetVoltageRequest,
       pb.GetVoltageResponse
-    >(powersensorService.getVoltage.bind(powersensorService), request);
+    >(
+      powersensorService.getVoltage.bind(powersensorService),
+      request,
+      callOptions,
+      'getVoltage'
+    );
 
     return [response.getVolts(), response.getIsAc()] as const;
   }
 
-  async getCurrent(extra = {}) {
+  async getCurrent(extra = {}, callOptions: CallOptions = {}) {
     const { powersensorService } = this;
     const request = new pb.GetCurrentRequest();
     request.setName(this.name);
@@ -58,12 +63,17 @@ export class PowerSensorClient implements PowerSensor {
     const response = await promisify<
       pb.GetCurrentRequest,
       pb.GetCurrentResponse
-    >(powersensorService.getCurrent.bind(powersensorService), request);
+    >(
+      powersensorService.getCurrent.bind(powersensorService),
+      request,
+      callOptions,
+      'getCurrent'
+    );
 
     return [response.getAmperes(), response.getIsAc()] as const;
   }
 
-  async getPower(extra = {}) {
+  async getPower(extra = {}, callOptions: CallOptions = {}) {
     const { powersensorService } = this;
     const request = new pb.GetPowerRequest();
     request.setName(this.name);
@@ -73,13 +83,15 @@ export class PowerSensorClient implements PowerSensor {
 
     const response = await promisify<pb.GetPowerRequest, pb.GetPowerResponse>(
       powersensorService.getPower.bind(powersensorService),
-      request
+      request,
+      callOptions,
+      'getPower'
     );
 
     return response.getWatts();
   }
 
-  async getReadings(extra = {}) {
+  async getReadings(extra = {}, callOptions: CallOptions = {}) {
     const { powersensorService } = this;
     const request = new GetReadingsRequest();
     request.setName(this.name);
@@ -89,7 +101,9 @@ export class PowerSensorClient implements PowerSensor {
 
     const response = await promisify<GetReadingsRequest, GetReadingsResponse>(
       powersensorService.getReadings.bind(powersensorService),
-      request
+      request,
+      callOptions,
+      'getReadings'
     );
 
     const result: Record<string, unknown> = {};
@@ -99,13 +113,17 @@ export class PowerSensorClient implements PowerSensor {
     return result;
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { powersensorService } = this;
     return doCommandFromClient(
       powersensorService,
       this.name,
       command,
-      this.options
+      this.options,
+      callOptions
     );
   }
 }
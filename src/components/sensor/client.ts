@@ -1,7 +1,7 @@
 import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
 
 import type { RobotClient } from '../../robot';
-import type { Options, StructType } from '../../types';
+import type { CallOptions, Options, StructType } from '../../types';
 import { SensorServiceClient } from '../../gen/component/sensor/v1/sensor_pb_service';
 
 import { promisify, doCommandFromClient } from '../../utils';
@@ -31,7 +31,7 @@ export class SensorClient implements Sensor {
     return this.client;
   }
 
-  async getReadings(extra = {}) {
+  async getReadings(extra = {}, callOptions: CallOptions = {}) {
     const { sensorService } = this;
     const request = new GetReadingsRequest();
     request.setName(this.name);
@@ -41,7 +41,9 @@ export class SensorClient implements Sensor {
 
     const response = await promisify<GetReadingsRequest, GetReadingsResponse>(
       sensorService.getReadings.bind(sensorService),
-      request
+      request,
+      callOptions,
+      'getReadings'
     );
 
     const result: Record<string, unknown> = {};
@@ -51,8 +53,17 @@ export class SensorClient implements Sensor {
     return result;
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { sensorService } = this;
-    return doCommandFromClient(sensorService, this.name, command, this.options);
+    return doCommandFromClient(
+      sensorService,
+      this.name,
+      command,
+      this.options,
+      callOptions
+    );
   }
 }
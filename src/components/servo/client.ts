@@ -1,7 +1,7 @@
 import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
 import type { RobotClient } from '../../robot';
 import { ServoServiceClient } from '../../gen/component/servo/v1/servo_pb_service';
-import type { Options, StructType } from '../../types';
+import type { CallOptions, Options, StructType } from '../../types';
 import pb from '../../gen/component/servo/v1/servo_pb';
 import { promisify, doCommandFromClient } from '../../utils';
 import type { Servo } from './servo';
@@ -26,7 +26,11 @@ export class ServoClient implements Servo {
     return this.client;
   }
 
-  async move(angleDeg: number, extra: StructType = {}) {
+  async move(
+    angleDeg: number,
+    extra: StructType = {},
+    callOptions: CallOptions = {}
+  ) {
     const { servoService } = this;
     const request = new pb.MoveRequest();
     request.setName(this.name);
@@ -37,11 +41,13 @@ export class ServoClient implements Servo {
 
     await promisify<pb.MoveRequest, pb.MoveResponse>(
       servoService.move.bind(servoService),
-      request
+      request,
+      callOptions,
+      'move'
     );
   }
 
-  async getPosition(extra: StructType = {}) {
+  async getPosition(extra: StructType = {}, callOptions: CallOptions = {}) {
     const { servoService } = this;
     const request = new pb.GetPositionRequest();
     request.setName(this.name);
@@ -52,12 +58,17 @@ export class ServoClient implements Servo {
     const response = await promisify<
       pb.GetPositionRequest,
       pb.GetPositionResponse
-    >(servoService.getPosition.bind(servoService), request);
+    >(
+      servoService.getPosition.bind(servoService),
+      request,
+      callOptions,
+      'getPosition'
+    );
 
     return response.getPositionDeg();
   }
 
-  async stop(extra = {}) {
+  async stop(extra = {}, callOptions: CallOptions = {}) {
     const { servoService } = this;
     const request = new pb.StopRequest();
     request.setName(this.name);
@@ -67,11 +78,13 @@ export class ServoClient implements Servo {
 
     await promisify<pb.StopRequest, pb.StopResponse>(
       servoService.stop.bind(servoService),
-      request
+      request,
+      callOptions,
+      'stop'
     );
   }
 
-  async isMoving() {
+  async isMoving(callOptions: CallOptions = {}) {
     const { servoService } = this;
     const request = new pb.IsMovingRequest();
     request.setName(this.name);
@@ -80,13 +93,24 @@ export class ServoClient implements Servo {
 
     const response = await promisify<pb.IsMovingRequest, pb.IsMovingResponse>(
       servoService.isMoving.bind(servoService),
-      request
+      request,
+      callOptions,
+      'isMoving'
     );
     return response.getIsMoving();
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { servoService } = this;
-    return doCommandFromClient(servoService, this.name, command, this.options);
+    return doCommandFromClient(
+      servoService,
+      this.name,
+      command,
+      this.options,
+      callOptions
+    );
   }
 }
@@ -1,16 +1,20 @@
-import type { Resource, StructType } from '../../types';
+import type { CallOptions, Resource, StructType } from '../../types';
 
 /** Represents a physical servo. */
 export interface Servo extends Resource {
   /** Move the servo by a given angle in degrees. */
-  move(angleDeg: number, extra?: StructType): Promise<void>;
+  move(
+    angleDeg: number,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<void>;
 
   /** Return the current set angle of the servo in degrees. */
-  getPosition(extra?: StructType): Promise<number>;
+  getPosition(extra?: StructType, callOptions?: CallOptions): Promise<number>;
 
   /** Stop the servo. */
-  stop(extra?: StructType): Promise<void>;
+  stop(extra?: StructType, callOptions?: CallOptions): Promise<void>;
 
   /** Return true if the servo is in motion. */
-  isMoving(): Promise<boolean>;
+  isMoving(callOptions?: CallOptions): Promise<boolean>;
 }
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+import { grpc } from '@improbable-eng/grpc-web';
+import {
+  ConnectionClosedError,
+  NotFoundError,
+  UnauthenticatedError,
+  ViamError,
+  createViamError,
+} from './errors';
+import type { ServiceError } from './gen/robot/v1/robot_pb_service';
+import { promisify } from './utils';
+
+describe('createViamError', () => {
+  it('creates the subclass for a status code', () => {
+    const error = createViamError(grpc.Code.NotFound, 'missing', {
+      resourceName: 'left',
+      method: 'setPower',
+    });
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toBeInstanceOf(ViamError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({
+      name: 'NotFoundError',
+      message: 'missing',
+      code: grpc.Code.NotFound,
+      resourceName: 'left',
+      method: 'setPower',
+    });
+  });
+
+  it('recognizes a closed connection', () => {
+    const error = createViamError(
+      grpc.Code.Unknown,
+      'Response closed without headers'
+    );
+    expect(error).toBeInstanceOf(ConnectionClosedError);
+    expect(error.code).toBe(grpc.Code.Unknown);
+  });
+
+  it('falls back to ViamError for other codes', () => {
+    const error = createViamError(grpc.Code.DataLoss, 'lost');
+    expect(error.constructor).toBe(ViamError);
+    expect(error.code).toBe(grpc.Code.DataLoss);
+  });
+});
+
+describe('promisify', () => {
+  const request = { getName: () => 'left' };
+
+  it('converts service errors', async () => {
+    const metadata = new grpc.Metadata();
+    const service = {
+      setPower(
+        _req: typeof request,
+        _md: grpc.Metadata,
+        cb: (error: ServiceError | null, response: null) => void
+      ) {
+        cb({ code: grpc.Code.Unauthenticated, message: 'no', metadata }, null);
+        return { cancel: vi.fn() };
+      },
+    };
+
+    const promise = promisify(
+      service.setPower.bind(service),
+      request,
+      {},
+      'setPower'
+    );
+    await expect(promise).rejects.toBeInstanceOf(UnauthenticatedError);
+    await expect(promise).rejects.toMatchObject({
+      message: 'no',
+      metadata,
+      resourceName: 'left',
+      method: 'setPower',
+    });
+  });
+
+  it('passes other errors through', async () => {
+    const error = new Error('boom');
+    const promise = promisify((_req, _md, cb) => {
+      cb(error as never, null);
+      return { cancel: vi.fn() };
+    }, request);
+    await expect(promise).rejects.toBe(error);
+  });
+});
@@ -0,0 +1,197 @@
+/* eslint-disable max-classes-per-file */
+import { grpc } from '@improbable-eng/grpc-web';
+
+export interface ViamErrorOptions {
+  /** The trailing metadata the failed call returned, if any. */
+  metadata?: grpc.Metadata;
+
+  /** The name of the resource the failed call was made on, if known. */
+  resourceName?: string;
+
+  /** The client method that failed, if known. */
+  method?: string;
+}
+
+/**
+ * The base class for errors returned by a robot or by the app. Check for one of
+ * its subclasses with `instanceof` to handle a specific gRPC status.
+ *
+ * @example
+ *
+ * ```ts
+ * try {
+ *   await motor.setPower(0.5);
+ * } catch (error) {
+ *   if (error instanceof NotFoundError) {
+ *     console.log(`${error.resourceName} is not configured`);
+ *   }
+ * }
+ * ```
+ */
+export class ViamError extends Error {
+  override name = 'ViamError';
+
+  /** The gRPC status code of the failed call. */
+  readonly code: grpc.Code;
+
+  readonly metadata: grpc.Metadata | undefined;
+  readonly resourceName: string | undefined;
+  readonly method: string | undefined;
+
+  constructor(
+    message: string,
+    code: grpc.Code = grpc.Code.Unknown,
+    { metadata, resourceName, method }: ViamErrorOptions = {}
+  ) {
+    super(message);
+    this.code = code;
+    this.metadata = metadata;
+    this.resourceName = resourceName;
+    this.method = method;
+  }
+}
+
+/** The call was cancelled, usually by the caller. */
+export class CancelledError extends ViamError {
+  override name = 'CancelledError';
+
+  constructor(message: string, options?: ViamErrorOptions) {
+    super(message, grpc.Code.Canceled, options);
+  }
+}
+
+/** The request was rejected because one of its arguments was invalid. */
+export class InvalidArgumentError extends ViamError {
+  override name = 'InvalidArgumentError';
+
+  constructor(message: string, options?: ViamErrorOptions) {
+    super(message, grpc.Code.InvalidArgument, options);
+  }
+}
+
+/** The call did not complete before its deadline. */
+export class DeadlineExceededError extends ViamError {
+  override name = 'DeadlineExceededError';
+
+  constructor(message: string, options?: ViamErrorOptions) {
+    super(message, grpc.Code.DeadlineExceeded, options);
+  }
+}
+
+/** The resource, or something the call refers to, does not exist. */
+export class NotFoundError extends ViamError {
+  override name = 'NotFoundError';
+
+  constructor(message: string, options?: ViamErrorOptions) {
+    super(message, grpc.Code.NotFound, options);
+  }
+}
+
+/** The caller is authenticated but not allowed to make the call. */
+export class PermissionDeniedError extends ViamError {
+  override name = 'PermissionDeniedError';
+
+  constructor(message: string, options?: ViamErrorOptions) {
+    super(message, grpc.Code.PermissionDenied, options);
+  }
+}
+
+/** A quota or buffer was exhausted. */
+export class ResourceExhaustedError extends ViamError {
+  override name = 'ResourceExhaustedError';
+
+  constructor(message: string, options?: ViamErrorOptions) {
+    super(message, grpc.Code.ResourceExhausted, options);
+  }
+}
+
+/** The resource does not implement the method that was called. */
+export class UnimplementedError extends ViamError {
+  override name = 'UnimplementedError';
+
+  constructor(message: string, options?: ViamErrorOptions) {
+    super(message, grpc.Code.Unimplemented, options);
+  }
+}
+
+/** The server is temporarily unable to handle the call. */
+export class UnavailableError extends ViamError {
+  override name = 'UnavailableError';
+
+  constructor(message: string, options?: ViamErrorOptions) {
+    super(message, grpc.Code.Unavailable, options);
+  }
+}
+
+/** The call was made without valid credentials. */
+export class UnauthenticatedError extends ViamError {
+  override name = 'UnauthenticatedError';
+
+  constructor(message: string, options?: ViamErrorOptions) {
+    super(message, grpc.Code.Unauthenticated, options);
+  }
+}
+
+/**
+ * The connection closed before the call completed. gRPC-web reports this as an
+ * `Unknown` status, so that is the code this error carries.
+ */
+export class ConnectionClosedError extends ViamError {
+  override name = 'ConnectionClosedError';
+
+  constructor(message: string, options?: ViamErrorOptions) {
+    super(message, grpc.Code.Unknown, options);
+  }
+}
+
+// The message gRPC-web reports when the transport ends without a response
+const connectionClosedMessage = 'Response closed without headers';
+
+/**
+ * Create the {@link ViamError} subclass that matches a gRPC status code. Codes
+ * without a dedicated subclass create a plain {@link ViamError}.
+ */
+export const createViamError = (
+  code: grpc.Code,
+  message: string,
+  options?: ViamErrorOptions
+): ViamError => {
+  switch (code) {
+    case grpc.Code.Canceled: {
+      return new CancelledError(message, options);
+    }
+    case grpc.Code.InvalidArgument: {
+      return new InvalidArgumentError(message, options);
+    }
+    case grpc.Code.DeadlineExceeded: {
+      return new DeadlineExceededError(message, options);
+    }
+    case grpc.Code.NotFound: {
+      return new NotFoundError(message, options);
+    }
+    case grpc.Code.PermissionDenied: {
+      return new PermissionDeniedError(message, options);
+    }
+    case grpc.Code.ResourceExhausted: {
+      return new ResourceExhaustedError(message, options);
+    }
+    case grpc.Code.Unimplemented: {
+      return new UnimplementedError(message, options);
+    }
+    case grpc.Code.Unavailable: {
+      return new UnavailableError(message, options);
+    }
+    case grpc.Code.Unauthenticated: {
+      return new UnauthenticatedError(message, options);
+    }
+    case grpc.Code.Unknown: {
+      if (message === connectionClosedMessage) {
+        return new ConnectionClosedError(message, options);
+      }
+      return new ViamError(message, code, options);
+    }
+    default: {
+      return new ViamError(message, code, options);
+    }
+  }
+};
@@ -11,6 +11,52 @@ export enum MachineConnectionEvent {
   DISCONNECTED = 'disconnected',
 }
 
+/**
+ * ReconnectEvent events are emitted by a RobotClient while it reconnects after
+ * the connection is lost. They are not re-emitted as 'connectionstatechange'.
+ *
+ * RECONNECTING is emitted with a `ReconnectAttempt` before each attempt, and
+ * RECONNECT_FAILED with a `ReconnectFailure` when the reconnect policy gives
+ * up.
+ */
+export enum ReconnectEvent {
+  RECONNECTING = 'reconnecting',
+  RECONNECT_FAILED = 'reconnectfailed',
+}
+
+/**
+ * ResourceChangeEvent events are emitted by a RobotClient with the name of a
+ * resource when it is added to or removed from the machine's config.
+ */
+export enum ResourceChangeEvent {
+  ADDED = 'resourceadded',
+  REMOVED = 'resourceremoved',
+}
+
+/**
+ * OfflineQueueEvent events are emitted by a RobotClient with an offline queue.
+ *
+ * COMMAND_DROPPED is emitted with a `DroppedCommand` when a command held while
+ * disconnected is dropped instead of sent, and the call fails.
+ */
+export enum OfflineQueueEvent {
+  COMMAND_DROPPED = 'commanddropped',
+}
+
+/**
+ * SessionEvent events are emitted by a RobotClient as its session with the
+ * machine changes. While a session is expired, the machine stops resources such
+ * as motors that were moved through it.
+ *
+ * STARTED is emitted with a `SessionStarted`, EXPIRED with a `SessionExpired`
+ * and HEARTBEAT_MISSED with a `HeartbeatMissed`.
+ */
+export enum SessionEvent {
+  STARTED = 'sessionstarted',
+  EXPIRED = 'sessionexpired',
+  HEARTBEAT_MISSED = 'heartbeatmissed',
+}
+
 export class EventDispatcher {
   listeners: Partial<Record<string, Set<Callback>>> = {};
 
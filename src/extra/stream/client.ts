@@ -59,7 +59,9 @@ export class StreamClient extends EventDispatcher implements Stream {
     try {
       await promisify<pb.AddStreamRequest, pb.AddStreamResponse>(
         streamService.addStream.bind(streamService),
-        request
+        request,
+        {},
+        'addStream'
       );
       this.streams.add(name);
     } catch {
@@ -68,7 +70,9 @@ export class StreamClient extends EventDispatcher implements Stream {
       this.options.requestLogger?.(request);
       await promisify<pb.AddStreamRequest, pb.AddStreamResponse>(
         streamService.addStream.bind(streamService),
-        request
+        request,
+        {},
+        'addStream'
       );
       this.streams.add(name);
     }
@@ -83,7 +87,9 @@ export class StreamClient extends EventDispatcher implements Stream {
     try {
       await promisify<pb.RemoveStreamRequest, pb.RemoveStreamResponse>(
         streamService.removeStream.bind(streamService),
-        request
+        request,
+        {},
+        'removeStream'
       );
       this.streams.delete(name);
     } catch {
@@ -92,7 +98,9 @@ export class StreamClient extends EventDispatcher implements Stream {
       this.options.requestLogger?.(request);
       await promisify<pb.RemoveStreamRequest, pb.RemoveStreamResponse>(
         streamService.removeStream.bind(streamService),
-        request
+        request,
+        {},
+        'removeStream'
       );
       this.streams.delete(name);
     }
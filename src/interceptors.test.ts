@@ -0,0 +1,150 @@
+import { describe, expect, it, vi } from 'vitest';
+import { grpc } from '@improbable-eng/grpc-web';
+import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
+import { NotFoundError, UnauthenticatedError, ViamError } from './errors';
+import { interceptTransportFactory, type Interceptor } from './interceptors';
+import { FakeServer, FakeStatusError } from './testing/fake-server';
+
+const Echo = {
+  methodName: 'Echo',
+  service: { serviceName: 'test.v1.TestService' },
+  requestStream: false,
+  responseStream: false,
+  requestType: Struct,
+  responseType: Struct,
+};
+
+const EchoStream = { ...Echo, methodName: 'EchoStream', responseStream: true };
+
+const setup = (...interceptors: Interceptor[]) => {
+  const server = new FakeServer();
+  server.handle(Echo, (request) => request);
+  server.handle(EchoStream, (request) => [request, request]);
+  const transport = interceptTransportFactory(
+    server.transportFactory,
+    interceptors
+  );
+
+  const call = async (method = Echo, value = 'hi') =>
+    new Promise<grpc.Code>((resolve) => {
+      grpc.invoke(method, {
+        host: 'fake',
+        request: Struct.fromJavaScript({ value }),
+        transport,
+        onEnd: (code) => resolve(code),
+      });
+    });
+
+  return { server, call };
+};
+
+describe('InterceptorTransport', () => {
+  it('runs interceptors in order before the call starts', async () => {
+    const seen: string[] = [];
+    const { server, call } = setup(
+      (intercepted) => {
+        seen.push(`first ${intercepted.service}/${intercepted.method}`);
+        intercepted.metadata.set('x-first', '1');
+      },
+      async (intercepted) => {
+        await Promise.resolve();
+        seen.push(`second ${intercepted.metadata.get('x-first').join(',')}`);
+        intercepted.metadata.set('x-second', '2');
+      }
+    );
+
+    await expect(call()).resolves.toBe(grpc.Code.OK);
+    expect(seen).toStrictEqual(['first test.v1.TestService/Echo', 'second 1']);
+    expect(server.requests[0]?.metadata.get('x-second')).toStrictEqual(['2']);
+  });
+
+  it('sees request and response messages', async () => {
+    const request = vi.fn<[grpc.ProtobufMessage]>();
+    const response = vi.fn<[grpc.ProtobufMessage]>();
+    const after = vi.fn();
+    const { call } = setup(() => ({ request, response, after }));
+
+    await expect(call(EchoStream, 'ping')).resolves.toBe(grpc.Code.OK);
+
+    expect(request).toHaveBeenCalledOnce();
+    const [message] = request.mock.calls[0] ?? [];
+    expect((message as Struct | undefined)?.toJavaScript()).toStrictEqual({
+      value: 'ping',
+    });
+    expect(response).toHaveBeenCalledTimes(2);
+    expect(after).toHaveBeenCalledOnce();
+  });
+
+  it('reports failed calls as errors', async () => {
+    const after = vi.fn();
+    const error = vi.fn<[ViamError]>();
+    const { server, call } = setup(() => ({ after, error }));
+    server.handleOnce(Echo, () => {
+      throw new FakeStatusError(grpc.Code.NotFound, 'no echo');
+    });
+
+    await expect(call()).resolves.toBe(grpc.Code.NotFound);
+
+    expect(after).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledOnce();
+    expect(error.mock.calls[0]?.[0]).toBeInstanceOf(NotFoundError);
+    expect(error.mock.calls[0]?.[0]).toMatchObject({
+      message: 'no echo',
+      method: 'Echo',
+    });
+  });
+
+  it('fails the call when an interceptor throws', async () => {
+    const { server, call } = setup(() => {
+      throw new UnauthenticatedError('token expired');
+    });
+
+    await expect(call()).resolves.toBe(grpc.Code.Unauthenticated);
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('does not send a call cancelled while an interceptor is pending', async () => {
+    const server = new FakeServer();
+    const sent: string[] = [];
+    const transportFactory: grpc.TransportFactory = (opts) => {
+      const inner = server.transportFactory(opts);
+      return {
+        start: (metadata) => {
+          sent.push('start');
+          inner.start(metadata);
+        },
+        sendMessage: (msgBytes) => {
+          sent.push('message');
+          inner.sendMessage(msgBytes);
+        },
+        finishSend: () => {
+          sent.push('finishSend');
+          inner.finishSend();
+        },
+        cancel: () => inner.cancel(),
+      };
+    };
+    let proceed: (() => void) | undefined;
+    const transport = interceptTransportFactory(transportFactory, [
+      async () =>
+        new Promise<void>((resolve) => {
+          proceed = resolve;
+        }),
+    ]);
+
+    const request = grpc.invoke(Echo, {
+      host: 'fake',
+      request: Struct.fromJavaScript({ value: 'hi' }),
+      transport,
+      onEnd: vi.fn(),
+    });
+    request.close();
+    proceed?.();
+    await new Promise((resolve) => {
+      setTimeout(resolve, 0);
+    });
+
+    expect(sent).toStrictEqual([]);
+    expect(server.requests).toHaveLength(0);
+  });
+});
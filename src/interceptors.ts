@@ -0,0 +1,332 @@
+import { grpc } from '@improbable-eng/grpc-web';
+import {
+  ConnectionClosedError,
+  ViamError,
+  createViamError,
+  type ViamErrorOptions,
+} from './errors';
+
+/** A call that is about to be made, as seen by an {@link Interceptor}. */
+export interface InterceptedCall {
+  /** The fully qualified service, e.g. `viam.component.motor.v1.MotorService`. */
+  readonly service: string;
+
+  /** The method being called, e.g. `SetPower`. */
+  readonly method: string;
+
+  readonly requestStream: boolean;
+  readonly responseStream: boolean;
+
+  /** The metadata the call is sent with. Interceptors may add to it. */
+  readonly metadata: grpc.Metadata;
+}
+
+/** The hooks an {@link Interceptor} can return to follow a single call. */
+export interface InterceptorHooks {
+  /** Called with each request message before it is sent. */
+  request?: (message: grpc.ProtobufMessage) => void;
+
+  /** Called with the response headers when they are received. */
+  headers?: (headers: grpc.Metadata) => void;
+
+  /** Called with each response message as it is received. */
+  response?: (message: grpc.ProtobufMessage) => void;
+
+  /** Called when the call completes successfully. */
+  after?: (trailers: grpc.Metadata) => void;
+
+  /** Called when the call fails, is cancelled or loses its connection. */
+  error?: (error: ViamError) => void;
+}
+
+/**
+ * A middleware that sees every unary and streaming call made by a client. It is
+ * called before the call starts and may modify the call's metadata, or wait on
+ * something like a token refresh. Throwing fails the call with the thrown
+ * error. Return hooks to follow the rest of the call.
+ *
+ * @example
+ *
+ * ```ts
+ * robot.use((call) => {
+ *   const start = performance.now();
+ *   return {
+ *     after: () => {
+ *       console.log(call.method, performance.now() - start);
+ *     },
+ *   };
+ * });
+ * ```
+ */
+export type Interceptor = (
+  call: InterceptedCall
+  // eslint-disable-next-line @typescript-eslint/no-invalid-void-type
+) => InterceptorHooks | void | Promise<InterceptorHooks | void>;
+
+interface Frame {
+  trailers: boolean;
+  data: Uint8Array;
+}
+
+/** Split a gRPC-web response body into length-prefixed frames. */
+export class FrameReader {
+  private buffer = new Uint8Array();
+
+  push(chunk: Uint8Array): Frame[] {
+    const buffer = new Uint8Array(this.buffer.length + chunk.length);
+    buffer.set(this.buffer);
+    buffer.set(chunk, this.buffer.length);
+
+    const frames: Frame[] = [];
+    let offset = 0;
+    while (buffer.length - offset >= 5) {
+      const view = new DataView(buffer.buffer, offset, 5);
+      const length = view.getUint32(1);
+      if (buffer.length - offset - 5 < length) {
+        break;
+      }
+      frames.push({
+        // eslint-disable-next-line no-bitwise
+        trailers: (view.getUint8(0) & 0x80) !== 0,
+        data: buffer.slice(offset + 5, offset + 5 + length),
+      });
+      offset += 5 + length;
+    }
+    this.buffer = buffer.slice(offset);
+    return frames;
+  }
+}
+
+export const grpcStatus = (metadata: grpc.Metadata) => {
+  const [code] = metadata.get('grpc-status');
+  if (code === undefined) {
+    return undefined;
+  }
+  const [message = ''] = metadata.get('grpc-message');
+  let details = message;
+  try {
+    details = decodeURIComponent(message);
+  } catch {
+    // Use the message as it was sent
+  }
+  return { code: Number.parseInt(code, 10) as grpc.Code, details };
+};
+
+/**
+ * A transport that runs a list of {@link Interceptor}s around each call made
+ * through the transport it wraps.
+ */
+export class InterceptorTransport implements grpc.Transport {
+  private readonly opts: grpc.TransportOptions;
+  protected readonly transport: grpc.Transport;
+  private readonly interceptors: readonly Interceptor[];
+
+  private readonly hooks: InterceptorHooks[] = [];
+  private readonly frames = new FrameReader();
+  private started: Promise<boolean> | undefined;
+  private headers: grpc.Metadata | undefined;
+  private status: { code: grpc.Code; details: string } | undefined;
+  private trailers = new grpc.Metadata();
+  private finished = false;
+
+  constructor(
+    transportFactory: grpc.TransportFactory,
+    opts: grpc.TransportOptions,
+    interceptors: readonly Interceptor[]
+  ) {
+    this.opts = opts;
+    this.interceptors = [...interceptors];
+    this.transport = transportFactory({
+      ...opts,
+      onHeaders: (headers, status) => {
+        this.headers = headers;
+        this.status = grpcStatus(headers);
+        for (const hooks of this.hooks) {
+          hooks.headers?.(headers);
+        }
+        opts.onHeaders(headers, status);
+      },
+      onChunk: (chunk, flush) => {
+        this.onChunk(chunk);
+        opts.onChunk(chunk, flush);
+      },
+      onEnd: (err) => {
+        this.onEnd(err);
+        opts.onEnd(err);
+      },
+    });
+  }
+
+  public start(metadata: grpc.Metadata) {
+    const { methodDefinition } = this.opts;
+    const call: InterceptedCall = {
+      service: methodDefinition.service.serviceName,
+      method: methodDefinition.methodName,
+      requestStream: methodDefinition.requestStream,
+      responseStream: methodDefinition.responseStream,
+      metadata,
+    };
+
+    this.started = (async () => {
+      for (const interceptor of this.interceptors) {
+        // Interceptors run in order so that each sees the metadata of the last
+        // eslint-disable-next-line no-await-in-loop
+        const hooks = await interceptor(call);
+        if (hooks) {
+          this.hooks.push(hooks);
+        }
+      }
+    })().then(
+      () => {
+        // The call may have been cancelled while awaiting the interceptors
+        if (this.finished) {
+          return false;
+        }
+        this.transport.start(metadata);
+        return true;
+      },
+      (error: unknown) => {
+        if (!this.finished) {
+          this.fail(error);
+        }
+        return false;
+      }
+    );
+  }
+
+  public sendMessage(msgBytes: Uint8Array) {
+    void this.started?.then((ok) => {
+      if (!ok || this.finished) {
+        return;
+      }
+      if (this.hooks.some((hooks) => hooks.request)) {
+        const { requestType } = this.opts.methodDefinition;
+        const message = requestType.deserializeBinary(msgBytes.slice(5));
+        for (const hooks of this.hooks) {
+          hooks.request?.(message);
+        }
+      }
+      this.transport.sendMessage(msgBytes);
+    });
+  }
+
+  public finishSend() {
+    void this.started?.then((ok) => {
+      if (ok && !this.finished) {
+        this.transport.finishSend();
+      }
+    });
+  }
+
+  public cancel() {
+    this.transport.cancel();
+    this.finish(
+      createViamError(grpc.Code.Canceled, 'The call was cancelled', {
+        method: this.opts.methodDefinition.methodName,
+      })
+    );
+  }
+
+  private get errorOptions(): ViamErrorOptions {
+    return {
+      method: this.opts.methodDefinition.methodName,
+      metadata: this.trailers,
+    };
+  }
+
+  private onChunk(chunk: Uint8Array) {
+    const { responseType } = this.opts.methodDefinition;
+    const hasResponseHooks = this.hooks.some((hooks) => hooks.response);
+    for (const frame of this.frames.push(chunk)) {
+      if (frame.trailers) {
+        this.trailers = new grpc.Metadata(new TextDecoder().decode(frame.data));
+        this.status = grpcStatus(this.trailers);
+      } else if (hasResponseHooks) {
+        const message = responseType.deserializeBinary(frame.data);
+        for (const hooks of this.hooks) {
+          hooks.response?.(message);
+        }
+      }
+    }
+  }
+
+  private onEnd(err?: Error) {
+    if (err) {
+      this.finish(
+        err instanceof ViamError
+          ? err
+          : new ConnectionClosedError(err.message, this.errorOptions)
+      );
+    } else if (this.status === undefined) {
+      this.finish(
+        this.headers
+          ? new ViamError(
+              'Response closed without grpc-status',
+              grpc.Code.Unknown,
+              this.errorOptions
+            )
+          : new ConnectionClosedError(
+              'Response closed without headers',
+              this.errorOptions
+            )
+      );
+    } else if (this.status.code === grpc.Code.OK) {
+      this.finish();
+    } else {
+      this.finish(
+        createViamError(
+          this.status.code,
+          this.status.details,
+          this.errorOptions
+        )
+      );
+    }
+  }
+
+  private finish(error?: ViamError) {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+    for (const hooks of this.hooks) {
+      if (error) {
+        hooks.error?.(error);
+      } else {
+        hooks.after?.(this.trailers);
+      }
+    }
+  }
+
+  /**
+   * End a call an interceptor failed before it reached the transport, with the
+   * status the interceptor's error maps to.
+   */
+  private fail(error: unknown) {
+    const viamError =
+      error instanceof ViamError
+        ? error
+        : new ViamError(
+            error instanceof Error ? error.message : String(error),
+            grpc.Code.Unknown,
+            this.errorOptions
+          );
+    this.finish(viamError);
+    this.opts.onHeaders(
+      new grpc.Metadata({
+        'grpc-status': `${viamError.code}`,
+        'grpc-message': encodeURIComponent(viamError.message),
+      }),
+      200
+    );
+    this.opts.onEnd();
+  }
+}
+
+/** Wrap a transport factory so each call runs through the given interceptors. */
+export const interceptTransportFactory =
+  (
+    transportFactory: grpc.TransportFactory,
+    interceptors: readonly Interceptor[]
+  ): grpc.TransportFactory =>
+  (opts) =>
+    new InterceptorTransport(transportFactory, opts, interceptors);
@@ -12,11 +12,34 @@ export const version = __VERSION__;
 export { default as robotApi } from './gen/robot/v1/robot_pb';
 export {
   type Robot,
+  type ResourceClients,
+  type ResourceClientConstructor,
+  type SubtypeClient,
+  registerResourceClient,
   type DialConf,
   type DialDirectConf,
   type DialWebRTCConf,
+  type DialMethod,
+  type DialStrategy,
+  type DialTarget,
+  parseDialTarget,
+  validateDialTarget,
+  type ReconnectAttempt,
+  type ReconnectFailure,
+  type ReconnectPolicy,
+  type ActuationCallOptions,
+  type OperationCallOptions,
+  type OperationHandle,
+  FrameSystem,
+  type HeartbeatMissed,
+  type HeartbeatMode,
+  type SessionExpired,
+  type SessionStarted,
   type RobotStatusStream,
   type CloudMetadata,
+  type ConnectionStats,
+  type CandidatePairStats,
+  type VideoTrackStats,
   RobotClient,
   createRobotClient,
 } from './robot';
@@ -33,11 +56,19 @@ export {
   type ViamClientOptions,
 } from './app/viam-client';
 
+export {
+  createFleetClient,
+  type FleetClient,
+  type FleetClientOptions,
+  type FleetResult,
+} from './app/fleet-client';
+
 export {
   getAccessTokenFromCredential,
   type Credential,
   type CredentialType,
   type AccessToken,
+  type AccessTokenProvider,
 } from './app/viam-transport';
 
 /**
@@ -164,7 +195,26 @@ export {
  * @group Raw Protobufs
  */
 export { default as cameraApi } from './gen/component/camera/v1/camera_pb';
-export { type Camera, type MimeType, CameraClient } from './components/camera';
+export {
+  type Camera,
+  type MimeType,
+  CameraClient,
+  CameraImage,
+  CameraFrameStream,
+  type CameraFrame,
+  type CameraFrameStreamOptions,
+  type RGBAImage,
+  type DepthImage,
+  type ViamImageHeader,
+  type DepthColormap,
+  type DepthColorizeOptions,
+  decodeViamRGBA,
+  decodeViamDepth,
+  encodeViamRGBA,
+  encodeViamDepth,
+  readViamImageHeader,
+  colorizeDepth,
+} from './components/camera';
 
 /**
  * Raw Protobuf interfaces for an Encoder component.
@@ -399,6 +449,9 @@ export { default as slamApi } from './gen/service/slam/v1/slam_pb';
 export {
   type SlamPosition,
   type SlamProperties,
+  type SlamDownloadProgress,
+  type SlamDownloadOptions,
+  type PointCloudMapDownloadOptions,
   SlamClient,
 } from './services/slam';
 
@@ -460,6 +513,103 @@ export type {
 
 export * from './types';
 
+/**
+ * Conversions between orientation representations, and pose composition.
+ *
+ * @group Spatial Math
+ */
+export {
+  type Quaternion,
+  type EulerAngles,
+  type AxisAngle,
+  orientationToQuaternion,
+  quaternionToOrientation,
+  eulerAnglesToQuaternion,
+  quaternionToEulerAngles,
+  axisAngleToQuaternion,
+  quaternionToAxisAngle,
+  rotateVector,
+  composePoses,
+  invertPose,
+} from './spatial-math';
+
+/**
+ * Reading and writing PCD point clouds, as returned by cameras, SLAM and vision
+ * services, and `RobotClient.transformPCD`.
+ *
+ * @group Point Clouds
+ */
+export {
+  type PointCloud,
+  type PCDEncoding,
+  type BoundingBox,
+  decodePCD,
+  encodePCD,
+  PCDStreamDecoder,
+  boundingBox,
+  voxelDownsample,
+  mergePointClouds,
+} from './point-cloud';
+
+export { ViamResponseStream, type StreamIterableOptions } from './responses';
+export { subscribe, type SubscribeOptions } from './subscribe';
+
+/**
+ * Errors returned by robot and app clients, one class per gRPC status code.
+ *
+ * @group Errors
+ */
+export {
+  ViamError,
+  type ViamErrorOptions,
+  CancelledError,
+  ConnectionClosedError,
+  DeadlineExceededError,
+  InvalidArgumentError,
+  NotFoundError,
+  PermissionDeniedError,
+  ResourceExhaustedError,
+  UnauthenticatedError,
+  UnavailableError,
+  UnimplementedError,
+} from './errors';
+
+/**
+ * Middleware that runs around every call made by a RobotClient or ViamClient.
+ *
+ * @group Interceptors
+ */
+export type {
+  Interceptor,
+  InterceptedCall,
+  InterceptorHooks,
+} from './interceptors';
+
+/**
+ * How a RobotClient retries calls that fail with a transient error.
+ *
+ * @group Retries
+ */
+export type { RetryPolicy } from './retry';
+
+/**
+ * How a RobotClient holds commands made while it is disconnected.
+ *
+ * @group Offline Queue
+ */
+export {
+  defaultOfflineQueuePolicy,
+  isMotionMethod,
+  type OfflineQueuePolicy,
+  type DroppedCommand,
+} from './offline-queue';
+
 export { doCommandFromClient, promisify } from './utils';
 
-export { MachineConnectionEvent } from './events';
+export {
+  MachineConnectionEvent,
+  OfflineQueueEvent,
+  ReconnectEvent,
+  ResourceChangeEvent,
+  SessionEvent,
+} from './events';
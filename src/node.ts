@@ -0,0 +1,49 @@
+/**
+ * The entry point for Node, imported as `@viamrobotics/sdk/node`. It exports
+ * the same API as the browser entry point, and makes direct gRPC calls, such as
+ * those made by `createRobotClient` with a {@link DialDirectConf} and by
+ * `createViamClient`, over Node's HTTP/2 client instead of browser `fetch`.
+ *
+ * Dialing over WebRTC is not supported in Node.
+ *
+ * @module
+ * @example
+ *
+ * ```ts
+ * import { createRobotClient, SensorClient } from '@viamrobotics/sdk/node';
+ *
+ * const robot = await createRobotClient({
+ *   host: 'http://localhost:8080',
+ *   noReconnect: true,
+ * });
+ * const sensor = new SensorClient(robot, 'my-sensor');
+ * console.log(await sensor.getReadings());
+ * await robot.disconnect();
+ * ```
+ */
+import {
+  createRobotClient as createBrowserRobotClient,
+  createViamClient as createBrowserViamClient,
+  type DialConf,
+  type ViamClientOptions,
+} from './main';
+import { createHttp2TransportFactory } from './node/http2-transport';
+
+const httpTransportFactory = createHttp2TransportFactory();
+
+export * from './main';
+export { createHttp2TransportFactory } from './node/http2-transport';
+
+/**
+ * Connect to a robot, as `createRobotClient` from the browser entry point does,
+ * making direct calls over Node's HTTP/2 client.
+ */
+export const createRobotClient = async (conf: DialConf) =>
+  createBrowserRobotClient({ httpTransportFactory, ...conf });
+
+/**
+ * Create a client for the Viam app, as `createViamClient` from the browser
+ * entry point does, making calls over Node's HTTP/2 client.
+ */
+export const createViamClient = async (options: ViamClientOptions) =>
+  createBrowserViamClient({ httpTransportFactory, ...options });
@@ -0,0 +1,107 @@
+import http2 from 'node:http2';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { grpc } from '@improbable-eng/grpc-web';
+import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
+import { createHttp2TransportFactory } from './http2-transport';
+
+const Echo = {
+  methodName: 'Echo',
+  service: { serviceName: 'test.v1.TestService' },
+  requestStream: false,
+  responseStream: false,
+  requestType: Struct,
+  responseType: Struct,
+};
+
+const frame = (flags: number, data: Uint8Array) => {
+  const framed = Buffer.alloc(5 + data.length);
+  framed.writeUInt8(flags, 0);
+  framed.writeUInt32BE(data.length, 1);
+  framed.set(data, 5);
+  return framed;
+};
+
+describe('Http2Transport', () => {
+  let server: http2.Http2Server;
+  let host: string;
+  let requestHeaders: http2.IncomingHttpHeaders | undefined;
+  const sessions = new Set<http2.ServerHttp2Session>();
+
+  beforeEach(async () => {
+    requestHeaders = undefined;
+    sessions.clear();
+    server = http2.createServer();
+    server.on('session', (session) => sessions.add(session));
+    server.on('stream', (stream, headers) => {
+      requestHeaders = headers;
+      const chunks: Buffer[] = [];
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('end', () => {
+        // Echo the request message back, followed by OK trailers
+        const request = Buffer.concat(chunks);
+        stream.respond({
+          ':status': 200,
+          'content-type': 'application/grpc-web+proto',
+        });
+        stream.write(request);
+        stream.end(frame(0x80, new TextEncoder().encode('grpc-status: 0\r\n')));
+      });
+    });
+    await new Promise<void>((resolve) => {
+      server.listen(0, 'localhost', resolve);
+    });
+    host = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    for (const session of sessions) {
+      session.destroy();
+    }
+    await new Promise((resolve) => {
+      server.close(resolve);
+    });
+  });
+
+  const call = async (value: string, metadata?: grpc.Metadata) =>
+    new Promise<{ code: grpc.Code; message?: unknown }>((resolve) => {
+      let message: unknown;
+      grpc.invoke(Echo, {
+        host,
+        request: Struct.fromJavaScript({ value }),
+        metadata,
+        transport: createHttp2TransportFactory(),
+        onMessage: (response) => {
+          message = (response as Struct).toJavaScript();
+        },
+        onEnd: (code) => resolve({ code, message }),
+      });
+    });
+
+  it('makes gRPC-web calls over HTTP/2', async () => {
+    await expect(
+      call('hi', new grpc.Metadata({ 'x-trace-id': 'abc' }))
+    ).resolves.toStrictEqual({ code: grpc.Code.OK, message: { value: 'hi' } });
+
+    expect(requestHeaders?.[':path']).toBe('/test.v1.TestService/Echo');
+    expect(requestHeaders?.['content-type']).toBe('application/grpc-web+proto');
+    expect(requestHeaders?.['x-trace-id']).toBe('abc');
+  });
+
+  it('shares a connection between calls', async () => {
+    await Promise.all([call('one'), call('two')]);
+    await call('three');
+
+    expect(sessions.size).toBe(1);
+  });
+
+  it('ends the call when the connection fails', async () => {
+    await new Promise((resolve) => {
+      server.close(resolve);
+    });
+    server = http2.createServer();
+
+    const { code } = await call('hi');
+    expect(code).not.toBe(grpc.Code.OK);
+  });
+});
@@ -0,0 +1,148 @@
+import http2 from 'node:http2';
+import { grpc } from '@improbable-eng/grpc-web';
+
+interface SharedSession {
+  session: http2.ClientHttp2Session;
+  streams: number;
+}
+
+// One HTTP/2 connection per origin, shared by every call made to it
+const sessions = new Map<string, SharedSession>();
+
+/**
+ * Get the session for an origin, connecting if there is none. Sessions only
+ * keep the process alive while they have calls in flight.
+ */
+const acquireSession = (origin: string) => {
+  let shared = sessions.get(origin);
+  if (!shared || shared.session.closed || shared.session.destroyed) {
+    const session = http2.connect(origin);
+    const created = { session, streams: 0 };
+    session.on('close', () => {
+      if (sessions.get(origin) === created) {
+        sessions.delete(origin);
+      }
+    });
+    // Errors are reported to the streams of the session
+    session.on('error', () => undefined);
+    session.unref();
+    shared = created;
+    sessions.set(origin, shared);
+  }
+
+  shared.streams += 1;
+  shared.session.ref();
+  const acquired = shared;
+  return {
+    session: acquired.session,
+    release: () => {
+      acquired.streams -= 1;
+      if (acquired.streams === 0 && !acquired.session.destroyed) {
+        acquired.session.unref();
+      }
+    },
+  };
+};
+
+const toMetadata = (headers: http2.IncomingHttpHeaders) => {
+  const metadata = new grpc.Metadata();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.startsWith(':') || value === undefined) {
+      continue;
+    }
+    metadata.append(key, Array.isArray(value) ? value.join(', ') : value);
+  }
+  return metadata;
+};
+
+/** A gRPC-web transport that makes calls over Node's HTTP/2 client. */
+class Http2Transport implements grpc.Transport {
+  private readonly opts: grpc.TransportOptions;
+  private stream: http2.ClientHttp2Stream | undefined;
+  private release: (() => void) | undefined;
+  private ended = false;
+
+  constructor(opts: grpc.TransportOptions) {
+    this.opts = opts;
+  }
+
+  public start(metadata: grpc.Metadata) {
+    const url = new URL(this.opts.url);
+    const headers: http2.OutgoingHttpHeaders = {
+      ':method': 'POST',
+      ':path': `${url.pathname}${url.search}`,
+      'content-type': 'application/grpc-web+proto',
+      'x-grpc-web': '1',
+    };
+    // eslint-disable-next-line unicorn/no-array-for-each
+    metadata.forEach((key, values) => {
+      headers[key] = values.join(', ');
+    });
+
+    try {
+      const { session, release } = acquireSession(url.origin);
+      this.release = release;
+      this.stream = session.request(headers);
+    } catch (error) {
+      this.end(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    this.stream.on('response', (responseHeaders) => {
+      this.opts.onHeaders(
+        toMetadata(responseHeaders),
+        Number(responseHeaders[':status'])
+      );
+    });
+    this.stream.on('data', (chunk: Buffer) => {
+      this.opts.onChunk(
+        new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+      );
+    });
+    this.stream.on('end', () => {
+      this.end();
+    });
+    this.stream.on('error', (error) => {
+      this.end(error);
+    });
+    this.stream.on('close', () => {
+      this.end(new Error('Stream closed before the response ended'));
+    });
+  }
+
+  public sendMessage(msgBytes: Uint8Array) {
+    this.stream?.write(msgBytes);
+  }
+
+  public finishSend() {
+    this.stream?.end();
+  }
+
+  public cancel() {
+    this.ended = true;
+    this.release?.();
+    this.release = undefined;
+    this.stream?.close(http2.constants.NGHTTP2_CANCEL);
+  }
+
+  private end(error?: Error) {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.release?.();
+    this.release = undefined;
+    this.opts.onEnd(error);
+  }
+}
+
+const http2TransportFactory: grpc.TransportFactory = (opts) =>
+  new Http2Transport(opts);
+
+/**
+ * Create a factory for gRPC-web transports that use Node's HTTP/2 client, in
+ * place of `grpc.CrossBrowserHttpTransport`. Pass it as the
+ * `httpTransportFactory` of a dial or app client conf.
+ */
+export const createHttp2TransportFactory = (): grpc.TransportFactory =>
+  http2TransportFactory;
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { grpc } from '@improbable-eng/grpc-web';
+import { StringValue } from 'google-protobuf/google/protobuf/wrappers_pb';
+import {
+  OfflineQueue,
+  defaultOfflineQueuePolicy,
+  isMotionMethod,
+  type DroppedCommand,
+} from './offline-queue';
+import { FakeServer } from './testing/fake-server';
+
+const SetPower = {
+  methodName: 'SetPower',
+  service: { serviceName: 'test.v1.TestService' },
+  requestStream: false,
+  responseStream: false,
+  requestType: StringValue,
+  responseType: StringValue,
+};
+
+const GetPosition = { ...SetPower, methodName: 'GetPosition' };
+const Stop = { ...SetPower, methodName: 'Stop' };
+const MoveStraight = { ...SetPower, methodName: 'MoveStraight' };
+
+describe('OfflineQueue', () => {
+  let server: FakeServer;
+  let queue: OfflineQueue;
+  let dropped: DroppedCommand[];
+
+  beforeEach(() => {
+    server = new FakeServer();
+    server.handle(SetPower, (request) => request);
+    server.handle(Stop, (request) => request);
+    dropped = [];
+    queue = new OfflineQueue({ ttl: 1000, maxSize: 2 }, (command) => {
+      dropped.push(command);
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const call = async (method: typeof SetPower, name: string) =>
+    new Promise<grpc.Code>((resolve) => {
+      const request = new StringValue();
+      request.setValue(name);
+      grpc.invoke(method, {
+        host: 'fake',
+        request,
+        transport: (opts) => queue.transport(opts),
+        onEnd: (code) => resolve(code),
+      });
+    });
+
+  it('only holds unary commands', () => {
+    const accepts = (methodDefinition: typeof SetPower) =>
+      queue.accepts({ methodDefinition } as unknown as grpc.TransportOptions);
+
+    expect(accepts(SetPower)).toBe(true);
+    expect(accepts(GetPosition)).toBe(false);
+    expect(accepts({ ...SetPower, responseStream: true })).toBe(false);
+  });
+
+  it('only holds motion commands when opted in', () => {
+    const optedIn = new OfflineQueue(
+      {
+        isQueueable: (method) =>
+          defaultOfflineQueuePolicy.isQueueable(method) ||
+          isMotionMethod(method),
+      },
+      vi.fn()
+    );
+    const opts = {
+      methodDefinition: MoveStraight,
+    } as unknown as grpc.TransportOptions;
+
+    expect(queue.accepts(opts)).toBe(false);
+    expect(optedIn.accepts(opts)).toBe(true);
+  });
+
+  it('sends held commands in order when flushed', async () => {
+    const first = call(SetPower, 'left');
+    const second = call(Stop, 'base');
+    expect(queue.size).toBe(2);
+
+    queue.flush(server.transportFactory);
+
+    await expect(Promise.all([first, second])).resolves.toStrictEqual([
+      grpc.Code.OK,
+      grpc.Code.OK,
+    ]);
+    expect(server.requests.map(({ method }) => method)).toStrictEqual([
+      'test.v1.TestService/SetPower',
+      'test.v1.TestService/Stop',
+    ]);
+    expect(queue.size).toBe(0);
+  });
+
+  it('keeps only the latest power setting for a resource', async () => {
+    const first = call(SetPower, 'left');
+    const other = call(SetPower, 'right');
+    const latest = call(SetPower, 'left');
+
+    await expect(first).resolves.toBe(grpc.Code.Aborted);
+    expect(dropped).toMatchObject([
+      { method: 'SetPower', resourceName: 'left', reason: 'superseded' },
+    ]);
+
+    queue.flush(server.transportFactory);
+    await expect(Promise.all([other, latest])).resolves.toStrictEqual([
+      grpc.Code.OK,
+      grpc.Code.OK,
+    ]);
+  });
+
+  it('drops commands that are held too long', async () => {
+    vi.useFakeTimers();
+    const stale = call(Stop, 'base');
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(stale).resolves.toBe(grpc.Code.DeadlineExceeded);
+    expect(dropped).toMatchObject([{ reason: 'stale', heldMs: 1000 }]);
+    expect(queue.size).toBe(0);
+  });
+
+  it('drops the oldest command when full', async () => {
+    const oldest = call(Stop, 'base');
+    void call(Stop, 'base');
+    void call(SetPower, 'left');
+
+    await expect(oldest).resolves.toBe(grpc.Code.ResourceExhausted);
+    expect(dropped).toMatchObject([{ reason: 'overflow' }]);
+    expect(queue.size).toBe(2);
+  });
+});
@@ -0,0 +1,279 @@
+/* eslint-disable max-classes-per-file */
+import { grpc } from '@improbable-eng/grpc-web';
+import { BinaryReader } from 'google-protobuf';
+
+/** How commands made while a machine is disconnected are held. */
+export interface OfflineQueuePolicy {
+  /** The most commands to hold. The oldest is dropped when full. Default 50. */
+  maxSize?: number;
+
+  /** Milliseconds a command may wait before it is stale. Default is 5000. */
+  ttl?: number;
+
+  /**
+   * Whether calls to a method may be held. Default is stops and the setters
+   * that are coalesced, `SetPower`, `SetVelocity` and `SetRPM`. Motion commands
+   * such as `MoveStraight` and `GoFor` could run long after they were made, so
+   * they are only held when opted in with {@link isMotionMethod}:
+   *
+   * ```ts
+   * isQueueable: (method) =>
+   *   defaultOfflineQueuePolicy.isQueueable(method) || isMotionMethod(method),
+   * ```
+   */
+  isQueueable?: (method: string) => boolean;
+
+  /**
+   * Whether a call to a method replaces a call to the same method on the same
+   * resource that is still held, so only the latest is sent. Default is
+   * `SetPower`, `SetVelocity` and `SetRPM`.
+   */
+  coalesce?: (method: string) => boolean;
+}
+
+/** A command that was held while disconnected and then dropped. */
+export interface DroppedCommand {
+  /** The fully qualified service, e.g. `viam.component.base.v1.BaseService`. */
+  service: string;
+  method: string;
+  /** The name of the resource the command was for, if known. */
+  resourceName: string | undefined;
+  /**
+   * Why the command was dropped: it waited longer than the TTL, the queue was
+   * full, or a newer command to the same resource replaced it.
+   */
+  reason: 'stale' | 'overflow' | 'superseded';
+  /** How long the command was held, in milliseconds. */
+  heldMs: number;
+}
+
+const motionPrefixes = ['Move', 'GoFor', 'GoTo', 'Spin'];
+const coalescedMethods = new Set(['SetPower', 'SetVelocity', 'SetRPM']);
+
+/** Check if a method moves a resource, such as `MoveStraight` or `GoFor`. */
+export const isMotionMethod = (method: string) =>
+  motionPrefixes.some((prefix) => method.startsWith(prefix));
+
+export const defaultOfflineQueuePolicy: Required<OfflineQueuePolicy> = {
+  maxSize: 50,
+  ttl: 5000,
+  isQueueable: (method) =>
+    method.startsWith('Stop') || coalescedMethods.has(method),
+  coalesce: (method) => coalescedMethods.has(method),
+};
+
+const dropStatus = {
+  stale: grpc.Code.DeadlineExceeded,
+  overflow: grpc.Code.ResourceExhausted,
+  superseded: grpc.Code.Aborted,
+} satisfies Record<DroppedCommand['reason'], grpc.Code>;
+
+/**
+ * Read the name of the resource a request is for. Component and service
+ * requests hold it in field 1.
+ */
+const readResourceName = (frame: Uint8Array) => {
+  try {
+    // Skip the gRPC-web frame header
+    const reader = new BinaryReader(frame.subarray(5));
+    // Reading a field of another type throws
+    if (reader.nextField() && reader.getFieldNumber() === 1) {
+      return reader.readString();
+    }
+  } catch {
+    // Not a request we can read a name from
+  }
+  return undefined;
+};
+
+/**
+ * A transport for a command made while disconnected. It holds the call until
+ * the queue sends it on a new connection or drops it.
+ */
+class QueuedTransport implements grpc.Transport {
+  readonly opts: grpc.TransportOptions;
+  readonly heldAt = Date.now();
+  resourceName: string | undefined;
+  timer: ReturnType<typeof setTimeout> | undefined;
+
+  private readonly queue: OfflineQueue;
+  private metadata = new grpc.Metadata();
+  private readonly messages: Uint8Array[] = [];
+  private sendFinished = false;
+  private transport: grpc.Transport | undefined;
+  private ended = false;
+
+  constructor(queue: OfflineQueue, opts: grpc.TransportOptions) {
+    this.queue = queue;
+    this.opts = opts;
+  }
+
+  public start(metadata: grpc.Metadata) {
+    this.metadata = metadata;
+  }
+
+  public sendMessage(msgBytes: Uint8Array) {
+    if (this.transport) {
+      this.transport.sendMessage(msgBytes);
+      return;
+    }
+    this.messages.push(msgBytes);
+    // Hold the call once its request shows which resource it is for
+    if (this.messages.length === 1 && !this.ended) {
+      this.resourceName = readResourceName(msgBytes);
+      this.queue.hold(this);
+    }
+  }
+
+  public finishSend() {
+    this.sendFinished = true;
+    this.transport?.finishSend();
+  }
+
+  public cancel() {
+    this.ended = true;
+    this.queue.release(this);
+    this.transport?.cancel();
+  }
+
+  /** Make the call on a transport from the new connection. */
+  send(transportFactory: grpc.TransportFactory) {
+    if (this.ended) {
+      return;
+    }
+    try {
+      this.transport = transportFactory(this.opts);
+    } catch (error) {
+      this.ended = true;
+      this.opts.onEnd(
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return;
+    }
+    this.transport.start(this.metadata);
+    for (const message of this.messages) {
+      this.transport.sendMessage(message);
+    }
+    if (this.sendFinished) {
+      this.transport.finishSend();
+    }
+  }
+
+  /** End the call with a status instead of sending it. */
+  fail(code: grpc.Code, message: string) {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.opts.onHeaders(
+      new grpc.Metadata({
+        'grpc-status': `${code}`,
+        'grpc-message': encodeURIComponent(message),
+      }),
+      200
+    );
+    this.opts.onEnd();
+  }
+}
+
+/**
+ * Holds unary commands made while a machine is disconnected and sends them once
+ * it reconnects. Commands that wait too long, overflow the queue or are
+ * replaced by a newer command fail and are reported to `onDrop`.
+ */
+export class OfflineQueue {
+  private readonly calls: QueuedTransport[] = [];
+  private readonly policy: Required<OfflineQueuePolicy>;
+  private readonly onDrop: (dropped: DroppedCommand) => void;
+
+  constructor(
+    policy: OfflineQueuePolicy,
+    onDrop: (dropped: DroppedCommand) => void
+  ) {
+    this.policy = { ...defaultOfflineQueuePolicy, ...policy };
+    this.onDrop = onDrop;
+  }
+
+  /** The number of commands being held. */
+  get size() {
+    return this.calls.length;
+  }
+
+  /** Check if calls to a method may be held. */
+  accepts({ methodDefinition }: grpc.TransportOptions) {
+    return (
+      !methodDefinition.requestStream &&
+      !methodDefinition.responseStream &&
+      this.policy.isQueueable(methodDefinition.methodName)
+    );
+  }
+
+  /** Get a transport that holds a call until the queue is flushed. */
+  transport(opts: grpc.TransportOptions): grpc.Transport {
+    return new QueuedTransport(this, opts);
+  }
+
+  /** Send every held command, in the order they were made. */
+  flush(transportFactory: grpc.TransportFactory) {
+    for (const call of this.calls.splice(0)) {
+      clearTimeout(call.timer);
+      call.send(transportFactory);
+    }
+  }
+
+  /** Hold a call until it is sent or dropped. */
+  hold(call: QueuedTransport) {
+    this.supersede(call);
+    this.calls.push(call);
+    call.timer = setTimeout(() => {
+      this.drop(call, 'stale');
+    }, this.policy.ttl);
+
+    const [oldest] = this.calls;
+    if (this.calls.length > this.policy.maxSize && oldest) {
+      this.drop(oldest, 'overflow');
+    }
+  }
+
+  /** Drop held calls that a newer call to the same resource replaces. */
+  private supersede(call: QueuedTransport) {
+    const { service, methodName } = call.opts.methodDefinition;
+    if (call.resourceName === undefined || !this.policy.coalesce(methodName)) {
+      return;
+    }
+    for (const held of this.calls.filter(
+      (other) =>
+        other.resourceName === call.resourceName &&
+        other.opts.methodDefinition.methodName === methodName &&
+        other.opts.methodDefinition.service.serviceName === service.serviceName
+    )) {
+      this.drop(held, 'superseded');
+    }
+  }
+
+  /** Stop holding a call. */
+  release(call: QueuedTransport) {
+    clearTimeout(call.timer);
+    const index = this.calls.indexOf(call);
+    if (index !== -1) {
+      this.calls.splice(index, 1);
+    }
+  }
+
+  private drop(call: QueuedTransport, reason: DroppedCommand['reason']) {
+    this.release(call);
+    const { service, methodName } = call.opts.methodDefinition;
+    const dropped: DroppedCommand = {
+      service: service.serviceName,
+      method: methodName,
+      resourceName: call.resourceName,
+      reason,
+      heldMs: Date.now() - call.heldAt,
+    };
+    this.onDrop(dropped);
+    call.fail(
+      dropStatus[reason],
+      `${methodName} was not sent because it was ${reason} while disconnected`
+    );
+  }
+}
@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest';
+import {
+  boundingBox,
+  decodePCD,
+  encodePCD,
+  mergePointClouds,
+  PCDStreamDecoder,
+  voxelDownsample,
+  type PointCloud,
+} from './point-cloud';
+
+const header = (fields: string, encoding: string, points: number) =>
+  new TextEncoder().encode(
+    [
+      '# .PCD v0.7 - Point Cloud Data file format',
+      'VERSION .7',
+      `FIELDS ${fields}`,
+      'SIZE 4 4 4 4',
+      'TYPE F F F F',
+      'COUNT 1 1 1 1',
+      `WIDTH ${points}`,
+      'HEIGHT 1',
+      `POINTS ${points}`,
+      `DATA ${encoding}`,
+      '',
+    ].join('\n')
+  );
+
+const cloud = (): PointCloud => ({
+  size: 3,
+  positions: new Float32Array([0, 0, 0, 0.5, 0.25, 1, -1, 2, 3]),
+  colors: new Uint8Array([255, 0, 0, 0, 255, 0, 0, 0, 255]),
+  fields: { intensity: new Float64Array([1, 2, 3]) },
+});
+
+describe('decodePCD', () => {
+  it('decodes ASCII files with colors packed in floats', () => {
+    const bytes = new Uint8Array([
+      ...header('x y z rgb', 'ascii', 2),
+      // The bits of 1.1801041e-38 are 0x808080, a gray of 128
+      ...new TextEncoder().encode('1 2 3 1.1801041e-38\n-1.5 0 0.25 0\n'),
+    ]);
+
+    const { size, positions, colors } = decodePCD(bytes);
+
+    expect(size).toBe(2);
+    expect([...positions]).toStrictEqual([1, 2, 3, -1.5, 0, 0.25]);
+    expect([...(colors ?? [])]).toStrictEqual([128, 128, 128, 0, 0, 0]);
+  });
+
+  it('decodes binary_compressed files', () => {
+    // Six 1.0 floats: 4 literal bytes, then 20 bytes repeated from 4 back
+    const lzf = [3, 0x00, 0x00, 0x80, 0x3f, 0xe0, 11, 3];
+    const sizes = new Uint8Array(8);
+    new DataView(sizes.buffer).setUint32(0, lzf.length, true);
+    new DataView(sizes.buffer).setUint32(4, 24, true);
+    const bytes = new Uint8Array([
+      ...header('x y z', 'binary_compressed', 2),
+      ...sizes,
+      ...lzf,
+    ]);
+
+    const { positions, colors } = decodePCD(bytes);
+
+    expect([...positions]).toStrictEqual([1, 1, 1, 1, 1, 1]);
+    expect(colors).toBeUndefined();
+  });
+
+  it('rejects files without positions', () => {
+    const bytes = header('a b c d', 'ascii', 0);
+
+    expect(() => decodePCD(bytes)).toThrow('PCD has no x, y and z fields');
+  });
+});
+
+describe('encodePCD', () => {
+  it.each(['ascii', 'binary', 'binary_compressed'] as const)(
+    'round trips %s files',
+    (encoding) => {
+      expect(decodePCD(encodePCD(cloud(), encoding))).toStrictEqual(cloud());
+    }
+  );
+
+  it('compresses repeated points', () => {
+    const repeated: PointCloud = {
+      size: 1000,
+      positions: new Float32Array(3000).fill(1),
+      colors: undefined,
+      fields: {},
+    };
+
+    const binary = encodePCD(repeated, 'binary');
+    const compressed = encodePCD(repeated, 'binary_compressed');
+
+    expect(compressed.length).toBeLessThan(binary.length / 10);
+    expect(decodePCD(compressed)).toStrictEqual(repeated);
+  });
+});
+
+describe('PCDStreamDecoder', () => {
+  const decodeInChunks = (bytes: Uint8Array, chunkSize: number) => {
+    const decoder = new PCDStreamDecoder();
+    const decoded: PointCloud[] = [];
+    const take = () => {
+      const points = decoder.takePoints();
+      if (points) {
+        decoded.push(points);
+      }
+    };
+    for (let start = 0; start < bytes.length; start += chunkSize) {
+      decoder.push(bytes.subarray(start, start + chunkSize));
+      take();
+    }
+    decoder.end();
+    take();
+    return { decoder, decoded };
+  };
+
+  it.each(['ascii', 'binary'] as const)(
+    'decodes %s points as they arrive',
+    (encoding) => {
+      const bytes = encodePCD(cloud(), encoding);
+
+      const { decoder, decoded } = decodeInChunks(bytes, 7);
+
+      expect(decoded.length).toBeGreaterThan(1);
+      expect(mergePointClouds(...decoded)).toStrictEqual(cloud());
+      expect(decoder.bytes).toStrictEqual(bytes);
+    }
+  );
+
+  it('reports the size of binary files', () => {
+    const bytes = encodePCD(cloud(), 'binary');
+    const decoder = new PCDStreamDecoder();
+
+    decoder.push(bytes.subarray(0, 10));
+    expect(decoder.totalBytes).toBeUndefined();
+    decoder.push(bytes.subarray(10, -10));
+    expect(decoder.totalBytes).toBe(bytes.length);
+    expect(decoder.receivedBytes).toBe(bytes.length - 10);
+  });
+
+  it('decodes binary_compressed points once they have all arrived', () => {
+    const bytes = encodePCD(cloud(), 'binary_compressed');
+
+    const { decoded } = decodeInChunks(bytes, 7);
+
+    expect(decoded).toStrictEqual([cloud()]);
+  });
+
+  it('fails if points are missing at the end', () => {
+    const bytes = encodePCD(cloud(), 'binary');
+    const decoder = new PCDStreamDecoder();
+
+    decoder.push(bytes.subarray(0, -1));
+    decoder.end();
+
+    expect(() => decoder.takePoints()).toThrow(
+      'PCD of 3 points is missing data'
+    );
+  });
+});
+
+describe('point cloud helpers', () => {
+  it('bounds the points', () => {
+    expect(boundingBox(cloud())).toStrictEqual({
+      min: { x: -1, y: 0, z: 0 },
+      max: { x: 0.5, y: 2, z: 3 },
+    });
+    expect(
+      boundingBox({ ...cloud(), size: 0, positions: new Float32Array() })
+    ).toBeUndefined();
+  });
+
+  it('averages the points in each voxel', () => {
+    const downsampled = voxelDownsample(cloud(), 2);
+
+    expect(downsampled.size).toBe(2);
+    expect([...downsampled.positions]).toStrictEqual([
+      0.25, 0.125, 0.5, -1, 2, 3,
+    ]);
+    expect([...(downsampled.colors ?? [])]).toStrictEqual([
+      128, 128, 0, 0, 0, 255,
+    ]);
+    expect([...(downsampled.fields.intensity ?? [])]).toStrictEqual([1.5, 3]);
+  });
+
+  it('merges the points of each cloud', () => {
+    const uncolored = { ...cloud(), colors: undefined, fields: {} };
+
+    const merged = mergePointClouds(cloud(), uncolored);
+
+    expect(merged.size).toBe(6);
+    expect([...merged.positions]).toStrictEqual([
+      ...cloud().positions,
+      ...cloud().positions,
+    ]);
+    expect(merged.colors).toBeUndefined();
+    expect(merged.fields).toStrictEqual({});
+    expect(mergePointClouds(cloud(), cloud()).fields.intensity).toHaveLength(6);
+  });
+});
@@ -0,0 +1,874 @@
+/* eslint-disable no-bitwise */
+import type { Vector3 } from './types';
+
+/** How the points of a PCD file are stored. */
+export type PCDEncoding = 'ascii' | 'binary' | 'binary_compressed';
+
+/**
+ * Points decoded from a PCD file, such as those returned by
+ * `CameraClient.getPointCloud`, `SlamClient.getPointCloudMap`,
+ * `RobotClient.transformPCD` and `VisionClient.getObjectPointClouds`.
+ */
+export interface PointCloud {
+  /** The number of points. */
+  size: number;
+
+  /** The x, y and z of each point, in the units of the file. */
+  positions: Float32Array;
+
+  /** The red, green and blue of each point, if the file has colors. */
+  colors: Uint8Array | undefined;
+
+  /**
+   * The values of every other field, by name. Fields with a `COUNT` above 1
+   * have that many values per point, one point after another.
+   */
+  fields: Record<string, Float64Array>;
+}
+
+/** The corners of the smallest box that holds every point. */
+export interface BoundingBox {
+  min: Vector3;
+  max: Vector3;
+}
+
+interface PCDField {
+  name: string;
+  size: number;
+  type: string;
+  count: number;
+}
+
+/** The values of one field, `count` per point. */
+interface Column {
+  field: PCDField;
+  values: Float64Array;
+}
+
+interface PCDHeader {
+  fields: PCDField[];
+  points: number;
+  encoding: PCDEncoding;
+  dataOffset: number;
+}
+
+const colorFields = new Set(['rgb', 'rgba']);
+const positionFields = ['x', 'y', 'z'];
+
+const corrupt = () => new Error('corrupt binary_compressed PCD data');
+
+/** Read header entries by key, up to and including `DATA`. */
+const readHeaderEntries = (bytes: Uint8Array) => {
+  const entries = new Map<string, string[]>();
+  const decoder = new TextDecoder();
+  let start = 0;
+  while (start < bytes.length && !entries.has('DATA')) {
+    let end = bytes.indexOf(0x0a, start);
+    if (end === -1) {
+      end = bytes.length;
+    }
+    const line = decoder.decode(bytes.subarray(start, end)).trim();
+    start = end + 1;
+    if (line !== '' && !line.startsWith('#')) {
+      const [key = '', ...values] = line.split(/\s+/u);
+      entries.set(key.toUpperCase(), values);
+    }
+  }
+  return { entries, dataOffset: start };
+};
+
+const readHeader = (bytes: Uint8Array): PCDHeader => {
+  const { entries, dataOffset } = readHeaderEntries(bytes);
+  const [encoding] = entries.get('DATA') ?? [];
+  if (
+    encoding !== 'ascii' &&
+    encoding !== 'binary' &&
+    encoding !== 'binary_compressed'
+  ) {
+    throw new Error(`unsupported PCD data encoding "${encoding ?? ''}"`);
+  }
+  const sizes = entries.get('SIZE') ?? [];
+  const types = entries.get('TYPE') ?? [];
+  const counts = entries.get('COUNT') ?? [];
+  const fields = (entries.get('FIELDS') ?? []).map((name, index) => ({
+    name,
+    size: Number(sizes[index] ?? 4),
+    type: (types[index] ?? 'F').toUpperCase(),
+    count: Number(counts[index] ?? 1),
+  }));
+  const [width = '0'] = entries.get('WIDTH') ?? [];
+  const [height = '1'] = entries.get('HEIGHT') ?? [];
+  const [points] = entries.get('POINTS') ?? [];
+  return {
+    fields,
+    points: Number(points ?? Number(width) * Number(height)),
+    encoding,
+    dataOffset,
+  };
+};
+
+const rowSize = (fields: PCDField[]) =>
+  fields.reduce((sum, field) => sum + field.size * field.count, 0);
+
+// Packed colors are the bits of the value, whatever its type
+const readValue = (view: DataView, offset: number, field: PCDField) => {
+  if (colorFields.has(field.name) && field.size === 4) {
+    return view.getUint32(offset, true);
+  }
+  switch (`${field.type}${field.size}`) {
+    case 'F4': {
+      return view.getFloat32(offset, true);
+    }
+    case 'F8': {
+      return view.getFloat64(offset, true);
+    }
+    case 'I1': {
+      return view.getInt8(offset);
+    }
+    case 'I2': {
+      return view.getInt16(offset, true);
+    }
+    case 'I4': {
+      return view.getInt32(offset, true);
+    }
+    case 'I8': {
+      return Number(view.getBigInt64(offset, true));
+    }
+    case 'U1': {
+      return view.getUint8(offset);
+    }
+    case 'U2': {
+      return view.getUint16(offset, true);
+    }
+    case 'U4': {
+      return view.getUint32(offset, true);
+    }
+    case 'U8': {
+      return Number(view.getBigUint64(offset, true));
+    }
+    default: {
+      throw new Error(
+        `unsupported PCD field type ${field.type} of size ${field.size}`
+      );
+    }
+  }
+};
+
+// Only writes the types encodePCD gives fields
+const writeValue = (
+  view: DataView,
+  offset: number,
+  field: PCDField,
+  value: number
+) => {
+  if (field.type === 'F' && field.size === 4) {
+    view.setFloat32(offset, value, true);
+  } else if (field.type === 'F') {
+    view.setFloat64(offset, value, true);
+  } else {
+    view.setUint32(offset, value, true);
+  }
+};
+
+const floatBits = new Float32Array(1);
+const uintBits = new Uint32Array(floatBits.buffer);
+
+const parseValue = (token: string, field: PCDField) => {
+  if (field.type !== 'F') {
+    return Number(token);
+  }
+  const value = Number.parseFloat(token);
+  if (!colorFields.has(field.name)) {
+    return value;
+  }
+  floatBits[0] = value;
+  return uintBits[0] ?? 0;
+};
+
+// Byte by byte, as the repeat can overlap what it writes
+const repeat = (
+  output: Uint8Array,
+  from: number,
+  to: number,
+  length: number
+) => {
+  for (let index = 0; index < length; index += 1) {
+    output[to + index] = output[from + index] ?? 0;
+  }
+};
+
+/** Decompress LZF, as `binary_compressed` PCD data is compressed. */
+const lzfDecompress = (input: Uint8Array, outputSize: number) => {
+  const output = new Uint8Array(outputSize);
+  let ip = 0;
+  let op = 0;
+  const next = () => {
+    const byte = input[ip] ?? 0;
+    ip += 1;
+    return byte;
+  };
+  while (ip < input.length) {
+    const control = next();
+    if (control < 32) {
+      // A run of literal bytes
+      const length = control + 1;
+      if (op + length > outputSize || ip + length > input.length) {
+        throw corrupt();
+      }
+      output.set(input.subarray(ip, ip + length), op);
+      ip += length;
+      op += length;
+    } else {
+      // A repeat of earlier output
+      let length = control >> 5;
+      if (length === 7) {
+        length += next();
+      }
+      length += 2;
+      const ref = op - ((control & 0x1f) << 8) - 1 - next();
+      if (ref < 0 || op + length > outputSize) {
+        throw corrupt();
+      }
+      repeat(output, ref, op, length);
+      op += length;
+    }
+  }
+  if (op !== outputSize) {
+    throw corrupt();
+  }
+  return output;
+};
+
+const maxLiteral = 32;
+const maxRepeat = 264;
+const maxOffset = 8192;
+
+/** Compress with LZF, repeating earlier runs of 3 or more bytes. */
+const lzfCompress = (input: Uint8Array) => {
+  const output: number[] = [];
+  const lastSeen = new Map<number, number>();
+  let literalStart = 0;
+  const writeLiterals = (end: number) => {
+    while (literalStart < end) {
+      const length = Math.min(maxLiteral, end - literalStart);
+      output.push(
+        length - 1,
+        ...input.subarray(literalStart, literalStart + length)
+      );
+      literalStart += length;
+    }
+  };
+
+  let ip = 0;
+  while (ip + 2 < input.length) {
+    const key =
+      ((input[ip] ?? 0) << 16) |
+      ((input[ip + 1] ?? 0) << 8) |
+      (input[ip + 2] ?? 0);
+    const ref = lastSeen.get(key);
+    lastSeen.set(key, ip);
+    if (ref === undefined || ip - ref - 1 >= maxOffset) {
+      ip += 1;
+    } else {
+      const offset = ip - ref - 1;
+      const longest = Math.min(maxRepeat, input.length - ip);
+      let length = 3;
+      while (length < longest && input[ref + length] === input[ip + length]) {
+        length += 1;
+      }
+      writeLiterals(ip);
+      if (length - 2 < 7) {
+        output.push(((length - 2) << 5) | (offset >> 8));
+      } else {
+        output.push((7 << 5) | (offset >> 8), length - 2 - 7);
+      }
+      output.push(offset & 0xff);
+      ip += length;
+      literalStart = ip;
+    }
+  }
+  writeLiterals(input.length);
+  return new Uint8Array(output);
+};
+
+const emptyColumns = (fields: PCDField[], points: number): Column[] =>
+  fields.map((field) => ({
+    field,
+    values: new Float64Array(points * field.count),
+  }));
+
+const asciiLines = (bytes: Uint8Array) =>
+  new TextDecoder()
+    .decode(bytes)
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line !== '');
+
+const readAscii = (lines: string[], columns: Column[]) => {
+  for (const [point, line] of lines.entries()) {
+    const tokens = line.split(/\s+/u);
+    let token = 0;
+    for (const { field, values } of columns) {
+      for (let item = 0; item < field.count; item += 1) {
+        values[point * field.count + item] = parseValue(
+          tokens[token] ?? '0',
+          field
+        );
+        token += 1;
+      }
+    }
+  }
+};
+
+// Binary data is stored one point after another
+const readBinary = (bytes: Uint8Array, columns: Column[], points: number) => {
+  const size = rowSize(columns.map(({ field }) => field));
+  if (bytes.length < size * points) {
+    throw new Error(`PCD of ${points} points is missing data`);
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, size * points);
+  let offset = 0;
+  for (let point = 0; point < points; point += 1) {
+    for (const { field, values } of columns) {
+      for (let item = 0; item < field.count; item += 1) {
+        values[point * field.count + item] = readValue(view, offset, field);
+        offset += field.size;
+      }
+    }
+  }
+};
+
+// Compressed data is stored one field after another
+const readCompressed = (bytes: Uint8Array, columns: Column[]) => {
+  if (bytes.length < 8) {
+    throw corrupt();
+  }
+  const sizes = new DataView(bytes.buffer, bytes.byteOffset, 8);
+  const data = lzfDecompress(
+    bytes.subarray(8, 8 + sizes.getUint32(0, true)),
+    sizes.getUint32(4, true)
+  );
+  const view = new DataView(data.buffer);
+  let offset = 0;
+  for (const { field, values } of columns) {
+    if (offset + values.length * field.size > data.length) {
+      throw corrupt();
+    }
+    for (let value = 0; value < values.length; value += 1) {
+      values[value] = readValue(view, offset, field);
+      offset += field.size;
+    }
+  }
+};
+
+const unpackColors = (packed: Float64Array) => {
+  const colors = new Uint8Array(packed.length * 3);
+  for (const [point, value] of packed.entries()) {
+    colors.set(
+      [(value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff],
+      point * 3
+    );
+  }
+  return colors;
+};
+
+const packColors = (colors: Uint8Array, size: number) =>
+  Float64Array.from(
+    { length: size },
+    (_value, point) =>
+      (((colors[point * 3] ?? 0) << 16) |
+        ((colors[point * 3 + 1] ?? 0) << 8) |
+        (colors[point * 3 + 2] ?? 0)) >>>
+      0
+  );
+
+const toPointCloud = (columns: Column[], points: number): PointCloud => {
+  const column = (name: string) =>
+    columns.find(({ field }) => field.name === name)?.values;
+  const positions = new Float32Array(points * 3);
+  for (const [axis, name] of positionFields.entries()) {
+    const values = column(name);
+    if (!values) {
+      throw new Error('PCD has no x, y and z fields');
+    }
+    for (const [point, value] of values.entries()) {
+      positions[point * 3 + axis] = value;
+    }
+  }
+  const packed = column('rgb') ?? column('rgba');
+
+  // Fields named _ only pad the data
+  const others = columns.filter(
+    ({ field }) =>
+      field.name !== '_' &&
+      !positionFields.includes(field.name) &&
+      !colorFields.has(field.name)
+  );
+  return {
+    size: points,
+    positions,
+    colors: packed && unpackColors(packed),
+    fields: Object.fromEntries(
+      others.map(({ field, values }) => [field.name, values])
+    ),
+  };
+};
+
+/** Decode a PCD file in `ascii`, `binary` or `binary_compressed` encoding. */
+export const decodePCD = (bytes: Uint8Array): PointCloud => {
+  const { fields, points, encoding, dataOffset } = readHeader(bytes);
+  const columns = emptyColumns(fields, points);
+  const data = bytes.subarray(dataOffset);
+  if (encoding === 'ascii') {
+    readAscii(asciiLines(data).slice(0, points), columns);
+  } else if (encoding === 'binary') {
+    readBinary(data, columns, points);
+  } else {
+    readCompressed(data, columns);
+  }
+  return toPointCloud(columns, points);
+};
+
+/**
+ * Decodes a PCD file as it arrives in chunks, such as from
+ * `SlamClient.getPointCloudMapStream`, so its points can be shown before the
+ * whole file has arrived. The points of `binary_compressed` files can only be
+ * decoded once the whole file has arrived.
+ *
+ * @example
+ *
+ * ```ts
+ * const decoder = new PCDStreamDecoder();
+ * for await (const chunk of slam.getPointCloudMapStream()) {
+ *   decoder.push(chunk);
+ *   const points = decoder.takePoints();
+ *   if (points) {
+ *     render(points);
+ *   }
+ * }
+ * decoder.end();
+ * ```
+ */
+export class PCDStreamDecoder {
+  private buffer = new Uint8Array(4096);
+  private length = 0;
+  private header: PCDHeader | undefined;
+  private headerError: Error | undefined;
+  private ended = false;
+
+  /** Where the data not yet decoded into points starts. */
+  private decodedOffset = 0;
+  private decodedPoints = 0;
+
+  /** The number of bytes pushed so far. */
+  get receivedBytes() {
+    return this.length;
+  }
+
+  /**
+   * The size of the whole file, once its header says. Only `binary` and
+   * `binary_compressed` files say.
+   */
+  get totalBytes(): number | undefined {
+    const { header } = this;
+    if (header?.encoding === 'binary') {
+      return header.dataOffset + header.points * rowSize(header.fields);
+    }
+    if (
+      header?.encoding === 'binary_compressed' &&
+      this.length >= header.dataOffset + 8
+    ) {
+      const sizes = new DataView(this.buffer.buffer, header.dataOffset, 4);
+      return header.dataOffset + 8 + sizes.getUint32(0, true);
+    }
+    return undefined;
+  }
+
+  /** The bytes pushed so far. */
+  get bytes() {
+    return this.buffer.subarray(0, this.length);
+  }
+
+  push(chunk: Uint8Array) {
+    if (this.ended) {
+      throw new Error('cannot push to a PCD decoder that has ended');
+    }
+    if (this.length + chunk.length > this.buffer.length) {
+      const grown = new Uint8Array(
+        Math.max(this.buffer.length * 2, this.length + chunk.length)
+      );
+      grown.set(this.bytes);
+      this.buffer = grown;
+    }
+    this.buffer.set(chunk, this.length);
+    this.length += chunk.length;
+
+    if (!this.header && this.headerError === undefined) {
+      const { entries, dataOffset } = readHeaderEntries(this.bytes);
+      if (entries.has('DATA') && dataOffset <= this.length) {
+        this.readHeader();
+      }
+    }
+  }
+
+  /**
+   * Mark the file as complete, so that `takePoints` decodes a last line without
+   * a newline and fails if points are missing.
+   */
+  end() {
+    this.ended = true;
+    if (!this.header && this.headerError === undefined) {
+      this.readHeader();
+    }
+  }
+
+  /**
+   * Decode the points that arrived since the last call.
+   *
+   * @returns The new points, or `undefined` if there are none.
+   */
+  takePoints(): PointCloud | undefined {
+    if (this.headerError !== undefined) {
+      throw this.headerError;
+    }
+    const { header } = this;
+    if (!header) {
+      return undefined;
+    }
+    switch (header.encoding) {
+      case 'ascii': {
+        return this.takeAscii(header);
+      }
+      case 'binary': {
+        return this.takeBinary(header);
+      }
+      default: {
+        return this.takeCompressed(header);
+      }
+    }
+  }
+
+  private readHeader() {
+    try {
+      this.header = readHeader(this.bytes);
+      this.decodedOffset = this.header.dataOffset;
+    } catch (error) {
+      this.headerError =
+        error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  private takeAscii({ fields, points }: PCDHeader) {
+    const end = this.ended
+      ? this.length
+      : this.buffer.lastIndexOf(0x0a, this.length - 1) + 1;
+    if (end <= this.decodedOffset) {
+      return undefined;
+    }
+    const lines = asciiLines(
+      this.buffer.subarray(this.decodedOffset, end)
+    ).slice(0, points - this.decodedPoints);
+    this.decodedOffset = end;
+    return this.taken(fields, lines.length, (columns) => {
+      readAscii(lines, columns);
+    });
+  }
+
+  private takeBinary({ fields, points, dataOffset }: PCDHeader) {
+    const size = rowSize(fields);
+    const arrived = Math.min(
+      points,
+      size === 0 ? points : Math.floor((this.length - dataOffset) / size)
+    );
+    if (this.ended && arrived < points) {
+      throw new Error(`PCD of ${points} points is missing data`);
+    }
+    const count = arrived - this.decodedPoints;
+    const data = this.buffer.subarray(this.decodedOffset);
+    this.decodedOffset += count * size;
+    return this.taken(fields, count, (columns) => {
+      readBinary(data, columns, count);
+    });
+  }
+
+  private takeCompressed({ fields, points }: PCDHeader) {
+    const { totalBytes } = this;
+    const complete =
+      totalBytes === undefined ? this.ended : this.length >= totalBytes;
+    if (this.decodedPoints > 0 || !complete) {
+      return undefined;
+    }
+    const data = this.buffer.subarray(this.decodedOffset, this.length);
+    return this.taken(fields, points, (columns) => {
+      readCompressed(data, columns);
+    });
+  }
+
+  private taken(
+    fields: PCDField[],
+    count: number,
+    read: (columns: Column[]) => void
+  ) {
+    if (count <= 0) {
+      return undefined;
+    }
+    const columns = emptyColumns(fields, count);
+    read(columns);
+    this.decodedPoints += count;
+    return toPointCloud(columns, count);
+  }
+}
+
+const writeAscii = (columns: Column[], size: number) =>
+  Array.from(
+    { length: size },
+    (_line, point) =>
+      `${columns
+        .flatMap(({ field, values }) => [
+          ...values.subarray(point * field.count, (point + 1) * field.count),
+        ])
+        .join(' ')}\n`
+  ).join('');
+
+const writeBinary = (columns: Column[], size: number) => {
+  const data = new Uint8Array(
+    rowSize(columns.map(({ field }) => field)) * size
+  );
+  const view = new DataView(data.buffer);
+  let offset = 0;
+  for (let point = 0; point < size; point += 1) {
+    for (const { field, values } of columns) {
+      for (let item = 0; item < field.count; item += 1) {
+        writeValue(
+          view,
+          offset,
+          field,
+          values[point * field.count + item] ?? 0
+        );
+        offset += field.size;
+      }
+    }
+  }
+  return data;
+};
+
+const writeCompressed = (columns: Column[], size: number) => {
+  const data = new Uint8Array(
+    rowSize(columns.map(({ field }) => field)) * size
+  );
+  const view = new DataView(data.buffer);
+  let offset = 0;
+  for (const { field, values } of columns) {
+    for (const value of values) {
+      writeValue(view, offset, field, value);
+      offset += field.size;
+    }
+  }
+  const compressed = lzfCompress(data);
+  const bytes = new Uint8Array(8 + compressed.length);
+  const sizes = new DataView(bytes.buffer);
+  sizes.setUint32(0, compressed.length, true);
+  sizes.setUint32(4, data.length, true);
+  bytes.set(compressed, 8);
+  return bytes;
+};
+
+/**
+ * Encode points as a PCD file, with colors packed into an `rgb` field and other
+ * fields as 64-bit floats.
+ */
+export const encodePCD = (
+  { size, positions, colors, fields }: PointCloud,
+  encoding: PCDEncoding = 'binary'
+): Uint8Array => {
+  const columns: Column[] = positionFields.map((name, axis) => ({
+    field: { name, size: 4, type: 'F', count: 1 },
+    values: Float64Array.from({ length: size }, (_value, point) =>
+      Number(positions[point * 3 + axis])
+    ),
+  }));
+  if (colors) {
+    columns.push({
+      field: { name: 'rgb', size: 4, type: 'U', count: 1 },
+      values: packColors(colors, size),
+    });
+  }
+  for (const [name, values] of Object.entries(fields)) {
+    const count = size === 0 ? 1 : values.length / size;
+    columns.push({ field: { name, size: 8, type: 'F', count }, values });
+  }
+
+  const header = new TextEncoder().encode(
+    [
+      '# .PCD v0.7 - Point Cloud Data file format',
+      'VERSION .7',
+      `FIELDS ${columns.map(({ field }) => field.name).join(' ')}`,
+      `SIZE ${columns.map(({ field }) => field.size).join(' ')}`,
+      `TYPE ${columns.map(({ field }) => field.type).join(' ')}`,
+      `COUNT ${columns.map(({ field }) => field.count).join(' ')}`,
+      `WIDTH ${size}`,
+      'HEIGHT 1',
+      'VIEWPOINT 0 0 0 1 0 0 0',
+      `POINTS ${size}`,
+      `DATA ${encoding}`,
+      '',
+    ].join('\n')
+  );
+  let data: Uint8Array;
+  if (encoding === 'ascii') {
+    data = new TextEncoder().encode(writeAscii(columns, size));
+  } else if (encoding === 'binary') {
+    data = writeBinary(columns, size);
+  } else {
+    data = writeCompressed(columns, size);
+  }
+
+  const bytes = new Uint8Array(header.length + data.length);
+  bytes.set(header);
+  bytes.set(data, header.length);
+  return bytes;
+};
+
+/** Get the smallest box that holds every point, or `undefined` if none. */
+export const boundingBox = ({
+  size,
+  positions,
+}: PointCloud): BoundingBox | undefined => {
+  if (size === 0) {
+    return undefined;
+  }
+  const min = new Float64Array(3).fill(Number.POSITIVE_INFINITY);
+  const max = new Float64Array(3).fill(Number.NEGATIVE_INFINITY);
+  for (const [index, value] of positions.entries()) {
+    const axis = index % 3;
+    min[axis] = Math.min(min[axis] ?? value, value);
+    max[axis] = Math.max(max[axis] ?? value, value);
+  }
+  const [minX = 0, minY = 0, minZ = 0] = min;
+  const [maxX = 0, maxY = 0, maxZ = 0] = max;
+  return {
+    min: { x: minX, y: minY, z: minZ },
+    max: { x: maxX, y: maxY, z: maxZ },
+  };
+};
+
+type Values = Float32Array | Float64Array | Uint8Array;
+
+/** Average values, `perPoint` per point, over each group of points. */
+const averageGroups = <T extends Values>(
+  values: T,
+  perPoint: number,
+  groups: number[][],
+  into: T
+) => {
+  for (const [group, members] of groups.entries()) {
+    for (let item = 0; item < perPoint; item += 1) {
+      let sum = 0;
+      for (const point of members) {
+        sum += Number(values[point * perPoint + item]);
+      }
+      const mean = sum / members.length;
+      into[group * perPoint + item] =
+        into instanceof Uint8Array ? Math.round(mean) : mean;
+    }
+  }
+  return into;
+};
+
+/**
+ * Downsample points on a voxel grid: the points in each cube of `voxelSize` are
+ * replaced by one point at their mean, with their mean color and fields.
+ */
+export const voxelDownsample = (
+  { size, positions, colors, fields }: PointCloud,
+  voxelSize: number
+): PointCloud => {
+  if (voxelSize <= 0) {
+    throw new Error('voxel size must be positive');
+  }
+  const voxels = new Map<string, number[]>();
+  for (let point = 0; point < size; point += 1) {
+    const key = [0, 1, 2]
+      .map((axis) =>
+        Math.floor(Number(positions[point * 3 + axis]) / voxelSize)
+      )
+      .join(',');
+    const members = voxels.get(key);
+    if (members) {
+      members.push(point);
+    } else {
+      voxels.set(key, [point]);
+    }
+  }
+
+  const groups = [...voxels.values()];
+  return {
+    size: groups.length,
+    positions: averageGroups(
+      positions,
+      3,
+      groups,
+      new Float32Array(groups.length * 3)
+    ),
+    colors:
+      colors &&
+      averageGroups(colors, 3, groups, new Uint8Array(groups.length * 3)),
+    fields: Object.fromEntries(
+      Object.entries(fields).map(([name, values]) => {
+        const perPoint = size === 0 ? 1 : values.length / size;
+        return [
+          name,
+          averageGroups(
+            values,
+            perPoint,
+            groups,
+            new Float64Array(groups.length * perPoint)
+          ),
+        ];
+      })
+    ),
+  };
+};
+
+const concat = <T extends Values>(into: T, parts: T[]) => {
+  let offset = 0;
+  for (const part of parts) {
+    into.set(part, offset);
+    offset += part.length;
+  }
+  return into;
+};
+
+/**
+ * Merge point clouds into one. Colors are kept if every cloud has them, and
+ * fields if every cloud has them with the same number of values per point.
+ */
+export const mergePointClouds = (...clouds: PointCloud[]): PointCloud => {
+  const size = clouds.reduce((sum, cloud) => sum + cloud.size, 0);
+  const positions = concat(
+    new Float32Array(size * 3),
+    clouds.map((cloud) => cloud.positions)
+  );
+  const allColors = clouds.map((cloud) => cloud.colors);
+  const colors = allColors.every((part) => part !== undefined)
+    ? concat(new Uint8Array(size * 3), allColors as Uint8Array[])
+    : undefined;
+
+  const fields: Record<string, Float64Array> = {};
+  for (const name of Object.keys(clouds[0]?.fields ?? {})) {
+    const parts = clouds.map((cloud) => cloud.fields[name]);
+    const counts = new Set(
+      clouds
+        .filter((cloud) => cloud.size > 0)
+        .map((cloud) => (cloud.fields[name]?.length ?? 0) / cloud.size)
+    );
+    const [count = 1] = counts;
+    if (counts.size <= 1 && parts.every((part) => part !== undefined)) {
+      fields[name] = concat(
+        new Float64Array(size * count),
+        parts as Float64Array[]
+      );
+    }
+  }
+  return { size, positions, colors, fields };
+};
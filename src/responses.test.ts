@@ -0,0 +1,170 @@
+import { describe, expect, it, vi } from 'vitest';
+import { NotFoundError, ResourceExhaustedError } from './errors';
+import { EventDispatcher } from './events';
+import type { ResponseStream } from './gen/robot/v1/robot_pb_service';
+import { ViamResponseStream, mapResponseStream } from './responses';
+
+class TestResponseStream extends EventDispatcher {
+  cancel = vi.fn();
+
+  override on(type: string, handler: (message: any) => void) {
+    super.on(type, handler);
+    return this as unknown as ResponseStream<number>;
+  }
+}
+
+const setup = () => {
+  const raw = new TestResponseStream();
+  const stream = mapResponseStream(
+    raw as unknown as ResponseStream<number>,
+    (x: number) => x * 2
+  );
+  return { raw, stream };
+};
+
+describe('ViamResponseStream async iteration', () => {
+  it('yields mapped messages until the stream ends', async () => {
+    const { raw, stream } = setup();
+    const results: number[] = [];
+
+    const done = (async () => {
+      for await (const value of stream) {
+        results.push(value);
+      }
+    })();
+
+    raw.emit('data', 1);
+    raw.emit('data', 2);
+    raw.emit('end', { code: 0, details: '' });
+    await done;
+
+    expect(results).toStrictEqual([2, 4]);
+  });
+
+  it('buffers messages received before they are read', async () => {
+    const { raw, stream } = setup();
+    const iterator = stream.toAsyncIterable();
+
+    raw.emit('data', 1);
+    raw.emit('data', 2);
+    raw.emit('end', { code: 0, details: '' });
+
+    await expect(iterator.next()).resolves.toStrictEqual({
+      value: 2,
+      done: false,
+    });
+    await expect(iterator.next()).resolves.toStrictEqual({
+      value: 4,
+      done: false,
+    });
+    await expect(iterator.next()).resolves.toStrictEqual({
+      value: undefined,
+      done: true,
+    });
+  });
+
+  it('throws when the stream ends with an error status', async () => {
+    const { raw, stream } = setup();
+    const iterator = stream.toAsyncIterable();
+    const next = iterator.next();
+
+    raw.emit('status', { code: 5, details: 'not found', metadata: undefined });
+    raw.emit('end', { code: 5, details: 'not found', metadata: undefined });
+
+    await expect(next).rejects.toBeInstanceOf(NotFoundError);
+    await expect(next).rejects.toMatchObject({
+      code: 5,
+      message: 'not found',
+    });
+    await expect(iterator.next()).resolves.toMatchObject({ done: true });
+  });
+
+  it('throws when the stream ends without a status', async () => {
+    const { raw, stream } = setup();
+    const iterator = stream.toAsyncIterable();
+
+    raw.emit('end', undefined);
+
+    await expect(iterator.next()).rejects.toThrow(
+      'Stream ended without a status code'
+    );
+  });
+
+  it('cancels the stream when the consumer stops early', async () => {
+    const { raw, stream } = setup();
+
+    const results: number[] = [];
+
+    const done = (async () => {
+      for await (const value of stream) {
+        results.push(value);
+        if (results.length === 1) {
+          break;
+        }
+      }
+    })();
+    raw.emit('data', 1);
+    raw.emit('data', 2);
+    await done;
+
+    expect(results).toStrictEqual([2]);
+
+    expect(raw.cancel).toHaveBeenCalledOnce();
+  });
+
+  it('keeps other listeners when the consumer stops early', async () => {
+    const { raw, stream } = setup();
+    const listener = vi.fn();
+    stream.on('data', listener);
+
+    const iterator = stream.toAsyncIterable();
+    await iterator.return?.();
+    raw.emit('data', 1);
+
+    expect(raw.cancel).toHaveBeenCalledOnce();
+    expect(listener).toHaveBeenCalledWith(2);
+    expect(stream.listeners.data?.size).toBe(1);
+  });
+
+  it('cancels the stream when the signal is aborted', async () => {
+    const { raw, stream } = setup();
+    const controller = new AbortController();
+    const iterator = stream.toAsyncIterable({ signal: controller.signal });
+    const next = iterator.next();
+
+    controller.abort(new Error('stop'));
+
+    await expect(next).rejects.toThrow('stop');
+    expect(raw.cancel).toHaveBeenCalledOnce();
+  });
+
+  it('fails when more than highWaterMark messages are buffered', async () => {
+    const { raw, stream } = setup();
+    const iterator = stream.toAsyncIterable({ highWaterMark: 1 });
+
+    raw.emit('data', 1);
+    raw.emit('data', 2);
+
+    expect(raw.cancel).toHaveBeenCalledOnce();
+    await expect(iterator.next()).resolves.toStrictEqual({
+      value: 2,
+      done: false,
+    });
+    await expect(iterator.next()).resolves.toStrictEqual({
+      value: 4,
+      done: false,
+    });
+    await expect(iterator.next()).rejects.toBeInstanceOf(
+      ResourceExhaustedError
+    );
+  });
+
+  it('can be constructed directly around a raw stream', () => {
+    const raw = new TestResponseStream();
+    const stream = new ViamResponseStream<number>(
+      raw as unknown as ResponseStream<number>
+    );
+    stream.cancel();
+    expect(raw.cancel).toHaveBeenCalledOnce();
+  });
+});
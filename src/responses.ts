@@ -1,7 +1,204 @@
+/* eslint-disable max-classes-per-file */
+import { grpc } from '@improbable-eng/grpc-web';
 import { EventDispatcher } from './events';
-import type { ResponseStream } from './gen/robot/v1/robot_pb_service';
+import type { ResponseStream, Status } from './gen/robot/v1/robot_pb_service';
+import {
+  ResourceExhaustedError,
+  ViamError,
+  createViamError,
+  type ViamErrorOptions,
+} from './errors';
 
-export class ViamResponseStream<T> extends EventDispatcher {
+/**
+ * Convert the status a stream ended with into a {@link ViamError}. A missing
+ * status is treated as an error.
+ */
+export const streamStatusError = (
+  status?: Status,
+  options: ViamErrorOptions = {}
+): ViamError => {
+  if (status === undefined) {
+    return new ViamError(
+      'Stream ended without a status code',
+      grpc.Code.Unknown,
+      options
+    );
+  }
+  return createViamError(status.code, status.details, {
+    ...options,
+    metadata: status.metadata,
+  });
+};
+
+/** Options for consuming a {@link ViamResponseStream} with `for await`. */
+export interface StreamIterableOptions {
+  /** Cancel the stream when the signal is aborted. */
+  signal?: AbortSignal;
+
+  /**
+   * The maximum number of messages to buffer while the consumer is busy.
+   * gRPC-web cannot ask the server to slow down, so once the buffer is full the
+   * stream is cancelled and iteration fails with a `ResourceExhausted` error.
+   * Defaults to no limit.
+   */
+  highWaterMark?: number;
+}
+
+/**
+ * Iterates the messages of a {@link ViamResponseStream}. Stopping early cancels
+ * only the gRPC stream underneath, so other listeners on the shared stream are
+ * left in place.
+ */
+class ResponseStreamIterator<T> implements AsyncIterableIterator<T> {
+  private readonly stream: ViamResponseStream<T>;
+  private readonly source: Pick<ResponseStream<unknown>, 'cancel'>;
+  private readonly highWaterMark: number;
+  private readonly signal: AbortSignal | undefined;
+  private readonly buffer: T[] = [];
+
+  private done = false;
+  private error: unknown;
+  private pending:
+    | {
+        resolve: (result: IteratorResult<T>) => void;
+        reject: (reason: unknown) => void;
+      }
+    | undefined;
+
+  constructor(
+    stream: ViamResponseStream<T>,
+    source: Pick<ResponseStream<unknown>, 'cancel'>,
+    { signal, highWaterMark = Number.POSITIVE_INFINITY }: StreamIterableOptions
+  ) {
+    this.stream = stream;
+    this.source = source;
+    this.highWaterMark = highWaterMark;
+    this.signal = signal;
+
+    stream.on('data', this.onData);
+    stream.on('status', this.onStatus);
+    stream.on('end', this.onEnd);
+
+    if (signal?.aborted) {
+      this.abort();
+    } else {
+      signal?.addEventListener('abort', this.abort);
+    }
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+
+  async next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      return { value: this.buffer.shift() as T, done: false };
+    }
+    if (this.error !== undefined) {
+      const { error } = this;
+      this.error = undefined;
+      // An aborted signal's reason can be any value.
+      // eslint-disable-next-line @typescript-eslint/no-throw-literal
+      throw error;
+    }
+    if (this.done) {
+      return { value: undefined, done: true };
+    }
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+    });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async return(): Promise<IteratorResult<T>> {
+    if (!this.done) {
+      this.finish();
+      this.source.cancel();
+    }
+    return { value: undefined, done: true };
+  }
+
+  private readonly onData = (message: T) => {
+    this.push(message);
+  };
+
+  private readonly onStatus = (status: Status) => {
+    if (status.code !== grpc.Code.OK.valueOf()) {
+      this.fail(streamStatusError(status));
+    }
+  };
+
+  private readonly onEnd = (status?: Status) => {
+    if (status?.code === grpc.Code.OK.valueOf()) {
+      this.finish();
+    } else {
+      this.fail(streamStatusError(status));
+    }
+  };
+
+  private push(message: T) {
+    if (this.done) {
+      return;
+    }
+    if (this.pending) {
+      this.pending.resolve({ value: message, done: false });
+      this.pending = undefined;
+      return;
+    }
+    this.buffer.push(message);
+    if (this.buffer.length > this.highWaterMark) {
+      this.source.cancel();
+      this.fail(
+        new ResourceExhaustedError(
+          `Stream buffered more than ${this.highWaterMark} messages`
+        )
+      );
+    }
+  }
+
+  private readonly abort = () => {
+    if (this.done) {
+      return;
+    }
+    this.source.cancel();
+    this.fail(this.signal?.reason);
+  };
+
+  private fail(error: unknown) {
+    if (this.done) {
+      return;
+    }
+    this.cleanup();
+    if (this.pending) {
+      this.pending.reject(error);
+      this.pending = undefined;
+    } else {
+      this.error = error;
+    }
+  }
+
+  private finish() {
+    if (this.done) {
+      return;
+    }
+    this.cleanup();
+    this.pending?.resolve({ value: undefined, done: true });
+    this.pending = undefined;
+  }
+
+  private cleanup() {
+    this.done = true;
+    this.signal?.removeEventListener('abort', this.abort);
+    this.stream.off('data', this.onData as (message: unknown) => void);
+    this.stream.off('status', this.onStatus as (message: unknown) => void);
+    this.stream.off('end', this.onEnd as (message: unknown) => void);
+  }
+}
+
+export class ViamResponseStream<T>
+  extends EventDispatcher
+  implements AsyncIterable<T>
+{
   private stream: ResponseStream<any>;
 
   constructor(stream: ResponseStream<any>) {
@@ -21,4 +218,53 @@ export class ViamResponseStream<T> extends EventDispatcher {
     this.listeners = {};
     this.stream.cancel();
   }
+
+  /**
+   * Consume the stream with `for await`. Iteration ends when the stream ends
+   * successfully and throws a {@link ViamError} when it ends with a non-OK
+   * status. Breaking out of the loop cancels the gRPC stream, leaving other
+   * listeners in place.
+   *
+   * @example
+   *
+   * ```ts
+   * const controller = new AbortController();
+   * const stream = robot.streamStatus();
+   * for await (const statuses of stream.toAsyncIterable({
+   *   signal: controller.signal,
+   * })) {
+   *   console.log(statuses);
+   * }
+   * ```
+   */
+  toAsyncIterable(
+    options: StreamIterableOptions = {}
+  ): AsyncIterableIterator<T> {
+    return new ResponseStreamIterator(this, this.stream, options);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return this.toAsyncIterable();
+  }
 }
+
+/**
+ * Wrap a raw gRPC response stream in a {@link ViamResponseStream} that emits
+ * each message converted with `map`.
+ */
+export const mapResponseStream = <T, U>(
+  stream: ResponseStream<T>,
+  map: (message: T) => U
+): ViamResponseStream<U> => {
+  const mapped = new ViamResponseStream<U>(stream);
+  stream.on('data', (message) => {
+    mapped.emit('data', map(message));
+  });
+  stream.on('status', (status) => {
+    mapped.emit('status', status);
+  });
+  stream.on('end', (status) => {
+    mapped.emit('end', status);
+  });
+  return mapped;
+};
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { grpc } from '@improbable-eng/grpc-web';
+import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
+import {
+  isReadOnlyMethod,
+  retryMetadataKey,
+  retryTransportFactory,
+  type RetryPolicy,
+} from './retry';
+import { FakeServer, FakeStatusError } from './testing/fake-server';
+
+const GetValue = {
+  methodName: 'GetValue',
+  service: { serviceName: 'test.v1.TestService' },
+  requestStream: false,
+  responseStream: false,
+  requestType: Struct,
+  responseType: Struct,
+};
+
+const SetValue = { ...GetValue, methodName: 'SetValue' };
+
+const policy: RetryPolicy = { startingDelay: 1, jitter: 'none' };
+
+const unavailable = () => {
+  throw new FakeStatusError(grpc.Code.Unavailable, 'reconnecting');
+};
+
+const setup = (retryPolicy: RetryPolicy | undefined) => {
+  const server = new FakeServer();
+  server.handle(GetValue, (request) => request);
+  server.handle(SetValue, (request) => request);
+  const transport = retryTransportFactory(
+    server.transportFactory,
+    () => retryPolicy
+  );
+
+  const call = async (method = GetValue, metadata = new grpc.Metadata()) =>
+    new Promise<{ code: grpc.Code; value?: unknown }>((resolve) => {
+      let value: unknown;
+      grpc.invoke(method, {
+        host: 'fake',
+        request: Struct.fromJavaScript({ value: 'hi' }),
+        metadata,
+        transport,
+        onMessage: (message) => {
+          value = (message as Struct).toJavaScript().value;
+        },
+        onEnd: (code) => resolve({ code, value }),
+      });
+    });
+
+  return { server, call };
+};
+
+describe('RetryTransport', () => {
+  it('retries read-only calls that fail with a retryable status', async () => {
+    const { server, call } = setup(policy);
+    server.handleOnce(GetValue, unavailable);
+    server.handleOnce(GetValue, unavailable);
+
+    await expect(call()).resolves.toStrictEqual({
+      code: grpc.Code.OK,
+      value: 'hi',
+    });
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    const { server, call } = setup({ ...policy, maxAttempts: 2 });
+    server.handle(GetValue, unavailable);
+
+    await expect(call()).resolves.toMatchObject({
+      code: grpc.Code.Unavailable,
+    });
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('does not retry other statuses', async () => {
+    const { server, call } = setup(policy);
+    server.handleOnce(GetValue, () => {
+      throw new FakeStatusError(grpc.Code.NotFound, 'no value');
+    });
+
+    await expect(call()).resolves.toMatchObject({ code: grpc.Code.NotFound });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('only retries calls that move the robot when asked to', async () => {
+    const { server, call } = setup(policy);
+    server.handleOnce(SetValue, unavailable);
+
+    await expect(call(SetValue)).resolves.toMatchObject({
+      code: grpc.Code.Unavailable,
+    });
+
+    server.handleOnce(SetValue, unavailable);
+    const metadata = new grpc.Metadata({ [retryMetadataKey]: 'true' });
+
+    await expect(call(SetValue, metadata)).resolves.toMatchObject({
+      code: grpc.Code.OK,
+    });
+    expect(server.requests).toHaveLength(3);
+    expect(server.requests[2]?.metadata.has(retryMetadataKey)).toBe(false);
+  });
+
+  it('does not retry calls marked as non-retryable', async () => {
+    const { server, call } = setup(policy);
+    server.handleOnce(GetValue, unavailable);
+    const metadata = new grpc.Metadata({ [retryMetadataKey]: 'false' });
+
+    await expect(call(GetValue, metadata)).resolves.toMatchObject({
+      code: grpc.Code.Unavailable,
+    });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('does not retry by default without a policy', async () => {
+    const { server, call } = setup(undefined);
+    server.handleOnce(GetValue, unavailable);
+
+    await expect(call()).resolves.toMatchObject({
+      code: grpc.Code.Unavailable,
+    });
+    expect(server.requests).toHaveLength(1);
+  });
+});
+
+describe('isReadOnlyMethod', () => {
+  it.each(['GetReadings', 'GetImage', 'IsMoving', 'ReadAnalogReader', 'PWM'])(
+    'treats %s as read-only',
+    (method) => {
+      expect(isReadOnlyMethod(method)).toBe(true);
+    }
+  );
+
+  it.each(['SetPower', 'MoveStraight', 'DoCommand', 'Stop'])(
+    'does not treat %s as read-only',
+    (method) => {
+      expect(isReadOnlyMethod(method)).toBe(false);
+    }
+  );
+});
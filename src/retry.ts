@@ -0,0 +1,234 @@
+import { grpc } from '@improbable-eng/grpc-web';
+import { backOff, type IBackOffOptions } from 'exponential-backoff';
+import { FrameReader, grpcStatus } from './interceptors';
+
+/** How calls that fail with a transient error are retried. */
+export interface RetryPolicy {
+  /** The most times a call is attempted, including the first. Default is 3. */
+  maxAttempts?: number;
+
+  /** Milliseconds to wait before the first retry. Default is 100. */
+  startingDelay?: number;
+
+  /** The longest wait between two attempts, in milliseconds. Default is 2000. */
+  maxDelay?: number;
+
+  /** Multiply the wait by this much after each retry. Default is 2. */
+  timeMultiple?: number;
+
+  /** Randomize each wait between 0 and its full length. Default is `'full'`. */
+  jitter?: IBackOffOptions['jitter'];
+
+  /**
+   * The gRPC status codes worth retrying. Calls that lose their connection
+   * before completing are always retried, even though the robot may have
+   * received them. Default is `[Unavailable]`.
+   */
+  retryableCodes?: grpc.Code[];
+}
+
+export const defaultRetryPolicy: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  startingDelay: 100,
+  maxDelay: 2000,
+  timeMultiple: 2,
+  jitter: 'full',
+  retryableCodes: [grpc.Code.Unavailable],
+};
+
+/**
+ * The metadata key {@link CallOptions.retry} is sent to the retry transport
+ * with. It is removed before the call leaves the client.
+ */
+export const retryMetadataKey = 'x-viam-retry';
+
+// Methods that only read state and can be made again safely
+const readOnlyPrefixes = ['Get', 'Is', 'Read', 'List', 'Render'];
+const readOnlyMethods = new Set(['PWM', 'PWMFrequency']);
+
+/** Check if a gRPC method only reads state, so retrying it is safe. */
+export const isReadOnlyMethod = (methodName: string) =>
+  readOnlyMethods.has(methodName) ||
+  readOnlyPrefixes.some((prefix) => methodName.startsWith(prefix));
+
+interface Attempt {
+  headers: grpc.Metadata | undefined;
+  httpStatus: number;
+  chunks: Uint8Array[];
+  err: Error | undefined;
+}
+
+/**
+ * A transport that makes a unary call again, on a new transport, when it fails
+ * with a transient error. The response of an attempt is held back until the
+ * attempt completes, so a caller only ever sees the attempt that is not
+ * retried. Streaming calls are passed through.
+ */
+export class RetryTransport implements grpc.Transport {
+  private readonly opts: grpc.TransportOptions;
+  private readonly transportFactory: grpc.TransportFactory;
+  private readonly policy: RetryPolicy | undefined;
+
+  private transport: grpc.Transport | undefined;
+  private metadata = new grpc.Metadata();
+  private readonly messages: Uint8Array[] = [];
+  private retrying = false;
+  private sendFinished = false;
+  private cancelled = false;
+
+  constructor(
+    transportFactory: grpc.TransportFactory,
+    opts: grpc.TransportOptions,
+    policy: RetryPolicy | undefined
+  ) {
+    this.transportFactory = transportFactory;
+    this.opts = opts;
+    this.policy = policy;
+  }
+
+  public start(metadata: grpc.Metadata) {
+    const [requested] = metadata.get(retryMetadataKey);
+    metadata.delete(retryMetadataKey);
+
+    const { methodDefinition } = this.opts;
+    const unary =
+      !methodDefinition.requestStream && !methodDefinition.responseStream;
+    const retry =
+      requested === undefined
+        ? this.policy !== undefined &&
+          isReadOnlyMethod(methodDefinition.methodName)
+        : requested === 'true';
+
+    if (!unary || !retry) {
+      this.transport = this.transportFactory(this.opts);
+      this.transport.start(metadata);
+      return;
+    }
+
+    const policy = { ...defaultRetryPolicy, ...this.policy };
+    this.retrying = true;
+    this.metadata = metadata;
+    void backOff(async () => this.attempt(policy.retryableCodes), {
+      numOfAttempts: policy.maxAttempts,
+      startingDelay: policy.startingDelay,
+      maxDelay: policy.maxDelay,
+      timeMultiple: policy.timeMultiple,
+      jitter: policy.jitter,
+      retry: () => !this.cancelled,
+    }).then(
+      (attempt) => this.deliver(attempt),
+      (error: Attempt) => this.deliver(error)
+    );
+  }
+
+  public sendMessage(msgBytes: Uint8Array) {
+    if (this.retrying) {
+      this.messages.push(msgBytes);
+    }
+    this.transport?.sendMessage(msgBytes);
+  }
+
+  public finishSend() {
+    this.sendFinished = true;
+    this.transport?.finishSend();
+  }
+
+  public cancel() {
+    this.cancelled = true;
+    this.transport?.cancel();
+  }
+
+  /**
+   * Make the call once on a new transport. Rejects with the attempt if it
+   * failed in a way that is worth retrying.
+   */
+  private async attempt(retryableCodes: grpc.Code[]) {
+    return new Promise<Attempt>((resolve, reject) => {
+      const attempt: Attempt = {
+        headers: undefined,
+        httpStatus: 0,
+        chunks: [],
+        err: undefined,
+      };
+      if (this.cancelled) {
+        resolve(attempt);
+        return;
+      }
+
+      const transport = this.transportFactory({
+        ...this.opts,
+        onHeaders: (headers, status) => {
+          attempt.headers = headers;
+          attempt.httpStatus = status;
+        },
+        onChunk: (chunk) => {
+          attempt.chunks.push(chunk);
+        },
+        onEnd: (err) => {
+          attempt.err = err;
+          if (
+            !this.cancelled &&
+            RetryTransport.retryable(attempt, retryableCodes)
+          ) {
+            reject(attempt);
+          } else {
+            resolve(attempt);
+          }
+        },
+      });
+      this.transport = transport;
+
+      transport.start(new grpc.Metadata(this.metadata));
+      for (const message of this.messages) {
+        transport.sendMessage(message);
+      }
+      if (this.sendFinished) {
+        transport.finishSend();
+      }
+    });
+  }
+
+  private static retryable(attempt: Attempt, retryableCodes: grpc.Code[]) {
+    if (attempt.err !== undefined || !attempt.headers) {
+      return true;
+    }
+
+    let status = grpcStatus(attempt.headers);
+    const frames = new FrameReader();
+    for (const chunk of attempt.chunks) {
+      for (const frame of frames.push(chunk)) {
+        if (frame.trailers) {
+          status = grpcStatus(
+            new grpc.Metadata(new TextDecoder().decode(frame.data))
+          );
+        }
+      }
+    }
+    return status !== undefined && retryableCodes.includes(status.code);
+  }
+
+  private deliver({ headers, httpStatus, chunks, err }: Attempt) {
+    if (this.cancelled) {
+      return;
+    }
+    if (headers) {
+      this.opts.onHeaders(headers, httpStatus);
+    }
+    for (const chunk of chunks) {
+      this.opts.onChunk(chunk);
+    }
+    this.opts.onEnd(err);
+  }
+}
+
+/**
+ * Wrap a transport factory so read-only unary calls are retried with the policy
+ * it returns. Returning `undefined` only retries calls that ask for it.
+ */
+export const retryTransportFactory =
+  (
+    transportFactory: grpc.TransportFactory,
+    policy: () => RetryPolicy | undefined
+  ): grpc.TransportFactory =>
+  (opts) =>
+    new RetryTransport(transportFactory, opts, policy());
@@ -4,5 +4,40 @@ export {
   type DialConf,
   type DialDirectConf,
   type DialWebRTCConf,
+  type DialMethod,
+  type DialStrategy,
   createRobotClient,
 } from './robot/dial';
+export {
+  type DialTarget,
+  parseDialTarget,
+  validateDialTarget,
+} from './robot/dial-target';
+export type {
+  ReconnectAttempt,
+  ReconnectFailure,
+  ReconnectPolicy,
+} from './robot/reconnect-policy';
+export { FrameSystem } from './robot/frame-system';
+export type {
+  ActuationCallOptions,
+  OperationCallOptions,
+  OperationHandle,
+} from './robot/operations';
+export type {
+  HeartbeatMissed,
+  HeartbeatMode,
+  SessionExpired,
+  SessionStarted,
+} from './robot/session-manager';
+export {
+  type ResourceClients,
+  type ResourceClientConstructor,
+  type SubtypeClient,
+  registerResourceClient,
+} from './robot/resource-registry';
+export type {
+  ConnectionStats,
+  CandidatePairStats,
+  VideoTrackStats,
+} from './robot/connection-stats';
@@ -6,10 +6,16 @@ import {
   type Credentials,
   type DialOptions,
 } from '@viamrobotics/rpc';
-import { backOff } from 'exponential-backoff';
 import { Duration } from 'google-protobuf/google/protobuf/duration_pb';
 import { DIAL_TIMEOUT } from '../constants';
-import { EventDispatcher, MachineConnectionEvent } from '../events';
+import {
+  EventDispatcher,
+  MachineConnectionEvent,
+  OfflineQueueEvent,
+  ReconnectEvent,
+  ResourceChangeEvent,
+  SessionEvent,
+} from '../events';
 import type {
   PoseInFrame,
   ResourceName,
@@ -28,18 +34,44 @@ import { MovementSensorServiceClient } from '../gen/component/movementsensor/v1/
 import { PowerSensorServiceClient } from '../gen/component/powersensor/v1/powersensor_pb_service';
 import { ServoServiceClient } from '../gen/component/servo/v1/servo_pb_service';
 import proto from '../gen/robot/v1/robot_pb';
-import type { Status } from '../gen/robot/v1/robot_pb_service';
 import { RobotServiceClient } from '../gen/robot/v1/robot_pb_service';
 import { MotionServiceClient } from '../gen/service/motion/v1/motion_pb_service';
 import { NavigationServiceClient } from '../gen/service/navigation/v1/navigation_pb_service';
 import { SensorsServiceClient } from '../gen/service/sensors/v1/sensors_pb_service';
 import { SLAMServiceClient } from '../gen/service/slam/v1/slam_pb_service';
 import { VisionServiceClient } from '../gen/service/vision/v1/vision_pb_service';
-import { ViamResponseStream } from '../responses';
+import { interceptTransportFactory, type Interceptor } from '../interceptors';
+import { OfflineQueue, type OfflineQueuePolicy } from '../offline-queue';
+import { retryTransportFactory, type RetryPolicy } from '../retry';
+import {
+  InvalidArgumentError,
+  NotFoundError,
+  UnimplementedError,
+} from '../errors';
+import type { CallOptions, Resource } from '../types';
+import { mapResponseStream } from '../responses';
 import { encodeResourceName, promisify, MetadataTransport } from '../utils';
+import { dialDirectOver } from '../app/viam-transport';
+import { summarizeRTCStats, type ConnectionStats } from './connection-stats';
+import type { DialMethod } from './dial';
 import GRPCConnectionManager from './grpc-connection-manager';
+import {
+  defaultReconnectPolicy,
+  reconnectDelay,
+  waitToReconnect,
+  type ReconnectAttempt,
+  type ReconnectFailure,
+  type ReconnectPolicy,
+} from './reconnect-policy';
+import {
+  getResourceClient,
+  resourceAPI,
+  type SubtypeClient,
+} from './resource-registry';
 import type { Robot, RobotStatusStream } from './robot';
-import SessionManager from './session-manager';
+import { FrameSystem } from './frame-system';
+import { OperationTracker, type OperationHandle } from './operations';
+import SessionManager, { type HeartbeatOptions } from './session-manager';
 
 interface WebRTCOptions {
   enabled: boolean;
@@ -49,15 +81,31 @@ interface WebRTCOptions {
   noReconnect?: boolean;
   reconnectMaxAttempts?: number;
   reconnectMaxWait?: number;
+  reconnectPolicy?: ReconnectPolicy;
+  reconnectAbortSignal?: { abort: boolean };
+  interceptors?: Interceptor[];
+  retryPolicy?: RetryPolicy | false;
+  resourceRefreshInterval?: number;
+  connectionStatsInterval?: number;
+  offlineQueue?: OfflineQueuePolicy | boolean;
 }
 
 interface DirectOptions {
   noReconnect?: boolean;
   reconnectMaxAttempts?: number;
   reconnectMaxWait?: number;
+  reconnectPolicy?: ReconnectPolicy;
+  reconnectAbortSignal?: { abort: boolean };
+  transportFactory?: grpc.TransportFactory;
+  httpTransportFactory?: grpc.TransportFactory;
+  interceptors?: Interceptor[];
+  retryPolicy?: RetryPolicy | false;
+  resourceRefreshInterval?: number;
+  connectionStatsInterval?: number;
+  offlineQueue?: OfflineQueuePolicy | boolean;
 }
 
-interface SessionOptions {
+interface SessionOptions extends HeartbeatOptions {
   disabled: boolean;
 }
 
@@ -95,6 +143,35 @@ export class RobotClient extends EventDispatcher implements Robot {
 
   private transportFactory: grpc.TransportFactory | undefined;
 
+  private readonly interceptors: Interceptor[];
+
+  private readonly operationTracker: OperationTracker;
+
+  /**
+   * Retry read-only calls, and calls made with `retry: true`, that fail with a
+   * transient error using this policy. When `undefined`, only calls made with
+   * `retry: true` are retried, with the default policy.
+   */
+  public retryPolicy: RetryPolicy | undefined;
+
+  private readonly offlineQueue: OfflineQueue | undefined;
+
+  private online = false;
+
+  private resources: Promise<ResourceName.AsObject[]> | undefined;
+
+  private readonly resourceClients = new Map<string, Resource>();
+
+  private knownResources: Map<string, ResourceName.AsObject> | undefined;
+
+  private resourceWatchTimer: ReturnType<typeof setTimeout> | undefined;
+
+  private watchersRunning = false;
+
+  private reconnecting = false;
+
+  private connectionStatsTimer: ReturnType<typeof setTimeout> | undefined;
+
   private connecting: Promise<void> | undefined;
 
   private connectResolve: (() => void) | undefined;
@@ -152,6 +229,26 @@ export class RobotClient extends EventDispatcher implements Robot {
     this.webrtcOptions = webrtcOptions;
     this.directOptions = directOptions;
     this.sessionOptions = sessionOptions;
+    this.operationTracker = new OperationTracker(async (id) =>
+      this.cancelOperation(id)
+    );
+    this.interceptors = [
+      this.operationTracker.interceptor,
+      ...(webrtcOptions?.interceptors ?? directOptions?.interceptors ?? []),
+    ];
+    const retryPolicy =
+      webrtcOptions?.retryPolicy ?? directOptions?.retryPolicy ?? {};
+    this.retryPolicy = retryPolicy === false ? undefined : retryPolicy;
+    const offlineQueue =
+      webrtcOptions?.offlineQueue ?? directOptions?.offlineQueue ?? false;
+    if (offlineQueue !== false) {
+      this.offlineQueue = new OfflineQueue(
+        offlineQueue === true ? {} : offlineQueue,
+        (dropped) => {
+          this.emit(OfflineQueueEvent.COMMAND_DROPPED, dropped);
+        }
+      );
+    }
     this.gRPCConnectionManager = new GRPCConnectionManager(
       serviceHost,
       (opts: grpc.TransportOptions): grpc.Transport => {
@@ -171,8 +268,14 @@ export class RobotClient extends EventDispatcher implements Robot {
           throw new Error(RobotClient.notConnectedYetStr);
         }
         return this.transportFactory(opts);
-      }
+      },
+      sessionOptions
     );
+    for (const eventType of Object.values(SessionEvent)) {
+      this.sessionManager.on(eventType, (args) => {
+        this.emit(eventType, args);
+      });
+    }
 
     // For each connection event type, add a listener to capture that
     // event and re-emit it with the 'connectionstatechange' event
@@ -186,6 +289,22 @@ export class RobotClient extends EventDispatcher implements Robot {
         this.emit('connectionstatechange', { eventType });
       });
     }
+
+    // The machine may have been reconfigured while we were disconnected
+    this.on(MachineConnectionEvent.CONNECTED, () => {
+      this.resources = undefined;
+      this.watchersRunning = true;
+      this.watchResources();
+      this.watchConnectionStats();
+      this.online = true;
+      this.offlineQueue?.flush((opts) => this.connectedTransport(opts));
+    });
+    this.on(MachineConnectionEvent.DISCONNECTED, () => {
+      this.online = false;
+      this.watchersRunning = false;
+      clearTimeout(this.resourceWatchTimer);
+      clearTimeout(this.connectionStatsTimer);
+    });
   }
 
   private onDisconnect(event?: Event) {
@@ -197,32 +316,158 @@ export class RobotClient extends EventDispatcher implements Robot {
 
     // eslint-disable-next-line no-console
     console.debug('Connection closed, will try to reconnect');
-    void backOff(async () => this.connect(), {
-      maxDelay: this.reconnectMaxWait,
-      numOfAttempts: this.reconnectMaxAttempts,
-      retry: (_error, attemptNumber) => {
-        // eslint-disable-next-line no-console
-        console.debug(
-          `Failed to connect, attempt ${attemptNumber} with backoff`
-        );
-        // Always retry the next attempt
-        return true;
-      },
-    })
-      .then(() => {
-        // eslint-disable-next-line no-console
-        console.debug('Reconnected successfully!');
-      })
-      .catch(() => {
-        // eslint-disable-next-line no-console
-        console.debug(`Reached max attempts: ${this.reconnectMaxAttempts}`);
-      });
+    void this.reconnect();
+  }
+
+  /**
+   * Try to connect again under the reconnect policy, emitting 'reconnecting'
+   * before each attempt and 'reconnectfailed' when giving up.
+   */
+  private async reconnect() {
+    if (this.reconnecting) {
+      return;
+    }
+    this.reconnecting = true;
+
+    const policy = this.reconnectPolicy;
+    const maxAttempts =
+      policy.maxAttempts ?? defaultReconnectPolicy.maxAttempts;
+    let attempts = 0;
+    let lastError: unknown;
+    try {
+      while (attempts < maxAttempts && !this.isReconnectAborted()) {
+        attempts += 1;
+        const delayMs = reconnectDelay(policy, attempts);
+        const attempt: ReconnectAttempt = {
+          attempt: attempts,
+          maxAttempts,
+          delayMs,
+        };
+        this.emit(ReconnectEvent.RECONNECTING, attempt);
+
+        // eslint-disable-next-line no-await-in-loop
+        await waitToReconnect(delayMs, policy.signal);
+        if (this.isReconnectAborted()) {
+          break;
+        }
+        try {
+          // eslint-disable-next-line no-await-in-loop
+          await this.connect();
+          // eslint-disable-next-line no-console
+          console.debug('Reconnected successfully!');
+          return;
+        } catch (error) {
+          lastError = error;
+          // eslint-disable-next-line no-console
+          console.debug(`Failed to connect, attempt ${attempts} with backoff`);
+        }
+      }
+    } finally {
+      this.reconnecting = false;
+    }
+
+    // eslint-disable-next-line no-console
+    console.debug(`Stopped reconnecting after ${attempts} attempts`);
+    const failure: ReconnectFailure = {
+      attempts,
+      aborted: this.isReconnectAborted(),
+      error: lastError,
+    };
+    this.emit(ReconnectEvent.RECONNECT_FAILED, failure);
+  }
+
+  private get resourceRefreshInterval() {
+    return (
+      this.webrtcOptions?.resourceRefreshInterval ??
+      this.directOptions?.resourceRefreshInterval ??
+      5000
+    );
+  }
+
+  /**
+   * Refresh the list of resources on an interval while connected, so that
+   * resource change events are emitted when the machine is reconfigured. The
+   * list is only fetched while something listens for those events.
+   */
+  private watchResources() {
+    clearTimeout(this.resourceWatchTimer);
+    if (this.resourceRefreshInterval <= 0) {
+      return;
+    }
+    this.resourceWatchTimer = setTimeout(async () => {
+      const listening = Object.values(ResourceChangeEvent).some(
+        (type) => (this.listeners[type]?.size ?? 0) > 0
+      );
+      if (listening) {
+        try {
+          await this.refreshResources();
+        } catch (error) {
+          // eslint-disable-next-line no-console
+          console.debug('Failed to refresh resources', error);
+        }
+      }
+      if (this.watchersRunning) {
+        this.watchResources();
+      }
+    }, this.resourceRefreshInterval);
+  }
+
+  private get connectionStatsInterval() {
+    return (
+      this.webrtcOptions?.connectionStatsInterval ??
+      this.directOptions?.connectionStatsInterval ??
+      1000
+    );
+  }
+
+  /**
+   * Emit a 'connectionstats' event on an interval while connected. Stats are
+   * only gathered while something listens for the event.
+   */
+  private watchConnectionStats() {
+    clearTimeout(this.connectionStatsTimer);
+    if (this.connectionStatsInterval <= 0) {
+      return;
+    }
+    this.connectionStatsTimer = setTimeout(async () => {
+      if ((this.listeners.connectionstats?.size ?? 0) > 0) {
+        try {
+          this.emit('connectionstats', await this.getConnectionStats());
+        } catch (error) {
+          // eslint-disable-next-line no-console
+          console.debug('Failed to get connection stats', error);
+        }
+      }
+      if (this.watchersRunning) {
+        this.watchConnectionStats();
+      }
+    }, this.connectionStatsInterval);
   }
 
   private get noReconnect() {
     return this.webrtcOptions?.noReconnect ?? this.directOptions?.noReconnect;
   }
 
+  private get reconnectPolicy(): ReconnectPolicy {
+    return {
+      maxAttempts: this.reconnectMaxAttempts,
+      maxDelay: this.reconnectMaxWait,
+      ...(this.webrtcOptions?.reconnectPolicy ??
+        this.directOptions?.reconnectPolicy),
+    };
+  }
+
+  /** Whether the caller has asked to stop reconnecting. */
+  private isReconnectAborted() {
+    const abortSignal =
+      this.webrtcOptions?.reconnectAbortSignal ??
+      this.directOptions?.reconnectAbortSignal;
+    return (
+      Boolean(abortSignal?.abort) ||
+      Boolean(this.reconnectPolicy.signal?.aborted)
+    );
+  }
+
   private get reconnectMaxAttempts() {
     return (
       this.webrtcOptions?.reconnectMaxAttempts ??
@@ -372,15 +617,57 @@ export class RobotClient extends EventDispatcher implements Robot {
   createServiceClient<T extends ServiceClient>(
     SC: new (serviceHost: string, options?: grpc.RpcOptions) => T
   ): T {
-    const clientTransportFactory = this.sessionOptions?.disabled
+    const grpcOptions = {
+      transport: interceptTransportFactory(
+        retryTransportFactory(
+          (opts) => this.connectedTransport(opts),
+          () => this.retryPolicy
+        ),
+        this.interceptors
+      ),
+    };
+    return new SC(this.serviceHost, grpcOptions);
+  }
+
+  /**
+   * Create a transport on the current connection. Resource clients look it up
+   * for each call so that calls made after a reconnect, including retries, use
+   * the new connection. While disconnected, commands are held by the offline
+   * queue if there is one.
+   */
+  private connectedTransport(opts: grpc.TransportOptions) {
+    if (this.offlineQueue && !this.online && this.offlineQueue.accepts(opts)) {
+      return this.offlineQueue.transport(opts);
+    }
+    const tf = this.sessionOptions?.disabled
       ? this.transportFactory
       : this.sessionManager.transportFactory;
-
-    if (!clientTransportFactory) {
+    if (!tf) {
       throw new Error(RobotClient.notConnectedYetStr);
     }
-    const grpcOptions = { transport: clientTransportFactory };
-    return new SC(this.serviceHost, grpcOptions);
+    return tf(opts);
+  }
+
+  /**
+   * Add an interceptor that runs around every call made by this client and the
+   * resource clients created from it, including ones created before it was
+   * added. Interceptors run in the order they were added.
+   *
+   * @returns A function that removes the interceptor.
+   */
+  use(interceptor: Interceptor) {
+    this.interceptors.push(interceptor);
+    return () => {
+      const index = this.interceptors.indexOf(interceptor);
+      if (index !== -1) {
+        this.interceptors.splice(index, 1);
+      }
+    };
+  }
+
+  /** Whether the client connects over WebRTC or directly with gRPC. */
+  get dialMethod(): DialMethod {
+    return this.webrtcOptions?.enabled ? 'webrtc' : 'direct';
   }
 
   get peerConnection() {
@@ -402,8 +689,26 @@ export class RobotClient extends EventDispatcher implements Robot {
     this.emit(MachineConnectionEvent.DISCONNECTED, {});
   }
 
+  async getConnectionStats(): Promise<ConnectionStats> {
+    if (this.peerConn) {
+      return summarizeRTCStats(await this.peerConn.getStats());
+    }
+    if (!this.transportFactory) {
+      throw new Error(RobotClient.notConnectedYetStr);
+    }
+    return {
+      transport: 'direct',
+      rttMs: this.gRPCConnectionManager.lastHeartbeatLatencyMs,
+      videoTracks: [],
+    };
+  }
+
   public isConnected(): boolean {
-    return this.peerConn?.iceConnectionState === 'connected';
+    if (this.peerConn) {
+      return this.peerConn.iceConnectionState === 'connected';
+    }
+    // Direct connections have no peer connection to ask
+    return this.online;
   }
 
   // TODO(RSDK-7672): refactor due to cognitive complexity
@@ -521,7 +826,12 @@ export class RobotClient extends EventDispatcher implements Robot {
           this.emit('track', event);
         });
       } else {
-        this.transportFactory = await dialDirect(this.serviceHost, opts);
+        const httpTransportFactory = this.directOptions?.httpTransportFactory;
+        this.transportFactory =
+          this.directOptions?.transportFactory ??
+          (httpTransportFactory
+            ? await dialDirectOver(this.serviceHost, httpTransportFactory, opts)
+            : await dialDirect(this.serviceHost, opts));
         await this.gRPCConnectionManager.start();
       }
 
@@ -534,7 +844,10 @@ export class RobotClient extends EventDispatcher implements Robot {
         // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
         return new MetadataTransport(tf!, options);
       };
-      const clientTransportFactory = ctf;
+      const clientTransportFactory = interceptTransportFactory(
+        retryTransportFactory(ctf, () => this.retryPolicy),
+        this.interceptors
+      );
       const grpcOptions = { transport: clientTransportFactory };
 
       this.robotServiceClient = new RobotServiceClient(
@@ -639,7 +952,7 @@ export class RobotClient extends EventDispatcher implements Robot {
     const response = await promisify<
       proto.GetSessionsRequest,
       proto.GetSessionsResponse
-    >(robotService.getSessions.bind(robotService), request);
+    >(robotService.getSessions.bind(robotService), request, {}, 'getSessions');
     return response.getSessionsList().map((session) => session.toObject());
   }
 
@@ -651,7 +964,12 @@ export class RobotClient extends EventDispatcher implements Robot {
     const response = await promisify<
       proto.GetOperationsRequest,
       proto.GetOperationsResponse
-    >(robotService.getOperations.bind(robotService), request);
+    >(
+      robotService.getOperations.bind(robotService),
+      request,
+      {},
+      'getOperations'
+    );
     return response.getOperationsList();
   }
 
@@ -662,7 +980,23 @@ export class RobotClient extends EventDispatcher implements Robot {
     await promisify<
       proto.CancelOperationRequest,
       proto.CancelOperationResponse
-    >(robotService.cancelOperation.bind(robotService), request);
+    >(
+      robotService.cancelOperation.bind(robotService),
+      request,
+      {},
+      'cancelOperation'
+    );
+  }
+
+  trackOperation<T>(
+    call: (callOptions: CallOptions) => Promise<T>,
+    callOptions?: CallOptions
+  ): OperationHandle<T> {
+    return this.operationTracker.track(call, callOptions);
+  }
+
+  getTrackedOperations() {
+    return this.operationTracker.inFlight;
   }
 
   async blockForOperation(id: string) {
@@ -672,7 +1006,12 @@ export class RobotClient extends EventDispatcher implements Robot {
     await promisify<
       proto.BlockForOperationRequest,
       proto.BlockForOperationResponse
-    >(robotService.blockForOperation.bind(robotService), request);
+    >(
+      robotService.blockForOperation.bind(robotService),
+      request,
+      {},
+      'blockForOperation'
+    );
   }
 
   async stopAll() {
@@ -680,7 +1019,9 @@ export class RobotClient extends EventDispatcher implements Robot {
     const request = new proto.StopAllRequest();
     await promisify<proto.StopAllRequest, proto.StopAllResponse>(
       robotService.stopAll.bind(robotService),
-      request
+      request,
+      {},
+      'stopAll'
     );
   }
 
@@ -693,10 +1034,20 @@ export class RobotClient extends EventDispatcher implements Robot {
     const response = await promisify<
       proto.FrameSystemConfigRequest,
       proto.FrameSystemConfigResponse
-    >(robotService.frameSystemConfig.bind(robotService), request);
+    >(
+      robotService.frameSystemConfig.bind(robotService),
+      request,
+      {},
+      'frameSystemConfig'
+    );
     return response.getFrameSystemConfigsList();
   }
 
+  async getFrameSystem(supplementalTransforms: Transform[] = []) {
+    const configs = await this.frameSystemConfig(supplementalTransforms);
+    return new FrameSystem(configs.map((config) => config.toObject()));
+  }
+
   async transformPose(
     source: PoseInFrame,
     destination: string,
@@ -710,7 +1061,12 @@ export class RobotClient extends EventDispatcher implements Robot {
     const response = await promisify<
       proto.TransformPoseRequest,
       proto.TransformPoseResponse
-    >(robotService.transformPose.bind(robotService), request);
+    >(
+      robotService.transformPose.bind(robotService),
+      request,
+      {},
+      'transformPose'
+    );
     const result = response.getPose();
     if (!result) {
       // eslint-disable-next-line no-warning-comments
@@ -733,7 +1089,12 @@ export class RobotClient extends EventDispatcher implements Robot {
     const response = await promisify<
       proto.TransformPCDRequest,
       proto.TransformPCDResponse
-    >(robotService.transformPCD.bind(robotService), request);
+    >(
+      robotService.transformPCD.bind(robotService),
+      request,
+      {},
+      'transformPCD'
+    );
     return response.getPointCloudPcd_asU8();
   }
 
@@ -746,7 +1107,12 @@ export class RobotClient extends EventDispatcher implements Robot {
     const response = await promisify<
       proto.DiscoverComponentsRequest,
       proto.DiscoverComponentsResponse
-    >(robotService.discoverComponents.bind(robotService), request);
+    >(
+      robotService.discoverComponents.bind(robotService),
+      request,
+      {},
+      'discoverComponents'
+    );
     return response.getDiscoveryList();
   }
 
@@ -758,7 +1124,12 @@ export class RobotClient extends EventDispatcher implements Robot {
     const response = await promisify<
       proto.GetCloudMetadataRequest,
       proto.GetCloudMetadataResponse
-    >(robotService.getCloudMetadata.bind(robotService), request);
+    >(
+      robotService.getCloudMetadata.bind(robotService),
+      request,
+      {},
+      'getCloudMetadata'
+    );
     return response.toObject();
   }
 
@@ -770,7 +1141,12 @@ export class RobotClient extends EventDispatcher implements Robot {
     const response = await promisify<
       proto.ResourceNamesRequest,
       proto.ResourceNamesResponse
-    >(robotService.resourceNames.bind(robotService), request);
+    >(
+      robotService.resourceNames.bind(robotService),
+      request,
+      {},
+      'resourceNames'
+    );
     return response.getResourcesList().map((r) => r.toObject());
   }
 
@@ -780,10 +1156,130 @@ export class RobotClient extends EventDispatcher implements Robot {
     const response = await promisify<
       proto.ResourceRPCSubtypesRequest,
       proto.ResourceRPCSubtypesResponse
-    >(robotService.resourceRPCSubtypes.bind(robotService), request);
+    >(
+      robotService.resourceRPCSubtypes.bind(robotService),
+      request,
+      {},
+      'resourceRPCSubtypes'
+    );
     return response.getResourceRpcSubtypesList();
   }
 
+  getResource(name: string | ResourceName.AsObject): Promise<Resource>;
+
+  getResource<S extends string>(
+    name: string | ResourceName.AsObject,
+    subtype: S
+  ): Promise<SubtypeClient<S>>;
+
+  async getResource(
+    name: string | ResourceName.AsObject,
+    subtype?: string
+  ): Promise<Resource> {
+    const resourceName =
+      typeof name === 'string' ? await this.findResource(name, subtype) : name;
+    const api = resourceAPI(resourceName);
+    const key = `${api}/${resourceName.name}`;
+
+    let client = this.resourceClients.get(key);
+    if (!client) {
+      const ResourceClient = getResourceClient(api);
+      if (!ResourceClient) {
+        throw new UnimplementedError(`No client is registered for ${api}`, {
+          resourceName: resourceName.name,
+        });
+      }
+      client = new ResourceClient(this, resourceName.name);
+      this.resourceClients.set(key, client);
+    }
+    return client;
+  }
+
+  async getResourcesBySubtype<S extends string>(
+    subtype: S
+  ): Promise<SubtypeClient<S>[]> {
+    const resourceNames = await this.cachedResourceNames();
+    return Promise.all(
+      resourceNames
+        .filter((resourceName) => resourceName.subtype === subtype)
+        .map(async (resourceName) => this.getResource(resourceName, subtype))
+    );
+  }
+
+  async refreshResources() {
+    this.resources = this.resourceNames();
+    const resourceNames = await this.resources;
+    const current = new Map(
+      resourceNames.map((name) => [`${resourceAPI(name)}/${name.name}`, name])
+    );
+    for (const key of this.resourceClients.keys()) {
+      if (!current.has(key)) {
+        this.resourceClients.delete(key);
+      }
+    }
+
+    // The first list is what later lists are compared with
+    const known = this.knownResources;
+    this.knownResources = current;
+    if (known) {
+      for (const [key, name] of current) {
+        if (!known.has(key)) {
+          this.emit(ResourceChangeEvent.ADDED, name);
+        }
+      }
+      for (const [key, name] of known) {
+        if (!current.has(key)) {
+          this.emit(ResourceChangeEvent.REMOVED, name);
+        }
+      }
+    }
+    return resourceNames;
+  }
+
+  private async cachedResourceNames() {
+    if (!this.resources) {
+      return this.refreshResources();
+    }
+    try {
+      return await this.resources;
+    } catch (error) {
+      this.resources = undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Find a resource by name, refreshing the list of resources once if it is not
+   * found in case the machine was reconfigured.
+   */
+  private async findResource(name: string, subtype?: string) {
+    const matching = (resourceNames: ResourceName.AsObject[]) =>
+      resourceNames.filter(
+        (resourceName) =>
+          resourceName.name === name &&
+          (subtype === undefined || resourceName.subtype === subtype)
+      );
+
+    let found = matching(await this.cachedResourceNames());
+    if (found.length === 0) {
+      found = matching(await this.refreshResources());
+    }
+
+    const [resourceName] = found;
+    if (!resourceName) {
+      throw new NotFoundError(`No resource named ${name} was found`, {
+        resourceName: name,
+      });
+    }
+    if (found.length > 1) {
+      throw new InvalidArgumentError(
+        `More than one resource is named ${name}; pass its subtype`,
+        { resourceName: name }
+      );
+    }
+    return resourceName;
+  }
+
   // STATUS
 
   async getStatus(resourceNames: ResourceName.AsObject[] = []) {
@@ -796,7 +1292,7 @@ export class RobotClient extends EventDispatcher implements Robot {
     const response = await promisify<
       proto.GetStatusRequest,
       proto.GetStatusResponse
-    >(robotService.getStatus.bind(robotService), request);
+    >(robotService.getStatus.bind(robotService), request, {}, 'getStatus');
     return response.getStatusList();
   }
 
@@ -812,18 +1308,10 @@ export class RobotClient extends EventDispatcher implements Robot {
     request.setResourceNamesList(encodedNames);
     request.setEvery(new Duration().setNanos(durationMs * 1e6));
 
-    const statusStream = robotService.streamStatus(request);
-    const stream = new ViamResponseStream<proto.Status[]>(statusStream);
-    statusStream.on('data', (response: proto.StreamStatusResponse) => {
-      stream.emit('data', response.getStatusList());
-    });
-    statusStream.on('status', (status: Status) => {
-      stream.emit('status', status);
-    });
-    statusStream.on('end', (status?: Status) => {
-      stream.emit('end', status);
-    });
-    return stream;
+    return mapResponseStream(
+      robotService.streamStatus(request),
+      (response: proto.StreamStatusResponse) => response.getStatusList()
+    );
   }
 
   // MODULES
@@ -840,7 +1328,9 @@ export class RobotClient extends EventDispatcher implements Robot {
     }
     await promisify<proto.RestartModuleRequest, proto.RestartModuleResponse>(
       robotService.restartModule.bind(robotService),
-      request
+      request,
+      {},
+      'restartModule'
     );
   }
 }
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeRTCStats } from './connection-stats';
+
+const report = (stats: Record<string, unknown>[]) =>
+  new Map(stats.map((stat) => [stat.id, stat])) as unknown as RTCStatsReport;
+
+describe('summarizeRTCStats', () => {
+  it('summarizes the selected candidate pair', () => {
+    const summary = summarizeRTCStats(
+      report([
+        { id: 'T1', type: 'transport', selectedCandidatePairId: 'CP2' },
+        {
+          id: 'CP1',
+          type: 'candidate-pair',
+          localCandidateId: 'L1',
+          remoteCandidateId: 'R1',
+          currentRoundTripTime: 0.5,
+        },
+        {
+          id: 'CP2',
+          type: 'candidate-pair',
+          localCandidateId: 'L2',
+          remoteCandidateId: 'R1',
+          currentRoundTripTime: 0.025,
+          bytesSent: 100,
+          bytesReceived: 2000,
+        },
+        { id: 'L1', type: 'local-candidate', candidateType: 'host' },
+        {
+          id: 'L2',
+          type: 'local-candidate',
+          candidateType: 'relay',
+          protocol: 'udp',
+        },
+        { id: 'R1', type: 'remote-candidate', candidateType: 'srflx' },
+      ])
+    );
+
+    expect(summary).toStrictEqual({
+      transport: 'webrtc',
+      rttMs: 25,
+      bytesSent: 100,
+      bytesReceived: 2000,
+      candidatePair: {
+        localCandidateType: 'relay',
+        remoteCandidateType: 'srflx',
+        protocol: 'udp',
+        relayed: true,
+      },
+      videoTracks: [],
+    });
+  });
+
+  it('falls back to the nominated candidate pair', () => {
+    const summary = summarizeRTCStats(
+      report([
+        {
+          id: 'CP1',
+          type: 'candidate-pair',
+          localCandidateId: 'L1',
+          remoteCandidateId: 'R1',
+          nominated: true,
+          state: 'succeeded',
+          currentRoundTripTime: 0.01,
+        },
+        { id: 'L1', type: 'local-candidate', candidateType: 'host' },
+        { id: 'R1', type: 'remote-candidate', candidateType: 'host' },
+      ])
+    );
+
+    expect(summary.rttMs).toBe(10);
+    expect(summary.candidatePair?.relayed).toBe(false);
+  });
+
+  it('summarizes packet loss and video tracks', () => {
+    const summary = summarizeRTCStats(
+      report([
+        {
+          id: 'IV1',
+          type: 'inbound-rtp',
+          kind: 'video',
+          trackIdentifier: 'camera',
+          framesPerSecond: 30,
+          frameWidth: 640,
+          frameHeight: 480,
+          packetsReceived: 90,
+          packetsLost: 10,
+          jitter: 0.002,
+        },
+        {
+          id: 'IA1',
+          type: 'inbound-rtp',
+          kind: 'audio',
+          packetsReceived: 100,
+          packetsLost: 0,
+        },
+      ])
+    );
+
+    expect(summary.packetLoss).toBe(0.05);
+    expect(summary.candidatePair).toBeUndefined();
+    expect(summary.videoTracks).toStrictEqual([
+      {
+        trackIdentifier: 'camera',
+        framesPerSecond: 30,
+        frameWidth: 640,
+        frameHeight: 480,
+        framesReceived: undefined,
+        framesDropped: undefined,
+        packetsReceived: 90,
+        packetsLost: 10,
+        jitterMs: 2,
+        bytesReceived: undefined,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+/** Statistics for a video track received from the machine. */
+export interface VideoTrackStats {
+  /** The id of the `MediaStreamTrack`. */
+  trackIdentifier: string;
+  framesPerSecond?: number;
+  frameWidth?: number;
+  frameHeight?: number;
+  framesReceived?: number;
+  framesDropped?: number;
+  packetsReceived?: number;
+  packetsLost?: number;
+  /** Packet jitter, in milliseconds. */
+  jitterMs?: number;
+  bytesReceived?: number;
+}
+
+/** The pair of ICE candidates that a WebRTC connection is using. */
+export interface CandidatePairStats {
+  /** The candidate type of this end, such as `host`, `srflx` or `relay`. */
+  localCandidateType?: string;
+  /** The candidate type of the machine's end. */
+  remoteCandidateType?: string;
+  /** The transport protocol, `udp` or `tcp`. */
+  protocol?: string;
+  /** Whether traffic goes through a TURN relay on either end. */
+  relayed: boolean;
+}
+
+/** A summary of the health of the connection to a machine. */
+export interface ConnectionStats {
+  /** Whether the connection is over WebRTC or a direct gRPC connection. */
+  transport: 'webrtc' | 'direct';
+  /**
+   * The round trip time, in milliseconds. This is measured over the selected
+   * ICE candidate pair for WebRTC connections, and is the latency of the last
+   * heartbeat for direct connections.
+   */
+  rttMs?: number;
+  /** The fraction, from 0 to 1, of packets from the machine that were lost. */
+  packetLoss?: number;
+  bytesSent?: number;
+  bytesReceived?: number;
+  /** The ICE candidate pair in use, for WebRTC connections. */
+  candidatePair?: CandidatePairStats;
+  /** Statistics for each video track received from the machine. */
+  videoTracks: VideoTrackStats[];
+}
+
+const toMs = (seconds: number | undefined) =>
+  seconds === undefined ? undefined : seconds * 1000;
+
+const findSelectedPair = (stats: RTCStats[]) => {
+  const byId = new Map(stats.map((stat) => [stat.id, stat]));
+  for (const stat of stats) {
+    const { selectedCandidatePairId } = stat as RTCTransportStats;
+    if (stat.type === 'transport' && selectedCandidatePairId) {
+      const pair = byId.get(selectedCandidatePairId);
+      if (pair) {
+        return pair as RTCIceCandidatePairStats;
+      }
+    }
+  }
+
+  // Not every browser reports the selected pair on the transport
+  return stats.find((stat) => {
+    const pair = stat as RTCIceCandidatePairStats;
+    return (
+      stat.type === 'candidate-pair' &&
+      pair.nominated === true &&
+      pair.state === 'succeeded'
+    );
+  }) as RTCIceCandidatePairStats | undefined;
+};
+
+interface CandidateStats extends RTCStats {
+  candidateType?: string;
+  protocol?: string;
+}
+
+/**
+ * Summarize the report from `RTCPeerConnection.getStats()` for a connection to
+ * a machine.
+ */
+export const summarizeRTCStats = (report: RTCStatsReport): ConnectionStats => {
+  const stats: RTCStats[] = [];
+  // eslint-disable-next-line unicorn/no-array-for-each
+  report.forEach((stat: RTCStats) => {
+    stats.push(stat);
+  });
+
+  const summary: ConnectionStats = { transport: 'webrtc', videoTracks: [] };
+
+  const pair = findSelectedPair(stats);
+  if (pair) {
+    const local = report.get(pair.localCandidateId) as
+      CandidateStats | undefined;
+    const remote = report.get(pair.remoteCandidateId) as
+      CandidateStats | undefined;
+    summary.rttMs = toMs(pair.currentRoundTripTime);
+    summary.bytesSent = pair.bytesSent;
+    summary.bytesReceived = pair.bytesReceived;
+    summary.candidatePair = {
+      localCandidateType: local?.candidateType,
+      remoteCandidateType: remote?.candidateType,
+      protocol: local?.protocol ?? remote?.protocol,
+      relayed:
+        local?.candidateType === 'relay' || remote?.candidateType === 'relay',
+    };
+  }
+
+  let packetsLost = 0;
+  let packetsReceived = 0;
+  for (const stat of stats) {
+    if (stat.type !== 'inbound-rtp') {
+      continue;
+    }
+    const inbound = stat as RTCInboundRtpStreamStats;
+    packetsLost += inbound.packetsLost ?? 0;
+    packetsReceived += inbound.packetsReceived ?? 0;
+    if (inbound.kind === 'video') {
+      summary.videoTracks.push({
+        trackIdentifier: inbound.trackIdentifier,
+        framesPerSecond: inbound.framesPerSecond,
+        frameWidth: inbound.frameWidth,
+        frameHeight: inbound.frameHeight,
+        framesReceived: inbound.framesReceived,
+        framesDropped: inbound.framesDropped,
+        packetsReceived: inbound.packetsReceived,
+        packetsLost: inbound.packetsLost,
+        jitterMs: toMs(inbound.jitter),
+        bytesReceived: inbound.bytesReceived,
+      });
+    }
+  }
+  if (packetsLost + packetsReceived > 0) {
+    summary.packetLoss = packetsLost / (packetsLost + packetsReceived);
+  }
+
+  return summary;
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  dialTargetURL,
+  parseDialTarget,
+  validateDialTarget,
+} from './dial-target';
+
+describe('parseDialTarget', () => {
+  it('parses the scheme, host and port', () => {
+    expect(parseDialTarget('https://10.0.0.4:8080')).toStrictEqual({
+      host: '10.0.0.4',
+      port: 8080,
+      tls: true,
+    });
+    expect(parseDialTarget('http://[fd00::1]')).toStrictEqual({
+      host: 'fd00::1',
+      port: undefined,
+      tls: false,
+    });
+  });
+
+  it('dials a URL without a scheme with http', () => {
+    expect(parseDialTarget('my-robot.local:8080')).toStrictEqual({
+      host: 'my-robot.local',
+      port: 8080,
+      tls: false,
+    });
+  });
+
+  it('rejects other schemes', () => {
+    expect(() => parseDialTarget('ws://my-robot.local')).toThrow(
+      /should be http or https/u
+    );
+  });
+});
+
+describe('validateDialTarget', () => {
+  it('allows TLS to any host', () => {
+    expect(() => {
+      validateDialTarget({ host: 'robot.example.com', port: 443 });
+    }).not.toThrow();
+  });
+
+  it('allows dialing without TLS on this device or with mDNS', () => {
+    for (const host of ['localhost', '127.0.0.1', '::1', 'my-robot.local']) {
+      expect(() => {
+        validateDialTarget({ host, tls: false });
+      }).not.toThrow();
+    }
+  });
+
+  it('requires opting into dialing other hosts without TLS', () => {
+    expect(() => {
+      validateDialTarget({ host: '192.168.1.20', tls: false });
+    }).toThrow(/allowInsecure/u);
+    expect(() => {
+      validateDialTarget({
+        host: '192.168.1.20',
+        tls: false,
+        allowInsecure: true,
+      });
+    }).not.toThrow();
+  });
+
+  it('rejects malformed hosts and ports', () => {
+    expect(() => {
+      validateDialTarget({ host: 'https://robot.example.com' });
+    }).toThrow(/DNS name or IP address/u);
+    expect(() => {
+      validateDialTarget({ host: 'robot.example.com:8080' });
+    }).toThrow(/DNS name or IP address/u);
+    expect(() => {
+      validateDialTarget({ host: 'robot.example.com', port: 70_000 });
+    }).toThrow(/from 1 to 65535/u);
+  });
+});
+
+describe('dialTargetURL', () => {
+  it('builds the URL to call', () => {
+    expect(dialTargetURL({ host: 'robot.example.com' })).toBe(
+      'https://robot.example.com'
+    );
+    expect(dialTargetURL({ host: 'fd00::1', port: 8080, tls: false })).toBe(
+      'http://[fd00::1]:8080'
+    );
+  });
+});
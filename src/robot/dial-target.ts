@@ -0,0 +1,88 @@
+/**
+ * An address to dial a machine at directly with gRPC.
+ *
+ * - `host` is a DNS name or IP address, without a scheme or port.
+ * - `port` defaults to the port of the scheme.
+ * - `tls` dials with `https` when true and `http` when false. Default is true.
+ * - `allowInsecure` must be true to dial without TLS to a host that is not on
+ *   this device or found with mDNS (`.local`), since calls and credentials are
+ *   then sent in the clear.
+ */
+export interface DialTarget {
+  host: string;
+  port?: number;
+  tls?: boolean;
+  allowInsecure?: boolean;
+}
+
+const isLoopbackOrMDNS = (host: string) =>
+  host === 'localhost' ||
+  host.endsWith('.localhost') ||
+  host.endsWith('.local') ||
+  host === '::1' ||
+  /^127(?:\.\d{1,3}){3}$/u.test(host);
+
+/**
+ * Parse a URL such as `https://10.0.0.4:8080` into a target. A URL without a
+ * scheme is dialed with `http`.
+ */
+export const parseDialTarget = (address: string): DialTarget => {
+  const hasScheme = /^[a-z][\d+.a-z-]*:\/\//iu.test(address);
+  let url: URL;
+  try {
+    url = new URL(hasScheme ? address : `http://${address}`);
+  } catch {
+    throw new Error(`cannot dial "${address}" directly, it is not a valid URL`);
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(
+      `cannot dial "${address}" directly, its scheme should be http or https`
+    );
+  }
+
+  return {
+    host: url.hostname.replace(/^\[(?<ip>.*)\]$/u, '$<ip>'),
+    port: url.port ? Number(url.port) : undefined,
+    tls: url.protocol === 'https:',
+  };
+};
+
+/**
+ * Check that a target can be dialed, throwing an error that explains why when
+ * it cannot.
+ */
+export const validateDialTarget = (target: DialTarget) => {
+  const { host, port, tls = true, allowInsecure = false } = target;
+
+  if (
+    !host ||
+    /[\s/?#@]/u.test(host) ||
+    // Only IPv6 addresses contain colons
+    (host.includes(':') && !/^[\d.:a-f]+$/iu.test(host))
+  ) {
+    throw new Error(
+      `cannot dial "${host}" directly, the host should be a DNS name or IP address without a scheme, port or path`
+    );
+  }
+  if (
+    port !== undefined &&
+    (!Number.isInteger(port) || port < 1 || port > 65_535)
+  ) {
+    throw new Error(
+      `cannot dial "${host}" directly, port ${port} should be an integer from 1 to 65535`
+    );
+  }
+  if (!tls && !allowInsecure && !isLoopbackOrMDNS(host)) {
+    throw new Error(
+      `cannot dial "${host}" directly without TLS, use https or set allowInsecure on the target to opt into an insecure connection`
+    );
+  }
+};
+
+/** Get the URL to make calls to a target at. */
+export const dialTargetURL = ({ host, port, tls = true }: DialTarget) => {
+  const hostname = host.includes(':') ? `[${host}]` : host;
+  const url = `${tls ? 'https' : 'http'}://${hostname}`;
+  return port ? `${url}:${port}` : url;
+};
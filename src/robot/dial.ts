@@ -1,25 +1,83 @@
+import type { grpc } from '@improbable-eng/grpc-web';
 import { backOff, type IBackOffOptions } from 'exponential-backoff';
 import { DIAL_TIMEOUT } from '../constants';
+import type { Interceptor } from '../interceptors';
+import type { OfflineQueuePolicy } from '../offline-queue';
+import type { RetryPolicy } from '../retry';
 import { RobotClient } from './client';
+import type { HeartbeatMode } from './session-manager';
+import {
+  reconnectBackOffOptions,
+  type ReconnectPolicy,
+} from './reconnect-policy';
+import {
+  dialTargetURL,
+  parseDialTarget,
+  validateDialTarget,
+  type DialTarget,
+} from './dial-target';
 
 interface Credential {
   type: string;
   payload: string;
 }
 
-/** Options required to dial a robot via gRPC. */
+/**
+ * Options required to dial a robot via gRPC.
+ *
+ * - `host` is a URL such as `https://10.0.0.4:8080`, or a {@link DialTarget}.
+ *   Dialing without TLS is only allowed to hosts on this device or found with
+ *   mDNS, unless the target sets `allowInsecure`.
+ */
 export interface DialDirectConf {
   authEntity?: string;
-  host: string;
+  host: string | DialTarget;
   credential?: Credential;
   disableSessions?: boolean;
   noReconnect?: boolean;
   reconnectMaxAttempts?: number;
   reconnectMaxWait?: number;
+  // how to retry dialing and reconnect after the connection is lost. Its
+  // settings override reconnectMaxAttempts and reconnectMaxWait.
+  reconnectPolicy?: ReconnectPolicy;
+  // @deprecated Use the signal of reconnectPolicy instead.
   reconnectAbortSignal?: { abort: boolean };
   // set timeout in milliseconds for dialing. Default is defined by DIAL_TIMEOUT,
   // and a value of 0 would disable the timeout.
   dialTimeout?: number;
+  // use this transport instead of dialing the host, e.g. a FakeRobot's
+  // transportFactory in tests.
+  transportFactory?: grpc.TransportFactory;
+  // dial the host over this transport instead of browser fetch, such as the
+  // HTTP/2 transport of @viamrobotics/sdk/node.
+  httpTransportFactory?: grpc.TransportFactory;
+  // run these interceptors around every call; more can be added with
+  // RobotClient.use.
+  interceptors?: Interceptor[];
+  // retry read-only calls that fail with a transient error using this policy,
+  // or pass false to only retry calls made with `retry: true`.
+  retryPolicy?: RetryPolicy | false;
+  // check for resources added to or removed from the machine this often, in
+  // milliseconds, while resourceadded or resourceremoved is listened to.
+  // Default is 5000, and 0 disables checking.
+  resourceRefreshInterval?: number;
+  // emit a connectionstats event this often, in milliseconds, while it is
+  // listened to. Default is 1000, and 0 disables the event.
+  connectionStatsInterval?: number;
+  // hold commands such as setPower made while disconnected and send them after
+  // reconnecting, instead of failing them. Pass true for the default policy.
+  // Only calls through resource clients such as MotorClient are held; calls
+  // the robot client makes itself, such as stopAll, and calls through its
+  // service getters fail while disconnected. A commanddropped event is emitted
+  // with each command that is dropped.
+  offlineQueue?: OfflineQueuePolicy | boolean;
+  // send session heartbeats this often, in milliseconds. Default is a fifth of
+  // the heartbeat window the machine asks for, which is also used when this is
+  // not shorter than the window.
+  sessionHeartbeatInterval?: number;
+  // schedule session heartbeats on a Web Worker or with setTimeout in the
+  // page. Default is 'worker'.
+  sessionHeartbeatMode?: HeartbeatMode;
 }
 
 /** Check if a given number is a positive integer */
@@ -27,30 +85,48 @@ const isPosInt = (x: number): boolean => {
   return Boolean(x > 0 && Number.isInteger(x));
 };
 
-/** Check if a url corresponds to a local connection via heuristic */
-const isLocalConnection = (url: string) => url.includes('local');
+/** Check that the host of a conf can be dialed directly. */
+const validateDirectHost = (host: string | DialTarget) => {
+  validateDialTarget(typeof host === 'string' ? parseDialTarget(host) : host);
+};
+
+const sessionOptions = (conf: DialDirectConf | DialWebRTCConf) => ({
+  disabled: conf.disableSessions ?? false,
+  heartbeatInterval: conf.sessionHeartbeatInterval,
+  heartbeatMode: conf.sessionHeartbeatMode,
+});
 
 const dialDirect = async (conf: DialDirectConf): Promise<RobotClient> => {
   // eslint-disable-next-line no-console
   console.debug('dialing via gRPC...');
 
-  if (!isLocalConnection(conf.host)) {
-    throw new Error(
-      `cannot dial "${conf.host}" directly, please use a local url instead.`
-    );
+  if (!conf.transportFactory) {
+    validateDirectHost(conf.host);
   }
+  const host =
+    typeof conf.host === 'string' ? conf.host : dialTargetURL(conf.host);
 
   const clientConf = {
     noReconnect: conf.noReconnect,
     reconnectMaxWait: conf.reconnectMaxWait,
     reconnectMaxAttempts: conf.reconnectMaxAttempts,
+    reconnectPolicy: conf.reconnectPolicy,
+    reconnectAbortSignal: conf.reconnectAbortSignal,
+    transportFactory: conf.transportFactory,
+    httpTransportFactory: conf.httpTransportFactory,
+    interceptors: conf.interceptors,
+    retryPolicy: conf.retryPolicy,
+    resourceRefreshInterval: conf.resourceRefreshInterval,
+    connectionStatsInterval: conf.connectionStatsInterval,
+    offlineQueue: conf.offlineQueue,
   };
 
-  let sessOpts;
-  if (conf.disableSessions) {
-    sessOpts = { disabled: true };
-  }
-  const client = new RobotClient(conf.host, undefined, sessOpts, clientConf);
+  const client = new RobotClient(
+    host,
+    undefined,
+    sessionOptions(conf),
+    clientConf
+  );
 
   let creds;
   if (conf.credential) {
@@ -68,6 +144,33 @@ const dialDirect = async (conf: DialDirectConf): Promise<RobotClient> => {
   return client;
 };
 
+/** A way of connecting to a machine. */
+export type DialMethod = 'webrtc' | 'direct';
+
+/**
+ * How to choose between WebRTC and direct gRPC when dialing a machine.
+ *
+ * - `mode` is 'fallback' to try each method in `order` until one connects, or
+ *   'race' to try them all at once and keep the first to connect. Default is
+ *   'fallback'.
+ * - `order` is the methods to try. Default is ['webrtc', 'direct'].
+ * - `attemptTimeout` is how long, in milliseconds, to wait for each method to
+ *   connect before giving up on it. By default only `dialTimeout` applies.
+ * - `directHost` is the address to dial with direct gRPC, including its scheme,
+ *   e.g. 'https://my-robot.local:8080'. The WebRTC `host` is a name for
+ *   signaling rather than an address, so this is required when `order` includes
+ *   'direct'.
+ *
+ * The method that connected is reported by `RobotClient.dialMethod`. If no
+ * method connects, the error is an `AggregateError` of each method's error.
+ */
+export interface DialStrategy {
+  mode?: 'fallback' | 'race';
+  order?: DialMethod[];
+  attemptTimeout?: number;
+  directHost?: string | DialTarget;
+}
+
 interface ICEServer {
   urls: string;
   username?: string;
@@ -89,15 +192,48 @@ export interface DialWebRTCConf {
   noReconnect?: boolean;
   reconnectMaxAttempts?: number;
   reconnectMaxWait?: number;
+  // how to retry dialing and reconnect after the connection is lost. Its
+  // settings override reconnectMaxAttempts and reconnectMaxWait.
+  reconnectPolicy?: ReconnectPolicy;
+  // @deprecated Use the signal of reconnectPolicy instead.
   reconnectAbortSignal?: { abort: boolean };
   // WebRTC
   signalingAddress: string;
   iceServers?: ICEServer[];
   priority?: number;
+  // try WebRTC and direct gRPC in this way, rather than WebRTC and then direct
+  // gRPC each with their own reconnect backoff.
+  dialStrategy?: DialStrategy;
 
   // set timeout in milliseconds for dialing. Default is defined by DIAL_TIMEOUT,
   // and a value of 0 would disable the timeout.
   dialTimeout?: number;
+  // run these interceptors around every call; more can be added with
+  // RobotClient.use.
+  interceptors?: Interceptor[];
+  // retry read-only calls that fail with a transient error using this policy,
+  // or pass false to only retry calls made with `retry: true`.
+  retryPolicy?: RetryPolicy | false;
+  // check for resources added to or removed from the machine this often, in
+  // milliseconds, while resourceadded or resourceremoved is listened to.
+  // Default is 5000, and 0 disables checking.
+  resourceRefreshInterval?: number;
+  // emit a connectionstats event this often, in milliseconds, while it is
+  // listened to. Default is 1000, and 0 disables the event.
+  connectionStatsInterval?: number;
+  // hold commands such as setPower made while disconnected and send them after
+  // reconnecting, instead of failing them. Pass true for the default policy.
+  // Only calls through resource clients such as MotorClient are held; calls
+  // the robot client makes itself, such as stopAll, and calls through its
+  // service getters fail while disconnected. A commanddropped event is emitted
+  // with each command that is dropped.
+  offlineQueue?: OfflineQueuePolicy | boolean;
+  // send session heartbeats this often, in milliseconds. Default is a fifth of
+  // the heartbeat window the machine asks for.
+  sessionHeartbeatInterval?: number;
+  // schedule session heartbeats on a Web Worker or with setTimeout in the
+  // page. Default is 'worker'.
+  sessionHeartbeatMode?: HeartbeatMode;
 }
 
 const dialWebRTC = async (conf: DialWebRTCConf): Promise<RobotClient> => {
@@ -117,12 +253,15 @@ const dialWebRTC = async (conf: DialWebRTCConf): Promise<RobotClient> => {
     noReconnect: conf.noReconnect,
     reconnectMaxWait: conf.reconnectMaxWait,
     reconnectMaxAttempts: conf.reconnectMaxAttempts,
+    reconnectPolicy: conf.reconnectPolicy,
+    reconnectAbortSignal: conf.reconnectAbortSignal,
+    interceptors: conf.interceptors,
+    retryPolicy: conf.retryPolicy,
+    resourceRefreshInterval: conf.resourceRefreshInterval,
+    connectionStatsInterval: conf.connectionStatsInterval,
+    offlineQueue: conf.offlineQueue,
   };
-  let sessOpts;
-  if (conf.disableSessions) {
-    sessOpts = { disabled: true };
-  }
-  const client = new RobotClient(impliedURL, clientConf, sessOpts);
+  const client = new RobotClient(impliedURL, clientConf, sessionOptions(conf));
 
   let creds;
   if (conf.credential) {
@@ -141,9 +280,125 @@ const dialWebRTC = async (conf: DialWebRTCConf): Promise<RobotClient> => {
   return client;
 };
 
+/**
+ * Dial with a method, giving up after `timeoutMs`. A client that connects after
+ * the timeout is disconnected.
+ */
+const dialWithTimeout = async (
+  dial: () => Promise<RobotClient>,
+  method: DialMethod,
+  timeoutMs?: number
+) => {
+  if (!timeoutMs) {
+    return dial();
+  }
+
+  const attempt = dial();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      reject(new Error(`timed out dialing via ${method} after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([attempt, timedOut]);
+  } catch (error) {
+    attempt.then(
+      async (client) => client.disconnect(),
+      () => undefined
+    );
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const defaultDialOrder: DialMethod[] = ['webrtc', 'direct'];
+
+/** Connect once with each method allowed by the strategy. */
+const dialWithStrategy = async (
+  conf: DialWebRTCConf,
+  strategy: DialStrategy
+): Promise<RobotClient> => {
+  const { directHost } = strategy;
+  const dialMethod = async (method: DialMethod) => {
+    if (method === 'webrtc') {
+      return dialWebRTC(conf);
+    }
+    if (directHost === undefined) {
+      throw new Error(
+        'Dial strategy should have a directHost to dial directly'
+      );
+    }
+    return dialDirect({ ...conf, host: directHost });
+  };
+  const dials = (strategy.order ?? defaultDialOrder).map(
+    (method) => async () =>
+      dialWithTimeout(
+        async () => dialMethod(method),
+        method,
+        strategy.attemptTimeout
+      )
+  );
+
+  if (strategy.mode === 'race') {
+    const attempts = dials.map(async (dial) => dial());
+    const winner = await Promise.any(attempts);
+    for (const attempt of attempts) {
+      attempt.then(
+        async (client) => client !== winner && client.disconnect(),
+        () => undefined
+      );
+    }
+    return winner;
+  }
+
+  const errors: unknown[] = [];
+  for (const dial of dials) {
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      return await dial();
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.debug('Failed to connect, trying the next dial method', error);
+      errors.push(error);
+    }
+  }
+  throw new AggregateError(errors, 'Failed to connect with any dial method');
+};
+
+/** Connect with a dial strategy, retrying with backoff unless disabled. */
+const connectWithStrategy = async (
+  conf: DialWebRTCConf,
+  strategy: DialStrategy,
+  backOffOpts: Partial<IBackOffOptions>
+): Promise<RobotClient> => {
+  if (isAborted(conf)) {
+    throw new Error('Failed to connect to robot');
+  }
+  try {
+    return conf.noReconnect
+      ? await dialWithStrategy(conf, strategy)
+      : await backOff(
+          async () => dialWithStrategy(conf, strategy),
+          backOffOpts
+        );
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.debug('Failed to connect with dial strategy');
+    throw error;
+  }
+};
+
 /** Options required to dial a robot. */
 export type DialConf = DialDirectConf | DialWebRTCConf;
 
+/** Check if the caller has asked to stop dialing. */
+const isAborted = (conf: DialConf) =>
+  Boolean(conf.reconnectAbortSignal?.abort) ||
+  Boolean(conf.reconnectPolicy?.signal?.aborted);
+
 const isDialWebRTCConf = (value: DialConf): value is DialWebRTCConf => {
   const conf = value as DialWebRTCConf;
 
@@ -168,6 +423,9 @@ const isDialWebRTCConf = (value: DialConf): value is DialWebRTCConf => {
  *
  * If `noReconnect` is specified and connecting via WebRTC fails, then this
  * function will automatically re-attempt to connect via gRPC directly.
+ *
+ * If a {@link DialStrategy} is passed as `dialStrategy`, each attempt tries
+ * WebRTC and direct gRPC as it specifies instead.
  */
 export const createRobotClient = async (
   conf: DialConf
@@ -175,19 +433,26 @@ export const createRobotClient = async (
   validateDialConf(conf);
 
   const backOffOpts: Partial<IBackOffOptions> = {
-    maxDelay: conf.reconnectMaxWait,
-    numOfAttempts: conf.reconnectMaxAttempts,
+    ...reconnectBackOffOptions({
+      maxAttempts: conf.reconnectMaxAttempts,
+      maxDelay: conf.reconnectMaxWait,
+      ...conf.reconnectPolicy,
+    }),
     retry: (_error, attemptNumber) => {
       // eslint-disable-next-line no-console
       console.debug(`Failed to connect, attempt ${attemptNumber} with backoff`);
 
       // Abort reconnects if the the caller specifies, otherwise retry
-      return !conf.reconnectAbortSignal?.abort;
+      return !isAborted(conf);
     },
   };
 
+  if (isDialWebRTCConf(conf) && conf.dialStrategy) {
+    return connectWithStrategy(conf, conf.dialStrategy, backOffOpts);
+  }
+
   // Try to dial via WebRTC first.
-  if (isDialWebRTCConf(conf) && !conf.reconnectAbortSignal?.abort) {
+  if (isDialWebRTCConf(conf) && !isAborted(conf)) {
     try {
       return conf.noReconnect
         ? await dialWebRTC(conf)
@@ -198,7 +463,7 @@ export const createRobotClient = async (
     }
   }
 
-  if (!conf.reconnectAbortSignal?.abort) {
+  if (!isAborted(conf)) {
     try {
       return conf.noReconnect
         ? await dialDirect(conf)
@@ -237,4 +502,63 @@ const validateDialConf = (conf: DialConf) => {
       `Value of max reconnect wait (${conf.reconnectMaxWait}) should be a positive integer`
     );
   }
+
+  if (conf.reconnectPolicy) {
+    validateReconnectPolicy(conf.reconnectPolicy);
+  }
+  if (
+    conf.sessionHeartbeatInterval !== undefined &&
+    !(conf.sessionHeartbeatInterval > 0)
+  ) {
+    throw new Error(
+      `Value of session heartbeat interval (${conf.sessionHeartbeatInterval}) should be positive`
+    );
+  }
+
+  if (isDialWebRTCConf(conf)) {
+    if (conf.dialStrategy) {
+      validateDialStrategy(conf.dialStrategy);
+    }
+  } else if (!conf.transportFactory) {
+    validateDirectHost(conf.host);
+  }
+};
+
+const validateReconnectPolicy = ({
+  maxAttempts,
+  multiplier,
+}: ReconnectPolicy) => {
+  if (maxAttempts !== undefined && !isPosInt(maxAttempts)) {
+    throw new Error(
+      `Value of max reconnect attempts (${maxAttempts}) should be a positive integer`
+    );
+  }
+  if (multiplier !== undefined && !(multiplier >= 1)) {
+    throw new Error(
+      `Value of reconnect delay multiplier (${multiplier}) should be at least 1`
+    );
+  }
+};
+
+const validateDialStrategy = ({
+  order = defaultDialOrder,
+  attemptTimeout,
+  directHost,
+}: DialStrategy) => {
+  if (order.length === 0) {
+    throw new Error('Dial strategy order should include a dial method');
+  }
+  if (order.includes('direct')) {
+    if (directHost === undefined) {
+      throw new Error(
+        'Dial strategy should have a directHost to dial directly'
+      );
+    }
+    validateDirectHost(directHost);
+  }
+  if (attemptTimeout && !isPosInt(attemptTimeout)) {
+    throw new Error(
+      `Value of dial attempt timeout (${attemptTimeout}) should be a positive integer`
+    );
+  }
 };
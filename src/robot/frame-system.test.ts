@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { Pose } from '../types';
+import { FrameSystem } from './frame-system';
+
+const pose = (overrides: Partial<Pose>): Pose => ({
+  x: 0,
+  y: 0,
+  z: 0,
+  oX: 0,
+  oY: 0,
+  oZ: 1,
+  theta: 0,
+  ...overrides,
+});
+
+const frame = (name: string, parent: string, offset: Partial<Pose>) => ({
+  frame: {
+    referenceFrame: name,
+    poseInObserverFrame: { referenceFrame: parent, pose: pose(offset) },
+  },
+});
+
+const closeTo = (expected: Pose) =>
+  Object.fromEntries(
+    Object.entries(expected).map(([key, value]) => [
+      key,
+      expect.closeTo(value, 6),
+    ])
+  );
+
+describe('FrameSystem', () => {
+  const frameSystem = new FrameSystem([
+    frame('base', 'world', { x: 100 }),
+    frame('camera', 'base', { z: 50, theta: 90 }),
+    frame('gripper', 'base', { x: -20 }),
+  ]);
+
+  it('lists frames and their parents', () => {
+    expect(frameSystem.frameNames).toStrictEqual(['base', 'camera', 'gripper']);
+    expect(frameSystem.parentOf('camera')).toBe('base');
+  });
+
+  it('transforms a pose into the world frame', () => {
+    const { referenceFrame, pose: result } = frameSystem.transformPose(
+      { referenceFrame: 'camera', pose: pose({ x: 10 }) },
+      'world'
+    );
+    expect(referenceFrame).toBe('world');
+    expect(result).toEqual(closeTo(pose({ x: 100, y: 10, z: 50, theta: 90 })));
+  });
+
+  it('transforms a pose between sibling frames', () => {
+    const { pose: result } = frameSystem.transformPose(
+      { referenceFrame: 'camera', pose: pose({ x: 10 }) },
+      'gripper'
+    );
+    expect(result).toEqual(closeTo(pose({ x: 20, y: 10, z: 50, theta: 90 })));
+  });
+
+  it('fails for frames that are not in the frame system', () => {
+    expect(() => frameSystem.poseInWorld('lidar')).toThrow(
+      'frame "lidar" is not in the frame system'
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import type proto from '../gen/robot/v1/robot_pb';
+import { composePoses, identityPose, invertPose } from '../spatial-math';
+import type { Pose, PoseInFrame } from '../types';
+
+interface Frame {
+  parent: string;
+  /** The pose of the frame in its parent frame. */
+  pose: Pose;
+}
+
+/**
+ * A model of a machine's frame system, built from `frameSystemConfig`, that
+ * transforms poses between frames without calling the machine. Call
+ * `RobotClient.getFrameSystem` again to pick up frames that moved.
+ *
+ * Frames with kinematics, such as arms, are placed at their offset from the
+ * config and do not follow the current joint positions.
+ *
+ * @example
+ *
+ * ```ts
+ * const frameSystem = await robot.getFrameSystem();
+ * const pose = frameSystem.transformPose(
+ *   { referenceFrame: 'camera', pose: { x: 0, y: 0, z: 100, ... } },
+ *   'world'
+ * );
+ * ```
+ */
+export class FrameSystem {
+  static readonly world = 'world';
+
+  private readonly frames = new Map<string, Frame>();
+
+  constructor(configs: proto.FrameSystemConfig.AsObject[]) {
+    for (const { frame } of configs) {
+      if (!frame?.referenceFrame) {
+        continue;
+      }
+      this.frames.set(frame.referenceFrame, {
+        parent: frame.poseInObserverFrame?.referenceFrame ?? FrameSystem.world,
+        pose: frame.poseInObserverFrame?.pose ?? identityPose(),
+      });
+    }
+  }
+
+  /** The names of every frame besides the world frame. */
+  get frameNames() {
+    return [...this.frames.keys()];
+  }
+
+  /** Get the name of the frame a frame is attached to. */
+  parentOf(name: string) {
+    return this.frames.get(name)?.parent;
+  }
+
+  /** Get the pose of a frame in the world frame. */
+  poseInWorld(name: string): Pose {
+    let pose = identityPose();
+    const seen = new Set<string>();
+    let current = name;
+    while (current !== FrameSystem.world) {
+      const frame = this.frames.get(current);
+      if (!frame) {
+        throw new Error(`frame "${current}" is not in the frame system`);
+      }
+      if (seen.has(current)) {
+        throw new Error(`frame "${current}" is its own ancestor`);
+      }
+      seen.add(current);
+      pose = composePoses(frame.pose, pose);
+      current = frame.parent;
+    }
+    return pose;
+  }
+
+  /**
+   * Transform a pose in one frame to the pose it is at in another frame.
+   *
+   * @param source - The pose and the frame it is in
+   * @param destination - The name of the frame to express the pose in
+   */
+  transformPose(source: PoseInFrame, destination: string): PoseInFrame {
+    const inWorld = composePoses(
+      this.poseInWorld(source.referenceFrame),
+      source.pose ?? identityPose()
+    );
+    return {
+      referenceFrame: destination,
+      pose: composePoses(invertPose(this.poseInWorld(destination)), inWorld),
+    };
+  }
+}
@@ -2,15 +2,7 @@ import { grpc } from '@improbable-eng/grpc-web';
 import { RobotServiceClient } from '../gen/robot/v1/robot_pb_service';
 import robotApi from '../gen/robot/v1/robot_pb';
 import { type ServiceError } from '../gen/robot/v1/robot_pb_service';
-
-const timeoutBlob = new Blob(
-  [
-    `self.onmessage = function(e) {
-    setTimeout(() => self.postMessage(""), e.data);
-  };`,
-  ],
-  { type: 'text/javascript' }
-);
+import { createHeartbeatTimer } from './heartbeat-timer';
 
 export default class GRPCConnectionManager {
   private innerTransportFactory: grpc.TransportFactory;
@@ -22,6 +14,9 @@ export default class GRPCConnectionManager {
   private connectReject: ((reason: ServiceError) => void) | undefined;
   private onDisconnect: () => void;
 
+  /** How long the last heartbeat took to complete, in milliseconds. */
+  public lastHeartbeatLatencyMs: number | undefined;
+
   constructor(
     serviceHost: string,
     transportFactory: grpc.TransportFactory,
@@ -37,9 +32,10 @@ export default class GRPCConnectionManager {
   }
 
   public heartbeat() {
-    let worker: Worker | undefined;
+    const schedule = createHeartbeatTimer();
     const doHeartbeat = () => {
       const getOperationsReq = new robotApi.GetOperationsRequest();
+      const sentAt = Date.now();
       this.client.getOperations(
         getOperationsReq,
         new grpc.Metadata(),
@@ -48,26 +44,13 @@ export default class GRPCConnectionManager {
             this.onDisconnect();
             return;
           }
+          this.lastHeartbeatLatencyMs = Date.now() - sentAt;
 
-          if (worker) {
-            worker.postMessage(this.heartbeatIntervalMs);
-          } else {
-            setTimeout(() => doHeartbeat(), this.heartbeatIntervalMs);
-          }
+          schedule(doHeartbeat, this.heartbeatIntervalMs);
         }
       );
     };
 
-    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-    if (window.Worker) {
-      const url = window.URL.createObjectURL(timeoutBlob);
-      worker = new Worker(url);
-      URL.revokeObjectURL(url);
-      worker.onmessage = () => {
-        doHeartbeat();
-      };
-    }
-
     doHeartbeat();
   }
 
@@ -83,6 +66,7 @@ export default class GRPCConnectionManager {
 
     // call heartbeat once at start
     const getOperationsReq = new robotApi.GetOperationsRequest();
+    const sentAt = Date.now();
     this.client.getOperations(
       getOperationsReq,
       new grpc.Metadata(),
@@ -92,6 +76,7 @@ export default class GRPCConnectionManager {
           console.debug('failed to connect');
           return;
         }
+        this.lastHeartbeatLatencyMs = Date.now() - sentAt;
         this.connectResolve?.();
       }
     );
@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHeartbeatTimer } from './heartbeat-timer';
+
+describe('createHeartbeatTimer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('uses timers where there are no web workers', () => {
+    expect(typeof Worker).toBe('undefined');
+    const schedule = createHeartbeatTimer();
+    const heartbeat = vi.fn();
+
+    schedule(heartbeat, 1000);
+    vi.advanceTimersByTime(999);
+    expect(heartbeat).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(heartbeat).toHaveBeenCalledOnce();
+  });
+
+  it('uses timers in the foreground when asked to', () => {
+    const worker = vi.fn();
+    vi.stubGlobal('Worker', worker);
+    try {
+      const schedule = createHeartbeatTimer(false);
+      const heartbeat = vi.fn();
+
+      schedule(heartbeat, 1000);
+      vi.advanceTimersByTime(1000);
+      expect(heartbeat).toHaveBeenCalledOnce();
+      expect(worker).not.toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
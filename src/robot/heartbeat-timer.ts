@@ -0,0 +1,43 @@
+const workerSource = `self.onmessage = function(e) {
+  setTimeout(() => self.postMessage(""), e.data);
+};`;
+
+/**
+ * Create a function that calls back after a delay, for scheduling heartbeats.
+ *
+ * In browsers the delay runs on a Web Worker, whose timers are not throttled
+ * while the page is in the background. Where there are no Web Workers, such as
+ * in Node, or when `useWorker` is false, it uses `setTimeout` and does not keep
+ * the process alive.
+ */
+export const createHeartbeatTimer = (useWorker = true) => {
+  if (
+    !useWorker ||
+    typeof Worker === 'undefined' ||
+    typeof Blob === 'undefined' ||
+    typeof URL.createObjectURL !== 'function'
+  ) {
+    return (callback: () => void, delayMs: number) => {
+      const timer: { unref?: () => void } = setTimeout(callback, delayMs);
+      timer.unref?.();
+    };
+  }
+
+  const url = URL.createObjectURL(
+    new Blob([workerSource], { type: 'text/javascript' })
+  );
+  const worker = new Worker(url);
+  URL.revokeObjectURL(url);
+
+  let pending: (() => void) | undefined;
+  worker.addEventListener('message', () => {
+    const callback = pending;
+    pending = undefined;
+    callback?.();
+  });
+
+  return (callback: () => void, delayMs: number) => {
+    pending = callback;
+    worker.postMessage(delayMs);
+  };
+};
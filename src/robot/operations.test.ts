@@ -0,0 +1,148 @@
+import { describe, expect, it, vi } from 'vitest';
+import { grpc } from '@improbable-eng/grpc-web';
+import { StringValue } from 'google-protobuf/google/protobuf/wrappers_pb';
+import { interceptTransportFactory } from '../interceptors';
+import { FakeServer } from '../testing/fake-server';
+import type { CallOptions } from '../types';
+import { OperationTracker, actuate, operationMetadataKey } from './operations';
+
+const GoFor = {
+  methodName: 'GoFor',
+  service: { serviceName: 'test.v1.TestService' },
+  requestStream: false,
+  responseStream: false,
+  requestType: StringValue,
+  responseType: StringValue,
+};
+
+const setup = () => {
+  const server = new FakeServer();
+  let finish: (() => void) | undefined;
+  server.handle(
+    GoFor,
+    async (request) =>
+      new Promise<StringValue>((resolve) => {
+        finish = () => resolve(request);
+      })
+  );
+
+  const cancelOperation = vi.fn().mockResolvedValue(undefined);
+  const tracker = new OperationTracker(cancelOperation);
+  const transport = interceptTransportFactory(server.transportFactory, [
+    tracker.interceptor,
+  ]);
+
+  const goFor = async ({ metadata }: CallOptions) =>
+    new Promise<grpc.Code>((resolve) => {
+      grpc.invoke(GoFor, {
+        host: 'fake',
+        request: new StringValue(),
+        metadata,
+        transport,
+        onEnd: (code) => resolve(code),
+      });
+    });
+
+  const started = async () =>
+    vi.waitFor(() => {
+      expect(server.requests).toHaveLength(1);
+    });
+
+  return {
+    server,
+    tracker,
+    cancelOperation,
+    goFor,
+    started,
+    finish: () => finish?.(),
+  };
+};
+
+describe('OperationTracker', () => {
+  it('sends the operation ID with the call', async () => {
+    const { server, tracker, goFor, started, finish } = setup();
+
+    const operation = tracker.track(goFor);
+    await started();
+
+    expect(operation.id).toMatch(
+      /^[\da-f]{8}-[\da-f]{4}-4[\da-f]{3}-[89ab][\da-f]{3}-[\da-f]{12}$/u
+    );
+    expect(
+      server.requests[0]?.metadata.get(operationMetadataKey)
+    ).toStrictEqual([operation.id]);
+    expect(operation.method).toBe('GoFor');
+
+    finish();
+    await expect(operation.done).resolves.toBe(grpc.Code.OK);
+  });
+
+  it('makes operation IDs without Web Crypto', async () => {
+    vi.stubGlobal('crypto', undefined);
+    const { tracker, goFor, started, finish } = setup();
+
+    const operation = tracker.track(goFor);
+    vi.unstubAllGlobals();
+    await started();
+
+    expect(operation.id).toMatch(
+      /^[\da-f]{8}-[\da-f]{4}-4[\da-f]{3}-[89ab][\da-f]{3}-[\da-f]{12}$/u
+    );
+    finish();
+    await operation.done;
+  });
+
+  it('lists operations until they finish', async () => {
+    const { tracker, goFor, started, finish } = setup();
+
+    const operation = tracker.track(goFor);
+    await started();
+    expect(tracker.inFlight).toStrictEqual([operation]);
+
+    finish();
+    await operation.done;
+    expect(tracker.inFlight).toStrictEqual([]);
+  });
+
+  it('cancels the operation on the machine', async () => {
+    const { tracker, cancelOperation, goFor, started, finish } = setup();
+
+    const operation = tracker.track(goFor);
+    await started();
+    await operation.cancel();
+
+    expect(cancelOperation).toHaveBeenCalledWith(operation.id);
+    finish();
+    await operation.done;
+  });
+});
+
+describe('actuate', () => {
+  it('starts an operation when the call options ask for one', async () => {
+    const { tracker, goFor, started, finish } = setup();
+    const robot = { trackOperation: tracker.track.bind(tracker) };
+
+    const operation = actuate(robot, goFor, { operation: true });
+    await started();
+
+    const [tracked] = tracker.inFlight;
+    expect(operation).toBe(tracked);
+    finish();
+    await expect(tracked?.done).resolves.toBe(grpc.Code.OK);
+  });
+
+  it('makes the call otherwise', async () => {
+    const { server, tracker, goFor, started, finish } = setup();
+    const robot = { trackOperation: tracker.track.bind(tracker) };
+
+    const done = actuate(robot, goFor, {});
+    await started();
+
+    expect(tracker.inFlight).toStrictEqual([]);
+    expect(
+      server.requests[0]?.metadata.get(operationMetadataKey)
+    ).toStrictEqual([]);
+    finish();
+    await expect(done).resolves.toBe(grpc.Code.OK);
+  });
+});
@@ -0,0 +1,179 @@
+/* eslint-disable max-classes-per-file */
+import type { Interceptor } from '../interceptors';
+import type { CallOptions } from '../types';
+import type { Robot } from './robot';
+
+/** The metadata header a machine reads and reports an operation's ID in. */
+export const operationMetadataKey = 'opid';
+
+/**
+ * A call to a machine that it runs as an operation, such as `goFor` on a motor
+ * or `move` on the motion service.
+ */
+export interface OperationHandle<T = unknown> {
+  /**
+   * The ID of the operation on the machine. The call is sent with an ID that
+   * the machine uses for the operation; if the machine reports another, the
+   * handle takes that one.
+   */
+  readonly id: string;
+
+  /** The method that started the operation, e.g. `GoFor`, once it is sent. */
+  readonly method: string | undefined;
+
+  readonly startedAt: Date;
+
+  /** Settles with the result of the call when the operation finishes. */
+  readonly done: Promise<T>;
+
+  /**
+   * Cancel the operation on the machine. The call then fails with a
+   * `CancelledError`.
+   */
+  cancel(): Promise<void>;
+}
+
+/**
+ * Call options for methods that move a resource, such as `goFor` on a motor.
+ * With `operation: true` the method returns an {@link OperationHandle} instead
+ * of a promise, so the move can be awaited or cancelled on the machine.
+ */
+export interface ActuationCallOptions extends CallOptions {
+  operation?: boolean;
+}
+
+/** Call options that ask a method that moves a resource for a handle. */
+export interface OperationCallOptions extends ActuationCallOptions {
+  operation: true;
+}
+
+/**
+ * Make a call that moves a resource, starting it as an operation tracked by the
+ * robot when its call options ask for one.
+ */
+export const actuate = <T>(
+  robot: Pick<Robot, 'trackOperation'>,
+  call: (callOptions: CallOptions) => Promise<T>,
+  callOptions: ActuationCallOptions = {}
+): OperationHandle<T> | Promise<T> => {
+  const { operation = false, ...rest } = callOptions;
+  return operation ? robot.trackOperation(call, rest) : call(rest);
+};
+
+/**
+ * Fill an array with random bytes. Node 18 has no global Web Crypto, and IDs do
+ * not need to be unguessable, so `Math.random` is used where it is missing.
+ */
+const randomBytes = (length: number) => {
+  const bytes = new Uint8Array(length);
+  if (typeof crypto === 'undefined') {
+    return bytes.map(() => Math.floor(Math.random() * 256));
+  }
+  return crypto.getRandomValues(bytes);
+};
+
+/** Make a random version 4 UUID, as machines expect operation IDs to be. */
+const newOperationId = () => {
+  const bytes = randomBytes(16);
+  /* eslint-disable no-bitwise */
+  bytes[6] = ((bytes[6] ?? 0) & 0x0f) | 0x40;
+  bytes[8] = ((bytes[8] ?? 0) & 0x3f) | 0x80;
+  /* eslint-enable no-bitwise */
+  const hex = [...bytes].map((byte) => byte.toString(16).padStart(2, '0'));
+  return [
+    hex.slice(0, 4),
+    hex.slice(4, 6),
+    hex.slice(6, 8),
+    hex.slice(8, 10),
+    hex.slice(10),
+  ]
+    .map((group) => group.join(''))
+    .join('-');
+};
+
+class TrackedOperation<T> implements OperationHandle<T> {
+  id: string;
+  method: string | undefined;
+  readonly startedAt = new Date();
+  done!: Promise<T>;
+
+  private readonly cancelOperation: (id: string) => Promise<void>;
+
+  constructor(id: string, cancelOperation: (id: string) => Promise<void>) {
+    this.id = id;
+    this.cancelOperation = cancelOperation;
+  }
+
+  async cancel() {
+    return this.cancelOperation(this.id);
+  }
+}
+
+/**
+ * Tracks the operations started by a client, so they can be awaited, cancelled
+ * and listed. Its `interceptor` must run on the client's calls to learn which
+ * method started each operation and the ID the machine gave it.
+ */
+export class OperationTracker {
+  private readonly operations = new Map<string, TrackedOperation<unknown>>();
+  private readonly cancelOperation: (id: string) => Promise<void>;
+
+  constructor(cancelOperation: (id: string) => Promise<void>) {
+    this.cancelOperation = cancelOperation;
+  }
+
+  /** The operations started through `track` that have not finished. */
+  get inFlight(): OperationHandle[] {
+    return [...this.operations.values()];
+  }
+
+  /**
+   * Start a call as a tracked operation.
+   *
+   * @param call - Makes the call with the given call options, e.g.
+   *   `(callOptions) => motor.goFor(60, 10, {}, callOptions)`
+   * @param callOptions - Options to make the call with
+   */
+  track<T>(
+    call: (callOptions: CallOptions) => Promise<T>,
+    callOptions: CallOptions = {}
+  ): OperationHandle<T> {
+    const operation = new TrackedOperation<T>(
+      newOperationId(),
+      this.cancelOperation
+    );
+    this.operations.set(operation.id, operation);
+
+    const finish = () => {
+      this.operations.delete(operation.id);
+    };
+    operation.done = call({
+      ...callOptions,
+      metadata: {
+        ...callOptions.metadata,
+        [operationMetadataKey]: operation.id,
+      },
+    });
+    operation.done.then(finish, finish);
+    return operation;
+  }
+
+  readonly interceptor: Interceptor = (call) => {
+    const [id] = call.metadata.get(operationMetadataKey);
+    const operation = id === undefined ? undefined : this.operations.get(id);
+    if (!operation) {
+      return undefined;
+    }
+    operation.method = call.method;
+    return {
+      headers: (headers) => {
+        const [reported] = headers.get(operationMetadataKey);
+        if (reported && reported !== operation.id) {
+          this.operations.delete(operation.id);
+          operation.id = reported;
+          this.operations.set(reported, operation);
+        }
+      },
+    };
+  };
+}
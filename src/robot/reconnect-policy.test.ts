@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  reconnectBackOffOptions,
+  reconnectDelay,
+  waitToReconnect,
+} from './reconnect-policy';
+
+describe('reconnectDelay', () => {
+  it('reconnects right away on the first attempt', () => {
+    expect(reconnectDelay({ initialDelay: 500 }, 1)).toBe(0);
+  });
+
+  it('grows the delay by the multiplier up to the max', () => {
+    const policy = { initialDelay: 1000, multiplier: 2, maxDelay: 5000 };
+    const delays = [2, 3, 4, 5].map((attempt) =>
+      reconnectDelay(policy, attempt)
+    );
+    expect(delays).toStrictEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('randomizes the delay with full jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.25);
+    expect(reconnectDelay({ initialDelay: 1000, jitter: 'full' }, 3)).toBe(500);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('reconnectBackOffOptions', () => {
+  it('fills in defaults for unset fields', () => {
+    expect(reconnectBackOffOptions({ maxAttempts: 3 })).toStrictEqual({
+      numOfAttempts: 3,
+      startingDelay: 100,
+      maxDelay: Number.POSITIVE_INFINITY,
+      timeMultiple: 2,
+      jitter: 'none',
+    });
+  });
+});
+
+describe('waitToReconnect', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits for the delay', async () => {
+    let done = false;
+    const wait = waitToReconnect(1000).then(() => {
+      done = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await wait;
+    expect(done).toBe(true);
+  });
+
+  it('ends early when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const wait = waitToReconnect(60_000, controller.signal);
+    controller.abort();
+    await expect(wait).resolves.toBeUndefined();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
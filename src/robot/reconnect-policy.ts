@@ -0,0 +1,97 @@
+import type { IBackOffOptions } from 'exponential-backoff';
+
+/**
+ * How to reconnect to a machine after the connection is lost.
+ *
+ * The first attempt is made right away. Later attempts wait `initialDelay`
+ * milliseconds, multiplied by `multiplier` after each failed attempt and capped
+ * at `maxDelay`. With 'full' jitter, each wait is a random time up to that
+ * delay, so many clients do not reconnect at once.
+ */
+export interface ReconnectPolicy {
+  /** How many attempts to make. Default is 10. */
+  maxAttempts?: number;
+
+  /** The delay before the second attempt, in milliseconds. Default is 100. */
+  initialDelay?: number;
+
+  /** The longest delay between attempts, in milliseconds. Default is no limit. */
+  maxDelay?: number;
+
+  /** How much the delay grows after each failed attempt. Default is 2. */
+  multiplier?: number;
+
+  /** Whether to randomize delays. Default is 'none'. */
+  jitter?: IBackOffOptions['jitter'];
+
+  /** Stop reconnecting when this signal is aborted. */
+  signal?: AbortSignal;
+}
+
+/** Details of a reconnect attempt, emitted with a 'reconnecting' event. */
+export interface ReconnectAttempt {
+  /** The number of this attempt, starting at 1. */
+  attempt: number;
+  maxAttempts: number;
+  /** How long until this attempt is made, in milliseconds. */
+  delayMs: number;
+}
+
+/** Details of giving up on reconnecting, emitted with 'reconnectfailed'. */
+export interface ReconnectFailure {
+  attempts: number;
+  /** Whether reconnecting stopped because the policy's signal was aborted. */
+  aborted: boolean;
+  /** The error from the last attempt, if one was made. */
+  error?: unknown;
+}
+
+export const defaultReconnectPolicy = {
+  maxAttempts: 10,
+  initialDelay: 100,
+  maxDelay: Number.POSITIVE_INFINITY,
+  multiplier: 2,
+  jitter: 'none',
+} satisfies ReconnectPolicy;
+
+/** Get how long to wait before an attempt, counting attempts from 1. */
+export const reconnectDelay = (policy: ReconnectPolicy, attempt: number) => {
+  if (attempt <= 1) {
+    return 0;
+  }
+  const {
+    initialDelay = defaultReconnectPolicy.initialDelay,
+    maxDelay = defaultReconnectPolicy.maxDelay,
+    multiplier = defaultReconnectPolicy.multiplier,
+    jitter = defaultReconnectPolicy.jitter,
+  } = policy;
+  const delay = Math.min(initialDelay * multiplier ** (attempt - 2), maxDelay);
+  return jitter === 'full' ? Math.round(Math.random() * delay) : delay;
+};
+
+/** Get the options to retry the first dial with `backOff` under a policy. */
+export const reconnectBackOffOptions = (
+  policy: ReconnectPolicy
+): Partial<IBackOffOptions> => ({
+  numOfAttempts: policy.maxAttempts ?? defaultReconnectPolicy.maxAttempts,
+  startingDelay: policy.initialDelay ?? defaultReconnectPolicy.initialDelay,
+  maxDelay: policy.maxDelay ?? defaultReconnectPolicy.maxDelay,
+  timeMultiple: policy.multiplier ?? defaultReconnectPolicy.multiplier,
+  jitter: policy.jitter ?? defaultReconnectPolicy.jitter,
+});
+
+/** Wait for a delay, ending early if the signal is aborted. */
+export const waitToReconnect = async (delayMs: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, delayMs);
+    signal?.addEventListener('abort', done);
+  });
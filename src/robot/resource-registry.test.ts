@@ -0,0 +1,107 @@
+// @vitest-environment happy-dom
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BoardClient } from '../components/board';
+import { GenericClient } from '../components/generic';
+import { MotorClient } from '../components/motor';
+import { NotFoundError, UnimplementedError } from '../errors';
+import { ResourceChangeEvent } from '../events';
+import { FakeRobot } from '../testing/fake-robot';
+import { createRobotClient, type RobotClient } from '../robot';
+import type { ResourceName } from '../types';
+import { registerResourceClient } from './resource-registry';
+
+describe('resource registry', () => {
+  let fake: FakeRobot;
+  let robot: RobotClient;
+
+  beforeEach(async () => {
+    fake = new FakeRobot();
+    fake.addMotor('left');
+    fake.addMotor('right');
+    fake.addBoard('board');
+    robot = await createRobotClient({
+      host: 'fake.local',
+      transportFactory: fake.transportFactory,
+      disableSessions: true,
+      noReconnect: true,
+      resourceRefreshInterval: 10,
+    });
+  });
+
+  afterEach(async () => {
+    await robot.disconnect();
+  });
+
+  it('creates a typed client for a resource', async () => {
+    const motor = await robot.getResource('left', 'motor');
+    expect(motor).toBeInstanceOf(MotorClient);
+
+    await motor.setPower(0.5);
+    await expect(motor.isPowered()).resolves.toStrictEqual([true, 0.5]);
+    await expect(robot.getResource('left')).resolves.toBe(motor);
+  });
+
+  it('gets all resources of a subtype', async () => {
+    const motors = await robot.getResourcesBySubtype('motor');
+    expect(motors).toHaveLength(2);
+    expect(motors[0]).toBeInstanceOf(MotorClient);
+
+    const [board] = await robot.getResourcesBySubtype('board');
+    expect(board).toBeInstanceOf(BoardClient);
+  });
+
+  it('finds resources added after the list was fetched', async () => {
+    await robot.getResource('left');
+    fake.addMotor('new');
+
+    await expect(robot.getResource('new')).resolves.toBeInstanceOf(MotorClient);
+  });
+
+  it('forgets resources removed from the machine', async () => {
+    await robot.getResource('left');
+    fake.removeResource('motor', 'left');
+    await robot.refreshResources();
+
+    await expect(robot.getResource('left')).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+
+  it('creates registered clients for custom resources', async () => {
+    const gizmo = {
+      namespace: 'acme',
+      type: 'component',
+      subtype: 'gizmo',
+      name: 'gizmo',
+    };
+    await expect(robot.getResource(gizmo)).rejects.toBeInstanceOf(
+      UnimplementedError
+    );
+
+    registerResourceClient('acme:component:gizmo', GenericClient);
+    await expect(robot.getResource(gizmo)).resolves.toBeInstanceOf(
+      GenericClient
+    );
+  });
+
+  it('emits events when resources are added or removed', async () => {
+    const changes: string[] = [];
+    robot.on(ResourceChangeEvent.ADDED, (name) => {
+      changes.push(`added ${(name as ResourceName).name}`);
+    });
+    robot.on(ResourceChangeEvent.REMOVED, (name) => {
+      changes.push(`removed ${(name as ResourceName).name}`);
+    });
+
+    await robot.refreshResources();
+    expect(changes).toStrictEqual([]);
+
+    fake.addMotor('new');
+    fake.removeResource('motor', 'left');
+
+    await vi.waitFor(() => {
+      expect(changes).toStrictEqual(['added new', 'removed left']);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { ArmClient } from '../components/arm';
+import { BaseClient } from '../components/base';
+import { BoardClient } from '../components/board';
+import { CameraClient } from '../components/camera';
+import { EncoderClient } from '../components/encoder';
+import { GantryClient } from '../components/gantry';
+import { GenericClient as GenericComponentClient } from '../components/generic';
+import { GripperClient } from '../components/gripper';
+import { InputControllerClient } from '../components/inputcontroller';
+import { MotorClient } from '../components/motor';
+import { MovementSensorClient } from '../components/movementsensor';
+import { PowerSensorClient } from '../components/powersensor';
+import { SensorClient } from '../components/sensor';
+import { ServoClient } from '../components/servo';
+import { DataManagerClient } from '../services/data-manager';
+import { GenericClient as GenericServiceClient } from '../services/generic';
+import { MotionClient } from '../services/motion';
+import { NavigationClient } from '../services/navigation';
+import { SlamClient } from '../services/slam';
+import { VisionClient } from '../services/vision';
+import type { Options, Resource, ResourceName } from '../types';
+import type { RobotClient } from './client';
+
+/**
+ * The client class used for each built-in resource API, keyed by
+ * `namespace:type:subtype`.
+ */
+export interface ResourceClients {
+  'rdk:component:arm': ArmClient;
+  'rdk:component:base': BaseClient;
+  'rdk:component:board': BoardClient;
+  'rdk:component:camera': CameraClient;
+  'rdk:component:encoder': EncoderClient;
+  'rdk:component:gantry': GantryClient;
+  'rdk:component:generic': GenericComponentClient;
+  'rdk:component:gripper': GripperClient;
+  'rdk:component:input_controller': InputControllerClient;
+  'rdk:component:motor': MotorClient;
+  'rdk:component:movement_sensor': MovementSensorClient;
+  'rdk:component:power_sensor': PowerSensorClient;
+  'rdk:component:sensor': SensorClient;
+  'rdk:component:servo': ServoClient;
+  'rdk:service:data_manager': DataManagerClient;
+  'rdk:service:generic': GenericServiceClient;
+  'rdk:service:motion': MotionClient;
+  'rdk:service:navigation': NavigationClient;
+  'rdk:service:slam': SlamClient;
+  'rdk:service:vision': VisionClient;
+}
+
+type ClientsForSubtype<S extends string> = {
+  [A in keyof ResourceClients]: A extends `${string}:${string}:${S}`
+    ? ResourceClients[A]
+    : never;
+}[keyof ResourceClients];
+
+/**
+ * The client type for resources of a subtype, such as `MotorClient` for
+ * `'motor'`. Subtypes without a typed client are a plain {@link Resource}.
+ */
+export type SubtypeClient<S extends string> = [ClientsForSubtype<S>] extends [
+  never,
+]
+  ? Resource
+  : ClientsForSubtype<S>;
+
+/** A client class that can be created for a resource on a robot. */
+export type ResourceClientConstructor = new (
+  client: RobotClient,
+  name: string,
+  options?: Options
+) => Resource;
+
+const registry = new Map<string, ResourceClientConstructor>([
+  ['rdk:component:arm', ArmClient],
+  ['rdk:component:base', BaseClient],
+  ['rdk:component:board', BoardClient],
+  ['rdk:component:camera', CameraClient],
+  ['rdk:component:encoder', EncoderClient],
+  ['rdk:component:gantry', GantryClient],
+  ['rdk:component:generic', GenericComponentClient],
+  ['rdk:component:gripper', GripperClient],
+  ['rdk:component:input_controller', InputControllerClient],
+  ['rdk:component:motor', MotorClient],
+  ['rdk:component:movement_sensor', MovementSensorClient],
+  ['rdk:component:power_sensor', PowerSensorClient],
+  ['rdk:component:sensor', SensorClient],
+  ['rdk:component:servo', ServoClient],
+  ['rdk:service:data_manager', DataManagerClient],
+  ['rdk:service:generic', GenericServiceClient],
+  ['rdk:service:motion', MotionClient],
+  ['rdk:service:navigation', NavigationClient],
+  ['rdk:service:slam', SlamClient],
+  ['rdk:service:vision', VisionClient],
+]);
+
+/** The `namespace:type:subtype` API of a resource. */
+export const resourceAPI = ({ namespace, type, subtype }: ResourceName) =>
+  `${namespace}:${type}:${subtype}`;
+
+/**
+ * Register the client class to create for resources of an API, such as a
+ * modular resource's `acme:component:gizmo`. Replaces any client registered for
+ * the API before.
+ */
+export const registerResourceClient = (
+  api: string,
+  client: ResourceClientConstructor
+) => {
+  registry.set(api, client);
+};
+
+/** Get the client class registered for an API, if any. */
+export const getResourceClient = (api: string) => registry.get(api);
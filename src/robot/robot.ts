@@ -3,12 +3,22 @@ import type {
   ResourceName,
   Transform,
 } from '../gen/common/v1/common_pb';
-import type { StructType } from '../types';
-import { MachineConnectionEvent } from '../events';
+import type { CallOptions, Resource, StructType } from '../types';
+import {
+  MachineConnectionEvent,
+  OfflineQueueEvent,
+  ReconnectEvent,
+  ResourceChangeEvent,
+  SessionEvent,
+} from '../events';
 import type proto from '../gen/robot/v1/robot_pb';
-import type { ResponseStream } from '../gen/robot/v1/robot_pb_service';
+import type { ViamResponseStream } from '../responses';
+import type { SubtypeClient } from './resource-registry';
+import type { ConnectionStats } from './connection-stats';
+import type { FrameSystem } from './frame-system';
+import type { OperationHandle } from './operations';
 
-export type RobotStatusStream = ResponseStream<proto.Status[]>;
+export type RobotStatusStream = ViamResponseStream<proto.Status[]>;
 export type CloudMetadata = proto.GetCloudMetadataResponse.AsObject;
 
 type Callback = (args: unknown) => void;
@@ -39,6 +49,38 @@ export interface Robot {
    */
   cancelOperation(id: string): Promise<void>;
 
+  /**
+   * Make a call that the robot runs as an operation, such as a motor's `goFor`,
+   * and get a handle to await or cancel it with. Methods that move a resource,
+   * such as `goFor`, also return a handle when called with `operation: true`.
+   *
+   * @example
+   *
+   * ```ts
+   * const operation = robot.trackOperation((callOptions) =>
+   *   motor.goFor(60, 10, {}, callOptions)
+   * );
+   * await operation.cancel();
+   * ```
+   *
+   * @param call - Makes the call with the given call options
+   * @param callOptions - Options to make the call with
+   * @group Operations
+   * @alpha
+   */
+  trackOperation<T>(
+    call: (callOptions: CallOptions) => Promise<T>,
+    callOptions?: CallOptions
+  ): OperationHandle<T>;
+
+  /**
+   * Get the operations started with `trackOperation` that have not finished.
+   *
+   * @group Operations
+   * @alpha
+   */
+  getTrackedOperations(): OperationHandle[];
+
   /**
    * Blocks on the specified operation on the robot. This function will only
    * return when the specific operation has finished or has been cancelled.
@@ -68,6 +110,17 @@ export interface Robot {
    */
   frameSystemConfig(transform: Transform[]): Promise<proto.FrameSystemConfig[]>;
 
+  /**
+   * Get a model of the frame system of the robot that transforms poses without
+   * calling the robot. Call again to pick up frames that have moved.
+   *
+   * @param supplementalTransforms - Pose information on any additional
+   *   reference frames to add to the frame system
+   * @group Frame System
+   * @alpha
+   */
+  getFrameSystem(supplementalTransforms?: Transform[]): Promise<FrameSystem>;
+
   /**
    * Transform a given source Pose from the reference frame to a new specified
    * destination which is a reference frame.
@@ -134,6 +187,50 @@ export interface Robot {
    */
   resourceRPCSubtypes(): Promise<proto.ResourceRPCSubtype[]>;
 
+  /**
+   * Get a client for a resource on the robot, created with the client class
+   * registered for its API. Clients are reused between calls.
+   *
+   * @example
+   *
+   * ```ts
+   * const motor = await robot.getResource('left', 'motor');
+   * await motor.setPower(0.5);
+   * ```
+   *
+   * @param name - The name of the resource, or its full resource name.
+   * @param subtype - The subtype of the resource, e.g. `motor`. Pass it to type
+   *   the client, or when resources of different subtypes share a name.
+   * @group Resources
+   * @alpha
+   */
+  getResource(name: string | ResourceName.AsObject): Promise<Resource>;
+  getResource<S extends string>(
+    name: string | ResourceName.AsObject,
+    subtype: S
+  ): Promise<SubtypeClient<S>>;
+
+  /**
+   * Get clients for all resources of a subtype on the robot.
+   *
+   * @param subtype - The subtype of the resources, e.g. `motor`.
+   * @group Resources
+   * @alpha
+   */
+  getResourcesBySubtype<S extends string>(
+    subtype: S
+  ): Promise<SubtypeClient<S>[]>;
+
+  /**
+   * Fetch the list of resources that {@link getResource} looks names up in,
+   * dropping clients of resources that were removed. The list is also refreshed
+   * after reconnecting, and when a resource is not found.
+   *
+   * @group Resources
+   * @alpha
+   */
+  refreshResources(): Promise<ResourceName.AsObject[]>;
+
   /**
    * Get a list of all statuses requested. An empty request signifies all
    * resources.
@@ -159,6 +256,16 @@ export interface Robot {
     durationMs?: number
   ): RobotStatusStream;
 
+  /**
+   * Get a summary of the health of the connection to the machine, such as its
+   * round trip time, packet loss, and whether it goes through a TURN relay.
+   * Direct connections only report the latency of the last heartbeat.
+   *
+   * @group Connection
+   * @alpha
+   */
+  getConnectionStats(): Promise<ConnectionStats>;
+
   /**
    * Call a function when a connection event occurs.
    *
@@ -167,13 +274,38 @@ export interface Robot {
    * event. All connections emit events during manual calls of `connect` and
    * `disconnect`.
    *
-   * @param type - The event MachineConnectionEvent that was triggered, or all
-   *   connection events with 'connectionstatechange'.
+   * A ResourceChangeEvent is emitted with the resource's name when a resource
+   * is added to or removed from the machine. While one is listened to, the list
+   * of resources is checked on the interval set by `resourceRefreshInterval`.
+   *
+   * While connected, 'connectionstats' is emitted with the result of
+   * `getConnectionStats` on the interval set by `connectionStatsInterval`.
+   *
+   * With an `offlineQueue`, an OfflineQueueEvent is emitted with a
+   * `DroppedCommand` when a command held while disconnected is dropped.
+   *
+   * A SessionEvent is emitted when a session starts or expires, and when a
+   * session heartbeat fails.
+   *
+   * A ReconnectEvent is emitted before each attempt to reconnect after the
+   * connection is lost, and when reconnecting is given up.
+   *
+   * @param type - The event MachineConnectionEvent, ResourceChangeEvent,
+   *   SessionEvent, ReconnectEvent or OfflineQueueEvent that was triggered,
+   *   'connectionstats', or all connection events with
+   *   'connectionstatechange'.
    * @param listener - The function to call
    * @alpha
    */
   on: (
-    type: MachineConnectionEvent | 'connectionstatechange',
+    type:
+      | MachineConnectionEvent
+      | ResourceChangeEvent
+      | SessionEvent
+      | OfflineQueueEvent
+      | ReconnectEvent
+      | 'connectionstatechange'
+      | 'connectionstats',
     listener: Callback
   ) => void;
 
@@ -7,6 +7,7 @@ import { grpc } from '@improbable-eng/grpc-web';
 import { RobotServiceClient } from '../gen/robot/v1/robot_pb_service';
 vi.mock('../gen/robot/v1/robot_pb_service');
 
+import { SessionEvent } from '../events';
 import SessionManager from './session-manager';
 
 const host = 'fakeServiceHost';
@@ -180,4 +181,136 @@ describe('SessionManager', () => {
     await expect(sm.getSessionMetadata()).resolves.toStrictEqual(expected);
     expect(sm.sessionID).eq(afterResetSID);
   });
+
+  it('emits an event when a session starts', async () => {
+    RobotServiceClient.prototype.startSession = vi
+      .fn()
+      .mockImplementation((_req, _md, cb) => {
+        cb(null, {
+          getId: () => 'sid1',
+          getHeartbeatWindow: mockGetHeartBeatWindow,
+        });
+      });
+    RobotServiceClient.prototype.sendSessionHeartbeat = vi
+      .fn()
+      .mockImplementation(mockHealthyHeartbeat);
+    const started = vi.fn();
+    sm.on(SessionEvent.STARTED, started);
+
+    await sm.getSessionMetadata();
+
+    expect(started).toHaveBeenCalledWith({
+      sessionId: 'sid1',
+      resumed: false,
+      heartbeatWindowMs: 1000.000_001,
+    });
+  });
+
+  it('expires a session after missing heartbeats for its window', async () => {
+    sm = new SessionManager(host, transport, {
+      heartbeatInterval: 10,
+      heartbeatMode: 'foreground',
+    });
+    RobotServiceClient.prototype.startSession = vi
+      .fn()
+      .mockImplementation((_req, _md, cb) => {
+        cb(null, {
+          getId: () => 'sid1',
+          getHeartbeatWindow: () => ({
+            getSeconds: () => 0,
+            getNanos: () => 0,
+          }),
+        });
+      });
+    RobotServiceClient.prototype.sendSessionHeartbeat = vi
+      .fn()
+      .mockImplementation((_req, _md, cb) => {
+        cb({ code: grpc.Code.Unavailable, message: 'unavailable' }, null);
+      });
+    const missed = vi.fn();
+    const expired = vi.fn();
+    sm.on(SessionEvent.HEARTBEAT_MISSED, missed);
+    sm.on(SessionEvent.EXPIRED, expired);
+
+    await sm.getSessionMetadata();
+
+    expect(missed).toHaveBeenCalledOnce();
+    expect(missed).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: 'sid1', missed: 1 })
+    );
+    expect(expired).toHaveBeenCalledWith({
+      sessionId: 'sid1',
+      reason: 'heartbeat',
+    });
+  });
+
+  it('expires a session the machine rejects', async () => {
+    RobotServiceClient.prototype.startSession = vi
+      .fn()
+      .mockImplementation((_req, _md, cb) => {
+        cb(null, {
+          getId: () => 'sid1',
+          getHeartbeatWindow: mockGetHeartBeatWindow,
+        });
+      });
+    RobotServiceClient.prototype.sendSessionHeartbeat = vi
+      .fn()
+      .mockImplementation(mockHealthyHeartbeat);
+    const expired = vi.fn();
+    sm.on(SessionEvent.EXPIRED, expired);
+
+    await sm.getSessionMetadata();
+    sm.expire();
+
+    expect(expired).toHaveBeenCalledWith({
+      sessionId: 'sid1',
+      reason: 'rejected',
+    });
+  });
+
+  it('stops heartbeats when a session expires', async () => {
+    vi.useFakeTimers();
+    sm = new SessionManager(host, transport, { heartbeatMode: 'foreground' });
+    RobotServiceClient.prototype.startSession = vi
+      .fn()
+      .mockImplementation((_req, _md, cb) => {
+        cb(null, {
+          getId: () => 'sid1',
+          getHeartbeatWindow: mockGetHeartBeatWindow,
+        });
+      });
+    const heartbeat = vi.fn().mockImplementation(mockHealthyHeartbeat);
+    RobotServiceClient.prototype.sendSessionHeartbeat = heartbeat;
+
+    await sm.getSessionMetadata();
+    sm.expire();
+    await vi.advanceTimersByTimeAsync(1000);
+    vi.useRealTimers();
+
+    expect(heartbeat).toHaveBeenCalledOnce();
+  });
+
+  it('heartbeats within the window when the interval is too long', async () => {
+    vi.useFakeTimers();
+    sm = new SessionManager(host, transport, {
+      heartbeatInterval: 5000,
+      heartbeatMode: 'foreground',
+    });
+    RobotServiceClient.prototype.startSession = vi
+      .fn()
+      .mockImplementation((_req, _md, cb) => {
+        cb(null, {
+          getId: () => 'sid1',
+          getHeartbeatWindow: mockGetHeartBeatWindow,
+        });
+      });
+    const heartbeat = vi.fn().mockImplementation(mockHealthyHeartbeat);
+    RobotServiceClient.prototype.sendSessionHeartbeat = heartbeat;
+
+    await sm.getSessionMetadata();
+    await vi.advanceTimersByTimeAsync(900);
+    vi.useRealTimers();
+
+    expect(heartbeat).toHaveBeenCalledTimes(5);
+  });
 });
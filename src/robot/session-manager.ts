@@ -5,25 +5,74 @@ import {
   type ServiceError,
 } from '../gen/robot/v1/robot_pb_service';
 import robotApi from '../gen/robot/v1/robot_pb';
+import { EventDispatcher, SessionEvent } from '../events';
+import { createHeartbeatTimer } from './heartbeat-timer';
 import SessionTransport from './session-transport';
 
-const timeoutBlob = new Blob(
-  [
-    `self.onmessage = function(e) {
-  setTimeout(() => self.postMessage(""), e.data);
-};`,
-  ],
-  { type: 'text/javascript' }
-);
+/**
+ * How heartbeats are scheduled. 'worker' schedules them on a Web Worker, whose
+ * timers are not throttled while the page is in the background. 'foreground'
+ * schedules them with `setTimeout`, for pages that cannot start workers, such
+ * as under a strict Content Security Policy.
+ */
+export type HeartbeatMode = 'worker' | 'foreground';
 
-export default class SessionManager {
+/** How a session with the machine is kept alive. */
+export interface HeartbeatOptions {
+  /**
+   * Milliseconds between heartbeats. Default is a fifth of the heartbeat window
+   * the machine asks for, which is also used when this is not shorter than the
+   * window. The session expires if no heartbeat arrives within the window.
+   */
+  heartbeatInterval?: number;
+
+  /** How heartbeats are scheduled. Default is 'worker'. */
+  heartbeatMode?: HeartbeatMode;
+}
+
+/** Details of a session that started, emitted with 'sessionstarted'. */
+export interface SessionStarted {
+  sessionId: string;
+  /** Whether the machine resumed the previous session. */
+  resumed: boolean;
+  /** How long the session lasts without a heartbeat, in milliseconds. */
+  heartbeatWindowMs: number;
+}
+
+/** Details of a session that expired, emitted with 'sessionexpired'. */
+export interface SessionExpired {
+  sessionId: string;
+  /**
+   * Whether the machine rejected a call because the session expired, or no
+   * heartbeat succeeded within the heartbeat window.
+   */
+  reason: 'rejected' | 'heartbeat';
+}
+
+/** Details of a heartbeat that failed, emitted with 'heartbeatmissed'. */
+export interface HeartbeatMissed {
+  sessionId: string;
+  error: ServiceError;
+  /** How many heartbeats in a row have failed. */
+  missed: number;
+  /** Milliseconds since the last heartbeat that succeeded. */
+  sinceLastMs: number;
+}
+
+export default class SessionManager extends EventDispatcher {
   private readonly innerTransportFactory: grpc.TransportFactory;
+  private readonly heartbeatOptions: HeartbeatOptions;
 
   private client: RobotServiceClient;
 
   private currentSessionID = '';
   private sessionsSupported: boolean | undefined;
-  private heartbeatIntervalMs: number | undefined;
+  private heartbeatWindowMs = 0;
+  private scheduleHeartbeat:
+    ReturnType<typeof createHeartbeatTimer> | undefined;
+
+  // Incremented to stop the heartbeats of a previous session
+  private heartbeatLoop = 0;
 
   private starting: Promise<void> | undefined;
 
@@ -31,8 +80,14 @@ export default class SessionManager {
 
   private startReject: ((reason: ServiceError) => void) | undefined;
 
-  constructor(serviceHost: string, transportFactory: grpc.TransportFactory) {
+  constructor(
+    serviceHost: string,
+    transportFactory: grpc.TransportFactory,
+    heartbeatOptions: HeartbeatOptions = {}
+  ) {
+    super();
     this.innerTransportFactory = transportFactory;
+    this.heartbeatOptions = heartbeatOptions;
     this.client = new RobotServiceClient(serviceHost, {
       transport: transportFactory,
     });
@@ -63,8 +118,30 @@ export default class SessionManager {
     this.sessionsSupported = undefined;
   }
 
-  // Note: maybe support non-worker for foreground presence.
-  private readonly backgroundHeartbeat = true;
+  /**
+   * Reset after the machine rejected a call because the session expired, so the
+   * next call starts a new session.
+   */
+  public expire() {
+    if (this.sessionsSupported && !this.starting) {
+      this.emit(SessionEvent.EXPIRED, {
+        sessionId: this.currentSessionID,
+        reason: 'rejected',
+      } satisfies SessionExpired);
+    }
+    // Stop heartbeating the expired session
+    this.heartbeatLoop += 1;
+    this.reset();
+  }
+
+  private get heartbeatIntervalMs() {
+    const { heartbeatInterval } = this.heartbeatOptions;
+    // The session would expire between heartbeats as far apart as the window
+    return heartbeatInterval !== undefined &&
+      heartbeatInterval < this.heartbeatWindowMs
+      ? heartbeatInterval
+      : this.heartbeatWindowMs / 5;
+  }
 
   private async heartbeat() {
     if (!this.sessionsSupported || this.currentSessionID === '') {
@@ -75,10 +152,22 @@ export default class SessionManager {
       await this.starting;
     }
 
-    let worker: Worker | undefined;
+    this.heartbeatLoop += 1;
+    const loop = this.heartbeatLoop;
+    const sessionId = this.currentSessionID;
+    this.scheduleHeartbeat ??= createHeartbeatTimer(
+      this.heartbeatOptions.heartbeatMode !== 'foreground'
+    );
+    const schedule = this.scheduleHeartbeat;
+    let lastSuccess = Date.now();
+    let missed = 0;
+
     const doHeartbeat = () => {
+      if (loop !== this.heartbeatLoop) {
+        return;
+      }
       const sendHeartbeatReq = new robotApi.SendSessionHeartbeatRequest();
-      sendHeartbeatReq.setId(this.currentSessionID);
+      sendHeartbeatReq.setId(sessionId);
       this.client.sendSessionHeartbeat(
         sendHeartbeatReq,
         new grpc.Metadata(),
@@ -91,30 +180,34 @@ export default class SessionManager {
             this.reset();
             return;
           }
-          // Otherwise we want to continue in case it was just a blip
-          if (worker) {
-            worker.postMessage(this.heartbeatIntervalMs);
+          if (err) {
+            missed += 1;
+            const sinceLastMs = Date.now() - lastSuccess;
+            this.emit(SessionEvent.HEARTBEAT_MISSED, {
+              sessionId,
+              error: err,
+              missed,
+              sinceLastMs,
+            } satisfies HeartbeatMissed);
+            if (sinceLastMs >= this.heartbeatWindowMs) {
+              this.heartbeatLoop += 1;
+              this.emit(SessionEvent.EXPIRED, {
+                sessionId,
+                reason: 'heartbeat',
+              } satisfies SessionExpired);
+              this.reset();
+              return;
+            }
           } else {
-            setTimeout(() => doHeartbeat(), this.heartbeatIntervalMs);
+            missed = 0;
+            lastSuccess = Date.now();
           }
+          // Otherwise we want to continue in case it was just a blip
+          schedule(doHeartbeat, this.heartbeatIntervalMs);
         }
       );
     };
 
-    /*
-     * This lint is correct but it makes our lives easier to refer to a boolean in
-     * case in the future we make this toggleable (e.g. foreground).
-     */
-    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-    if (this.backgroundHeartbeat && window.Worker) {
-      const url = window.URL.createObjectURL(timeoutBlob);
-      worker = new Worker(url);
-      URL.revokeObjectURL(url);
-      worker.onmessage = () => {
-        doHeartbeat();
-      };
-    }
-
     doHeartbeat();
   }
 
@@ -167,13 +260,18 @@ export default class SessionManager {
             });
             return;
           }
+          const resumed = resp.getId() === this.currentSessionID;
           this.sessionsSupported = true;
           this.currentSessionID = resp.getId();
-          this.heartbeatIntervalMs =
-            (heartbeatWindow.getSeconds() * 1e3 +
-              heartbeatWindow.getNanos() / 1e6) /
-            5;
+          this.heartbeatWindowMs =
+            heartbeatWindow.getSeconds() * 1e3 +
+            heartbeatWindow.getNanos() / 1e6;
           this.startResolve?.();
+          this.emit(SessionEvent.STARTED, {
+            sessionId: this.currentSessionID,
+            resumed,
+            heartbeatWindowMs: this.heartbeatWindowMs,
+          } satisfies SessionStarted);
           this.heartbeat();
         }
       );
@@ -23,7 +23,7 @@ export default class SessionTransport implements grpc.Transport {
         err.code === grpc.Code.InvalidArgument.valueOf() &&
         err.grpcMessage === 'SESSION_EXPIRED'
       ) {
-        this.sessionManager.reset();
+        this.sessionManager.expire();
       }
       actualOnEnd(err);
     };
@@ -41,7 +41,7 @@ export default class SessionTransport implements grpc.Transport {
           ? headers.get('grpc-message')
           : undefined;
         if (gMsg && gMsg.length === 1 && gMsg[0] === 'SESSION_EXPIRED') {
-          this.sessionManager.reset();
+          this.sessionManager.expire();
         }
       }
       actualOnHeaders(headers, status);
@@ -3,7 +3,7 @@ import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
 import type { RobotClient } from '../../robot';
 import pb from '../../gen/service/datamanager/v1/data_manager_pb.js';
 import { DataManagerServiceClient } from '../../gen/service/datamanager/v1/data_manager_pb_service.js';
-import type { Options, StructType } from '../../types';
+import type { CallOptions, Options, StructType } from '../../types';
 import { promisify, doCommandFromClient } from '../../utils';
 import type { DataManager } from './data-manager';
 
@@ -22,7 +22,7 @@ export class DataManagerClient implements DataManager {
     return this.client;
   }
 
-  async sync(extra = {}) {
+  async sync(extra = {}, callOptions: CallOptions = {}) {
     const { datamanagerService } = this;
     const request = new pb.SyncRequest();
     request.setName(this.name);
@@ -32,17 +32,23 @@ export class DataManagerClient implements DataManager {
 
     await promisify<pb.SyncRequest, pb.SyncResponse>(
       datamanagerService.sync.bind(datamanagerService),
-      request
+      request,
+      callOptions,
+      'sync'
     );
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { datamanagerService } = this;
     return doCommandFromClient(
       datamanagerService,
       this.name,
       command,
-      this.options
+      this.options,
+      callOptions
     );
   }
 }
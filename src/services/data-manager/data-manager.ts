@@ -1,5 +1,5 @@
-import type { Resource, StructType } from '../../types';
+import type { CallOptions, Resource, StructType } from '../../types';
 
 export interface DataManager extends Resource {
-  sync: (extra?: StructType) => Promise<void>;
+  sync: (extra?: StructType, callOptions?: CallOptions) => Promise<void>;
 }
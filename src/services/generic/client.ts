@@ -1,7 +1,7 @@
-import { RobotClient } from '../../robot';
+import type { RobotClient } from '../../robot';
 import { GenericServiceClient } from '../../gen/service/generic/v1/generic_pb_service';
 import { doCommandFromClient } from '../../utils';
-import type { Options, StructType } from '../../types';
+import type { CallOptions, Options, StructType } from '../../types';
 import type { Generic } from './generic';
 
 /**
@@ -24,8 +24,17 @@ export class GenericClient implements Generic {
     return this.client;
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { service } = this;
-    return doCommandFromClient(service, this.name, command, this.options);
+    return doCommandFromClient(
+      service,
+      this.name,
+      command,
+      this.options,
+      callOptions
+    );
   }
 }
@@ -1,6 +1,12 @@
 import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
 import pb from '../../gen/service/motion/v1/motion_pb';
-import type { RobotClient } from '../../robot';
+import type {
+  ActuationCallOptions,
+  OperationCallOptions,
+  OperationHandle,
+  RobotClient,
+} from '../../robot';
+import { actuate } from '../../robot/operations';
 import { MotionServiceClient } from '../../gen/service/motion/v1/motion_pb_service';
 import {
   promisify,
@@ -15,6 +21,7 @@ import {
   encodeGeometry,
 } from '../../utils';
 import type {
+  CallOptions,
   GeoGeometry,
   GeoPoint,
   Geometry,
@@ -41,11 +48,13 @@ import type { Motion } from './motion';
  */
 export class MotionClient implements Motion {
   private client: MotionServiceClient;
+  private readonly robot: RobotClient;
   private readonly name: string;
   private readonly options: Options;
 
   constructor(client: RobotClient, name: string, options: Options = {}) {
     this.client = client.createServiceClient(MotionServiceClient);
+    this.robot = client;
     this.name = name;
     this.options = options;
   }
@@ -54,35 +63,62 @@ export class MotionClient implements Motion {
     return this.client;
   }
 
-  async move(
+  move(
+    destination: PoseInFrame,
+    componentName: ResourceName,
+    worldState: WorldState | undefined,
+    constraints: Constraints | undefined,
+    extra: StructType | undefined,
+    callOptions: OperationCallOptions
+  ): OperationHandle<boolean>;
+
+  move(
+    destination: PoseInFrame,
+    componentName: ResourceName,
+    worldState?: WorldState,
+    constraints?: Constraints,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<boolean>;
+
+  move(
     destination: PoseInFrame,
     componentName: ResourceName,
     worldState?: WorldState,
     constraints?: Constraints,
-    extra = {}
+    extra = {},
+    callOptions: ActuationCallOptions = {}
   ) {
     const { service } = this;
 
-    const request = new pb.MoveRequest();
-    request.setName(this.name);
-    request.setDestination(encodePoseInFrame(destination));
-    request.setComponentName(encodeResourceName(componentName));
-    if (worldState !== undefined) {
-      request.setWorldState(encodeWorldState(worldState));
-    }
-    if (constraints !== undefined) {
-      request.setConstraints(encodeConstraints(constraints));
-    }
-    request.setExtra(Struct.fromJavaScript(extra));
-
-    this.options.requestLogger?.(request);
-
-    const response = await promisify<pb.MoveRequest, pb.MoveResponse>(
-      service.move.bind(service),
-      request
+    // Build the request in the call so that errors reject rather than throw
+    return actuate(
+      this.robot,
+      async (options) => {
+        const request = new pb.MoveRequest();
+        request.setName(this.name);
+        request.setDestination(encodePoseInFrame(destination));
+        request.setComponentName(encodeResourceName(componentName));
+        if (worldState !== undefined) {
+          request.setWorldState(encodeWorldState(worldState));
+        }
+        if (constraints !== undefined) {
+          request.setConstraints(encodeConstraints(constraints));
+        }
+        request.setExtra(Struct.fromJavaScript(extra));
+
+        this.options.requestLogger?.(request);
+
+        const response = await promisify<pb.MoveRequest, pb.MoveResponse>(
+          service.move.bind(service),
+          request,
+          options,
+          'move'
+        );
+        return response.getSuccess();
+      },
+      callOptions
     );
-
-    return response.getSuccess();
   }
 
   async moveOnMap(
@@ -91,7 +127,8 @@ export class MotionClient implements Motion {
     slamServiceName: ResourceName,
     motionConfig?: MotionConfiguration,
     obstacles?: Geometry[],
-    extra = {}
+    extra = {},
+    callOptions: CallOptions = {}
   ) {
     const { service } = this;
 
@@ -112,7 +149,9 @@ export class MotionClient implements Motion {
 
     const response = await promisify<pb.MoveOnMapRequest, pb.MoveOnMapResponse>(
       service.moveOnMap.bind(service),
-      request
+      request,
+      callOptions,
+      'moveOnMap'
     );
 
     return response.toObject().executionId;
@@ -126,7 +165,8 @@ export class MotionClient implements Motion {
     obstaclesList?: GeoGeometry[],
     motionConfig?: MotionConfiguration,
     boundingRegionsList?: GeoGeometry[],
-    extra = {}
+    extra = {},
+    callOptions: CallOptions = {}
   ) {
     const { service } = this;
 
@@ -156,12 +196,16 @@ export class MotionClient implements Motion {
     const response = await promisify<
       pb.MoveOnGlobeRequest,
       pb.MoveOnGlobeResponse
-    >(service.moveOnGlobe.bind(service), request);
+    >(service.moveOnGlobe.bind(service), request, callOptions, 'moveOnGlobe');
 
     return response.toObject().executionId;
   }
 
-  async stopPlan(componentName: ResourceName, extra = {}) {
+  async stopPlan(
+    componentName: ResourceName,
+    extra = {},
+    callOptions: CallOptions = {}
+  ) {
     const { service } = this;
 
     const request = new pb.StopPlanRequest();
@@ -173,7 +217,9 @@ export class MotionClient implements Motion {
 
     await promisify<pb.StopPlanRequest, pb.StopPlanResponse>(
       service.stopPlan.bind(service),
-      request
+      request,
+      callOptions,
+      'stopPlan'
     );
 
     return null;
@@ -183,7 +229,8 @@ export class MotionClient implements Motion {
     componentName: ResourceName,
     lastPlanOnly?: boolean,
     executionId?: string,
-    extra = {}
+    extra = {},
+    callOptions: CallOptions = {}
   ) {
     const { service } = this;
 
@@ -202,13 +249,19 @@ export class MotionClient implements Motion {
 
     const response = await promisify<pb.GetPlanRequest, pb.GetPlanResponse>(
       service.getPlan.bind(service),
-      request
+      request,
+      callOptions,
+      'getPlan'
     );
 
     return response.toObject();
   }
 
-  async listPlanStatuses(onlyActivePlans?: boolean, extra = {}) {
+  async listPlanStatuses(
+    onlyActivePlans?: boolean,
+    extra = {},
+    callOptions: CallOptions = {}
+  ) {
     const { service } = this;
 
     const request = new pb.ListPlanStatusesRequest();
@@ -223,7 +276,12 @@ export class MotionClient implements Motion {
     const response = await promisify<
       pb.ListPlanStatusesRequest,
       pb.ListPlanStatusesResponse
-    >(service.listPlanStatuses.bind(service), request);
+    >(
+      service.listPlanStatuses.bind(service),
+      request,
+      callOptions,
+      'listPlanStatuses'
+    );
 
     return response.toObject();
   }
@@ -232,7 +290,8 @@ export class MotionClient implements Motion {
     componentName: ResourceName,
     destinationFrame: string,
     supplementalTransforms: Transform[],
-    extra = {}
+    extra = {},
+    callOptions: CallOptions = {}
   ) {
     const { service } = this;
 
@@ -249,7 +308,9 @@ export class MotionClient implements Motion {
 
     const response = await promisify<pb.GetPoseRequest, pb.GetPoseResponse>(
       service.getPose.bind(service),
-      request
+      request,
+      callOptions,
+      'getPose'
     );
 
     const result = response.getPose();
@@ -261,8 +322,17 @@ export class MotionClient implements Motion {
     return result.toObject();
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { service } = this;
-    return doCommandFromClient(service, this.name, command, this.options);
+    return doCommandFromClient(
+      service,
+      this.name,
+      command,
+      this.options,
+      callOptions
+    );
   }
 }
@@ -1,4 +1,5 @@
 import type {
+  CallOptions,
   GeoGeometry,
   Geometry,
   GeoPoint,
@@ -10,6 +11,10 @@ import type {
   Transform,
   WorldState,
 } from '../../types';
+import type {
+  OperationCallOptions,
+  OperationHandle,
+} from '../../robot/operations';
 import type {
   Constraints,
   MotionConfiguration,
@@ -22,6 +27,19 @@ import type {
  * given robot.
  */
 export interface Motion extends Resource {
+  /**
+   * Start `move` as an operation, returning a handle to await or cancel it
+   * with.
+   */
+  move(
+    destination: PoseInFrame,
+    componentName: ResourceName,
+    worldState: WorldState | undefined,
+    constraints: Constraints | undefined,
+    extra: StructType | undefined,
+    callOptions: OperationCallOptions
+  ): OperationHandle<boolean>;
+
   /**
    * Move any component on the robot to a specified destination which can be
    * from the reference frame of any other component on the robot.
@@ -35,13 +53,14 @@ export interface Motion extends Resource {
    *   additional transforms to add to it for the duration of the Move.
    * @param constraints - Constrain the way the robot will move.
    */
-  move: (
+  move(
     destination: PoseInFrame,
     componentName: ResourceName,
     worldState?: WorldState,
     constraints?: Constraints,
-    extra?: StructType
-  ) => Promise<boolean>;
+    extra?: StructType,
+    callOptions?: CallOptions
+  ): Promise<boolean>;
 
   /**
    * Move a component to a `Pose` in respect to the origin of the SLAM map,
@@ -67,7 +86,8 @@ export interface Motion extends Resource {
     slamServiceName: ResourceName,
     motionConfiguration?: MotionConfiguration,
     obstacles?: Geometry[],
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ) => Promise<string>;
 
   /**
@@ -99,7 +119,8 @@ export interface Motion extends Resource {
     obstaclesList?: GeoGeometry[],
     motionConfiguration?: MotionConfiguration,
     boundingRegion?: GeoGeometry[],
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ) => Promise<string>;
 
   /**
@@ -108,7 +129,11 @@ export interface Motion extends Resource {
    *
    * @param componentName - The component to stop
    */
-  stopPlan: (componentName: ResourceName, extra?: StructType) => Promise<null>;
+  stopPlan: (
+    componentName: ResourceName,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ) => Promise<null>;
 
   /**
    * By default: returns the plan history of the most recent `moveOnGlobe()` or
@@ -135,7 +160,8 @@ export interface Motion extends Resource {
     componentName: ResourceName,
     lastPlanOnly?: boolean,
     executionId?: string,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ) => Promise<GetPlanResponse>;
 
   /**
@@ -153,7 +179,8 @@ export interface Motion extends Resource {
    */
   listPlanStatuses: (
     onlyActivePlans?: boolean,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ) => Promise<ListPlanStatusesResponse>;
 
   /**
@@ -170,6 +197,7 @@ export interface Motion extends Resource {
     componentName: ResourceName,
     destinationFrame: string,
     supplementalTransforms: Transform[],
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ) => Promise<PoseInFrame>;
 }
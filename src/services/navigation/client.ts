@@ -1,9 +1,9 @@
 import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
 import pb from '../../gen/service/navigation/v1/navigation_pb';
-import { RobotClient } from '../../robot';
+import type { RobotClient } from '../../robot';
 import { NavigationServiceClient } from '../../gen/service/navigation/v1/navigation_pb_service';
 import { doCommandFromClient, encodeGeoPoint, promisify } from '../../utils';
-import type { GeoPoint, Options, StructType } from '../../types';
+import type { CallOptions, GeoPoint, Options, StructType } from '../../types';
 import { isValidGeoPoint } from '../../types';
 import type { ModeMap } from './types';
 import type { Navigation } from './navigation';
@@ -28,7 +28,7 @@ export class NavigationClient implements Navigation {
     return this.client;
   }
 
-  async getMode(extra = {}) {
+  async getMode(extra = {}, callOptions: CallOptions = {}) {
     const { service } = this;
 
     const request = new pb.GetModeRequest();
@@ -39,13 +39,19 @@ export class NavigationClient implements Navigation {
 
     const response = await promisify<pb.GetModeRequest, pb.GetModeResponse>(
       service.getMode.bind(service),
-      request
+      request,
+      callOptions,
+      'getMode'
     );
 
     return response.getMode();
   }
 
-  async setMode(mode: ModeMap[keyof ModeMap], extra = {}) {
+  async setMode(
+    mode: ModeMap[keyof ModeMap],
+    extra = {},
+    callOptions: CallOptions = {}
+  ) {
     const { service } = this;
 
     const request = new pb.SetModeRequest();
@@ -57,11 +63,13 @@ export class NavigationClient implements Navigation {
 
     await promisify<pb.SetModeRequest, pb.SetModeResponse>(
       service.setMode.bind(service),
-      request
+      request,
+      callOptions,
+      'setMode'
     );
   }
 
-  async getLocation(extra = {}) {
+  async getLocation(extra = {}, callOptions: CallOptions = {}) {
     const { service } = this;
 
     const request = new pb.GetLocationRequest();
@@ -73,7 +81,7 @@ export class NavigationClient implements Navigation {
     const response = await promisify<
       pb.GetLocationRequest,
       pb.GetLocationResponse
-    >(service.getLocation.bind(service), request);
+    >(service.getLocation.bind(service), request, callOptions, 'getLocation');
 
     const result = response.toObject();
     if (!result.location) {
@@ -85,7 +93,7 @@ export class NavigationClient implements Navigation {
     return result;
   }
 
-  async getWayPoints(extra = {}) {
+  async getWayPoints(extra = {}, callOptions: CallOptions = {}) {
     const { service } = this;
 
     const request = new pb.GetWaypointsRequest();
@@ -97,12 +105,16 @@ export class NavigationClient implements Navigation {
     const response = await promisify<
       pb.GetWaypointsRequest,
       pb.GetWaypointsResponse
-    >(service.getWaypoints.bind(service), request);
+    >(service.getWaypoints.bind(service), request, callOptions, 'getWaypoints');
 
     return response.getWaypointsList().map((x) => x.toObject());
   }
 
-  async addWayPoint(location: GeoPoint, extra = {}) {
+  async addWayPoint(
+    location: GeoPoint,
+    extra = {},
+    callOptions: CallOptions = {}
+  ) {
     const { service } = this;
 
     const request = new pb.AddWaypointRequest();
@@ -114,11 +126,13 @@ export class NavigationClient implements Navigation {
 
     await promisify<pb.AddWaypointRequest, pb.AddWaypointResponse>(
       service.addWaypoint.bind(service),
-      request
+      request,
+      callOptions,
+      'addWaypoint'
     );
   }
 
-  async removeWayPoint(id: string, extra = {}) {
+  async removeWayPoint(id: string, extra = {}, callOptions: CallOptions = {}) {
     const { service } = this;
 
     const request = new pb.RemoveWaypointRequest();
@@ -130,11 +144,13 @@ export class NavigationClient implements Navigation {
 
     await promisify<pb.RemoveWaypointRequest, pb.RemoveWaypointResponse>(
       service.removeWaypoint.bind(service),
-      request
+      request,
+      callOptions,
+      'removeWaypoint'
     );
   }
 
-  async getObstacles(extra = {}) {
+  async getObstacles(extra = {}, callOptions: CallOptions = {}) {
     const { service } = this;
 
     const request = new pb.GetObstaclesRequest();
@@ -146,12 +162,12 @@ export class NavigationClient implements Navigation {
     const response = await promisify<
       pb.GetObstaclesRequest,
       pb.GetObstaclesResponse
-    >(service.getObstacles.bind(service), request);
+    >(service.getObstacles.bind(service), request, callOptions, 'getObstacles');
 
     return response.getObstaclesList().map((x) => x.toObject());
   }
 
-  async getPaths(extra = {}) {
+  async getPaths(extra = {}, callOptions: CallOptions = {}) {
     const { service } = this;
 
     const request = new pb.GetPathsRequest();
@@ -162,13 +178,15 @@ export class NavigationClient implements Navigation {
 
     const response = await promisify<pb.GetPathsRequest, pb.GetPathsResponse>(
       service.getPaths.bind(service),
-      request
+      request,
+      callOptions,
+      'getPaths'
     );
 
     return response.getPathsList().map((x) => x.toObject());
   }
 
-  async getProperties() {
+  async getProperties(callOptions: CallOptions = {}) {
     const { service } = this;
 
     const request = new pb.GetPropertiesRequest();
@@ -179,13 +197,27 @@ export class NavigationClient implements Navigation {
     const response = await promisify<
       pb.GetPropertiesRequest,
       pb.GetPropertiesResponse
-    >(service.getProperties.bind(service), request);
+    >(
+      service.getProperties.bind(service),
+      request,
+      callOptions,
+      'getProperties'
+    );
 
     return response.toObject();
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { service } = this;
-    return doCommandFromClient(service, this.name, command, this.options);
+    return doCommandFromClient(
+      service,
+      this.name,
+      command,
+      this.options,
+      callOptions
+    );
   }
 }
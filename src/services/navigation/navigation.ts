@@ -1,4 +1,10 @@
-import type { GeoGeometry, GeoPoint, Resource, StructType } from '../../types';
+import type {
+  CallOptions,
+  GeoGeometry,
+  GeoPoint,
+  Resource,
+  StructType,
+} from '../../types';
 import type {
   ModeMap,
   Waypoint,
@@ -13,20 +19,33 @@ import type {
  */
 export interface Navigation extends Resource {
   /** Get the mode the robot is operating in. */
-  getMode: (extra?: StructType) => Promise<ModeMap[keyof ModeMap]>;
+  getMode: (
+    extra?: StructType,
+    callOptions?: CallOptions
+  ) => Promise<ModeMap[keyof ModeMap]>;
 
   /**
    * Set the mode the robot is operating in.
    *
    * @param mode - The mode for the service to operate in.
    */
-  setMode: (mode: ModeMap[keyof ModeMap], extra?: StructType) => Promise<void>;
+  setMode: (
+    mode: ModeMap[keyof ModeMap],
+    extra?: StructType,
+    callOptions?: CallOptions
+  ) => Promise<void>;
 
   /** Get the current location of the robot. */
-  getLocation: (extra?: StructType) => Promise<NavigationPosition>;
+  getLocation: (
+    extra?: StructType,
+    callOptions?: CallOptions
+  ) => Promise<NavigationPosition>;
 
   /** Get an array of waypoints currently in the service's data storage. */
-  getWayPoints: (extra?: StructType) => Promise<Waypoint[]>;
+  getWayPoints: (
+    extra?: StructType,
+    callOptions?: CallOptions
+  ) => Promise<Waypoint[]>;
 
   /**
    * Add a waypoint to the service's data storage.
@@ -34,7 +53,11 @@ export interface Navigation extends Resource {
    * @param location - The current location of the robot n the navigation
    *   service with latitude and longitude values.
    */
-  addWayPoint: (location: GeoPoint, extra?: StructType) => Promise<void>;
+  addWayPoint: (
+    location: GeoPoint,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ) => Promise<void>;
 
   /**
    * Remove a waypoint from the service's data storage.
@@ -42,14 +65,21 @@ export interface Navigation extends Resource {
    * @param id - The MongoDB ObjectID of the waypoint to remove from the
    *   service's data storage.
    */
-  removeWayPoint: (id: string, extra?: StructType) => Promise<void>;
+  removeWayPoint: (
+    id: string,
+    extra?: StructType,
+    callOptions?: CallOptions
+  ) => Promise<void>;
 
   /** Get a list of obstacles. */
-  getObstacles: (extra?: StructType) => Promise<GeoGeometry[]>;
+  getObstacles: (
+    extra?: StructType,
+    callOptions?: CallOptions
+  ) => Promise<GeoGeometry[]>;
 
   /** Gets the list of paths known to the navigation service. */
-  getPaths: (extra?: StructType) => Promise<Path[]>;
+  getPaths: (extra?: StructType, callOptions?: CallOptions) => Promise<Path[]>;
 
   /** Gets information on the properties of the current navigation service. */
-  getProperties: () => Promise<NavigationProperties>;
+  getProperties: (callOptions?: CallOptions) => Promise<NavigationProperties>;
 }
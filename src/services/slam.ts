@@ -1,3 +1,9 @@
 export type { Slam } from './slam/slam';
-export type { SlamPosition, SlamProperties } from './slam/types';
+export type {
+  SlamPosition,
+  SlamProperties,
+  SlamDownloadProgress,
+  SlamDownloadOptions,
+  PointCloudMapDownloadOptions,
+} from './slam/types';
 export { SlamClient } from './slam/client';
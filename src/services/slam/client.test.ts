@@ -1,17 +1,24 @@
 // @vitest-environment happy-dom
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { grpc } from '@improbable-eng/grpc-web';
 import { SLAMServiceClient } from '../../gen/service/slam/v1/slam_pb_service';
 vi.mock('../../gen/service/slam/v1/slam_pb_service');
 import { type ResponseStream } from '../../gen/robot/v1/robot_pb_service';
 import { RobotClient } from '../../robot';
 vi.mock('../../robot');
 import { EventDispatcher } from '../../events';
+import { CancelledError } from '../../errors';
 import {
   GetInternalStateResponse,
   GetPointCloudMapRequest,
   GetPointCloudMapResponse,
 } from '../../gen/service/slam/v1/slam_pb';
+import {
+  encodePCD,
+  mergePointClouds,
+  type PointCloud,
+} from '../../point-cloud';
 import { SlamClient } from './client';
 
 let slam: SlamClient;
@@ -123,24 +130,26 @@ describe('getPointCloudMap tests', () => {
     const promise1 = slam.getPointCloudMap();
     // @ts-expect-error We need to pass "undefined" as a second argument here, but it gets removed by the linter since omitting an argument is equivalent to passing in "undefined"
     testPcdStream?.emit('end');
-    expect(promise1).rejects.toStrictEqual({
+    expect(promise1).rejects.toMatchObject({
       message: 'Stream ended without a status code',
+      code: grpc.Code.Unknown,
     });
 
     const promise2 = slam.getPointCloudMap();
     testPcdStream?.emit('end', error);
-    expect(promise2).rejects.toStrictEqual({
-      code: 1,
+    expect(promise2).rejects.toBeInstanceOf(CancelledError);
+    expect(promise2).rejects.toMatchObject({
+      code: grpc.Code.Canceled,
       message: 'fake',
-      metadata: undefined,
+      method: 'getPointCloudMap',
     });
 
     const promise3 = slam.getPointCloudMap();
     testPcdStream?.emit('status', error);
-    expect(promise3).rejects.toStrictEqual({
-      code: 1,
+    expect(promise3).rejects.toBeInstanceOf(CancelledError);
+    expect(promise3).rejects.toMatchObject({
+      code: grpc.Code.Canceled,
       message: 'fake',
-      metadata: undefined,
     });
   });
 });
@@ -170,24 +179,121 @@ describe('getInternalState tests', () => {
     const promise1 = slam.getInternalState();
     // @ts-expect-error We need to pass "undefined" as a second argument here, but it gets removed by the linter since omitting an argument is equivalent to passing in "undefined"
     testInternalStream?.emit('end');
-    expect(promise1).rejects.toStrictEqual({
+    expect(promise1).rejects.toMatchObject({
       message: 'Stream ended without a status code',
+      code: grpc.Code.Unknown,
     });
 
     const promise2 = slam.getInternalState();
     testInternalStream?.emit('end', error);
-    expect(promise2).rejects.toStrictEqual({
-      code: 1,
+    expect(promise2).rejects.toBeInstanceOf(CancelledError);
+    expect(promise2).rejects.toMatchObject({
+      code: grpc.Code.Canceled,
       message: 'fake',
-      metadata: undefined,
+      method: 'getInternalState',
     });
 
     const promise3 = slam.getInternalState();
     testInternalStream?.emit('status', error);
-    expect(promise3).rejects.toStrictEqual({
-      code: 1,
+    expect(promise3).rejects.toBeInstanceOf(CancelledError);
+    expect(promise3).rejects.toMatchObject({
+      code: grpc.Code.Canceled,
       message: 'fake',
-      metadata: undefined,
+    });
+  });
+});
+
+describe('downloadPointCloudMap tests', () => {
+  const emitChunks = (chunks: Uint8Array[]) => {
+    for (const chunk of chunks) {
+      const response = new GetPointCloudMapResponse();
+      response.setPointCloudPcdChunk(chunk);
+      testPcdStream?.emit('data', response);
+    }
+    testPcdStream?.emit('end', { code: 0 });
+  };
+
+  it('reports progress as chunks arrive', async () => {
+    const onProgress = vi.fn();
+    const promise = slam.downloadPointCloudMap({ onProgress });
+
+    emitChunks([new Uint8Array([4, 13]), new Uint8Array([16, 25, 36])]);
+
+    await expect(promise).resolves.toStrictEqual(
+      new Uint8Array([4, 13, 16, 25, 36])
+    );
+    expect(onProgress).toHaveBeenCalledTimes(2);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      chunk: new Uint8Array([16, 25, 36]),
+      receivedBytes: 5,
+      totalBytes: undefined,
+    });
+  });
+
+  it('decodes points as chunks arrive', async () => {
+    const map: PointCloud = {
+      size: 2,
+      positions: new Float32Array([1, 2, 3, 4, 5, 6]),
+      colors: undefined,
+      fields: {},
+    };
+    const pcd = encodePCD(map, 'binary');
+    const onProgress = vi.fn();
+    const onPoints = vi.fn<[PointCloud], undefined>();
+    const promise = slam.downloadPointCloudMap({ onProgress, onPoints });
+
+    emitChunks([pcd.subarray(0, -12), pcd.subarray(-12)]);
+
+    await expect(promise).resolves.toStrictEqual(pcd);
+    expect(onPoints).toHaveBeenCalledTimes(2);
+    expect(
+      mergePointClouds(...onPoints.mock.calls.map(([points]) => points))
+    ).toStrictEqual(map);
+    expect(onProgress).toHaveBeenCalledWith(
+      expect.objectContaining({ totalBytes: pcd.length })
+    );
+  });
+
+  it('cancels the download when aborted', async () => {
+    const cancel = vi
+      .spyOn(TestResponseStream.prototype, 'cancel')
+      .mockImplementation(() => undefined);
+    const controller = new AbortController();
+    const promise = slam.downloadPointCloudMap({ signal: controller.signal });
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancelledError);
+    await expect(promise).rejects.toMatchObject({
+      method: 'getPointCloudMap',
+    });
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it('fails when the stream ends with an error', async () => {
+    const promise = slam.downloadPointCloudMap();
+
+    testPcdStream?.emit('end', { code: 1, details: 'fake' });
+
+    await expect(promise).rejects.toBeInstanceOf(CancelledError);
+  });
+});
+
+describe('downloadInternalState tests', () => {
+  it('reports progress as chunks arrive', async () => {
+    const onProgress = vi.fn();
+    const promise = slam.downloadInternalState({ onProgress });
+
+    const response = new GetInternalStateResponse();
+    response.setInternalStateChunk(new Uint8Array([4, 13]));
+    testInternalStream?.emit('data', response);
+    testInternalStream?.emit('end', { code: 0 });
+
+    await expect(promise).resolves.toStrictEqual(new Uint8Array([4, 13]));
+    expect(onProgress).toHaveBeenCalledWith({
+      chunk: new Uint8Array([4, 13]),
+      receivedBytes: 2,
+      totalBytes: undefined,
     });
   });
 });
@@ -1,9 +1,17 @@
 import pb from '../../gen/service/slam/v1/slam_pb';
 import { SLAMServiceClient } from '../../gen/service/slam/v1/slam_pb_service';
-import { RobotClient } from '../../robot';
-import type { Options, StructType } from '../../types';
+import type { ResponseStream } from '../../gen/robot/v1/robot_pb_service';
+import type { RobotClient } from '../../robot';
+import type { CallOptions, Options, StructType } from '../../types';
+import { CancelledError, type ViamErrorOptions } from '../../errors';
+import { PCDStreamDecoder } from '../../point-cloud';
+import { mapResponseStream, streamStatusError } from '../../responses';
 import { doCommandFromClient, promisify } from '../../utils';
 import type { Slam } from './slam';
+import type {
+  PointCloudMapDownloadOptions,
+  SlamDownloadOptions,
+} from './types';
 
 /**
  * A gRPC-web client for a SLAM service.
@@ -25,7 +33,7 @@ export class SlamClient implements Slam {
     return this.client;
   }
 
-  async getPosition() {
+  async getPosition(callOptions: CallOptions = {}) {
     const { service } = this;
 
     const request = new pb.GetPositionRequest();
@@ -36,7 +44,7 @@ export class SlamClient implements Slam {
     const response = await promisify<
       pb.GetPositionRequest,
       pb.GetPositionResponse
-    >(service.getPosition.bind(service), request);
+    >(service.getPosition.bind(service), request, callOptions, 'getPosition');
 
     return response.toObject();
   }
@@ -57,29 +65,20 @@ export class SlamClient implements Slam {
       chunks.push(chunk);
     });
 
+    const errorOptions = {
+      resourceName: this.name,
+      method: 'getPointCloudMap',
+    };
     return new Promise<Uint8Array>((resolve, reject) => {
       stream.on('status', (status) => {
         if (status.code !== 0) {
-          const error = {
-            message: status.details,
-            code: status.code,
-            metadata: status.metadata,
-          };
-          reject(error);
+          reject(streamStatusError(status, errorOptions));
         }
       });
 
       stream.on('end', (end) => {
-        if (end === undefined) {
-          const error = { message: 'Stream ended without a status code' };
-          reject(error);
-        } else if (end.code !== 0) {
-          const error = {
-            message: end.details,
-            code: end.code,
-            metadata: end.metadata,
-          };
-          reject(error);
+        if (end === undefined || end.code !== 0) {
+          reject(streamStatusError(end, errorOptions));
         }
         const arr = concatArrayU8(chunks);
         resolve(arr);
@@ -100,29 +99,20 @@ export class SlamClient implements Slam {
       chunks.push(chunk);
     });
 
+    const errorOptions = {
+      resourceName: this.name,
+      method: 'getInternalState',
+    };
     return new Promise<Uint8Array>((resolve, reject) => {
       stream.on('status', (status) => {
         if (status.code !== 0) {
-          const error = {
-            message: status.details,
-            code: status.code,
-            metadata: status.metadata,
-          };
-          reject(error);
+          reject(streamStatusError(status, errorOptions));
         }
       });
 
       stream.on('end', (end) => {
-        if (end === undefined) {
-          const error = { message: 'Stream ended without a status code' };
-          reject(error);
-        } else if (end.code !== 0) {
-          const error = {
-            message: end.details,
-            code: end.code,
-            metadata: end.metadata,
-          };
-          reject(error);
+        if (end === undefined || end.code !== 0) {
+          reject(streamStatusError(end, errorOptions));
         }
         const arr = concatArrayU8(chunks);
         resolve(arr);
@@ -130,7 +120,95 @@ export class SlamClient implements Slam {
     });
   };
 
-  async getProperties() {
+  async downloadPointCloudMap({
+    returnEditedMap,
+    onPoints,
+    ...options
+  }: PointCloudMapDownloadOptions = {}) {
+    const request = new pb.GetPointCloudMapRequest();
+    request.setName(this.name);
+    if (returnEditedMap) {
+      request.setReturnEditedMap(returnEditedMap);
+    }
+    this.options.requestLogger?.(request);
+
+    const decoder = new PCDStreamDecoder();
+    const emitPoints = () => {
+      if (!onPoints) {
+        return;
+      }
+      const points = decoder.takePoints();
+      if (points) {
+        onPoints(points);
+      }
+    };
+    return download(
+      this.client.getPointCloudMap(request),
+      (response) => response.getPointCloudPcdChunk_asU8(),
+      {
+        push: (chunk) => {
+          decoder.push(chunk);
+          emitPoints();
+        },
+        totalBytes: () => decoder.totalBytes,
+        end: () => {
+          decoder.end();
+          emitPoints();
+          return new Uint8Array(decoder.bytes);
+        },
+      },
+      options,
+      { resourceName: this.name, method: 'getPointCloudMap' }
+    );
+  }
+
+  async downloadInternalState(options: SlamDownloadOptions = {}) {
+    const request = new pb.GetInternalStateRequest();
+    request.setName(this.name);
+    this.options.requestLogger?.(request);
+
+    const chunks: Uint8Array[] = [];
+    return download(
+      this.client.getInternalState(request),
+      (response) => response.getInternalStateChunk_asU8(),
+      {
+        push: (chunk) => {
+          chunks.push(chunk);
+        },
+        totalBytes: () => undefined,
+        end: () => concatArrayU8(chunks),
+      },
+      options,
+      { resourceName: this.name, method: 'getInternalState' }
+    );
+  }
+
+  getPointCloudMapStream(returnEditedMap?: boolean) {
+    const request = new pb.GetPointCloudMapRequest();
+    request.setName(this.name);
+    if (returnEditedMap) {
+      request.setReturnEditedMap(returnEditedMap);
+    }
+    this.options.requestLogger?.(request);
+
+    return mapResponseStream(
+      this.client.getPointCloudMap(request),
+      (response) => response.getPointCloudPcdChunk_asU8()
+    );
+  }
+
+  getInternalStateStream() {
+    const request = new pb.GetInternalStateRequest();
+    request.setName(this.name);
+    this.options.requestLogger?.(request);
+
+    return mapResponseStream(
+      this.client.getInternalState(request),
+      (response) => response.getInternalStateChunk_asU8()
+    );
+  }
+
+  async getProperties(callOptions: CallOptions = {}) {
     const { service } = this;
 
     const request = new pb.GetPropertiesRequest();
@@ -141,14 +219,28 @@ export class SlamClient implements Slam {
     const response = await promisify<
       pb.GetPropertiesRequest,
       pb.GetPropertiesResponse
-    >(service.getProperties.bind(service), request);
+    >(
+      service.getProperties.bind(service),
+      request,
+      callOptions,
+      'getProperties'
+    );
 
     return response.toObject();
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { service } = this;
-    return doCommandFromClient(service, this.name, command, this.options);
+    return doCommandFromClient(
+      service,
+      this.name,
+      command,
+      this.options,
+      callOptions
+    );
   }
 }
 
@@ -162,3 +254,77 @@ const concatArrayU8 = (arrays: Uint8Array[]) => {
   }
   return result;
 };
+
+/** Where a download puts the chunks it receives. */
+interface DownloadSink {
+  push: (chunk: Uint8Array) => void;
+  totalBytes: () => number | undefined;
+  /** Called once the last chunk has arrived, to get the whole download. */
+  end: () => Uint8Array;
+}
+
+/** Download a stream of chunks, reporting progress as they arrive. */
+const download = async <T>(
+  stream: ResponseStream<T>,
+  chunkOf: (response: T) => Uint8Array,
+  sink: DownloadSink,
+  { signal, onProgress }: SlamDownloadOptions,
+  errorOptions: ViamErrorOptions
+) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const finished = new AbortController();
+    const fail = (error: unknown) => {
+      finished.abort();
+      reject(error);
+    };
+    const cancel = (error: unknown) => {
+      stream.cancel();
+      fail(error);
+    };
+
+    if (signal?.aborted) {
+      cancel(new CancelledError('The download was aborted', errorOptions));
+      return;
+    }
+    signal?.addEventListener(
+      'abort',
+      () =>
+        cancel(new CancelledError('The download was aborted', errorOptions)),
+      { signal: finished.signal }
+    );
+
+    let receivedBytes = 0;
+    stream.on('data', (response) => {
+      if (finished.signal.aborted) {
+        return;
+      }
+      const chunk = chunkOf(response);
+      receivedBytes += chunk.length;
+      try {
+        sink.push(chunk);
+        onProgress?.({ chunk, receivedBytes, totalBytes: sink.totalBytes() });
+      } catch (error) {
+        cancel(error);
+      }
+    });
+    stream.on('status', (status) => {
+      if (!finished.signal.aborted && status.code !== 0) {
+        fail(streamStatusError(status, errorOptions));
+      }
+    });
+    stream.on('end', (end) => {
+      if (finished.signal.aborted) {
+        return;
+      }
+      if (end === undefined || end.code !== 0) {
+        fail(streamStatusError(end, errorOptions));
+        return;
+      }
+      finished.abort();
+      try {
+        resolve(sink.end());
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
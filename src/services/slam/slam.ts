@@ -1,5 +1,11 @@
-import type { Resource } from '../../types';
-import type { SlamPosition, SlamProperties } from './types';
+import type { ViamResponseStream } from '../../responses';
+import type { CallOptions, Resource } from '../../types';
+import type {
+  PointCloudMapDownloadOptions,
+  SlamDownloadOptions,
+  SlamPosition,
+  SlamProperties,
+} from './types';
 
 /**
  * A service that allows your robot to create a map of its surroundings and find
@@ -10,9 +16,9 @@ export interface Slam extends Resource {
    * Get the current position of the specified source component in the point
    * cloud SLAM map.
    */
-  getPosition: () => Promise<SlamPosition>;
+  getPosition: (callOptions?: CallOptions) => Promise<SlamPosition>;
 
-  /** Get the point cloud SLAM map. */
+  /** Get the point cloud SLAM map as a PCD file; see `decodePCD`. */
   getPointCloudMap: (returnEditedMap?: boolean) => Promise<Uint8Array>;
 
   /**
@@ -21,6 +27,44 @@ export interface Slam extends Resource {
    */
   getInternalState: () => Promise<Uint8Array>;
 
+  /**
+   * Stream the chunks of the point cloud SLAM map as they arrive instead of
+   * waiting for the whole map. Optional, like `getInternalStateStream`, so that
+   * existing implementations of this interface still compile.
+   */
+  getPointCloudMapStream?: (
+    returnEditedMap?: boolean
+  ) => ViamResponseStream<Uint8Array>;
+
+  /** Stream the chunks of the internal state of the SLAM algorithm. */
+  getInternalStateStream?: () => ViamResponseStream<Uint8Array>;
+
+  /**
+   * Get the point cloud SLAM map as a PCD file, reporting progress and
+   * optionally the decoded points as each chunk arrives.
+   *
+   * @example
+   *
+   * ```ts
+   * const controller = new AbortController();
+   * const map = await slam.downloadPointCloudMap({
+   *   signal: controller.signal,
+   *   onProgress: ({ receivedBytes, totalBytes }) =>
+   *     console.log(receivedBytes, totalBytes),
+   *   onPoints: (points) => render(points),
+   * });
+   * ```
+   */
+  downloadPointCloudMap: (
+    options?: PointCloudMapDownloadOptions
+  ) => Promise<Uint8Array>;
+
+  /**
+   * Get the internal state of the SLAM algorithm, reporting progress as each
+   * chunk arrives.
+   */
+  downloadInternalState: (options?: SlamDownloadOptions) => Promise<Uint8Array>;
+
   /** Gets information on the properties of the current SLAM service. */
-  getProperties: () => Promise<SlamProperties>;
+  getProperties: (callOptions?: CallOptions) => Promise<SlamProperties>;
 }
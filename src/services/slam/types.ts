@@ -1,4 +1,43 @@
 import pb from '../../gen/service/slam/v1/slam_pb';
+import type { PointCloud } from '../../point-cloud';
 
 export type SlamPosition = pb.GetPositionResponse.AsObject;
 export type SlamProperties = pb.GetPropertiesResponse.AsObject;
+
+/** The progress of a SLAM download, reported as each chunk arrives. */
+export interface SlamDownloadProgress {
+  /** The chunk that just arrived. */
+  chunk: Uint8Array;
+
+  /** The number of bytes that have arrived so far. */
+  receivedBytes: number;
+
+  /**
+   * The size of the whole download, if known. Point cloud maps in `binary` or
+   * `binary_compressed` PCD report it once their header has arrived.
+   */
+  totalBytes: number | undefined;
+}
+
+export interface SlamDownloadOptions {
+  /**
+   * Cancel the download when the signal is aborted. The download then fails
+   * with a `CancelledError`.
+   */
+  signal?: AbortSignal;
+
+  /** Called as each chunk arrives. */
+  onProgress?: (progress: SlamDownloadProgress) => void;
+}
+
+export interface PointCloudMapDownloadOptions extends SlamDownloadOptions {
+  /** Download the edited map rather than the map as built. */
+  returnEditedMap?: boolean;
+
+  /**
+   * Called with the points decoded from each chunk, to render the map while it
+   * downloads. Points of maps in `binary_compressed` PCD are only decoded once
+   * the whole map has arrived.
+   */
+  onPoints?: (points: PointCloud) => void;
+}
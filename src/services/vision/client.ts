@@ -4,7 +4,7 @@ import { VisionServiceClient } from '../../gen/service/vision/v1/vision_pb_servi
 import commonPB from '../../gen/common/v1/common_pb';
 import type { MimeType } from '../../main';
 import type { RobotClient } from '../../robot';
-import type { Options, StructType } from '../../types';
+import type { CallOptions, Options, StructType } from '../../types';
 import { doCommandFromClient, promisify } from '../../utils';
 import type { Vision } from './vision';
 import type { CaptureAllOptions } from './types';
@@ -29,7 +29,11 @@ export class VisionClient implements Vision {
     return this.client;
   }
 
-  async getDetectionsFromCamera(cameraName: string, extra: StructType = {}) {
+  async getDetectionsFromCamera(
+    cameraName: string,
+    extra: StructType = {},
+    callOptions: CallOptions = {}
+  ) {
     const { service } = this;
 
     const request = new pb.GetDetectionsFromCameraRequest();
@@ -42,7 +46,12 @@ export class VisionClient implements Vision {
     const response = await promisify<
       pb.GetDetectionsFromCameraRequest,
       pb.GetDetectionsFromCameraResponse
-    >(service.getDetectionsFromCamera.bind(service), request);
+    >(
+      service.getDetectionsFromCamera.bind(service),
+      request,
+      callOptions,
+      'getDetectionsFromCamera'
+    );
 
     return response.getDetectionsList().map((x) => x.toObject());
   }
@@ -52,7 +61,8 @@ export class VisionClient implements Vision {
     width: number,
     height: number,
     mimeType: MimeType,
-    extra: StructType = {}
+    extra: StructType = {},
+    callOptions: CallOptions = {}
   ) {
     const { service } = this;
 
@@ -69,7 +79,12 @@ export class VisionClient implements Vision {
     const response = await promisify<
       pb.GetDetectionsRequest,
       pb.GetDetectionsResponse
-    >(service.getDetections.bind(service), request);
+    >(
+      service.getDetections.bind(service),
+      request,
+      callOptions,
+      'getDetections'
+    );
 
     return response.getDetectionsList().map((x) => x.toObject());
   }
@@ -77,7 +92,8 @@ export class VisionClient implements Vision {
   async getClassificationsFromCamera(
     cameraName: string,
     count: number,
-    extra: StructType = {}
+    extra: StructType = {},
+    callOptions: CallOptions = {}
   ) {
     const { service } = this;
 
@@ -92,7 +108,12 @@ export class VisionClient implements Vision {
     const response = await promisify<
       pb.GetClassificationsFromCameraRequest,
       pb.GetClassificationsFromCameraResponse
-    >(service.getClassificationsFromCamera.bind(service), request);
+    >(
+      service.getClassificationsFromCamera.bind(service),
+      request,
+      callOptions,
+      'getClassificationsFromCamera'
+    );
 
     return response.getClassificationsList().map((x) => x.toObject());
   }
@@ -103,7 +124,8 @@ export class VisionClient implements Vision {
     height: number,
     mimeType: MimeType,
     count: number,
-    extra: StructType = {}
+    extra: StructType = {},
+    callOptions: CallOptions = {}
   ) {
     const { service } = this;
 
@@ -121,12 +143,21 @@ export class VisionClient implements Vision {
     const response = await promisify<
       pb.GetClassificationsRequest,
       pb.GetClassificationsResponse
-    >(service.getClassifications.bind(service), request);
+    >(
+      service.getClassifications.bind(service),
+      request,
+      callOptions,
+      'getClassifications'
+    );
 
     return response.getClassificationsList().map((x) => x.toObject());
   }
 
-  async getObjectPointClouds(cameraName: string, extra: StructType = {}) {
+  async getObjectPointClouds(
+    cameraName: string,
+    extra: StructType = {},
+    callOptions: CallOptions = {}
+  ) {
     const { service } = this;
 
     const request = new pb.GetObjectPointCloudsRequest();
@@ -139,12 +170,17 @@ export class VisionClient implements Vision {
     const response = await promisify<
       pb.GetObjectPointCloudsRequest,
       pb.GetObjectPointCloudsResponse
-    >(service.getObjectPointClouds.bind(service), request);
+    >(
+      service.getObjectPointClouds.bind(service),
+      request,
+      callOptions,
+      'getObjectPointClouds'
+    );
 
     return response.getObjectsList().map((x) => x.toObject());
   }
 
-  async getProperties(extra = {}) {
+  async getProperties(extra = {}, callOptions: CallOptions = {}) {
     const { service } = this;
     const request = new pb.GetPropertiesRequest();
     request.setName(this.name);
@@ -155,7 +191,12 @@ export class VisionClient implements Vision {
     const response = await promisify<
       pb.GetPropertiesRequest,
       pb.GetPropertiesResponse
-    >(service.getProperties.bind(service), request);
+    >(
+      service.getProperties.bind(service),
+      request,
+      callOptions,
+      'getProperties'
+    );
     return {
       classificationsSupported: response.getClassificationsSupported(),
       detectionsSupported: response.getDetectionsSupported(),
@@ -171,7 +212,8 @@ export class VisionClient implements Vision {
       returnDetections,
       returnObjectPointClouds,
     }: CaptureAllOptions,
-    extra = {}
+    extra = {},
+    callOptions: CallOptions = {}
   ) {
     const { service } = this;
     const request = new pb.CaptureAllFromCameraRequest();
@@ -188,7 +230,12 @@ export class VisionClient implements Vision {
     const response = await promisify<
       pb.CaptureAllFromCameraRequest,
       pb.CaptureAllFromCameraResponse
-    >(service.captureAllFromCamera.bind(service), request);
+    >(
+      service.captureAllFromCamera.bind(service),
+      request,
+      callOptions,
+      'captureAllFromCamera'
+    );
 
     const image = response.getImage();
 
@@ -212,8 +259,17 @@ export class VisionClient implements Vision {
     };
   }
 
-  async doCommand(command: StructType): Promise<StructType> {
+  async doCommand(
+    command: StructType,
+    callOptions: CallOptions = {}
+  ): Promise<StructType> {
     const { service } = this;
-    return doCommandFromClient(service, this.name, command, this.options);
+    return doCommandFromClient(
+      service,
+      this.name,
+      command,
+      this.options,
+      callOptions
+    );
   }
 }
@@ -1,5 +1,5 @@
 import type { MimeType } from '../../main';
-import type { Resource, StructType } from '../../types';
+import type { CallOptions, Resource, StructType } from '../../types';
 import type {
   Classification,
   Detection,
@@ -19,7 +19,8 @@ export interface Vision extends Resource {
    */
   getDetectionsFromCamera: (
     cameraName: string,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ) => Promise<Detection[]>;
 
   /**
@@ -36,7 +37,8 @@ export interface Vision extends Resource {
     width: number,
     height: number,
     mimeType: MimeType,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ) => Promise<Detection[]>;
 
   /**
@@ -49,7 +51,8 @@ export interface Vision extends Resource {
   getClassificationsFromCamera: (
     cameraName: string,
     count: number,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ) => Promise<Classification[]>;
 
   /**
@@ -68,19 +71,22 @@ export interface Vision extends Resource {
     height: number,
     mimeType: MimeType,
     count: number,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ) => Promise<Classification[]>;
 
   /**
    * Returns a list of the 3D point cloud objects and associated metadata in the
-   * latest picture obtained from the specified 3D camera.
+   * latest picture obtained from the specified 3D camera. Each object's point
+   * cloud is a PCD file; see `decodePCD`.
    *
    * @param cameraName - The name of the camera.
    * @returns - The list of PointCloudObjects
    */
   getObjectPointClouds: (
     cameraName: string,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ) => Promise<PointCloudObject[]>;
 
   /**
@@ -90,7 +96,10 @@ export interface Vision extends Resource {
    *
    * @returns - The properties of the vision service
    */
-  getProperties: (extra?: StructType) => Promise<Properties>;
+  getProperties: (
+    extra?: StructType,
+    callOptions?: CallOptions
+  ) => Promise<Properties>;
 
   /**
    * Returns the requested image, classifications, detections, and 3d point
@@ -105,6 +114,7 @@ export interface Vision extends Resource {
   captureAllFromCamera: (
     cameraName: string,
     opts: CaptureAllOptions,
-    extra?: StructType
+    extra?: StructType,
+    callOptions?: CallOptions
   ) => Promise<CaptureAllResponse>;
 }
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  axisAngleToQuaternion,
+  composePoses,
+  eulerAnglesToQuaternion,
+  invertPose,
+  orientationToQuaternion,
+  quaternionToAxisAngle,
+  quaternionToEulerAngles,
+  quaternionToOrientation,
+  rotateVector,
+} from './spatial-math';
+
+const closeTo = (expected: Record<string, number>) =>
+  Object.fromEntries(
+    Object.entries(expected).map(([key, value]) => [
+      key,
+      expect.closeTo(value, 6),
+    ])
+  );
+
+describe('orientation conversions', () => {
+  it('points an orientation vector along its axis', () => {
+    const rotation = orientationToQuaternion({ oX: 1, oY: 0, oZ: 0, theta: 0 });
+
+    expect(rotation).toEqual(
+      closeTo({ w: Math.SQRT1_2, x: 0, y: Math.SQRT1_2, z: 0 })
+    );
+    expect(rotateVector(rotation, { x: 0, y: 0, z: 1 })).toEqual(
+      closeTo({ x: 1, y: 0, z: 0 })
+    );
+  });
+
+  it('round trips orientation vectors', () => {
+    for (const orientation of [
+      { oX: 0, oY: 0, oZ: 1, theta: 45 },
+      { oX: 0, oY: 0, oZ: -1, theta: -90 },
+      { oX: 0.6, oY: -0.8, oZ: 0, theta: 170 },
+    ]) {
+      expect(
+        quaternionToOrientation(orientationToQuaternion(orientation))
+      ).toEqual(closeTo(orientation));
+    }
+  });
+
+  it('round trips Euler angles', () => {
+    const angles = { roll: 0.1, pitch: -0.4, yaw: 2 };
+    expect(quaternionToEulerAngles(eulerAnglesToQuaternion(angles))).toEqual(
+      closeTo(angles)
+    );
+  });
+
+  it('round trips axis angles', () => {
+    const axisAngle = { x: 0, y: 0.6, z: 0.8, theta: 1.2 };
+    expect(quaternionToAxisAngle(axisAngleToQuaternion(axisAngle))).toEqual(
+      closeTo(axisAngle)
+    );
+  });
+
+  it('agrees between representations', () => {
+    const yaw = eulerAnglesToQuaternion({
+      roll: 0,
+      pitch: 0,
+      yaw: Math.PI / 2,
+    });
+    expect(quaternionToOrientation(yaw)).toEqual(
+      closeTo({ oX: 0, oY: 0, oZ: 1, theta: 90 })
+    );
+    expect(quaternionToAxisAngle(yaw)).toEqual(
+      closeTo({ x: 0, y: 0, z: 1, theta: Math.PI / 2 })
+    );
+  });
+});
+
+describe('poses', () => {
+  const parent = { x: 100, y: 0, z: 50, oX: 0, oY: 0, oZ: 1, theta: 90 };
+
+  it('composes a pose in its parent frame', () => {
+    const child = { x: 10, y: 0, z: 0, oX: 0, oY: 0, oZ: 1, theta: 0 };
+    expect(composePoses(parent, child)).toEqual(
+      closeTo({ x: 100, y: 10, z: 50, oX: 0, oY: 0, oZ: 1, theta: 90 })
+    );
+  });
+
+  it('inverts a pose', () => {
+    expect(composePoses(parent, invertPose(parent))).toEqual(
+      closeTo({ x: 0, y: 0, z: 0, oX: 0, oY: 0, oZ: 1, theta: 0 })
+    );
+  });
+});
@@ -0,0 +1,224 @@
+import type { Orientation, Pose, Vector3 } from './types';
+
+/** A unit quaternion describing a rotation. */
+export interface Quaternion {
+  w: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * A rotation as roll about X, then pitch about Y, then yaw about Z, each in
+ * radians.
+ */
+export interface EulerAngles {
+  roll: number;
+  pitch: number;
+  yaw: number;
+}
+
+/** A rotation of `theta` radians about the axis `(x, y, z)`. */
+export interface AxisAngle {
+  x: number;
+  y: number;
+  z: number;
+  theta: number;
+}
+
+// Orientations this close to a pole have no longitude
+const poleEpsilon = 1e-4;
+
+const degrees = (radians: number) => (radians * 180) / Math.PI;
+const radians = (deg: number) => (deg * Math.PI) / 180;
+
+const multiply = (a: Quaternion, b: Quaternion): Quaternion => ({
+  w: a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z,
+  x: a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+  y: a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+  z: a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w,
+});
+
+const conjugate = ({ w, x, y, z }: Quaternion): Quaternion => ({
+  w,
+  x: -x,
+  y: -y,
+  z: -z,
+});
+
+const normalize = ({ w, x, y, z }: Quaternion): Quaternion => {
+  const norm = Math.hypot(w, x, y, z);
+  if (norm === 0) {
+    return { w: 1, x: 0, y: 0, z: 0 };
+  }
+  return { w: w / norm, x: x / norm, y: y / norm, z: z / norm };
+};
+
+const aboutY = (angle: number): Quaternion => ({
+  w: Math.cos(angle / 2),
+  x: 0,
+  y: Math.sin(angle / 2),
+  z: 0,
+});
+
+const aboutZ = (angle: number): Quaternion => ({
+  w: Math.cos(angle / 2),
+  x: 0,
+  y: 0,
+  z: Math.sin(angle / 2),
+});
+
+/** Rotate a vector by a quaternion. */
+export const rotateVector = (
+  rotation: Quaternion,
+  { x, y, z }: Vector3
+): Vector3 => {
+  const rotated = multiply(
+    multiply(rotation, { w: 0, x, y, z }),
+    conjugate(rotation)
+  );
+  return { x: rotated.x, y: rotated.y, z: rotated.z };
+};
+
+/**
+ * Convert an orientation vector, with `theta` in degrees as in a `Pose`, to a
+ * quaternion.
+ */
+export const orientationToQuaternion = ({
+  oX,
+  oY,
+  oZ,
+  theta,
+}: Orientation): Quaternion => {
+  const norm = Math.hypot(oX, oY, oZ);
+  const z = norm === 0 ? 1 : oZ / norm;
+  const lat = Math.acos(Math.min(1, Math.max(-1, z)));
+  const lon = 1 - Math.abs(z) > poleEpsilon ? Math.atan2(oY, oX) : 0;
+  return multiply(multiply(aboutZ(lon), aboutY(lat)), aboutZ(radians(theta)));
+};
+
+/**
+ * Convert a quaternion to an orientation vector, with `theta` in degrees as in
+ * a `Pose`.
+ */
+export const quaternionToOrientation = (
+  quaternion: Quaternion
+): Orientation => {
+  const rotation = normalize(quaternion);
+  const { x: oX, y: oY, z: oZ } = rotateVector(rotation, { x: 0, y: 0, z: 1 });
+  const lat = Math.acos(Math.min(1, Math.max(-1, oZ)));
+  const lon = 1 - Math.abs(oZ) > poleEpsilon ? Math.atan2(oY, oX) : 0;
+
+  // What is left after pointing the vector is a rotation about it
+  const spin = multiply(
+    conjugate(multiply(aboutZ(lon), aboutY(lat))),
+    rotation
+  );
+  let theta = degrees(2 * Math.atan2(spin.z, spin.w));
+  if (theta > 180) {
+    theta -= 360;
+  } else if (theta <= -180) {
+    theta += 360;
+  }
+  return { oX, oY, oZ, theta };
+};
+
+/** Convert Euler angles to a quaternion. */
+export const eulerAnglesToQuaternion = ({
+  roll,
+  pitch,
+  yaw,
+}: EulerAngles): Quaternion => {
+  const [cr, sr] = [Math.cos(roll / 2), Math.sin(roll / 2)];
+  const [cp, sp] = [Math.cos(pitch / 2), Math.sin(pitch / 2)];
+  const [cy, sy] = [Math.cos(yaw / 2), Math.sin(yaw / 2)];
+  return {
+    w: cr * cp * cy + sr * sp * sy,
+    x: sr * cp * cy - cr * sp * sy,
+    y: cr * sp * cy + sr * cp * sy,
+    z: cr * cp * sy - sr * sp * cy,
+  };
+};
+
+/** Convert a quaternion to Euler angles. */
+export const quaternionToEulerAngles = (
+  quaternion: Quaternion
+): EulerAngles => {
+  const { w, x, y, z } = normalize(quaternion);
+  const sinPitch = 2 * (w * y - z * x);
+  return {
+    roll: Math.atan2(2 * (w * x + y * z), 1 - 2 * (x * x + y * y)),
+    pitch: Math.asin(Math.min(1, Math.max(-1, sinPitch))),
+    yaw: Math.atan2(2 * (w * z + x * y), 1 - 2 * (y * y + z * z)),
+  };
+};
+
+/** Convert an axis and angle to a quaternion. */
+export const axisAngleToQuaternion = ({
+  x,
+  y,
+  z,
+  theta,
+}: AxisAngle): Quaternion => {
+  const norm = Math.hypot(x, y, z);
+  if (norm === 0 || theta === 0) {
+    return { w: 1, x: 0, y: 0, z: 0 };
+  }
+  const scale = Math.sin(theta / 2) / norm;
+  return { w: Math.cos(theta / 2), x: x * scale, y: y * scale, z: z * scale };
+};
+
+/** Convert a quaternion to an axis and angle. */
+export const quaternionToAxisAngle = (quaternion: Quaternion): AxisAngle => {
+  const { w, x, y, z } = normalize(quaternion);
+  const sinHalf = Math.hypot(x, y, z);
+  if (sinHalf === 0) {
+    return { x: 0, y: 0, z: 1, theta: 0 };
+  }
+  return {
+    x: x / sinHalf,
+    y: y / sinHalf,
+    z: z / sinHalf,
+    theta: 2 * Math.atan2(sinHalf, w),
+  };
+};
+
+/** A pose that leaves everything where it is. */
+export const identityPose = (): Pose => ({
+  x: 0,
+  y: 0,
+  z: 0,
+  oX: 0,
+  oY: 0,
+  oZ: 1,
+  theta: 0,
+});
+
+/**
+ * Compose two poses: `child` is expressed relative to `parent`, and the result
+ * is the same pose expressed in the frame that `parent` is relative to.
+ */
+export const composePoses = (parent: Pose, child: Pose): Pose => {
+  const rotation = orientationToQuaternion(parent);
+  const offset = rotateVector(rotation, child);
+  return {
+    x: parent.x + offset.x,
+    y: parent.y + offset.y,
+    z: parent.z + offset.z,
+    ...quaternionToOrientation(
+      multiply(rotation, orientationToQuaternion(child))
+    ),
+  };
+};
+
+/** Get the pose that undoes a pose, so that composing the two is identity. */
+export const invertPose = (pose: Pose): Pose => {
+  const inverse = conjugate(normalize(orientationToQuaternion(pose)));
+  const offset = rotateVector(inverse, pose);
+  return {
+    x: -offset.x,
+    y: -offset.y,
+    z: -offset.z,
+    ...quaternionToOrientation(inverse),
+  };
+};
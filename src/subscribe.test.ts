@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NotFoundError } from './errors';
+import { EventDispatcher, MachineConnectionEvent } from './events';
+import { subscribe } from './subscribe';
+
+class FakeRobot extends EventDispatcher {
+  connected = true;
+
+  isConnected() {
+    return this.connected;
+  }
+
+  disconnect() {
+    this.connected = false;
+    this.emit(MachineConnectionEvent.DISCONNECTED, {});
+  }
+
+  reconnect() {
+    this.connected = true;
+    this.emit(MachineConnectionEvent.CONNECTED, {});
+  }
+}
+
+describe('subscribe', () => {
+  let resolveRead: ((value: number) => void) | undefined;
+  let rejectRead: ((reason: unknown) => void) | undefined;
+  const sensor = {
+    getValue: vi.fn<[string?], Promise<number>>(),
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sensor.getValue.mockReset();
+    sensor.getValue.mockImplementation(
+      async () =>
+        new Promise((resolve, reject) => {
+          resolveRead = resolve;
+          rejectRead = reject;
+        })
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads on an interval with one read in flight', async () => {
+    const values: number[] = [];
+    const stream = subscribe(sensor, 'getValue', {
+      intervalMs: 100,
+      args: ['extra'],
+    });
+    stream.on('data', (value: number) => values.push(value));
+
+    expect(sensor.getValue).toHaveBeenCalledOnce();
+    expect(sensor.getValue).toHaveBeenCalledWith('extra');
+
+    await vi.advanceTimersByTimeAsync(250);
+    expect(sensor.getValue).toHaveBeenCalledOnce();
+
+    resolveRead?.(1);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(values).toStrictEqual([1]);
+    expect(sensor.getValue).toHaveBeenCalledTimes(2);
+
+    resolveRead?.(2);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(sensor.getValue).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(values).toStrictEqual([1, 2]);
+    expect(sensor.getValue).toHaveBeenCalledTimes(3);
+
+    stream.cancel();
+  });
+
+  it('pauses while the robot is disconnected', async () => {
+    const robot = new FakeRobot();
+    const stream = subscribe(sensor, 'getValue', { intervalMs: 100, robot });
+
+    resolveRead?.(1);
+    await vi.advanceTimersByTimeAsync(0);
+    robot.disconnect();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(sensor.getValue).toHaveBeenCalledOnce();
+
+    robot.reconnect();
+    expect(sensor.getValue).toHaveBeenCalledTimes(2);
+
+    stream.cancel();
+    expect(robot.listeners[MachineConnectionEvent.CONNECTED]?.size).toBe(0);
+  });
+
+  it('ignores reads that fail while disconnected', async () => {
+    const robot = new FakeRobot();
+    const end = vi.fn();
+    const stream = subscribe(sensor, 'getValue', { robot });
+    stream.on('end', end);
+
+    robot.disconnect();
+    rejectRead?.(new Error('connection closed'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(end).not.toHaveBeenCalled();
+
+    robot.reconnect();
+    expect(sensor.getValue).toHaveBeenCalledTimes(2);
+
+    stream.cancel();
+  });
+
+  it('pauses when a read fails before the disconnection is emitted', async () => {
+    const robot = new FakeRobot();
+    const end = vi.fn();
+    const stream = subscribe(sensor, 'getValue', { robot });
+    stream.on('end', end);
+
+    robot.connected = false;
+    rejectRead?.(new Error('connection closed'));
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(end).not.toHaveBeenCalled();
+    expect(sensor.getValue).toHaveBeenCalledOnce();
+
+    robot.reconnect();
+    expect(sensor.getValue).toHaveBeenCalledTimes(2);
+
+    stream.cancel();
+  });
+
+  it('waits for a disconnected robot to connect before reading', () => {
+    const robot = new FakeRobot();
+    robot.connected = false;
+    const stream = subscribe(sensor, 'getValue', { robot });
+    expect(sensor.getValue).not.toHaveBeenCalled();
+
+    robot.reconnect();
+    expect(sensor.getValue).toHaveBeenCalledOnce();
+
+    stream.cancel();
+  });
+
+  it('ends iteration with the error of a failed read', async () => {
+    const values: number[] = [];
+    const consume = (async () => {
+      for await (const value of subscribe(sensor, 'getValue')) {
+        values.push(value);
+      }
+    })();
+    const failed = expect(consume).rejects.toBeInstanceOf(NotFoundError);
+
+    resolveRead?.(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    rejectRead?.(new NotFoundError('no sensor'));
+
+    await failed;
+    expect(values).toStrictEqual([1]);
+  });
+
+  it('stops reading when iteration stops', async () => {
+    const consume = (async () => {
+      for await (const value of subscribe(sensor, 'getValue')) {
+        if (value === 1) {
+          break;
+        }
+      }
+    })();
+
+    resolveRead?.(1);
+    await consume;
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(sensor.getValue).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,183 @@
+import { grpc } from '@improbable-eng/grpc-web';
+import { ViamError } from './errors';
+import { EventDispatcher, MachineConnectionEvent } from './events';
+import type { ResponseStream, Status } from './gen/robot/v1/robot_pb_service';
+import { ViamResponseStream, mapResponseStream } from './responses';
+import type { RobotClient } from './robot/client';
+
+type ConnectionSource = Pick<RobotClient, 'on' | 'off' | 'isConnected'>;
+
+// Methods with any parameters are readers, as every parameter accepts never
+type Reader = (...args: never[]) => Promise<unknown>;
+type ReaderArgs<F> = F extends (...args: infer A) => Promise<unknown>
+  ? A
+  : never;
+type ReaderValue<F> = F extends (...args: never[]) => Promise<infer T>
+  ? T
+  : never;
+
+/** Options for {@link subscribe}. */
+export interface SubscribeOptions<Args extends unknown[]> {
+  /**
+   * Milliseconds from the start of one read to the start of the next. A read
+   * that takes longer delays the next one rather than overlapping it. Default
+   * is 1000.
+   */
+  intervalMs?: number;
+
+  /** The arguments to call the method with, e.g. `extra` or call options. */
+  args?: Args;
+
+  /**
+   * The robot client the resource is on. Reads are paused while it is
+   * disconnected and resume when it connects again.
+   */
+  robot?: ConnectionSource;
+}
+
+/** Calls a reader on an interval, emitting each result as `data`. */
+class Poller<T> extends EventDispatcher implements ResponseStream<T> {
+  private readonly read: () => Promise<T>;
+  private readonly intervalMs: number;
+  private readonly robot: ConnectionSource | undefined;
+
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private inFlight = false;
+  private connected: boolean;
+  private cancelled = false;
+
+  constructor(
+    read: () => Promise<T>,
+    intervalMs: number,
+    robot: ConnectionSource | undefined
+  ) {
+    super();
+    this.read = read;
+    this.intervalMs = intervalMs;
+    this.robot = robot;
+    this.connected = robot?.isConnected() ?? true;
+
+    robot?.on(MachineConnectionEvent.CONNECTED, this.resume);
+    robot?.on(MachineConnectionEvent.DISCONNECTED, this.pause);
+    void this.poll();
+  }
+
+  override on(
+    type: string,
+    handler: (message: never) => void
+  ): ResponseStream<T> {
+    super.on(type, handler as (message: unknown) => void);
+    return this;
+  }
+
+  cancel() {
+    this.cancelled = true;
+    clearTimeout(this.timer);
+    this.robot?.off(MachineConnectionEvent.CONNECTED, this.resume);
+    this.robot?.off(MachineConnectionEvent.DISCONNECTED, this.pause);
+  }
+
+  private async poll() {
+    this.timer = undefined;
+    if (!this.isActive() || this.inFlight) {
+      return;
+    }
+
+    this.inFlight = true;
+    const started = Date.now();
+    try {
+      const value = await this.read();
+      if (!this.cancelled) {
+        this.emit('data', value);
+      }
+    } catch (error) {
+      // Reads fail while the robot is reconnecting, often before it emits the
+      // disconnection; pick up again once it has reconnected
+      if (this.robot?.isConnected() === false) {
+        this.pause();
+      } else if (this.isActive()) {
+        this.end(error);
+        return;
+      }
+    } finally {
+      this.inFlight = false;
+    }
+
+    if (this.isActive()) {
+      const wait = Math.max(0, this.intervalMs - (Date.now() - started));
+      this.timer = setTimeout(() => {
+        void this.poll();
+      }, wait);
+    }
+  }
+
+  private isActive() {
+    return this.connected && !this.cancelled;
+  }
+
+  private readonly pause = () => {
+    this.connected = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  };
+
+  private readonly resume = () => {
+    this.connected = true;
+    if (this.timer === undefined) {
+      void this.poll();
+    }
+  };
+
+  private end(error: unknown) {
+    this.cancel();
+    const status: Status =
+      error instanceof ViamError
+        ? {
+            code: error.code,
+            details: error.message,
+            metadata: error.metadata ?? new grpc.Metadata(),
+          }
+        : {
+            code: grpc.Code.Unknown,
+            details: error instanceof Error ? error.message : String(error),
+            metadata: new grpc.Metadata(),
+          };
+    this.emit('status', status);
+    this.emit('end', status);
+  }
+}
+
+/**
+ * Read a value from a resource on an interval, such as a sensor's readings or
+ * an encoder's position. Only one read is in flight at a time, and reads are
+ * paused while the given robot client is disconnected. The subscription ends
+ * with an error if a read fails while connected, and is stopped by cancelling
+ * the stream or breaking out of a `for await` loop.
+ *
+ * @example
+ *
+ * ```ts
+ * const sensor = new SensorClient(robot, 'my-sensor');
+ * const readings = subscribe(sensor, 'getReadings', {
+ *   intervalMs: 500,
+ *   robot,
+ * });
+ * for await (const reading of readings) {
+ *   console.log(reading);
+ * }
+ * ```
+ */
+export const subscribe = <K extends PropertyKey, R extends Record<K, Reader>>(
+  resource: R,
+  method: K,
+  { intervalMs = 1000, args, robot }: SubscribeOptions<ReaderArgs<R[K]>> = {}
+): ViamResponseStream<ReaderValue<R[K]>> => {
+  type T = ReaderValue<R[K]>;
+  const reader: Reader = resource[method];
+  const read = async () =>
+    (await reader.apply(resource, (args ?? []) as never[])) as T;
+  return mapResponseStream(
+    new Poller<T>(read, intervalMs, robot),
+    (value: T) => value
+  );
+};
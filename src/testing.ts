@@ -0,0 +1,22 @@
+/**
+ * The entry point for test fakes, imported as `@viamrobotics/sdk/testing`. They
+ * are kept out of the main entry point so that applications do not ship them.
+ *
+ * @module
+ */
+export {
+  FakeServer,
+  FakeStatusError,
+  type FakeMethod,
+  type FakeRequest,
+  type FakeStreamHandler,
+  type FakeUnaryHandler,
+} from './testing/fake-server';
+export { FakeRobot } from './testing/fake-robot';
+export {
+  FakeArm,
+  FakeBoard,
+  FakeCamera,
+  FakeMotor,
+  FakeResource,
+} from './testing/fake-components';
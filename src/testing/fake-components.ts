@@ -0,0 +1,296 @@
+/* eslint-disable max-classes-per-file */
+import { grpc } from '@improbable-eng/grpc-web';
+import commonApi from '../gen/common/v1/common_pb';
+import armApi from '../gen/component/arm/v1/arm_pb';
+import { ArmService } from '../gen/component/arm/v1/arm_pb_service';
+import boardApi from '../gen/component/board/v1/board_pb';
+import { BoardService } from '../gen/component/board/v1/board_pb_service';
+import cameraApi from '../gen/component/camera/v1/camera_pb';
+import { CameraService } from '../gen/component/camera/v1/camera_pb_service';
+import motorApi from '../gen/component/motor/v1/motor_pb';
+import { MotorService } from '../gen/component/motor/v1/motor_pb_service';
+import type { MimeType } from '../components/camera/camera';
+import type { Pose } from '../types';
+import { encodePose } from '../utils';
+import { FakeServer, FakeStatusError } from './fake-server';
+
+/** Base class for the in-memory state of a fake resource. */
+export abstract class FakeResource {
+  abstract readonly subtype: string;
+
+  constructor(public readonly name: string) {}
+
+  /** Called when the fake robot receives `StopAll`. */
+  // eslint-disable-next-line class-methods-use-this
+  stop() {
+    // Most resources have nothing to stop
+  }
+}
+
+type Lookup<T extends FakeResource> = (name: string) => T;
+
+const echoCommand = (request: commonApi.DoCommandRequest) => {
+  const response = new commonApi.DoCommandResponse();
+  response.setResult(request.getCommand());
+  return response;
+};
+
+/** The in-memory state of a fake motor. */
+export class FakeMotor extends FakeResource {
+  readonly subtype = 'motor';
+
+  power = 0;
+  rpm = 0;
+  position = 0;
+  positionReporting = true;
+
+  override stop() {
+    this.power = 0;
+    this.rpm = 0;
+  }
+
+  get isMoving() {
+    return this.power !== 0 || this.rpm !== 0;
+  }
+}
+
+export const serveMotors = (server: FakeServer, find: Lookup<FakeMotor>) => {
+  server.handle(MotorService.SetPower, (req) => {
+    const motor = find(req.getName());
+    motor.power = req.getPowerPct();
+    return new motorApi.SetPowerResponse();
+  });
+  server.handle(MotorService.GoFor, (req) => {
+    const motor = find(req.getName());
+    const direction = Math.sign(req.getRpm());
+    if (req.getRevolutions() === 0) {
+      motor.rpm = req.getRpm();
+    } else {
+      motor.position += direction * req.getRevolutions();
+    }
+    return new motorApi.GoForResponse();
+  });
+  server.handle(MotorService.GoTo, (req) => {
+    const motor = find(req.getName());
+    motor.position = req.getPositionRevolutions();
+    return new motorApi.GoToResponse();
+  });
+  server.handle(MotorService.SetRPM, (req) => {
+    const motor = find(req.getName());
+    motor.rpm = req.getRpm();
+    return new motorApi.SetRPMResponse();
+  });
+  server.handle(MotorService.ResetZeroPosition, (req) => {
+    const motor = find(req.getName());
+    motor.position = req.getOffset();
+    return new motorApi.ResetZeroPositionResponse();
+  });
+  server.handle(MotorService.GetPosition, (req) => {
+    const response = new motorApi.GetPositionResponse();
+    response.setPosition(find(req.getName()).position);
+    return response;
+  });
+  server.handle(MotorService.GetProperties, (req) => {
+    const response = new motorApi.GetPropertiesResponse();
+    response.setPositionReporting(find(req.getName()).positionReporting);
+    return response;
+  });
+  server.handle(MotorService.Stop, (req) => {
+    find(req.getName()).stop();
+    return new motorApi.StopResponse();
+  });
+  server.handle(MotorService.IsPowered, (req) => {
+    const motor = find(req.getName());
+    const response = new motorApi.IsPoweredResponse();
+    response.setIsOn(motor.power !== 0);
+    response.setPowerPct(motor.power);
+    return response;
+  });
+  server.handle(MotorService.IsMoving, (req) => {
+    const response = new motorApi.IsMovingResponse();
+    response.setIsMoving(find(req.getName()).isMoving);
+    return response;
+  });
+  server.handle(MotorService.DoCommand, (req) => {
+    find(req.getName());
+    return echoCommand(req);
+  });
+};
+
+/** The in-memory state of a fake arm. */
+export class FakeArm extends FakeResource {
+  readonly subtype = 'arm';
+
+  pose: Pose = { x: 0, y: 0, z: 0, oX: 0, oY: 0, oZ: 1, theta: 0 };
+  jointPositions: number[] = [];
+}
+
+export const serveArms = (server: FakeServer, find: Lookup<FakeArm>) => {
+  server.handle(ArmService.GetEndPosition, (req) => {
+    const response = new armApi.GetEndPositionResponse();
+    response.setPose(encodePose(find(req.getName()).pose));
+    return response;
+  });
+  server.handle(ArmService.MoveToPosition, (req) => {
+    const arm = find(req.getName());
+    const to = req.getTo();
+    if (to) {
+      arm.pose = to.toObject();
+    }
+    return new armApi.MoveToPositionResponse();
+  });
+  server.handle(ArmService.GetJointPositions, (req) => {
+    const positions = new armApi.JointPositions();
+    positions.setValuesList(find(req.getName()).jointPositions);
+    const response = new armApi.GetJointPositionsResponse();
+    response.setPositions(positions);
+    return response;
+  });
+  server.handle(ArmService.MoveToJointPositions, (req) => {
+    const arm = find(req.getName());
+    arm.jointPositions = req.getPositions()?.getValuesList() ?? [];
+    return new armApi.MoveToJointPositionsResponse();
+  });
+  server.handle(ArmService.Stop, (req) => {
+    find(req.getName()).stop();
+    return new armApi.StopResponse();
+  });
+  server.handle(ArmService.IsMoving, (req) => {
+    find(req.getName());
+    const response = new armApi.IsMovingResponse();
+    response.setIsMoving(false);
+    return response;
+  });
+  server.handle(ArmService.DoCommand, (req) => {
+    find(req.getName());
+    return echoCommand(req);
+  });
+};
+
+/** The in-memory state of a fake camera. */
+export class FakeCamera extends FakeResource {
+  readonly subtype = 'camera';
+
+  image = new Uint8Array();
+  mimeType: MimeType = 'image/jpeg';
+  pointCloud: Uint8Array | undefined;
+}
+
+const imageFormats: Partial<
+  Record<MimeType, cameraApi.FormatMap[keyof cameraApi.FormatMap]>
+> = {
+  'image/vnd.viam.rgba': cameraApi.Format.FORMAT_RAW_RGBA,
+  'image/vnd.viam.dep': cameraApi.Format.FORMAT_RAW_DEPTH,
+  'image/jpeg': cameraApi.Format.FORMAT_JPEG,
+  'image/png': cameraApi.Format.FORMAT_PNG,
+};
+
+export const serveCameras = (server: FakeServer, find: Lookup<FakeCamera>) => {
+  server.handle(CameraService.GetImage, (req) => {
+    const camera = find(req.getName());
+    const response = new cameraApi.GetImageResponse();
+    response.setMimeType(camera.mimeType);
+    response.setImage(camera.image);
+    return response;
+  });
+  server.handle(CameraService.GetImages, (req) => {
+    const camera = find(req.getName());
+    const image = new cameraApi.Image();
+    image.setSourceName(camera.name);
+    image.setFormat(
+      imageFormats[camera.mimeType] ?? cameraApi.Format.FORMAT_UNSPECIFIED
+    );
+    image.setImage(camera.image);
+    const response = new cameraApi.GetImagesResponse();
+    response.addImages(image);
+    return response;
+  });
+  server.handle(CameraService.GetPointCloud, (req) => {
+    const camera = find(req.getName());
+    if (!camera.pointCloud) {
+      throw new FakeStatusError(
+        grpc.Code.Unimplemented,
+        'camera does not support point clouds'
+      );
+    }
+    const response = new cameraApi.GetPointCloudResponse();
+    response.setMimeType('pointcloud/pcd');
+    response.setPointCloud(camera.pointCloud);
+    return response;
+  });
+  server.handle(CameraService.GetProperties, (req) => {
+    const camera = find(req.getName());
+    const response = new cameraApi.GetPropertiesResponse();
+    response.setSupportsPcd(camera.pointCloud !== undefined);
+    return response;
+  });
+  server.handle(CameraService.DoCommand, (req) => {
+    find(req.getName());
+    return echoCommand(req);
+  });
+};
+
+/** The in-memory state of a fake board. */
+export class FakeBoard extends FakeResource {
+  readonly subtype = 'board';
+
+  gpio = new Map<string, boolean>();
+  pwm = new Map<string, number>();
+  pwmFrequency = new Map<string, number>();
+  analogReaders = new Map<string, number>();
+  analogWrites = new Map<string, number>();
+}
+
+export const serveBoards = (server: FakeServer, find: Lookup<FakeBoard>) => {
+  server.handle(BoardService.SetGPIO, (req) => {
+    find(req.getName()).gpio.set(req.getPin(), req.getHigh());
+    return new boardApi.SetGPIOResponse();
+  });
+  server.handle(BoardService.GetGPIO, (req) => {
+    const response = new boardApi.GetGPIOResponse();
+    response.setHigh(find(req.getName()).gpio.get(req.getPin()) ?? false);
+    return response;
+  });
+  server.handle(BoardService.SetPWM, (req) => {
+    find(req.getName()).pwm.set(req.getPin(), req.getDutyCyclePct());
+    return new boardApi.SetPWMResponse();
+  });
+  server.handle(BoardService.PWM, (req) => {
+    const response = new boardApi.PWMResponse();
+    response.setDutyCyclePct(find(req.getName()).pwm.get(req.getPin()) ?? 0);
+    return response;
+  });
+  server.handle(BoardService.SetPWMFrequency, (req) => {
+    find(req.getName()).pwmFrequency.set(req.getPin(), req.getFrequencyHz());
+    return new boardApi.SetPWMFrequencyResponse();
+  });
+  server.handle(BoardService.PWMFrequency, (req) => {
+    const response = new boardApi.PWMFrequencyResponse();
+    response.setFrequencyHz(
+      find(req.getName()).pwmFrequency.get(req.getPin()) ?? 0
+    );
+    return response;
+  });
+  server.handle(BoardService.ReadAnalogReader, (req) => {
+    const value = find(req.getBoardName()).analogReaders.get(
+      req.getAnalogReaderName()
+    );
+    if (value === undefined) {
+      throw new FakeStatusError(
+        grpc.Code.NotFound,
+        `unknown analog reader ${req.getAnalogReaderName()}`
+      );
+    }
+    const response = new boardApi.ReadAnalogReaderResponse();
+    response.setValue(value);
+    return response;
+  });
+  server.handle(BoardService.WriteAnalog, (req) => {
+    find(req.getName()).analogWrites.set(req.getPin(), req.getValue());
+    return new boardApi.WriteAnalogResponse();
+  });
+  server.handle(BoardService.DoCommand, (req) => {
+    find(req.getName());
+    return echoCommand(req);
+  });
+};
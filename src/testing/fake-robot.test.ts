@@ -0,0 +1,95 @@
+// @vitest-environment happy-dom
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { grpc } from '@improbable-eng/grpc-web';
+import motorApi from '../gen/component/motor/v1/motor_pb';
+import { MotorService } from '../gen/component/motor/v1/motor_pb_service';
+import { MotorClient } from '../components/motor';
+import { BoardClient } from '../components/board';
+import { createRobotClient, type RobotClient } from '../robot';
+import { FakeRobot } from './fake-robot';
+import { FakeStatusError } from './fake-server';
+
+describe('FakeRobot', () => {
+  let fake: FakeRobot;
+  let robot: RobotClient;
+
+  beforeEach(async () => {
+    fake = new FakeRobot();
+    fake.addMotor('left');
+    fake.addBoard('board');
+    robot = await createRobotClient({
+      host: 'fake.local',
+      transportFactory: fake.transportFactory,
+      disableSessions: true,
+      noReconnect: true,
+    });
+  });
+
+  afterEach(async () => {
+    await robot.disconnect();
+  });
+
+  it('lists resources', async () => {
+    await expect(robot.resourceNames()).resolves.toStrictEqual([
+      { namespace: 'rdk', type: 'component', subtype: 'motor', name: 'left' },
+      { namespace: 'rdk', type: 'component', subtype: 'board', name: 'board' },
+    ]);
+  });
+
+  it('serves component state', async () => {
+    const motor = new MotorClient(robot, 'left');
+    await motor.setPower(0.5);
+    await expect(motor.isPowered()).resolves.toStrictEqual([true, 0.5]);
+
+    const board = new BoardClient(robot, 'board');
+    await board.setGPIO('37', true);
+    await expect(board.getGPIO('37')).resolves.toBe(true);
+  });
+
+  it('records requests', async () => {
+    const motor = new MotorClient(robot, 'left');
+    await motor.goFor(60, 2);
+
+    const [request] = fake.server.requestsFor(MotorService.GoFor);
+    expect(request?.getRpm()).toBe(60);
+    expect(request?.getRevolutions()).toBe(2);
+  });
+
+  it('serves scripted responses and errors', async () => {
+    const motor = new MotorClient(robot, 'left');
+    fake.server.handleOnce(MotorService.IsMoving, () => {
+      const response = new motorApi.IsMovingResponse();
+      response.setIsMoving(true);
+      return response;
+    });
+    fake.server.handleOnce(MotorService.IsMoving, () => {
+      throw new FakeStatusError(grpc.Code.Unavailable, 'busy');
+    });
+
+    await expect(motor.isMoving()).resolves.toBe(true);
+    await expect(motor.isMoving()).rejects.toMatchObject({
+      code: grpc.Code.Unavailable,
+      message: 'busy',
+    });
+    await expect(motor.isMoving()).resolves.toBe(false);
+  });
+
+  it('returns not found for unknown resources', async () => {
+    const motor = new MotorClient(robot, 'right');
+    await expect(motor.stop()).rejects.toMatchObject({
+      code: grpc.Code.NotFound,
+    });
+  });
+
+  it('fails calls while disconnected', async () => {
+    const motor = new MotorClient(robot, 'left');
+    fake.disconnect();
+    await expect(motor.stop()).rejects.toMatchObject({
+      code: grpc.Code.Unknown,
+    });
+
+    fake.reconnect();
+    await expect(motor.stop()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,146 @@
+import { grpc } from '@improbable-eng/grpc-web';
+import robotApi from '../gen/robot/v1/robot_pb';
+import { RobotService } from '../gen/robot/v1/robot_pb_service';
+import type { ResourceName } from '../types';
+import { encodeResourceName } from '../utils';
+import {
+  FakeArm,
+  FakeBoard,
+  FakeCamera,
+  FakeMotor,
+  type FakeResource,
+  serveArms,
+  serveBoards,
+  serveCameras,
+  serveMotors,
+} from './fake-components';
+import { FakeServer, FakeStatusError } from './fake-server';
+
+/**
+ * An in-process fake machine for testing code that uses a {@link RobotClient}
+ * without a real machine.
+ *
+ * The fake serves `RobotService` and the motor, arm, camera and board APIs from
+ * in-memory state. Any other method can be scripted on `server`.
+ *
+ * @example
+ *
+ * ```ts
+ * const fake = new FakeRobot();
+ * const motor = fake.addMotor('left');
+ *
+ * const robot = await createRobotClient({
+ *   host: 'fake.local',
+ *   transportFactory: fake.transportFactory,
+ *   disableSessions: true,
+ *   noReconnect: true,
+ * });
+ *
+ * await new MotorClient(robot, 'left').setPower(0.5);
+ * expect(motor.power).toBe(0.5);
+ * ```
+ *
+ * @alpha
+ * @group Testing
+ */
+export class FakeRobot {
+  public readonly server = new FakeServer();
+
+  private readonly resources = new Map<string, FakeResource>();
+  private readonly servedSubtypes = new Set<string>();
+
+  constructor() {
+    this.server.handle(RobotService.ResourceNames, () => {
+      const response = new robotApi.ResourceNamesResponse();
+      response.setResourcesList(
+        this.resourceNames().map((name) => encodeResourceName(name))
+      );
+      return response;
+    });
+    this.server.handle(
+      RobotService.GetOperations,
+      () => new robotApi.GetOperationsResponse()
+    );
+    this.server.handle(RobotService.StopAll, () => {
+      for (const resource of this.resources.values()) {
+        resource.stop();
+      }
+      return new robotApi.StopAllResponse();
+    });
+    this.server.handle(RobotService.StartSession, () => {
+      throw new FakeStatusError(
+        grpc.Code.Unimplemented,
+        'sessions are not supported by the fake robot'
+      );
+    });
+  }
+
+  get transportFactory() {
+    return this.server.transportFactory;
+  }
+
+  /** The names of every resource on the fake machine. */
+  resourceNames(): ResourceName[] {
+    return [...this.resources.values()].map((resource) => ({
+      namespace: 'rdk',
+      type: 'component',
+      subtype: resource.subtype,
+      name: resource.name,
+    }));
+  }
+
+  addMotor(name: string) {
+    return this.add(new FakeMotor(name), serveMotors);
+  }
+
+  addArm(name: string) {
+    return this.add(new FakeArm(name), serveArms);
+  }
+
+  addCamera(name: string) {
+    return this.add(new FakeCamera(name), serveCameras);
+  }
+
+  addBoard(name: string) {
+    return this.add(new FakeBoard(name), serveBoards);
+  }
+
+  /** Remove a resource, as if it was removed from the machine's config. */
+  removeResource(subtype: string, name: string) {
+    this.resources.delete(`${subtype}/${name}`);
+  }
+
+  /** Simulate losing the connection to the machine. */
+  disconnect() {
+    this.server.disconnect();
+  }
+
+  /** Bring the machine back after a simulated disconnect. */
+  reconnect() {
+    this.server.reconnect();
+  }
+
+  private add<T extends FakeResource>(
+    resource: T,
+    serve: (server: FakeServer, find: (name: string) => T) => void
+  ): T {
+    const { subtype } = resource;
+    this.resources.set(`${subtype}/${resource.name}`, resource);
+    if (!this.servedSubtypes.has(subtype)) {
+      this.servedSubtypes.add(subtype);
+      serve(this.server, (name) => this.lookup<T>(subtype, name));
+    }
+    return resource;
+  }
+
+  private lookup<T extends FakeResource>(subtype: string, name: string): T {
+    const resource = this.resources.get(`${subtype}/${name}`);
+    if (!resource) {
+      throw new FakeStatusError(
+        grpc.Code.NotFound,
+        `resource "rdk:component:${subtype}/${name}" not found`
+      );
+    }
+    return resource as T;
+  }
+}
@@ -0,0 +1,387 @@
+/* eslint-disable max-classes-per-file */
+import { grpc } from '@improbable-eng/grpc-web';
+
+type Message = grpc.ProtobufMessage;
+
+/**
+ * The subset of a generated gRPC method definition (e.g. `MotorService.GoFor`)
+ * needed to route a call to a fake handler.
+ */
+export interface FakeMethod<Req extends Message, Resp extends Message> {
+  readonly methodName: string;
+  readonly service: { readonly serviceName: string };
+  readonly requestStream: boolean;
+  readonly responseStream: boolean;
+  readonly requestType: grpc.ProtobufMessageClass<Req>;
+  readonly responseType: grpc.ProtobufMessageClass<Resp>;
+}
+
+/** Handles a unary call and returns the response message. */
+export type FakeUnaryHandler<Req, Resp> = (
+  request: Req,
+  metadata: grpc.Metadata
+) => Resp | Promise<Resp>;
+
+/**
+ * Handles a server-streaming call. Every value produced by the returned
+ * iterable is sent to the client as a separate message.
+ */
+export type FakeStreamHandler<Req, Resp> = (
+  request: Req,
+  metadata: grpc.Metadata
+) => Iterable<Resp> | AsyncIterable<Resp>;
+
+/** A request received by a {@link FakeServer}. */
+export interface FakeRequest {
+  /** The full method path, e.g. `viam.component.motor.v1.MotorService/GoFor` */
+  method: string;
+  request: Message;
+  metadata: grpc.Metadata;
+}
+
+/**
+ * Throw from a fake handler to end the call with a specific gRPC status code
+ * instead of `Unknown`.
+ */
+export class FakeStatusError extends Error {
+  override name = 'FakeStatusError';
+
+  constructor(
+    public readonly code: grpc.Code,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+type Handler =
+  | { streaming: false; fn: FakeUnaryHandler<Message, Message>; once: boolean }
+  | { streaming: true; fn: FakeStreamHandler<Message, Message>; once: boolean };
+
+/** What a {@link FakeTransport} needs from the server that created it. */
+interface ServerHooks {
+  connected: () => boolean;
+  record: (request: FakeRequest) => void;
+  resolve: (path: string) => Handler | undefined;
+  untrack: (transport: FakeTransport) => void;
+}
+
+const methodPath = (method: {
+  readonly methodName: string;
+  readonly service: { readonly serviceName: string };
+}) => `${method.service.serviceName}/${method.methodName}`;
+
+const FRAME_HEADER_SIZE = 5;
+const TRAILER_FLAG = 0x80;
+
+const frame = (flag: number, payload: Uint8Array) => {
+  const out = new Uint8Array(FRAME_HEADER_SIZE + payload.length);
+  out[0] = flag;
+  new DataView(out.buffer).setUint32(1, payload.length);
+  out.set(payload, FRAME_HEADER_SIZE);
+  return out;
+};
+
+const unframe = (chunks: Uint8Array[]) => {
+  const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
+  const bytes = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  if (bytes.length < FRAME_HEADER_SIZE) {
+    return new Uint8Array();
+  }
+  const length = new DataView(bytes.buffer).getUint32(1);
+  return bytes.subarray(FRAME_HEADER_SIZE, FRAME_HEADER_SIZE + length);
+};
+
+const trailers = (code: grpc.Code, message = '') =>
+  frame(
+    TRAILER_FLAG,
+    new TextEncoder().encode(
+      `grpc-status: ${code}\r\ngrpc-message: ${encodeURIComponent(message)}\r\n`
+    )
+  );
+
+const toHandler = <Req extends Message, Resp extends Message>(
+  method: FakeMethod<Req, Resp>,
+  handler: FakeUnaryHandler<Req, Resp> | FakeStreamHandler<Req, Resp>
+): Handler =>
+  method.responseStream
+    ? {
+        streaming: true,
+        fn: handler as unknown as FakeStreamHandler<Message, Message>,
+        once: false,
+      }
+    : {
+        streaming: false,
+        fn: handler as unknown as FakeUnaryHandler<Message, Message>,
+        once: false,
+      };
+
+class FakeTransport implements grpc.Transport {
+  private readonly opts: grpc.TransportOptions;
+  private readonly server: ServerHooks;
+  private readonly chunks: Uint8Array[] = [];
+  private metadata = new grpc.Metadata();
+  private headersSent = false;
+
+  private finished = false;
+
+  constructor(opts: grpc.TransportOptions, server: ServerHooks) {
+    this.opts = opts;
+    this.server = server;
+  }
+
+  public start(metadata: grpc.Metadata) {
+    this.metadata = metadata;
+  }
+
+  public sendMessage(msgBytes: Uint8Array) {
+    this.chunks.push(msgBytes);
+  }
+
+  public finishSend() {
+    // Respond asynchronously, like a real transport would.
+    setTimeout(() => {
+      void this.respond();
+    }, 0);
+  }
+
+  public cancel() {
+    this.finish();
+  }
+
+  /** End the call as if the underlying connection was lost. */
+  public disconnect() {
+    if (this.finished) {
+      return;
+    }
+    this.finish();
+    this.opts.onEnd(new Error('connection closed'));
+  }
+
+  private finish() {
+    this.finished = true;
+    this.server.untrack(this);
+  }
+
+  /** Read through a call so the flag is re-checked after awaits. */
+  private isFinished() {
+    return this.finished;
+  }
+
+  private async respond() {
+    if (this.finished) {
+      return;
+    }
+    if (!this.server.connected()) {
+      this.disconnect();
+      return;
+    }
+
+    const { methodDefinition } = this.opts;
+    const request = methodDefinition.requestType.deserializeBinary(
+      unframe(this.chunks)
+    );
+    const method = methodPath(methodDefinition);
+    this.server.record({ method, request, metadata: this.metadata });
+
+    const handler = this.server.resolve(method);
+    if (!handler) {
+      this.end(grpc.Code.Unimplemented, `unknown method ${method}`);
+      return;
+    }
+
+    try {
+      if (handler.streaming) {
+        this.sendHeaders();
+        for await (const response of handler.fn(request, this.metadata)) {
+          // The call may have been cancelled while awaiting the handler.
+          if (this.isFinished()) {
+            return;
+          }
+          this.opts.onChunk(frame(0, response.serializeBinary()));
+        }
+      } else {
+        const response = await handler.fn(request, this.metadata);
+        if (this.isFinished()) {
+          return;
+        }
+        this.sendHeaders();
+        this.opts.onChunk(frame(0, response.serializeBinary()));
+      }
+      this.end(grpc.Code.OK);
+    } catch (error) {
+      if (error instanceof FakeStatusError) {
+        this.end(error.code, error.message);
+      } else {
+        this.end(
+          grpc.Code.Unknown,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+  }
+
+  private sendHeaders() {
+    if (this.headersSent) {
+      return;
+    }
+    this.headersSent = true;
+    this.opts.onHeaders(
+      new grpc.Metadata({ 'content-type': 'application/grpc-web+proto' }),
+      200
+    );
+  }
+
+  private end(code: grpc.Code, message = '') {
+    if (this.finished) {
+      return;
+    }
+    if (this.headersSent) {
+      this.opts.onChunk(trailers(code, message));
+    } else {
+      // Trailers-only response
+      this.opts.onHeaders(
+        new grpc.Metadata({
+          'grpc-status': `${code}`,
+          'grpc-message': encodeURIComponent(message),
+        }),
+        200
+      );
+    }
+    this.finish();
+    this.opts.onEnd();
+  }
+}
+
+/**
+ * An in-process gRPC-web server. Pass its `transportFactory` anywhere a
+ * `grpc.TransportFactory` is accepted to serve calls from scripted handlers
+ * without any network.
+ *
+ * @example
+ *
+ * ```ts
+ * const server = new FakeServer();
+ * server.handle(MotorService.IsMoving, () => {
+ *   const response = new motorApi.IsMovingResponse();
+ *   response.setIsMoving(true);
+ *   return response;
+ * });
+ * ```
+ *
+ * @alpha
+ * @group Testing
+ */
+export class FakeServer {
+  private readonly handlers = new Map<string, Handler[]>();
+  private readonly active = new Set<FakeTransport>();
+
+  /** Every request received by the server, in order. */
+  public readonly requests: FakeRequest[] = [];
+
+  private isConnected = true;
+
+  private readonly hooks: ServerHooks = {
+    connected: () => this.isConnected,
+    record: (request) => {
+      this.requests.push(request);
+    },
+    resolve: (path) => {
+      const handlers = this.handlers.get(path);
+      const [handler] = handlers ?? [];
+      if (handler?.once) {
+        handlers?.shift();
+      }
+      return handler;
+    },
+    untrack: (transport) => {
+      this.active.delete(transport);
+    },
+  };
+
+  get connected() {
+    return this.isConnected;
+  }
+
+  get transportFactory(): grpc.TransportFactory {
+    return (opts: grpc.TransportOptions): grpc.Transport => {
+      const transport = new FakeTransport(opts, this.hooks);
+      this.active.add(transport);
+      return transport;
+    };
+  }
+
+  /**
+   * Register a handler for a unary or server-streaming method, replacing any
+   * previous one registered with `handle`. Handlers queued with `handleOnce`
+   * still answer first.
+   *
+   * @param method - The generated method definition, e.g. `MotorService.GoFor`
+   * @param handler - Returns the response for unary methods or an iterable of
+   *   responses for streaming methods.
+   */
+  handle<Req extends Message, Resp extends Message>(
+    method: FakeMethod<Req, Resp>,
+    handler: FakeUnaryHandler<Req, Resp> | FakeStreamHandler<Req, Resp>
+  ) {
+    const path = methodPath(method);
+    const once = (this.handlers.get(path) ?? []).filter((h) => h.once);
+    this.handlers.set(path, [...once, toHandler(method, handler)]);
+  }
+
+  /**
+   * Register a handler that answers a single call to a method. One-shot
+   * handlers are used in the order they were added, before falling back to the
+   * handler registered with `handle`.
+   */
+  handleOnce<Req extends Message, Resp extends Message>(
+    method: FakeMethod<Req, Resp>,
+    handler: FakeUnaryHandler<Req, Resp> | FakeStreamHandler<Req, Resp>
+  ) {
+    const path = methodPath(method);
+    const handlers = this.handlers.get(path) ?? [];
+    const persistent = handlers.filter((h) => !h.once);
+    const once = handlers.filter((h) => h.once);
+    this.handlers.set(path, [
+      ...once,
+      { ...toHandler(method, handler), once: true },
+      ...persistent,
+    ]);
+  }
+
+  /** Get the requests received for a method. */
+  requestsFor<Req extends Message, Resp extends Message>(
+    method: FakeMethod<Req, Resp>
+  ): Req[] {
+    const path = methodPath(method);
+    return this.requests
+      .filter((r) => r.method === path)
+      .map((r) => r.request as Req);
+  }
+
+  /**
+   * Simulate a lost connection. In-flight calls are ended with a transport
+   * error and new calls fail until `reconnect` is called.
+   */
+  disconnect() {
+    this.isConnected = false;
+    for (const transport of this.active) {
+      transport.disconnect();
+    }
+  }
+
+  /** Accept calls again after a simulated `disconnect`. */
+  reconnect() {
+    this.isConnected = true;
+  }
+
+  /** Forget every recorded request. */
+  clearRequests() {
+    this.requests.length = 0;
+  }
+}
@@ -7,13 +7,43 @@ export interface Options {
   requestLogger?: (req: unknown) => void;
 }
 
+/** Options that apply to a single call to a robot. */
+export interface CallOptions {
+  /**
+   * Fail the call with a `DeadlineExceededError` if it has not completed after
+   * this many milliseconds. The deadline is also sent to the robot.
+   */
+  timeout?: number;
+
+  /** Cancel the call when the signal is aborted. */
+  signal?: AbortSignal;
+
+  /** Extra metadata headers to send with the call. */
+  metadata?: Record<string, string | string[]>;
+
+  /**
+   * Whether to retry the call if it fails with a transient error, using the
+   * robot client's retry policy. Read-only calls are retried by default; pass
+   * `true` to retry a call that moves the robot, or `false` to never retry.
+   *
+   * Retries are at least once: a call whose connection is lost may already have
+   * reached the robot, so a retried call that moves it can run twice. Only pass
+   * `true` for calls that are safe to repeat, such as moving to an absolute
+   * position.
+   */
+  retry?: boolean;
+}
+
 export interface Resource {
   /**
    * Send/Receive arbitrary commands to the resource.
    *
    * @param command - The command to execute.
    */
-  doCommand: (command: StructType) => Promise<StructType>;
+  doCommand: (
+    command: StructType,
+    callOptions?: CallOptions
+  ) => Promise<StructType>;
 }
 
 // Common Protobuf Types
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { grpc } from '@improbable-eng/grpc-web';
+import { CancelledError, DeadlineExceededError } from './errors';
+import type { ServiceError } from './gen/robot/v1/robot_pb_service';
+import { retryMetadataKey } from './retry';
+import { promisify } from './utils';
+
+type Callback = (error: ServiceError | null, response: string | null) => void;
+
+describe('promisify call options', () => {
+  const request = { getName: () => 'left' };
+  let cancel: ReturnType<typeof vi.fn>;
+  let callback: Callback | undefined;
+  let metadata: grpc.Metadata | undefined;
+
+  const service = {
+    goFor(_req: typeof request, md: grpc.Metadata, cb: Callback) {
+      metadata = md;
+      callback = cb;
+      return { cancel };
+    },
+  };
+  const goFor = service.goFor.bind(service);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    cancel = vi.fn();
+    callback = undefined;
+    metadata = undefined;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends extra metadata', async () => {
+    const promise = promisify(goFor, request, {
+      metadata: { 'x-trace-id': 'abc' },
+    });
+    callback?.(null, 'done');
+
+    await expect(promise).resolves.toBe('done');
+    expect(metadata?.get('x-trace-id')).toStrictEqual(['abc']);
+  });
+
+  it('asks the transport to retry the call', async () => {
+    const promise = promisify(goFor, request, { retry: true });
+    callback?.(null, 'done');
+
+    await expect(promise).resolves.toBe('done');
+    expect(metadata?.get(retryMetadataKey)).toStrictEqual(['true']);
+  });
+
+  it('fails and cancels the call when the timeout passes', async () => {
+    const promise = promisify(goFor, request, { timeout: 100 }, 'goFor');
+    expect(metadata?.get('grpc-timeout')).toStrictEqual(['100m']);
+
+    vi.advanceTimersByTime(100);
+
+    await expect(promise).rejects.toBeInstanceOf(DeadlineExceededError);
+    await expect(promise).rejects.toMatchObject({
+      resourceName: 'left',
+      method: 'goFor',
+    });
+    expect(cancel).toHaveBeenCalledOnce();
+  });
+
+  it('clears the timeout when the call completes', async () => {
+    const promise = promisify(goFor, request, { timeout: 100 });
+    callback?.(null, 'done');
+    vi.advanceTimersByTime(100);
+
+    await expect(promise).resolves.toBe('done');
+    expect(cancel).not.toHaveBeenCalled();
+  });
+
+  it('cancels the call when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const promise = promisify(goFor, request, { signal: controller.signal });
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancelledError);
+    expect(cancel).toHaveBeenCalledOnce();
+  });
+
+  it('does not start the call when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      promisify(goFor, request, { signal: controller.signal })
+    ).rejects.toBeInstanceOf(CancelledError);
+    expect(callback).toBeUndefined();
+  });
+});
@@ -2,33 +2,122 @@ import { grpc } from '@improbable-eng/grpc-web';
 import { Struct } from 'google-protobuf/google/protobuf/struct_pb';
 import type { ServiceError } from './gen/robot/v1/robot_pb_service';
 import common from './gen/common/v1/common_pb';
-import type { Options, StructType, Vector3 } from './types';
+import type { CallOptions, Options, StructType, Vector3 } from './types';
+import {
+  CancelledError,
+  DeadlineExceededError,
+  createViamError,
+  type ViamErrorOptions,
+} from './errors';
 import { apiVersion } from './api-version';
+import { retryMetadataKey } from './retry';
 
 type Callback<T> = (error: ServiceError | null, response: T | null) => void;
 
+interface UnaryCall {
+  cancel: () => void;
+}
+
 type ServiceFunc<Req, Resp> = (
   request: Req,
   metadata: grpc.Metadata,
   callback: Callback<Resp>
-) => void;
+) => UnaryCall | undefined;
+
+/**
+ * Name the method being called and, when the request has one, the resource it
+ * is made on, for errors the call fails with.
+ */
+const callContext = <Req>(
+  request: Req,
+  method: string | undefined
+): ViamErrorOptions => {
+  const { getName } = request as { getName?: () => string };
+  return {
+    resourceName:
+      typeof getName === 'function' ? getName.call(request) : undefined,
+    method,
+  };
+};
 
+/**
+ * Convert an error returned by a generated client into a ViamError. Errors that
+ * are not gRPC statuses are returned unchanged.
+ */
+const toViamError = (error: ServiceError, context: ViamErrorOptions) => {
+  if (error instanceof Error) {
+    return error;
+  }
+  return createViamError(error.code, error.message, {
+    ...context,
+    metadata: error.metadata,
+  });
+};
+
+/**
+ * Call a generated client method and resolve with its response.
+ *
+ * @param method - The name of the client method, e.g. `goFor`, for errors the
+ *   call fails with. Function names cannot be relied on once minified.
+ */
 export const promisify = async <Req, Resp>(
   func: ServiceFunc<Req, Resp>,
-  request: Req
+  request: Req,
+  callOptions?: CallOptions,
+  method?: string
 ): Promise<Resp> => {
+  const { timeout, signal, metadata, retry } = callOptions ?? {};
+  const context = callContext(request, method);
+  if (signal?.aborted) {
+    throw new CancelledError('The call was aborted', context);
+  }
+
+  const md = new grpc.Metadata(metadata);
+  if (timeout !== undefined) {
+    md.set('grpc-timeout', `${Math.ceil(timeout)}m`);
+  }
+  if (retry !== undefined) {
+    md.set(retryMetadataKey, `${retry}`);
+  }
+
   return new Promise((resolve, reject) => {
-    func(request, new grpc.Metadata(), (error, response) => {
+    const finished = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const call = func(request, md, (error, response) => {
+      finished.abort();
+      clearTimeout(timer);
       if (error) {
-        reject(error);
-        return;
-      }
-      if (!response) {
+        reject(toViamError(error, context));
+      } else if (response) {
+        resolve(response);
+      } else {
         reject(new Error('no response'));
-        return;
       }
-      resolve(response);
     });
+
+    const cancel = (reason: Error) => {
+      finished.abort();
+      clearTimeout(timer);
+      call?.cancel();
+      reject(reason);
+    };
+
+    signal?.addEventListener(
+      'abort',
+      () => cancel(new CancelledError('The call was aborted', context)),
+      { signal: finished.signal }
+    );
+    if (timeout !== undefined && !finished.signal.aborted) {
+      timer = setTimeout(() => {
+        cancel(
+          new DeadlineExceededError(
+            `The call did not complete within ${timeout} ms`,
+            context
+          )
+        );
+      }, timeout);
+    }
   });
 };
 
@@ -41,7 +130,8 @@ export const doCommandFromClient = async function doCommandFromClient(
   client: DoCommandClient,
   name: string,
   command: StructType,
-  options: Options = {}
+  options: Options = {},
+  callOptions: CallOptions = {}
 ): Promise<StructType> {
   const request = new common.DoCommandRequest();
   request.setName(name);
@@ -52,7 +142,7 @@ export const doCommandFromClient = async function doCommandFromClient(
   const response = await promisify<
     common.DoCommandRequest,
     common.DoCommandResponse
-  >(client.doCommand.bind(client), request);
+  >(client.doCommand.bind(client), request, callOptions, 'doCommand');
   const result = response.getResult()?.toJavaScript();
   if (!result) {
     return {};
@@ -4,39 +4,57 @@ import { defineConfig } from 'vite';
 
 import pkg from './package.json';
 
+// Entry points built alongside the browser one, with `vite build --mode <name>`
+const extraEntries: Record<string, string> = {
+  node: 'src/node.ts',
+  testing: 'src/testing.ts',
+};
+
 // https://vitejs.dev/config/
-export default defineConfig({
-  define: {
-    'process.env.NODE_ENV': '"production"',
-    __VERSION__: JSON.stringify(pkg.version),
-  },
-  build: {
-    commonjsOptions: {
-      transformMixedEsModules: true,
-      include: [
-        /exponential-backoff/u,
-        /google-protobuf/u,
-        /@improbable-eng\/grpc-web/u,
-        /gen\//u,
-      ],
-    },
-    minify: true,
-    target: 'esnext',
-    lib: {
-      entry: path.resolve(__dirname, 'src/main.ts'),
-      name: 'sdk',
-      fileName: (format) => `main.${format}.js`,
+export default defineConfig(({ mode }) => {
+  const entry = extraEntries[mode];
+  return {
+    define: {
+      'process.env.NODE_ENV': '"production"',
+      __VERSION__: JSON.stringify(pkg.version),
     },
-    rollupOptions: {
-      onwarn: (warning, warn) => {
-        if (warning.code === 'EVAL') {
-          return;
-        }
-        warn(warning);
+    build: {
+      commonjsOptions: {
+        transformMixedEsModules: true,
+        include: [
+          /exponential-backoff/u,
+          /google-protobuf/u,
+          /@improbable-eng\/grpc-web/u,
+          /gen\//u,
+        ],
       },
+      minify: true,
+      target: 'esnext',
+      emptyOutDir: entry === undefined,
+      lib:
+        entry === undefined
+          ? {
+              entry: path.resolve(__dirname, 'src/main.ts'),
+              name: 'sdk',
+              fileName: (format) => `main.${format}.js`,
+            }
+          : {
+              entry: path.resolve(__dirname, entry),
+              formats: ['es', 'cjs'],
+              fileName: (format) => `${mode}.${format}.js`,
+            },
+      rollupOptions: {
+        external: [/^node:/u],
+        onwarn: (warning, warn) => {
+          if (warning.code === 'EVAL') {
+            return;
+          }
+          warn(warning);
+        },
+      },
+    },
+    test: {
+      mockReset: true,
     },
-  },
-  test: {
-    mockReset: true,
-  },
+  };
 });